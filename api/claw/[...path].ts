@@ -0,0 +1,193 @@
+/**
+ * Claw Agent API Endpoint
+ * Serves every /api/claw/* route advertised by ClawAdapter.getEndpoints()
+ */
+
+import {
+  ClawAdapter,
+  clawErrorStatus,
+  type ClawResponse,
+  type ClawServerState,
+} from '../../src/api/clawAdapter';
+
+// In-memory storage for demo (use a database in production)
+// Strategies and alerts created by agents live here; the terminal keeps its own in localStorage
+const serverState: ClawServerState = {
+  strategies: [],
+  alerts: [],
+};
+
+type Request = {
+  method: string;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+  url?: string;
+  query?: Record<string, string | string[] | undefined>;
+};
+
+type Response = {
+  setHeader: (name: string, value: string) => void;
+  status: (code: number) => { json: (data: any) => void; end: () => void };
+};
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// The server's own keys are only lent to callers holding CLAW_API_SECRET
+function isAuthorized(req: Request): boolean {
+  const secret = process.env.CLAW_API_SECRET;
+  return Boolean(secret) && header(req, 'authorization') === `Bearer ${secret}`;
+}
+
+function createAdapter(req: Request): ClawAdapter {
+  const trusted = isAuthorized(req);
+  const apiKey = header(req, 'x-api-key');
+  const userKey = header(req, 'x-user-key');
+  const ownKeys = Boolean(apiKey || userKey);
+  // X-Etoro-Mode picks the account for the caller's own keys; server keys stay in ETORO_MODE
+  const mode = ownKeys ? header(req, 'x-etoro-mode') : process.env.ETORO_MODE;
+
+  return new ClawAdapter({
+    apiKey: ownKeys ? apiKey : trusted ? process.env.ETORO_API_KEY : undefined,
+    userKey: ownKeys ? userKey : trusted ? process.env.ETORO_USER_KEY : undefined,
+    fdApiKey: header(req, 'x-fd-api-key') || (trusted ? process.env.FD_API_KEY : undefined),
+    demo: (mode || 'demo') !== 'real',
+  });
+}
+
+async function route(
+  adapter: ClawAdapter,
+  req: Request,
+  segments: string[],
+  params: URLSearchParams
+): Promise<ClawResponse<unknown>> {
+  const [resource, arg] = segments;
+  const method = req.method;
+  const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+
+  const notAllowed = (allowed: string) => adapter.wrapError({
+    code: 'METHOD_NOT_ALLOWED',
+    message: `${method} not supported on /api/claw/${segments.join('/')}`,
+    suggestion: `Use ${allowed}`,
+  });
+  const missingSymbol = () => adapter.wrapError({
+    code: 'INVALID_REQUEST',
+    message: `Missing symbol: /api/claw/${resource}/:symbol`,
+    suggestion: `e.g. /api/claw/${resource}/AAPL`,
+  });
+
+  switch (resource) {
+    case undefined:
+    case 'status':
+      return method === 'GET' ? adapter.getStatus() : notAllowed('GET');
+
+    case 'quote':
+      if (method !== 'GET') return notAllowed('GET');
+      return arg ? adapter.getQuote(arg) : missingSymbol();
+
+    case 'portfolio':
+      return method === 'GET' ? adapter.getPortfolio() : notAllowed('GET');
+
+    case 'insider':
+      if (method !== 'GET') return notAllowed('GET');
+      return arg ? adapter.getInsider(arg, Number(params.get('limit')) || undefined) : missingSymbol();
+
+    case 'fundamentals':
+      if (method !== 'GET') return notAllowed('GET');
+      return arg ? adapter.getFundamentals(arg, params.get('period') || undefined) : missingSymbol();
+
+    case 'filings':
+      if (method !== 'GET') return notAllowed('GET');
+      return arg ? adapter.getFilings(arg, params.get('type') || undefined) : missingSymbol();
+
+    case 'institutional':
+      if (method !== 'GET') return notAllowed('GET');
+      return arg ? adapter.getInstitutional(arg) : missingSymbol();
+
+    case 'strategy':
+      if (arg === 'list') {
+        return method === 'GET' ? adapter.listStrategies(serverState) : notAllowed('GET');
+      }
+      if (arg === 'create') {
+        if (method !== 'POST') return notAllowed('POST');
+        const created = adapter.createStrategy(body);
+        if (created.success && created.data) {
+          serverState.strategies.push(created.data);
+        }
+        return created;
+      }
+      break;
+
+    case 'alerts':
+      if (method === 'GET') return adapter.listAlerts(serverState);
+      if (method === 'POST') {
+        const created = await adapter.createAlert(body);
+        if (created.success && created.data) {
+          serverState.alerts.push(created.data);
+        }
+        return created;
+      }
+      return notAllowed('GET or POST');
+
+    case 'command':
+      if (method !== 'POST') return notAllowed('POST');
+      if (!body.command || typeof body.command !== 'string') {
+        return adapter.wrapError({
+          code: 'INVALID_REQUEST',
+          message: 'Missing required field: command',
+          suggestion: '{ "command": "Q AAPL" }',
+        });
+      }
+      return adapter.executeCommand(body.command, serverState);
+  }
+
+  return adapter.wrapError({
+    code: 'NOT_FOUND',
+    message: `Unknown endpoint: /api/claw/${segments.join('/')}`,
+    suggestion: 'GET /api/claw/status lists the available endpoints',
+  });
+}
+
+export default async function handler(req: Request, res: Response) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Api-Key, X-User-Key, X-FD-Api-Key, X-Etoro-Mode');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const adapter = createAdapter(req);
+
+  try {
+    const url = new URL(req.url || '/api/claw', 'http://localhost');
+    const segments = url.pathname
+      .replace(/^\/api\/claw\/?/, '')
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    const response = await route(adapter, req, segments, url.searchParams);
+    const status = response.success ? 200 : clawErrorStatus(response.error?.code ?? '');
+    return res.status(status).json(response);
+  } catch (error) {
+    if (error instanceof URIError) {
+      return res.status(400).json(adapter.wrapError({
+        code: 'INVALID_REQUEST',
+        message: 'Request path is not valid percent-encoding',
+        suggestion: 'e.g. /api/claw/quote/AAPL',
+      }));
+    }
+
+    console.error('[Claw API] Error:', error);
+    const isBadJson = error instanceof SyntaxError;
+    return res.status(isBadJson ? 400 : 500).json(adapter.wrapError({
+      code: isBadJson ? 'INVALID_REQUEST' : 'API_ERROR',
+      message: isBadJson ? 'Request body is not valid JSON' : 'Internal server error',
+      recoverable: true,
+    }));
+  }
+}
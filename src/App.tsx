@@ -8,9 +8,17 @@ import { WorkspaceProvider, useWorkspaceContext } from './contexts/WorkspaceCont
 import TradingModeIndicator from './components/TradingModeIndicator';
 import DiagnosticsDrawer from './components/DiagnosticsDrawer';
 import { PanelRegistry } from './components/Workspace/PanelRegistry';
+import { CommandRegistry, type CommandArgs, type PriceValue } from './components/Workspace/CommandRegistry';
 import { keyManager } from './services/keyManager';
 import { streamingService } from './services/streamingService';
+import { strategyRunner } from './services/strategyRunner';
+import { webhookDispatcher } from './services/webhookDispatcher';
+import { journalService } from './services/journalService';
+import { getDefaultAlertsEngine } from './services/alertsEngine';
+import { CHART_TIMEFRAMES, type ChartTimeframe } from './services/chartDataService';
+import type { ResolvedSymbol } from './services/symbolResolver';
 import { etoroApi } from './services/etoroApi';
+import { shortcutsRegistry, useShortcut } from './utils/accessibility';
 // These services initialize on import (side effects)
 import './services/healthService';
 import './services/exportService';
@@ -22,16 +30,17 @@ import WatchlistsPanel from './components/panels/WatchlistsPanel';
 import WatchlistMonitorPanel from './components/panels/WatchlistMonitorPanel';
 import CuratedListsPanel from './components/panels/CuratedListsPanel';
 import RecommendationsPanel from './components/panels/RecommendationsPanel';
-import TradeTicket from './components/panels/TradeTicket';
+import TradeTicket, { type TradeTicketIntent } from './components/panels/TradeTicket';
 import BlotterPanel from './components/panels/BlotterPanel';
-import PortfolioPanel from './components/panels/PortfolioPanel';
-import ChartPanel from './components/panels/ChartPanel';
+import PortfolioPanel, { type PortfolioIntent } from './components/panels/PortfolioPanel';
+import ChartPanel, { type ChartIntent } from './components/panels/ChartPanel';
 import AlertsPanel from './components/panels/AlertsPanel';
 import TraderSearchPanel from './components/panels/TraderSearchPanel';
 import TraderProfilePanel from './components/panels/TraderProfilePanel';
 import FeedsPanel from './components/panels/FeedsPanel';
 import ApiTesterPanel from './components/panels/ApiTesterPanel';
 import HelpPanel from './components/panels/HelpPanel';
+import KeyboardShortcutsPanel from './components/panels/KeyboardShortcutsPanel';
 import ConnectionStatusPanel from './components/panels/ConnectionStatusPanel';
 import AssetExplorerPanel from './components/panels/AssetExplorerPanel';
 import ActivityPanel from './components/panels/ActivityPanel';
@@ -41,6 +50,9 @@ import QuantChatPanel from './components/panels/QuantChatPanel';
 import PositionSizingPanel from './components/panels/PositionSizingPanel';
 import DataExportPanel from './components/panels/DataExportPanel';
 import TradeJournalPanel from './components/panels/TradeJournalPanel';
+import ClosedTradesPanel from './components/panels/ClosedTradesPanel';
+import ExposurePanel from './components/panels/ExposurePanel';
+import RiskPanel from './components/panels/RiskPanel';
 import CorrelationMatrixPanel from './components/panels/CorrelationMatrixPanel';
 import WebhookAlertsPanel from './components/panels/WebhookAlertsPanel';
 import NewsPanel from './components/panels/NewsPanel';
@@ -57,6 +69,7 @@ function registerPanels() {
     component: QuotePanelSimple,
     defaultWidth: 400,
     defaultHeight: 350,
+    command: { description: 'Get price quote for symbol', args: [{ name: 'symbol', type: 'symbol' }] },
   });
 
   PanelRegistry.register({
@@ -65,6 +78,7 @@ function registerPanels() {
     component: WatchlistsPanel,
     defaultWidth: 300,
     defaultHeight: 400,
+    command: { description: 'View/manage watchlist' },
   });
 
   PanelRegistry.register({
@@ -73,6 +87,7 @@ function registerPanels() {
     component: WatchlistMonitorPanel,
     defaultWidth: 500,
     defaultHeight: 400,
+    command: { description: 'Monitor watchlist prices' },
   });
 
   PanelRegistry.register({
@@ -81,6 +96,7 @@ function registerPanels() {
     component: CuratedListsPanel,
     defaultWidth: 400,
     defaultHeight: 400,
+    command: { description: 'Browse curated lists' },
   });
 
   PanelRegistry.register({
@@ -89,6 +105,7 @@ function registerPanels() {
     component: RecommendationsPanel,
     defaultWidth: 400,
     defaultHeight: 400,
+    command: { description: 'View recommendations' },
   });
 
   PanelRegistry.register({
@@ -97,6 +114,7 @@ function registerPanels() {
     component: TradeTicket,
     defaultWidth: 350,
     defaultHeight: 450,
+    command: { description: 'Execute trade', args: [{ name: 'symbol', type: 'symbol' }] },
   });
 
   PanelRegistry.register({
@@ -105,6 +123,7 @@ function registerPanels() {
     component: BlotterPanel,
     defaultWidth: 600,
     defaultHeight: 400,
+    command: { name: 'Orders', description: 'View pending orders' },
   });
 
   PanelRegistry.register({
@@ -113,6 +132,19 @@ function registerPanels() {
     component: PortfolioPanel,
     defaultWidth: 600,
     defaultHeight: 400,
+    command: {
+      description: 'View portfolio positions',
+      args: [
+        { name: 'action', type: 'keyword', choices: ['CLOSE'] },
+        { name: 'scope', type: 'keyword', choices: ['ALL'] },
+        { name: 'symbol', type: 'symbol' },
+      ],
+      example: 'PF CLOSE ALL BTC',
+      validate: (args) => {
+        if (!args.action) return args.scope || args.symbol ? 'Use PF CLOSE ALL [symbol]' : null;
+        return args.scope || args.symbol ? null : 'PF CLOSE needs ALL or a symbol';
+      },
+    },
   });
 
   PanelRegistry.register({
@@ -121,6 +153,14 @@ function registerPanels() {
     component: ChartPanel,
     defaultWidth: 500,
     defaultHeight: 350,
+    command: {
+      description: 'View price chart',
+      args: [
+        { name: 'symbol', type: 'symbol' },
+        { name: 'timeframe', type: 'keyword', choices: CHART_TIMEFRAMES.map((tf) => tf.toUpperCase()) },
+      ],
+      example: 'TSLA CH 1D',
+    },
   });
 
   PanelRegistry.register({
@@ -129,6 +169,21 @@ function registerPanels() {
     component: AlertsPanel,
     defaultWidth: 400,
     defaultHeight: 500,
+    command: {
+      description: 'Manage price alerts',
+      args: [
+        { name: 'symbol', type: 'symbol' },
+        { name: 'condition', type: 'keyword', choices: ['>', '<', 'ABOVE', 'BELOW'] },
+        { name: 'level', type: 'price', description: 'Price, or percent move from the current price' },
+      ],
+      example: 'AAPL AL > 200',
+      validate: (args) => {
+        if ((args.condition === undefined) !== (args.level === undefined)) {
+          return 'An alert needs a comparison and a level, e.g. AAPL AL > 200';
+        }
+        return args.condition && !args.symbol ? 'An alert needs a symbol, e.g. AAPL AL > 200' : null;
+      },
+    },
   });
 
   PanelRegistry.register({
@@ -137,6 +192,7 @@ function registerPanels() {
     component: TraderSearchPanel,
     defaultWidth: 600,
     defaultHeight: 500,
+    command: { description: 'Search for traders' },
   });
 
   PanelRegistry.register({
@@ -145,6 +201,7 @@ function registerPanels() {
     component: TraderProfilePanel,
     defaultWidth: 500,
     defaultHeight: 600,
+    command: { description: 'View trader profile' },
   });
 
   PanelRegistry.register({
@@ -153,6 +210,7 @@ function registerPanels() {
     component: FeedsPanel,
     defaultWidth: 400,
     defaultHeight: 500,
+    command: { name: 'Feeds', description: 'View social feeds' },
   });
 
   PanelRegistry.register({
@@ -161,6 +219,7 @@ function registerPanels() {
     component: ApiTesterPanel,
     defaultWidth: 500,
     defaultHeight: 600,
+    command: { description: 'Test API endpoints' },
   });
 
   PanelRegistry.register({
@@ -169,6 +228,16 @@ function registerPanels() {
     component: HelpPanel,
     defaultWidth: 450,
     defaultHeight: 600,
+    command: { description: 'View help documentation' },
+  });
+
+  PanelRegistry.register({
+    typeId: 'KEYS',
+    title: 'Keyboard Shortcuts',
+    component: KeyboardShortcutsPanel,
+    defaultWidth: 500,
+    defaultHeight: 550,
+    command: { name: 'Keys', description: 'Rebind keyboard shortcuts', aliases: ['SHORTCUTS', 'KEYMAP', 'HOTKEYS'] },
   });
 
   PanelRegistry.register({
@@ -177,6 +246,7 @@ function registerPanels() {
     component: ConnectionStatusPanel,
     defaultWidth: 450,
     defaultHeight: 500,
+    command: { name: 'Status', description: 'Connection status' },
   });
 
   PanelRegistry.register({
@@ -185,6 +255,7 @@ function registerPanels() {
     component: AssetExplorerPanel,
     defaultWidth: 600,
     defaultHeight: 500,
+    command: { description: 'Browse instruments by asset class' },
   });
 
   PanelRegistry.register({
@@ -193,6 +264,7 @@ function registerPanels() {
     component: ActivityPanel,
     defaultWidth: 400,
     defaultHeight: 450,
+    command: { description: 'Recent terminal activity' },
   });
 
   PanelRegistry.register({
@@ -201,6 +273,7 @@ function registerPanels() {
     component: StrategyBuilderPanel,
     defaultWidth: 800,
     defaultHeight: 600,
+    command: { aliases: ['STRAT'], description: 'AI-powered strategy creation' },
   });
 
   PanelRegistry.register({
@@ -209,6 +282,7 @@ function registerPanels() {
     component: FeedbackPanel,
     defaultWidth: 450,
     defaultHeight: 500,
+    command: { aliases: ['FEEDBACK'], description: 'Submit feedback and suggestions' },
   });
 
   PanelRegistry.register({
@@ -217,6 +291,7 @@ function registerPanels() {
     component: QuantChatPanel,
     defaultWidth: 450,
     defaultHeight: 550,
+    command: { aliases: ['CHAT', 'AI'], description: 'Chat with your AI trading co-pilot' },
   });
 
   PanelRegistry.register({
@@ -225,6 +300,7 @@ function registerPanels() {
     component: PositionSizingPanel,
     defaultWidth: 400,
     defaultHeight: 600,
+    command: { aliases: ['SIZE', 'KELLY', 'RISK'], description: 'Kelly Criterion and fixed fractional sizing' },
   });
 
   PanelRegistry.register({
@@ -233,6 +309,7 @@ function registerPanels() {
     component: DataExportPanel,
     defaultWidth: 400,
     defaultHeight: 550,
+    command: { aliases: ['DATA', 'CSV', 'JSON'], description: 'Export portfolio, orders and history as JSON/CSV' },
   });
 
   PanelRegistry.register({
@@ -241,6 +318,34 @@ function registerPanels() {
     component: TradeJournalPanel,
     defaultWidth: 500,
     defaultHeight: 650,
+    command: { aliases: ['LOG', 'DIARY', 'TRADES'], description: 'Log trades with reasoning and review performance' },
+  });
+
+  PanelRegistry.register({
+    typeId: 'HIST',
+    title: 'Closed Trades',
+    component: ClosedTradesPanel,
+    defaultWidth: 650,
+    defaultHeight: 600,
+    command: { aliases: ['HISTORY', 'CLOSED', 'REALIZED'], description: 'Closed positions and realized P&L' },
+  });
+
+  PanelRegistry.register({
+    typeId: 'EXPO',
+    title: 'Exposure',
+    component: ExposurePanel,
+    defaultWidth: 600,
+    defaultHeight: 600,
+    command: { aliases: ['EXPOSURE', 'ATTRIB', 'ALLOC'], description: 'Exposure by asset class, exchange, industry and side' },
+  });
+
+  PanelRegistry.register({
+    typeId: 'VAR',
+    title: 'Portfolio Risk',
+    component: RiskPanel,
+    defaultWidth: 600,
+    defaultHeight: 650,
+    command: { aliases: ['BETA', 'STRESS'], description: 'Value at risk, beta and stress scenarios' },
   });
 
   PanelRegistry.register({
@@ -249,6 +354,7 @@ function registerPanels() {
     component: CorrelationMatrixPanel,
     defaultWidth: 550,
     defaultHeight: 600,
+    command: { aliases: ['MATRIX', 'DIVERSIFY', 'CORRELATION'], description: 'Correlation between assets for diversification' },
   });
 
   PanelRegistry.register({
@@ -257,6 +363,7 @@ function registerPanels() {
     component: WebhookAlertsPanel,
     defaultWidth: 450,
     defaultHeight: 600,
+    command: { aliases: ['HOOKS', 'NOTIFY', 'ALERTS'], description: 'Send alerts to webhooks when conditions are met' },
   });
 
   // v1.7.0 - Financial Datasets API panels
@@ -266,6 +373,7 @@ function registerPanels() {
     component: NewsPanel,
     defaultWidth: 450,
     defaultHeight: 550,
+    command: { aliases: ['HEADLINES'], description: 'Company news with sentiment' },
   });
 
   PanelRegistry.register({
@@ -274,6 +382,7 @@ function registerPanels() {
     component: InstitutionalPanel,
     defaultWidth: 500,
     defaultHeight: 500,
+    command: { aliases: ['WHALES', 'WHALE', '13F'], description: 'Who owns what - 13F filings' },
   });
 
   PanelRegistry.register({
@@ -282,6 +391,7 @@ function registerPanels() {
     component: FilingsPanel,
     defaultWidth: 450,
     defaultHeight: 500,
+    command: { aliases: ['SEC', '10K', '10Q', '8K'], description: '10-K, 10-Q, 8-K filings' },
   });
 
   PanelRegistry.register({
@@ -290,6 +400,7 @@ function registerPanels() {
     component: InsiderActivityPanel,
     defaultWidth: 500,
     defaultHeight: 550,
+    command: { aliases: ['INSIDER'], description: 'View insider trades & sentiment' },
   });
 
   PanelRegistry.register({
@@ -298,11 +409,37 @@ function registerPanels() {
     component: FundamentalsPanel,
     defaultWidth: 600,
     defaultHeight: 500,
+    command: { aliases: ['FUNDAMENTALS', 'FUND'], description: 'Income statements, EPS, margins' },
   });
 }
 
 // Register panels on module load
 registerPanels();
+
+// Commands that don't map to a single panel; handled in TerminalContent
+CommandRegistry.register({
+  code: 'LAYOUT',
+  name: 'Layout',
+  description: 'Switch workspace layout',
+  args: [{ name: 'name', type: 'text', required: true, description: 'Saved layout name' }],
+});
+
+for (const side of ['BUY', 'SELL']) {
+  CommandRegistry.register({
+    code: side,
+    name: side === 'BUY' ? 'Buy' : 'Sell',
+    description: `Fill in the trade ticket to ${side.toLowerCase()}; confirm in the ticket`,
+    args: [
+      { name: 'symbol', type: 'symbol', required: true },
+      { name: 'amount', type: 'number', required: true, description: 'Amount in dollars' },
+      { name: 'leverage', type: 'leverage', choices: ['1X', '2X', '5X', '10X', '20X'] },
+      { name: 'limit', type: 'number', flag: '@', description: 'Limit rate' },
+      { name: 'stopLoss', type: 'price', flag: 'SL', description: 'Rate, or percent from entry' },
+      { name: 'takeProfit', type: 'price', flag: 'TP', description: 'Rate, or percent from entry' },
+    ],
+    example: `AAPL ${side} 500 5X SL 2% TP 6%`,
+  });
+}
 console.log('Panels registered:', PanelRegistry.getRegisteredTypes());
 
 const appStyles = {
@@ -377,90 +514,120 @@ const appStyles = {
   },
 };
 
-// Map function codes to panel type IDs
-const FUNCTION_TO_PANEL: Record<string, string> = {
-  'QT': 'QT',
-  'WL': 'WL',
-  'WLM': 'WLM',
-  'CUR': 'CUR',
-  'REC': 'REC',
-  'TRD': 'TRD',
-  'ORD': 'ORD',
-  'PF': 'PF',
-  'PI': 'PI',
-  'PIP': 'PIP',
-  'CH': 'CH',
-  'AL': 'AL',
-  'FEED': 'FEED',
-  'API': 'API',
-  'HELP': 'HELP',
-  'STATUS': 'STATUS',
-  'EXP': 'EXP',
-  'ACT': 'ACT',
-  'SB': 'SB',
-  'STRAT': 'SB',  // Alias for Strategy Builder
-  'FB': 'FB',
-  'FEEDBACK': 'FB',  // Alias for Feedback
-  'QUANT': 'QUANT',
-  'PS': 'PS',
-  'SIZE': 'PS',  // Alias for Position Sizing
-  'KELLY': 'PS',  // Alias for Position Sizing
-  'RISK': 'PS',  // Alias for Position Sizing
-  'EXPORT': 'EXPORT',
-  'DATA': 'EXPORT',  // Alias for Data Export
-  'CSV': 'EXPORT',  // Alias for Data Export
-  'JSON': 'EXPORT',  // Alias for Data Export
-  'JOURNAL': 'JOURNAL',
-  'LOG': 'JOURNAL',  // Alias for Trade Journal
-  'DIARY': 'JOURNAL',  // Alias for Trade Journal
-  'TRADES': 'JOURNAL',  // Alias for Trade Journal
-  'CORR': 'CORR',
-  'MATRIX': 'CORR',  // Alias for Correlation Matrix
-  'DIVERSIFY': 'CORR',  // Alias for Correlation Matrix
-  'CORRELATION': 'CORR',  // Alias for Correlation Matrix
-  'WEBHOOK': 'WEBHOOK',
-  'HOOKS': 'WEBHOOK',  // Alias for Webhook Alerts
-  'NOTIFY': 'WEBHOOK',  // Alias for Webhook Alerts
-  'ALERTS': 'WEBHOOK',  // Alias for Webhook Alerts
-  'CHAT': 'QUANT',
-  'AI': 'QUANT',
-  // v1.7.0 Financial Datasets panels
-  'NEWS': 'NEWS',
-  'HEADLINES': 'NEWS',  // Alias for News
-  'INST': 'INST',
-  'WHALES': 'INST',  // Alias for Institutional
-  '13F': 'INST',  // Alias for Institutional
-  'FILINGS': 'FILINGS',
-  'SEC': 'FILINGS',  // Alias for SEC Filings
-  '10K': 'FILINGS',  // Alias for SEC Filings
-  '10Q': 'FILINGS',  // Alias for SEC Filings
-  '8K': 'FILINGS',  // Alias for SEC Filings
-  // Insider Activity
-  'INS': 'INS',
-  'INSIDER': 'INS',  // Alias for Insider Activity
-  // Fundamentals
-  'FD': 'FD',
-  'FUNDAMENTALS': 'FD',  // Alias for Fundamentals
-};
+function createAlertFromCommand(symbol: ResolvedSymbol, args: CommandArgs): void {
+  const level = args.level as PriceValue;
+  const above = args.condition === '>' || args.condition === 'ABOVE';
+  const engine = getDefaultAlertsEngine();
+
+  if (level.isPercent) {
+    const percent = above ? Math.abs(level.value) : -Math.abs(level.value);
+    engine.createAlert(symbol.instrumentId, 'percent_change', { percent }, { symbol: symbol.symbol });
+  } else {
+    engine.createAlert(symbol.instrumentId, above ? 'price_above' : 'price_below', { threshold: level.value }, { symbol: symbol.symbol });
+  }
+}
 
 function TerminalContent({ onLogout, userInfo, isDemo }: { onLogout: () => void; userInfo: { username: string; fullName: string; customerId: string } | null; isDemo: boolean }) {
   const [showDiagnostics, setShowDiagnostics] = useState(false);
-  const { addPanel, openPanelForSymbol } = useWorkspaceContext();
+  const { panels, addPanel, openPanelForSymbol, switchLayout, sendPanelIntent } = useWorkspaceContext();
+
+  // All keyboard shortcuts are dispatched from here through the registry
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      shortcutsRegistry.handleKeyDown(e);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const openPanelOnce = (typeId: string) => {
+    if (!panels.some((p) => p.typeId === typeId)) {
+      addPanel(typeId);
+    }
+  };
+
+  useShortcut('app.help', () => openPanelOnce('HELP'));
+  useShortcut('app.shortcuts', () => openPanelOnce('KEYS'));
+  useShortcut('app.diagnostics', () => setShowDiagnostics((open) => !open));
 
   const handleCommand = (command: CommandBarCommand) => {
     console.log('Command received:', command);
-    
-    if (command.type === 'function' && command.code) {
-      const panelType = FUNCTION_TO_PANEL[command.code];
-      if (panelType) {
-        if (command.symbol) {
-          openPanelForSymbol(panelType, command.symbol.symbol);
-        } else {
-          addPanel(panelType);
+    const args = command.args ?? {};
+    const symbol = command.symbol;
+
+    if (command.type === 'symbol' && symbol) {
+      openPanelForSymbol('QT', symbol.symbol);
+      return;
+    }
+    if (command.type !== 'function' || !command.code) {
+      return;
+    }
+
+    switch (command.code) {
+      case 'LAYOUT':
+        if (typeof args.name === 'string') {
+          switchLayout(args.name);
+        }
+        return;
+
+      case 'BUY':
+      case 'SELL':
+        // Only fills in the ticket; submitting goes through its usual checks and confirmation
+        if (symbol) {
+          const intent: TradeTicketIntent = {
+            symbol: symbol.symbol,
+            instrumentId: symbol.instrumentId,
+            side: command.code === 'BUY' ? 'buy' : 'sell',
+            amount: args.amount as number,
+            leverage: args.leverage as number | undefined,
+            limitRate: args.limit as number | undefined,
+            stopLoss: args.stopLoss as PriceValue | undefined,
+            takeProfit: args.takeProfit as PriceValue | undefined,
+          };
+          sendPanelIntent('TRD', intent);
+        }
+        return;
+
+      case 'CH':
+        if (symbol || args.timeframe) {
+          const intent: ChartIntent = {
+            symbol: symbol?.symbol,
+            timeframe: (args.timeframe as string | undefined)?.toLowerCase() as ChartTimeframe | undefined,
+          };
+          sendPanelIntent('CH', intent);
+          return;
         }
+        break;
+
+      case 'AL':
+        if (symbol && args.condition) {
+          createAlertFromCommand(symbol, args);
+          openPanelOnce('AL');
+          return;
+        }
+        break;
+
+      case 'PF':
+        // Staged in the portfolio panel, which asks for confirmation before closing anything
+        if (args.action === 'CLOSE') {
+          const intent: PortfolioIntent = {
+            action: 'close',
+            instrumentId: symbol?.instrumentId,
+            symbol: symbol?.symbol,
+          };
+          sendPanelIntent('PF', intent);
+          return;
+        }
+        break;
+    }
+
+    const panelType = CommandRegistry.resolve(command.code)?.panelTypeId;
+    if (panelType) {
+      if (symbol) {
+        openPanelForSymbol(panelType, symbol.symbol);
+      } else {
+        addPanel(panelType);
       }
-    } else if (command.type === 'symbol' && command.symbol) {
-      openPanelForSymbol('QT', command.symbol.symbol);
     }
   };
 
@@ -533,6 +700,10 @@ export default function App() {
       etoroApi.setKeys(keys.userKey, keys.apiKey);
       setIsLoggedIn(true);
       streamingService.connect();
+      strategyRunner.start();
+      webhookDispatcher.start();
+      journalService.start();
+      getDefaultAlertsEngine().restore();
       
       // Fetch user info
       fetchUserInfo();
@@ -563,12 +734,20 @@ export default function App() {
     setIsLoggedIn(true);
     // Initialize streaming connection
     streamingService.connect();
+    strategyRunner.start();
+    webhookDispatcher.start();
+    journalService.start();
+    getDefaultAlertsEngine().restore();
     
     // Fetch user info from API after login
     await fetchUserInfo();
   };
 
   const handleLogout = () => {
+    strategyRunner.stop();
+    webhookDispatcher.stop();
+    journalService.stop();
+    getDefaultAlertsEngine().suspend();
     streamingService.disconnect();
     keyManager.clearKeys();
     demoDataService.setDemoMode(false);
@@ -585,6 +764,10 @@ export default function App() {
       customerId: demoInfo.customerId,
     });
     setIsLoggedIn(true);
+    strategyRunner.start();
+    webhookDispatcher.start();
+    journalService.start();
+    getDefaultAlertsEngine().restore();
     console.log('[App] Demo mode enabled');
   };
 
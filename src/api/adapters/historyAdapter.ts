@@ -0,0 +1,129 @@
+// History Adapter
+// Fetches closed positions from the trading history endpoints
+
+import { ENDPOINTS } from '../contracts/endpoints';
+import type { ClosedTrade } from '../contracts/etoro-api.types';
+import { getDefaultAdapter, RestAdapter } from '../restAdapter';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HistoryQueryOptions {
+  /** Earliest close date to include (YYYY-MM-DD) */
+  minDate?: string;
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+// Stops a misbehaving paging response from looping forever
+const MAX_PAGES = 50;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function num(value: unknown): number {
+  const n = typeof value === 'string' ? parseFloat(value) : (value as number);
+  return Number.isFinite(n) ? n : 0;
+}
+
+// Helper to normalize a closed position from API response (handles PascalCase and alternate names)
+function normalizeClosedTrade(raw: Record<string, unknown>): ClosedTrade {
+  const fees = num(raw.fees ?? raw.Fees ?? raw.totalFees ?? raw.TotalFees ?? raw.rolloverFees ?? raw.RolloverFees);
+  const netProfit = raw.netProfit ?? raw.NetProfit;
+  const profit = raw.profit ?? raw.Profit;
+
+  return {
+    positionId: num(raw.positionId ?? raw.PositionId ?? raw.PositionID ?? raw.positionID),
+    instrumentId: num(raw.instrumentId ?? raw.InstrumentId ?? raw.InstrumentID ?? raw.instrumentID),
+    symbol: (raw.symbol ?? raw.Symbol ?? raw.symbolFull ?? raw.SymbolFull) as string | undefined,
+    isBuy: Boolean(raw.isBuy ?? raw.IsBuy ?? true),
+    leverage: num(raw.leverage ?? raw.Leverage) || 1,
+    units: num(raw.units ?? raw.Units),
+    amount: num(raw.investment ?? raw.Investment ?? raw.amount ?? raw.Amount),
+    openRate: num(raw.openRate ?? raw.OpenRate),
+    closeRate: num(raw.closeRate ?? raw.CloseRate ?? raw.closedRate ?? raw.ClosedRate),
+    openDateTime: (raw.openTimestamp ?? raw.OpenTimestamp ?? raw.openDateTime ?? raw.OpenDateTime ?? '') as string,
+    closeDateTime: (raw.closeTimestamp ?? raw.CloseTimestamp ?? raw.closeDateTime ?? raw.CloseDateTime ?? '') as string,
+    fees,
+    // Gross profit only comes back on some responses; fees are then taken off here
+    netProfit: netProfit !== undefined ? num(netProfit) : num(profit) - fees,
+  };
+}
+
+function extractTrades(response: unknown): Record<string, unknown>[] {
+  if (Array.isArray(response)) return response;
+  const body = (response ?? {}) as Record<string, unknown>;
+  const list = body.closedPositions ?? body.ClosedPositions ?? body.trades ?? body.Trades ?? body.items ?? body.Items ?? [];
+  return Array.isArray(list) ? list : [];
+}
+
+// ============================================================================
+// History Adapter Class
+// ============================================================================
+
+export class HistoryAdapter {
+  private readonly rest: RestAdapter;
+  private readonly isDemo: boolean;
+
+  constructor(restAdapter?: RestAdapter, isDemo: boolean = true) {
+    this.rest = restAdapter || getDefaultAdapter();
+    this.isDemo = isDemo;
+  }
+
+  private getEndpoint(): string {
+    return this.isDemo ? ENDPOINTS.PORTFOLIO_DEMO_HISTORY : ENDPOINTS.PORTFOLIO_HISTORY;
+  }
+
+  /** All closed positions since `minDate`, newest close first */
+  async getClosedTrades(options: HistoryQueryOptions = {}): Promise<ClosedTrade[]> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const trades: ClosedTrade[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const params = new URLSearchParams();
+      if (options.minDate) {
+        params.append('minDate', options.minDate);
+      }
+      params.append('page', page.toString());
+      params.append('pageSize', pageSize.toString());
+
+      const response = await this.rest.get<unknown>(`${this.getEndpoint()}?${params.toString()}`);
+      const rows = extractTrades(response);
+      trades.push(...rows.map(normalizeClosedTrade));
+      if (rows.length < pageSize) break;
+    }
+
+    return trades.sort((a, b) => new Date(b.closeDateTime).getTime() - new Date(a.closeDateTime).getTime());
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+export function createHistoryAdapter(restAdapter?: RestAdapter, isDemo: boolean = true): HistoryAdapter {
+  return new HistoryAdapter(restAdapter, isDemo);
+}
+
+// ============================================================================
+// Default Instances (singleton pattern)
+// ============================================================================
+
+let defaultRealAdapter: HistoryAdapter | null = null;
+let defaultDemoAdapter: HistoryAdapter | null = null;
+
+export function getHistoryAdapter(isDemo: boolean = true): HistoryAdapter {
+  if (isDemo) {
+    if (!defaultDemoAdapter) {
+      defaultDemoAdapter = new HistoryAdapter(undefined, true);
+    }
+    return defaultDemoAdapter;
+  }
+
+  if (!defaultRealAdapter) {
+    defaultRealAdapter = new HistoryAdapter(undefined, false);
+  }
+  return defaultRealAdapter;
+}
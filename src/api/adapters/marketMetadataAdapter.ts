@@ -0,0 +1,111 @@
+// Market Metadata Adapter
+// Fetches industry names and per-instrument industry classification
+
+import { ENDPOINTS } from '../contracts/endpoints';
+import { getDefaultAdapter, RestAdapter } from '../restAdapter';
+
+// Keeps instrument lookups within a sane query string length
+const MAX_IDS_PER_REQUEST = 50;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function extractList(response: unknown, keys: string[]): Record<string, unknown>[] {
+  if (Array.isArray(response)) return response;
+  const body = (response ?? {}) as Record<string, unknown>;
+  for (const key of keys) {
+    if (Array.isArray(body[key])) return body[key] as Record<string, unknown>[];
+  }
+  return [];
+}
+
+function toId(value: unknown): number | null {
+  const n = typeof value === 'string' ? parseInt(value, 10) : (value as number);
+  return Number.isFinite(n) ? n : null;
+}
+
+// ============================================================================
+// Market Metadata Adapter Class
+// ============================================================================
+
+export class MarketMetadataAdapter {
+  private readonly rest: RestAdapter;
+  private industries: Promise<Map<number, string>> | null = null;
+  // null marks instruments without an industry (crypto, forex, ...) so they aren't refetched
+  private instrumentIndustries: Map<number, number | null> = new Map();
+
+  constructor(restAdapter?: RestAdapter) {
+    this.rest = restAdapter || getDefaultAdapter();
+  }
+
+  /** Industry ID to name, fetched once */
+  getIndustries(): Promise<Map<number, string>> {
+    if (!this.industries) {
+      this.industries = this.rest.get<unknown>(ENDPOINTS.MARKET_DATA_INDUSTRIES).then((response) => {
+        const names = new Map<number, string>();
+        for (const raw of extractList(response, ['stocksIndustries', 'StocksIndustries', 'industries', 'Industries', 'items', 'Items'])) {
+          const id = toId(raw.industryID ?? raw.IndustryID ?? raw.industryId ?? raw.IndustryId ?? raw.stocksIndustryId ?? raw.StocksIndustryId ?? raw.id);
+          const name = raw.industryName ?? raw.IndustryName ?? raw.name ?? raw.Name;
+          if (id !== null && typeof name === 'string') {
+            names.set(id, name);
+          }
+        }
+        return names;
+      }).catch((err) => {
+        // Allow a retry on the next call
+        this.industries = null;
+        throw err;
+      });
+    }
+    return this.industries;
+  }
+
+  /** Industry ID of each instrument; instruments without one map to null */
+  async getInstrumentIndustries(instrumentIds: number[]): Promise<Map<number, number | null>> {
+    const missing = Array.from(new Set(instrumentIds)).filter(id => !this.instrumentIndustries.has(id));
+
+    for (let i = 0; i < missing.length; i += MAX_IDS_PER_REQUEST) {
+      const batch = missing.slice(i, i + MAX_IDS_PER_REQUEST);
+      const response = await this.rest.get<unknown>(`${ENDPOINTS.MARKET_DATA_SEARCH}?instrumentIds=${batch.join(',')}`);
+      for (const raw of extractList(response, ['items', 'Items', 'instruments', 'Instruments'])) {
+        const id = toId(raw.internalInstrumentId ?? raw.InternalInstrumentId ?? raw.instrumentId ?? raw.InstrumentId ?? raw.InstrumentID);
+        if (id === null) continue;
+        const industry = toId(raw.stocksIndustryId ?? raw.StocksIndustryId ?? raw.stocksIndustryID ?? raw.industryId ?? raw.IndustryId);
+        this.instrumentIndustries.set(id, industry);
+      }
+      for (const id of batch) {
+        if (!this.instrumentIndustries.has(id)) {
+          this.instrumentIndustries.set(id, null);
+        }
+      }
+    }
+
+    const result = new Map<number, number | null>();
+    for (const id of instrumentIds) {
+      result.set(id, this.instrumentIndustries.get(id) ?? null);
+    }
+    return result;
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+export function createMarketMetadataAdapter(restAdapter?: RestAdapter): MarketMetadataAdapter {
+  return new MarketMetadataAdapter(restAdapter);
+}
+
+// ============================================================================
+// Default Instance (singleton pattern)
+// ============================================================================
+
+let defaultAdapter: MarketMetadataAdapter | null = null;
+
+export function getMarketMetadataAdapter(): MarketMetadataAdapter {
+  if (!defaultAdapter) {
+    defaultAdapter = new MarketMetadataAdapter();
+  }
+  return defaultAdapter;
+}
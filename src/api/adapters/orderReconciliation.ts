@@ -0,0 +1,182 @@
+// Order Reconciliation
+// Helpers for submitting orders at most once. Each submission gets a stable
+// client order key, and when a response is lost the portfolio endpoint is
+// checked to find out whether the order went through before anything is
+// resent.
+
+import { ENDPOINTS } from '../contracts/endpoints';
+import type { ClosedTrade } from '../contracts/etoro-api.types';
+import type { RestAdapter, RestError } from '../restAdapter';
+import { createHistoryAdapter } from './historyAdapter';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BrokerPosition {
+  positionId: number;
+  instrumentId: number;
+  isBuy: boolean;
+  amount: number;
+  units: number;
+  openRate: number;
+  openDateTime: string;
+}
+
+export interface BrokerOrder {
+  orderId: string;
+  instrumentId: number;
+  isBuy: boolean;
+  amount: number;
+  rate: number;
+}
+
+export interface PortfolioSnapshot {
+  positions: BrokerPosition[];
+  orders: BrokerOrder[];
+}
+
+/** What was sent, so it can be recognised in the portfolio afterwards */
+export interface SubmittedOrder {
+  clientOrderKey: string;
+  instrumentId: number;
+  isBuy: boolean;
+  amount?: number;
+  units?: number;
+  /** Limit rate; set for limit orders */
+  rate?: number;
+  submittedAt: number;
+  /** Broker position/order IDs that existed before submitting */
+  knownIds?: Set<string>;
+}
+
+export class OrderOutcomeUnknownError extends Error {
+  readonly clientOrderKey: string;
+
+  constructor(message: string, clientOrderKey: string) {
+    super(message);
+    this.name = 'OrderOutcomeUnknownError';
+    this.clientOrderKey = clientOrderKey;
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Broker timestamps are compared with the local clock
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+// Amounts can shift slightly with fees and rounding
+const SIZE_TOLERANCE = 0.02;
+
+// Positions/orders already attributed to a submission this session
+const claimedIds: Set<string> = new Set();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function generateClientOrderKey(): string {
+  return `cok_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Mark a broker position/order as belonging to a submission so it is never matched twice */
+export function claimBrokerId(id: string | number): void {
+  claimedIds.add(String(id));
+}
+
+/**
+ * Whether a failed submission may still have been applied. Client errors
+ * and rate limiting are definite rejections; server errors, timeouts and
+ * network failures are not.
+ */
+export function isAmbiguousFailure(error: unknown): boolean {
+  const restError = error as Partial<RestError>;
+  if (typeof restError?.status === 'number') {
+    return restError.status >= 500;
+  }
+  return true;
+}
+
+function isCandidate(id: string | number, submitted: SubmittedOrder): boolean {
+  const key = String(id);
+  return !claimedIds.has(key) && !(submitted.knownIds?.has(key) ?? false);
+}
+
+function sizeMatches(actual: number, requested?: number): boolean {
+  if (!requested) return true;
+  return Math.abs(actual - requested) <= requested * SIZE_TOLERANCE;
+}
+
+function field(item: Record<string, unknown>, ...names: string[]): unknown {
+  for (const name of names) {
+    if (item[name] !== undefined && item[name] !== null) return item[name];
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Portfolio Lookups
+// ============================================================================
+
+/** Open positions and pending orders straight from the portfolio endpoint */
+export async function fetchPortfolioSnapshot(rest: RestAdapter, isDemo: boolean): Promise<PortfolioSnapshot> {
+  const data = await rest.get<Record<string, unknown>>(isDemo ? ENDPOINTS.PORTFOLIO_DEMO : ENDPOINTS.PORTFOLIO);
+  const portfolio = (data?.clientPortfolio || data?.ClientPortfolio || data || {}) as Record<string, unknown>;
+
+  const rawPositions = (field(portfolio, 'positions', 'Positions') || []) as Record<string, unknown>[];
+  const rawOrders = (field(portfolio, 'ordersForOpen', 'OrdersForOpen', 'orders', 'Orders') || []) as Record<string, unknown>[];
+
+  return {
+    positions: rawPositions.map(p => ({
+      positionId: Number(field(p, 'positionId', 'PositionID', 'positionID') ?? 0),
+      instrumentId: Number(field(p, 'instrumentId', 'InstrumentID', 'instrumentID') ?? 0),
+      isBuy: Boolean(field(p, 'isBuy', 'IsBuy') ?? true),
+      amount: Number(field(p, 'amount', 'Amount') ?? 0),
+      units: Number(field(p, 'units', 'Units') ?? 0),
+      openRate: Number(field(p, 'openRate', 'OpenRate') ?? 0),
+      openDateTime: String(field(p, 'openDateTime', 'OpenDateTime') ?? ''),
+    })),
+    orders: rawOrders.map(o => ({
+      orderId: String(field(o, 'orderId', 'OrderID', 'orderID') ?? ''),
+      instrumentId: Number(field(o, 'instrumentId', 'InstrumentID', 'instrumentID') ?? 0),
+      isBuy: Boolean(field(o, 'isBuy', 'IsBuy') ?? true),
+      amount: Number(field(o, 'amount', 'Amount') ?? 0),
+      rate: Number(field(o, 'rate', 'Rate') ?? 0),
+    })),
+  };
+}
+
+/** Positions closed since `since` (epoch ms), from the trading history */
+export async function fetchClosedPositions(rest: RestAdapter, isDemo: boolean, since: number): Promise<ClosedTrade[]> {
+  // History is filtered by date only; a day's margin covers time zones
+  const minDate = new Date(since - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return createHistoryAdapter(rest, isDemo).getClosedTrades({ minDate });
+}
+
+/** A position opened by `submitted`, if the broker has one */
+export function findOpenedPosition(snapshot: PortfolioSnapshot, submitted: SubmittedOrder): BrokerPosition | undefined {
+  const earliest = submitted.submittedAt - CLOCK_SKEW_MS;
+
+  return snapshot.positions.find(p => {
+    if (!isCandidate(p.positionId, submitted)) return false;
+    if (p.instrumentId !== submitted.instrumentId || p.isBuy !== submitted.isBuy) return false;
+
+    const openedAt = new Date(p.openDateTime).getTime();
+    if (!Number.isFinite(openedAt) || openedAt < earliest) return false;
+
+    return sizeMatches(p.amount, submitted.amount) && sizeMatches(p.units, submitted.units);
+  });
+}
+
+/** A pending limit order placed by `submitted`, if the broker has one */
+export function findPlacedOrder(snapshot: PortfolioSnapshot, submitted: SubmittedOrder): BrokerOrder | undefined {
+  return snapshot.orders.find(o =>
+    o.orderId !== '' &&
+    isCandidate(o.orderId, submitted) &&
+    o.instrumentId === submitted.instrumentId &&
+    o.isBuy === submitted.isBuy &&
+    sizeMatches(o.amount, submitted.amount) &&
+    (submitted.rate === undefined || Math.abs(o.rate - submitted.rate) < 1e-9 * Math.max(1, submitted.rate))
+  );
+}
@@ -1,9 +1,19 @@
-// Position Close Adapter
-// Provides operations for closing positions (full and partial)
+// Position Adapter
+// Provides operations for closing positions (full and partial) and
+// modifying their stop loss / take profit
 
 import { ENDPOINTS } from '../contracts/endpoints';
-import type { ClosePositionResponse } from '../contracts/etoro-api.types';
+import type { ClosePositionResponse, ModifyPositionResponse, OrderStatus } from '../contracts/etoro-api.types';
 import { getDefaultAdapter, RestAdapter } from '../restAdapter';
+import { ordersStore } from '../../stores/ordersStore';
+import { portfolioStore } from '../../stores/portfolioStore';
+import {
+  OrderOutcomeUnknownError,
+  fetchClosedPositions,
+  fetchPortfolioSnapshot,
+  generateClientOrderKey,
+  isAmbiguousFailure,
+} from './orderReconciliation';
 
 // ============================================================================
 // Types
@@ -16,13 +26,32 @@ export interface ClosePositionRequest {
 
 export interface ClosePositionResult {
   positionId: number;
-  closedRate: number;
+  /** Rate and realized P&L are undefined when the broker didn't report them */
+  closedRate?: number;
   closedAt: string;
-  profit: number;
+  profit?: number;
   isPartialClose: boolean;
   closedUnits?: number;
 }
 
+/**
+ * Protection levels to change. Omitted fields are left as they are;
+ * null removes the level.
+ */
+export interface ModifyPositionChanges {
+  stopLossRate?: number | null;
+  takeProfitRate?: number | null;
+  isTslEnabled?: boolean;
+}
+
+export interface ModifyPositionResult {
+  positionId: number;
+  stopLossRate?: number;
+  takeProfitRate?: number;
+  isTslEnabled?: boolean;
+  updatedAt: string;
+}
+
 // ============================================================================
 // Position Adapter Class
 // ============================================================================
@@ -42,23 +71,24 @@ export class PositionAdapter {
       : ENDPOINTS.TRADING_CLOSE(positionId);
   }
 
+  private getModifyEndpoint(): string {
+    return this.isDemo ? ENDPOINTS.TRADING_DEMO_MODIFY : ENDPOINTS.TRADING_MODIFY;
+  }
+
   async closePosition(positionId: number, instrumentId?: number): Promise<ClosePositionResult> {
     // eToro API requires InstrumentId in the request body
     const body = instrumentId ? { InstrumentId: instrumentId } : {};
     
-    const response = await this.rest.post<ClosePositionResponse>(
-      this.getCloseEndpoint(positionId),
-      body
-    );
+    const response = await this.submitClose(positionId, body);
 
     // Handle both direct response and orderForClose wrapper
     const orderData = response.orderForClose;
     
     return {
       positionId: response.positionId || response.positionID || orderData?.positionID || 0,
-      closedRate: response.closedRate || response.closeRate || 0,
+      closedRate: response.closedRate || response.closeRate || undefined,
       closedAt: response.closedAt || response.openDateTime || orderData?.openDateTime || new Date().toISOString(),
-      profit: response.profit || 0,
+      profit: response.profit,
       isPartialClose: false,
     };
   }
@@ -73,22 +103,166 @@ export class PositionAdapter {
       request.InstrumentId = instrumentId;
     }
     
-    const response = await this.rest.post<ClosePositionResponse>(
-      this.getCloseEndpoint(positionId),
-      request
-    );
+    const response = await this.submitClose(positionId, request, units);
 
     const orderData = response.orderForClose;
     
     return {
       positionId: response.positionId || response.positionID || orderData?.positionID || 0,
-      closedRate: response.closedRate || response.closeRate || 0,
+      closedRate: response.closedRate || response.closeRate || undefined,
       closedAt: response.closedAt || response.openDateTime || orderData?.openDateTime || new Date().toISOString(),
-      profit: response.profit || 0,
+      profit: response.profit,
       isPartialClose: true,
       closedUnits: units,
     };
   }
+
+  /**
+   * Check a close flagged unknown against the portfolio and settle it in
+   * ordersStore. Returns the status it was settled with.
+   */
+  async verifyClose(orderId: string): Promise<OrderStatus> {
+    const order = ordersStore.getOrder(orderId);
+    if (!order?.positionId) {
+      throw new Error(`Order ${orderId} is not a position close`);
+    }
+
+    // Check the account the close went to, whatever mode the terminal is in now
+    const isDemo = order.isDemo ?? this.isDemo;
+    const snapshot = await fetchPortfolioSnapshot(this.rest, isDemo);
+    const position = snapshot.positions.find(p => p.positionId === order.positionId);
+    const closed = !position || (order.unitsBefore !== undefined && position.units < order.unitsBefore);
+
+    const status: OrderStatus = closed ? 'executed' : 'rejected';
+    ordersStore.updateOrder(orderId, { status });
+    if (closed) {
+      portfolioStore.requestRefresh();
+    }
+    return status;
+  }
+
+  /**
+   * POST a close at most once: every attempt carries the same client order
+   * key, and before any retry the portfolio is checked to see whether the
+   * close already happened. An unsettled outcome is recorded in ordersStore
+   * as unknown and OrderOutcomeUnknownError is thrown.
+   */
+  private async submitClose(
+    positionId: number,
+    body: Record<string, unknown>,
+    unitsToClose?: number
+  ): Promise<ClosePositionResponse> {
+    const clientOrderKey = generateClientOrderKey();
+    const position = portfolioStore.getPosition(positionId);
+    const unitsBefore = unitsToClose !== undefined ? position?.units : undefined;
+
+    const findSettledClose = async (): Promise<ClosePositionResponse | undefined> => {
+      const snapshot = await fetchPortfolioSnapshot(this.rest, this.isDemo);
+      const current = snapshot.positions.find(p => p.positionId === positionId);
+      if (!current) {
+        // Realized figures come from history; it may not list the close yet
+        const closed = await fetchClosedPositions(this.rest, this.isDemo, Date.now()).catch(() => []);
+        const trade = closed.find(t => t.positionId === positionId);
+        return trade
+          ? { positionId, closedRate: trade.closeRate, closedAt: trade.closeDateTime || undefined, profit: trade.netProfit }
+          : { positionId };
+      }
+      if (unitsToClose !== undefined) {
+        if (unitsBefore === undefined) {
+          throw new Error('Units before the partial close are unknown');
+        }
+        if (current.units < unitsBefore) {
+          return { positionId, closedAt: new Date().toISOString() };
+        }
+      }
+      return undefined;
+    };
+
+    const unknown = (reason: string) => {
+      const message = `Close of position ${positionId} unknown (${reason}). Verify it in the blotter before retrying.`;
+      const now = new Date().toISOString();
+      ordersStore.addOrder({
+        orderId: `close_${positionId}_${Date.now()}`,
+        instrumentId: position?.instrumentId ?? Number(body.InstrumentId ?? 0),
+        symbol: position?.instrumentName || `#${positionId}`,
+        displayName: position?.instrumentName || `Position ${positionId}`,
+        side: position && !position.isBuy ? 'buy' : 'sell',
+        orderType: 'market',
+        amount: position?.amount ?? 0,
+        leverage: position?.leverage,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+        clientOrderKey,
+        isDemo: this.isDemo,
+        positionId,
+        unitsBefore,
+        isUnknown: true,
+        unknownReason: message,
+      });
+      return new OrderOutcomeUnknownError(message, clientOrderKey);
+    };
+
+    try {
+      return await this.rest.post<ClosePositionResponse>(this.getCloseEndpoint(positionId), body, {
+        idempotencyKey: clientOrderKey,
+        beforeRetry: async () => {
+          try {
+            return await findSettledClose();
+          } catch {
+            throw unknown('could not check the portfolio before retrying');
+          }
+        },
+      });
+    } catch (error) {
+      if (error instanceof OrderOutcomeUnknownError || !isAmbiguousFailure(error)) {
+        throw error;
+      }
+
+      // The failed attempt may still have gone through
+      const settled = await findSettledClose().catch(() => undefined);
+      if (settled) {
+        return settled;
+      }
+      throw unknown(error instanceof Error ? error.message : 'no response');
+    }
+  }
+
+  async modifyPosition(positionId: number, changes: ModifyPositionChanges): Promise<ModifyPositionResult> {
+    if (changes.isTslEnabled && changes.stopLossRate === null) {
+      throw new Error('A trailing stop needs a stop loss level');
+    }
+
+    // The API removes a level when it is sent as 0
+    const request: Record<string, unknown> = { PositionID: positionId };
+    if (changes.stopLossRate !== undefined) {
+      request.StopLossRate = changes.stopLossRate ?? 0;
+    }
+    if (changes.takeProfitRate !== undefined) {
+      request.TakeProfitRate = changes.takeProfitRate ?? 0;
+    }
+    if (changes.isTslEnabled !== undefined) {
+      request.IsTslEnabled = changes.isTslEnabled;
+    }
+
+    const response = await this.rest.put<Partial<ModifyPositionResponse>>(
+      this.getModifyEndpoint(),
+      request
+    );
+
+    const level = (fromResponse: number | undefined, requested: number | null | undefined) => {
+      const value = fromResponse ?? (requested === null ? 0 : requested);
+      return value ? value : undefined;
+    };
+
+    return {
+      positionId: response?.positionId || positionId,
+      stopLossRate: level(response?.stopLossRate, changes.stopLossRate),
+      takeProfitRate: level(response?.takeProfitRate, changes.takeProfitRate),
+      isTslEnabled: response?.isTslEnabled ?? changes.isTslEnabled,
+      updatedAt: response?.updatedAt || new Date().toISOString(),
+    };
+  }
 }
 
 // ============================================================================
@@ -1,10 +1,23 @@
 // Trading REST Adapter
-// Provides operations for opening positions (market orders)
+// Provides operations for opening positions (market orders) and managing
+// limit (entry) orders
 
 import { ENDPOINTS } from '../contracts/endpoints';
-import type { TradeResponse, OrderSide, OrderType } from '../contracts/etoro-api.types';
+import type { TradeResponse, OrderStatus, OrderType } from '../contracts/etoro-api.types';
 import { getDefaultAdapter, RestAdapter } from '../restAdapter';
 import { ordersStore } from '../../stores/ordersStore';
+import { portfolioStore } from '../../stores/portfolioStore';
+import {
+  OrderOutcomeUnknownError,
+  claimBrokerId,
+  fetchClosedPositions,
+  fetchPortfolioSnapshot,
+  findOpenedPosition,
+  findPlacedOrder,
+  generateClientOrderKey,
+  isAmbiguousFailure,
+  type SubmittedOrder,
+} from './orderReconciliation';
 
 // ============================================================================
 // Types
@@ -43,6 +56,18 @@ export interface InstrumentInfo {
   displayName: string;
 }
 
+export interface PendingOrder {
+  orderId: string;
+  instrumentId: number;
+  isBuy: boolean;
+  amount: number;
+  leverage: number;
+  rate: number;
+  stopLossRate?: number;
+  takeProfitRate?: number;
+  createdAt: string;
+}
+
 // ============================================================================
 // Trading Adapter Class
 // ============================================================================
@@ -72,6 +97,14 @@ export class TradingAdapter {
     return this.isDemo ? ENDPOINTS.TRADING_DEMO_OPEN_BY_UNITS : ENDPOINTS.TRADING_OPEN_BY_UNITS;
   }
 
+  private getLimitOrdersEndpoint(): string {
+    return this.isDemo ? ENDPOINTS.TRADING_DEMO_LIMIT_ORDERS : ENDPOINTS.TRADING_LIMIT_ORDERS;
+  }
+
+  private getOrdersEndpoint(): string {
+    return this.isDemo ? ENDPOINTS.TRADING_DEMO_ORDERS : ENDPOINTS.TRADING_ORDERS;
+  }
+
   async openPositionByAmount(
     instrumentId: number,
     amount: number,
@@ -81,24 +114,6 @@ export class TradingAdapter {
     takeProfitRate?: number,
     instrumentInfo?: InstrumentInfo
   ): Promise<OrderResult> {
-    const side: OrderSide = isBuy ? 'buy' : 'sell';
-    const orderType: OrderType = 'market';
-
-    let tempOrderId: string | undefined;
-    if (instrumentInfo) {
-      tempOrderId = ordersStore.addOptimisticOrder({
-        instrumentId,
-        symbol: instrumentInfo.symbol,
-        displayName: instrumentInfo.displayName,
-        side,
-        orderType,
-        amount,
-        leverage,
-        stopLossRate,
-        takeProfitRate,
-      });
-    }
-
     const request = {
       InstrumentID: instrumentId,
       IsBuy: isBuy,
@@ -108,35 +123,14 @@ export class TradingAdapter {
       TakeProfitRate: takeProfitRate,
     };
 
-    try {
-      const response = await this.rest.post<TradeResponse>(
-        this.getOpenByAmountEndpoint(),
-        request
-      );
-
-      if (tempOrderId) {
-        ordersStore.reconcileOptimisticOrder(tempOrderId, response.orderId, {
-          status: response.status,
-          executedRate: response.executedRate,
-          executedAt: response.executedAt,
-        });
-      }
-
-      return {
-        orderId: response.orderId,
-        positionId: response.positionId ?? null,
-        status: response.status,
-        executedRate: response.executedRate,
-        executedAt: response.executedAt,
-        message: response.message,
-        tempOrderId,
-      };
-    } catch (error) {
-      if (tempOrderId) {
-        ordersStore.updateOrder(tempOrderId, { status: 'rejected' });
-      }
-      throw error;
-    }
+    return this.placeOrder(this.getOpenByAmountEndpoint(), request, { instrumentId, isBuy, amount }, {
+      orderType: 'market',
+      amount,
+      leverage,
+      stopLossRate,
+      takeProfitRate,
+      instrumentInfo,
+    });
   }
 
   async openPositionByUnits(
@@ -149,42 +143,162 @@ export class TradingAdapter {
     instrumentInfo?: InstrumentInfo,
     amount?: number
   ): Promise<OrderResult> {
-    const side: OrderSide = isBuy ? 'buy' : 'sell';
-    const orderType: OrderType = 'market';
+    const request = {
+      InstrumentID: instrumentId,
+      IsBuy: isBuy,
+      AmountInUnits: units,
+      Leverage: leverage,
+      StopLossRate: stopLossRate,
+      TakeProfitRate: takeProfitRate,
+    };
 
-    let tempOrderId: string | undefined;
-    if (instrumentInfo) {
-      tempOrderId = ordersStore.addOptimisticOrder({
-        instrumentId,
-        symbol: instrumentInfo.symbol,
-        displayName: instrumentInfo.displayName,
-        side,
-        orderType,
-        amount: amount ?? 0,
-        leverage,
-        stopLossRate,
-        takeProfitRate,
-      });
+    return this.placeOrder(this.getOpenByUnitsEndpoint(), request, { instrumentId, isBuy, units }, {
+      orderType: 'market',
+      amount: amount ?? 0,
+      leverage,
+      stopLossRate,
+      takeProfitRate,
+      instrumentInfo,
+    });
+  }
+
+  /**
+   * Place a limit (entry) order that opens a position once the market
+   * reaches `rate`. The order stays pending in ordersStore until it fills
+   * or is cancelled.
+   */
+  async placeLimitOrder(
+    instrumentId: number,
+    amount: number,
+    isBuy: boolean,
+    leverage: number,
+    rate: number,
+    stopLossRate?: number,
+    takeProfitRate?: number,
+    instrumentInfo?: InstrumentInfo
+  ): Promise<OrderResult> {
+    if (rate <= 0) {
+      throw new Error('Limit rate must be greater than 0');
     }
 
     const request = {
       InstrumentID: instrumentId,
       IsBuy: isBuy,
-      AmountInUnits: units,
+      Amount: amount,
       Leverage: leverage,
+      Rate: rate,
       StopLossRate: stopLossRate,
       TakeProfitRate: takeProfitRate,
     };
 
+    return this.placeOrder(this.getLimitOrdersEndpoint(), request, { instrumentId, isBuy, amount, rate }, {
+      orderType: 'limit',
+      amount,
+      leverage,
+      limitRate: rate,
+      stopLossRate,
+      takeProfitRate,
+      instrumentInfo,
+    });
+  }
+
+  /**
+   * Check an order flagged unknown against the broker and settle it in
+   * ordersStore. Returns the status it was settled with.
+   */
+  async verifyOrder(orderId: string): Promise<OrderStatus> {
+    const order = ordersStore.getOrder(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    // Without a size any later position on the instrument would match
+    if (!order.units && !order.amount) {
+      throw new Error(`Order ${orderId} has no size to match; check the portfolio before retrying`);
+    }
+
+    // Check the account the order went to, whatever mode the terminal is in now
+    const isDemo = order.isDemo ?? this.isDemo;
+    const submitted: SubmittedOrder = {
+      clientOrderKey: order.clientOrderKey ?? order.orderId,
+      instrumentId: order.instrumentId,
+      isBuy: order.side === 'buy',
+      // Orders placed by units are matched on units, as when they were sent
+      amount: order.units ? undefined : order.amount,
+      units: order.units,
+      rate: order.orderType === 'limit' ? order.limitRate : undefined,
+      submittedAt: new Date(order.createdAt).getTime(),
+    };
+    const found = await this.findSubmittedOrder(submitted, isDemo) ?? await this.findClosedOrder(submitted, isDemo);
+
+    if (found) {
+      const update = { status: found.status, executedRate: found.executedRate, executedAt: found.executedAt };
+      if (order.isOptimistic) {
+        ordersStore.reconcileOptimisticOrder(orderId, found.orderId, update);
+      } else {
+        ordersStore.updateOrder(orderId, update);
+      }
+      return found.status;
+    }
+
+    // Nothing at the broker or in history: a new submission never landed, a working order was cancelled
+    const status: OrderStatus = order.isOptimistic ? 'rejected' : 'cancelled';
+    ordersStore.updateOrder(orderId, { status });
+    return status;
+  }
+
+  // --------------------------------------------------------------------------
+  // Submission
+  // --------------------------------------------------------------------------
+
+  private async placeOrder(
+    endpoint: string,
+    request: Record<string, unknown>,
+    target: Pick<SubmittedOrder, 'instrumentId' | 'isBuy' | 'amount' | 'units' | 'rate'>,
+    details: {
+      orderType: OrderType;
+      amount: number;
+      leverage: number;
+      limitRate?: number;
+      stopLossRate?: number;
+      takeProfitRate?: number;
+      instrumentInfo?: InstrumentInfo;
+    }
+  ): Promise<OrderResult> {
+    const submitted: SubmittedOrder = {
+      ...target,
+      clientOrderKey: generateClientOrderKey(),
+      submittedAt: Date.now(),
+      knownIds: this.knownBrokerIds(),
+    };
+
+    let tempOrderId: string | undefined;
+    if (details.instrumentInfo) {
+      tempOrderId = ordersStore.addOptimisticOrder({
+        instrumentId: target.instrumentId,
+        symbol: details.instrumentInfo.symbol,
+        displayName: details.instrumentInfo.displayName,
+        side: target.isBuy ? 'buy' : 'sell',
+        orderType: details.orderType,
+        amount: details.amount,
+        units: target.units,
+        leverage: details.leverage,
+        limitRate: details.limitRate,
+        stopLossRate: details.stopLossRate,
+        takeProfitRate: details.takeProfitRate,
+        clientOrderKey: submitted.clientOrderKey,
+        isDemo: this.isDemo,
+      });
+    }
+
     try {
-      const response = await this.rest.post<TradeResponse>(
-        this.getOpenByUnitsEndpoint(),
-        request
-      );
+      const response = await this.submitOrder(endpoint, request, submitted);
+      // Limit orders rest at the broker; the API may omit their status
+      const status = details.orderType === 'limit' ? response.status ?? 'pending' : response.status;
 
       if (tempOrderId) {
         ordersStore.reconcileOptimisticOrder(tempOrderId, response.orderId, {
-          status: response.status,
+          status,
           executedRate: response.executedRate,
           executedAt: response.executedAt,
         });
@@ -193,7 +307,7 @@ export class TradingAdapter {
       return {
         orderId: response.orderId,
         positionId: response.positionId ?? null,
-        status: response.status,
+        status,
         executedRate: response.executedRate,
         executedAt: response.executedAt,
         message: response.message,
@@ -201,11 +315,170 @@ export class TradingAdapter {
       };
     } catch (error) {
       if (tempOrderId) {
-        ordersStore.updateOrder(tempOrderId, { status: 'rejected' });
+        if (error instanceof OrderOutcomeUnknownError) {
+          ordersStore.markUnknown(tempOrderId, error.message);
+        } else {
+          ordersStore.updateOrder(tempOrderId, { status: 'rejected' });
+        }
       }
       throw error;
     }
   }
+
+  /**
+   * POST an order at most once. Every attempt carries the same client order
+   * key, and before any retry the portfolio is checked for the order, so a
+   * lost response never turns into a second fill. When neither the response
+   * nor the portfolio settles it, OrderOutcomeUnknownError is thrown.
+   */
+  private async submitOrder(
+    endpoint: string,
+    request: Record<string, unknown>,
+    submitted: SubmittedOrder
+  ): Promise<TradeResponse> {
+    const unknown = (reason: string) => new OrderOutcomeUnknownError(
+      `Order outcome unknown (${reason}). Verify it in the blotter before resubmitting.`,
+      submitted.clientOrderKey
+    );
+
+    let response: TradeResponse;
+    try {
+      response = await this.rest.post<TradeResponse>(endpoint, request, {
+        idempotencyKey: submitted.clientOrderKey,
+        beforeRetry: async () => {
+          try {
+            return await this.findSubmittedOrder(submitted);
+          } catch {
+            throw unknown('could not check the portfolio before retrying');
+          }
+        },
+      });
+    } catch (error) {
+      if (error instanceof OrderOutcomeUnknownError || !isAmbiguousFailure(error)) {
+        throw error;
+      }
+
+      // The failed attempt may still have gone through
+      const existing = await this.findSubmittedOrder(submitted).catch(() => undefined);
+      if (existing) {
+        return existing;
+      }
+      throw unknown(error instanceof Error ? error.message : 'no response');
+    }
+
+    if (response.positionId) {
+      claimBrokerId(response.positionId);
+    }
+    if (response.orderId) {
+      claimBrokerId(response.orderId);
+    }
+    return response;
+  }
+
+  /** The broker's record of `submitted`, as if it were the POST response */
+  private async findSubmittedOrder(submitted: SubmittedOrder, isDemo: boolean = this.isDemo): Promise<TradeResponse | undefined> {
+    const snapshot = await fetchPortfolioSnapshot(this.rest, isDemo);
+
+    if (submitted.rate !== undefined) {
+      const order = findPlacedOrder(snapshot, submitted);
+      if (order) {
+        claimBrokerId(order.orderId);
+        return { orderId: order.orderId, status: 'pending' };
+      }
+    }
+
+    // Market orders, and limit orders that have already filled
+    const position = findOpenedPosition(snapshot, submitted);
+    if (position) {
+      claimBrokerId(position.positionId);
+      return {
+        orderId: `open_${position.positionId}`,
+        positionId: position.positionId,
+        status: 'executed',
+        executedRate: position.openRate,
+        executedAt: position.openDateTime,
+      };
+    }
+
+    return undefined;
+  }
+
+  /** A fill of `submitted` that has already been closed again (stop loss, take profit, manual close) */
+  private async findClosedOrder(submitted: SubmittedOrder, isDemo: boolean): Promise<TradeResponse | undefined> {
+    const closed = await fetchClosedPositions(this.rest, isDemo, submitted.submittedAt);
+    const position = findOpenedPosition({ positions: closed, orders: [] }, submitted);
+    if (!position) return undefined;
+
+    claimBrokerId(position.positionId);
+    return {
+      orderId: `open_${position.positionId}`,
+      positionId: position.positionId,
+      status: 'executed',
+      executedRate: position.openRate,
+      executedAt: position.openDateTime,
+    };
+  }
+
+  /** Position and order IDs the terminal already knows, so they are never mistaken for a new fill */
+  private knownBrokerIds(): Set<string> {
+    const ids = new Set<string>();
+    portfolioStore.getPositions().forEach(p => ids.add(String(p.positionId)));
+    ordersStore.getAllOrders().forEach(o => {
+      if (!o.isOptimistic) ids.add(o.orderId);
+    });
+    return ids;
+  }
+
+  /** Fetch working limit orders and sync them into ordersStore */
+  async getPendingOrders(): Promise<PendingOrder[]> {
+    const data = await this.rest.get<Record<string, unknown> | Record<string, unknown>[]>(
+      this.getOrdersEndpoint()
+    );
+
+    const raw = data as Record<string, unknown>;
+    const items = Array.isArray(data)
+      ? data
+      : (raw.orders || raw.Orders || raw.ordersForOpen || raw.items || []) as Record<string, unknown>[];
+
+    const orders: PendingOrder[] = items.map(item => ({
+      orderId: String(item.orderId ?? item.OrderID ?? item.orderID ?? ''),
+      instrumentId: Number(item.instrumentId ?? item.InstrumentID ?? item.instrumentID ?? 0),
+      isBuy: Boolean(item.isBuy ?? item.IsBuy),
+      amount: Number(item.amount ?? item.Amount ?? 0),
+      leverage: Number(item.leverage ?? item.Leverage ?? 1),
+      rate: Number(item.rate ?? item.Rate ?? 0),
+      stopLossRate: (item.stopLossRate ?? item.StopLossRate) as number | undefined,
+      takeProfitRate: (item.takeProfitRate ?? item.TakeProfitRate) as number | undefined,
+      createdAt: String(item.openDateTime ?? item.OpenDateTime ?? item.createdAt ?? new Date().toISOString()),
+    })).filter(order => order.orderId !== '');
+
+    ordersStore.syncWorkingOrders(orders.map(order => {
+      const existing = ordersStore.getOrder(order.orderId);
+      return {
+        orderId: order.orderId,
+        instrumentId: order.instrumentId,
+        symbol: existing?.symbol ?? String(order.instrumentId),
+        displayName: existing?.displayName ?? String(order.instrumentId),
+        side: order.isBuy ? 'buy' : 'sell',
+        orderType: 'limit',
+        amount: order.amount,
+        leverage: order.leverage,
+        limitRate: order.rate,
+        stopLossRate: order.stopLossRate,
+        takeProfitRate: order.takeProfitRate,
+        status: 'pending',
+        createdAt: existing?.createdAt ?? order.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+    }));
+
+    return orders;
+  }
+
+  async cancelLimitOrder(orderId: string): Promise<void> {
+    await this.rest.delete(`${this.getLimitOrdersEndpoint()}/${orderId}`);
+    ordersStore.updateOrder(orderId, { status: 'cancelled' });
+  }
 }
 
 // ============================================================================
@@ -2,7 +2,10 @@
 // Provides structured API responses optimized for AI agent consumption
 
 import { RestAdapter } from './restAdapter';
-import type { RequestOptions } from './restAdapter';
+import type { RequestOptions, RestError } from './restAdapter';
+import { ENDPOINTS } from './contracts/endpoints';
+import { STRATEGY_TEMPLATES } from '../config/strategyTemplates';
+import type { StrategyDefinition } from '../types/strategy.types';
 
 // ============================================================================
 // Types
@@ -54,6 +57,86 @@ export interface ClawParam {
   default?: string;
 }
 
+export type ClawErrorCode =
+  | 'AUTH_REQUIRED'
+  | 'SYMBOL_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'API_ERROR'
+  | 'INVALID_COMMAND'
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED';
+
+export interface ClawAdapterConfig {
+  apiKey?: string;
+  userKey?: string;
+  /** Financial Datasets key for insider/fundamentals/filings/institutional */
+  fdApiKey?: string;
+  /** Read the demo account instead of the real one (default true) */
+  demo?: boolean;
+}
+
+export interface ClawQuote {
+  symbol: string;
+  instrumentId: number;
+  displayName: string;
+  price: number;
+  dailyChangePercent: number;
+}
+
+export interface ClawPosition {
+  positionId: number;
+  instrumentId: number;
+  isBuy: boolean;
+  amount: number;
+  leverage: number;
+  units: number;
+  openRate: number;
+  openDateTime: string;
+  stopLossRate?: number;
+  takeProfitRate?: number;
+  profit: number;
+}
+
+export interface ClawPortfolio {
+  mode: 'demo' | 'real';
+  credit: number;
+  invested: number;
+  unrealizedPnL: number;
+  positions: ClawPosition[];
+}
+
+export interface ClawAlert {
+  id: string;
+  symbol: string;
+  instrumentId: number;
+  type: 'price_above' | 'price_below';
+  threshold: number;
+  note?: string;
+  createdAt: string;
+}
+
+export interface ClawStrategyList {
+  strategies: StrategyDefinition[];
+  templates: { id: string; name: string; type: string; description: string }[];
+}
+
+export interface ClawCommandResult {
+  command: string;
+  code: string;
+  args: string[];
+  result: unknown;
+}
+
+/**
+ * Strategies and alerts created through the API. The terminal keeps its own
+ * copies in localStorage; the server side only sees what agents created.
+ */
+export interface ClawServerState {
+  strategies: StrategyDefinition[];
+  alerts: ClawAlert[];
+}
+
 // ============================================================================
 // Version
 // ============================================================================
@@ -61,20 +144,46 @@ export interface ClawParam {
 export const CLAW_VERSION = '1.8.0';
 export const APP_VERSION = '1.8.0';
 
+const FD_BASE_URL = 'https://api.financialdatasets.ai';
+
+const COMMAND_CODES = ['Q', 'PORT', 'INS', 'INST', 'FD', 'FILINGS', 'NEWS', 'SB', 'ALERTS'];
+
+const ERROR_STATUS: Record<ClawErrorCode, number> = {
+  AUTH_REQUIRED: 401,
+  SYMBOL_NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  API_ERROR: 502,
+  INVALID_COMMAND: 400,
+  INVALID_REQUEST: 400,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+};
+
+/** HTTP status for a failed ClawResponse */
+export function clawErrorStatus(code: string): number {
+  return ERROR_STATUS[code as ClawErrorCode] ?? 500;
+}
+
+type ClawResult<T> = Promise<ClawResponse<T | null>>;
+
 // ============================================================================
 // Claw Adapter
 // ============================================================================
 
 export class ClawAdapter {
   private restAdapter: RestAdapter | null = null;
+  private readonly fdApiKey: string | null;
+  private readonly demo: boolean;
 
-  constructor(config?: { apiKey?: string; userKey?: string }) {
+  constructor(config?: ClawAdapterConfig) {
     if (config?.apiKey && config?.userKey) {
       this.restAdapter = new RestAdapter({
         apiKey: config.apiKey,
         userKey: config.userKey
       });
     }
+    this.fdApiKey = config?.fdApiKey || null;
+    this.demo = config?.demo ?? true;
   }
 
   /**
@@ -99,6 +208,306 @@ export class ClawAdapter {
     });
   }
 
+  // ==========================================================================
+  // Market Data
+  // ==========================================================================
+
+  /**
+   * Get the latest rate for a symbol
+   */
+  async getQuote(symbol: string): ClawResult<ClawQuote> {
+    const started = Date.now();
+    if (!this.restAdapter) return this.authRequired('eToro');
+
+    try {
+      const item = await this.findInstrument(symbol);
+      if (!item) return this.symbolNotFound(symbol);
+
+      return this.wrapResponse<ClawQuote>({
+        symbol: String(item.internalSymbolFull ?? item.InternalSymbolFull ?? item.symbol ?? symbol.toUpperCase()),
+        instrumentId: Number(item.internalInstrumentId ?? item.InternalInstrumentId ?? item.instrumentId ?? item.InstrumentId ?? item.InstrumentID ?? 0),
+        displayName: String(item.instrumentDisplayName ?? item.InstrumentDisplayName ?? item.displayName ?? ''),
+        price: Number(item.currentRate ?? item.CurrentRate ?? 0),
+        dailyChangePercent: Number(item.dailyPriceChange ?? item.DailyPriceChange ?? 0),
+      }, { duration: Date.now() - started, source: 'etoro' });
+    } catch (err) {
+      return this.fromException(err);
+    }
+  }
+
+  // ==========================================================================
+  // Portfolio
+  // ==========================================================================
+
+  /**
+   * Get open positions and P&L for the configured account
+   */
+  async getPortfolio(): ClawResult<ClawPortfolio> {
+    const started = Date.now();
+    if (!this.restAdapter) return this.authRequired('eToro');
+
+    try {
+      const data = await this.etoroGet<Record<string, unknown>>(this.demo ? ENDPOINTS.PORTFOLIO_DEMO : ENDPOINTS.PORTFOLIO);
+      const portfolio = (data.clientPortfolio || data.ClientPortfolio || data) as Record<string, unknown>;
+      const rawPositions = (portfolio.positions || portfolio.Positions || []) as Record<string, unknown>[];
+
+      const positions: ClawPosition[] = rawPositions.map(p => ({
+        positionId: Number(p.positionId ?? p.PositionID ?? p.positionID ?? 0),
+        instrumentId: Number(p.instrumentId ?? p.InstrumentID ?? p.instrumentID ?? 0),
+        isBuy: Boolean(p.isBuy ?? p.IsBuy ?? true),
+        amount: Number(p.amount ?? p.Amount ?? 0),
+        leverage: Number(p.leverage ?? p.Leverage ?? 1),
+        units: Number(p.units ?? p.Units ?? 0),
+        openRate: Number(p.openRate ?? p.OpenRate ?? 0),
+        openDateTime: String(p.openDateTime ?? p.OpenDateTime ?? ''),
+        stopLossRate: (p.stopLossRate ?? p.StopLossRate) as number | undefined,
+        takeProfitRate: (p.takeProfitRate ?? p.TakeProfitRate) as number | undefined,
+        profit: Number(p.netProfit ?? p.NetProfit ?? p.profit ?? p.Profit ?? 0),
+      }));
+
+      return this.wrapResponse<ClawPortfolio>({
+        mode: this.demo ? 'demo' : 'real',
+        credit: Number(portfolio.credit ?? portfolio.Credit ?? 0),
+        invested: positions.reduce((sum, p) => sum + p.amount, 0),
+        unrealizedPnL: positions.reduce((sum, p) => sum + p.profit, 0),
+        positions,
+      }, { duration: Date.now() - started, source: 'etoro' });
+    } catch (err) {
+      return this.fromException(err);
+    }
+  }
+
+  // ==========================================================================
+  // Financial Data
+  // ==========================================================================
+
+  /**
+   * Get insider trades (Form 4 filings) for a symbol
+   */
+  async getInsider(symbol: string, limit: number = 50): ClawResult<unknown[]> {
+    return this.fdResource(symbol, '/insider-trades', 'insider_trades', { limit });
+  }
+
+  /**
+   * Get income statement, balance sheet and cash flow statements
+   */
+  async getFundamentals(symbol: string, period: string = 'quarterly'): ClawResult<Record<string, unknown[]>> {
+    const started = Date.now();
+    if (period !== 'quarterly' && period !== 'annual' && period !== 'ttm') {
+      return this.wrapError({
+        code: 'INVALID_REQUEST',
+        message: `Invalid period: ${period}`,
+        suggestion: 'Use period=quarterly, annual or ttm',
+      });
+    }
+    if (!this.fdApiKey) return this.authRequired('Financial Datasets');
+
+    try {
+      const ticker = symbol.toUpperCase();
+      const params = { ticker, period, limit: 8 };
+      const [income, balance, cashFlow] = await Promise.all([
+        this.fdGet<Record<string, unknown[]>>('/financials/income-statements', params),
+        this.fdGet<Record<string, unknown[]>>('/financials/balance-sheets', params),
+        this.fdGet<Record<string, unknown[]>>('/financials/cash-flow-statements', params),
+      ]);
+
+      return this.wrapResponse({
+        incomeStatements: income.income_statements ?? [],
+        balanceSheets: balance.balance_sheets ?? [],
+        cashFlowStatements: cashFlow.cash_flow_statements ?? [],
+      }, { duration: Date.now() - started, source: 'financial-datasets' });
+    } catch (err) {
+      return this.fromException(err);
+    }
+  }
+
+  /**
+   * Get SEC filings, optionally filtered by form type (10-K, 10-Q, 8-K)
+   */
+  async getFilings(symbol: string, filingType?: string): ClawResult<unknown[]> {
+    return this.fdResource(symbol, '/filings', 'filings', { filing_type: filingType, limit: 20 });
+  }
+
+  /**
+   * Get 13F institutional holders of a symbol
+   */
+  async getInstitutional(symbol: string): ClawResult<unknown[]> {
+    return this.fdResource(symbol, '/institutional-ownership/', 'institutional_ownership', { limit: 50 });
+  }
+
+  /**
+   * Get recent company news
+   */
+  async getNews(symbol: string): ClawResult<unknown[]> {
+    return this.fdResource(symbol, '/news/', 'news', { limit: 20 });
+  }
+
+  // ==========================================================================
+  // Strategies & Alerts
+  // ==========================================================================
+
+  /**
+   * List strategies created through the API, plus the available templates
+   */
+  listStrategies(state: ClawServerState): ClawResponse<ClawStrategyList> {
+    return this.wrapResponse({
+      strategies: state.strategies,
+      templates: STRATEGY_TEMPLATES.map(t => ({ id: t.id, name: t.name, type: t.type, description: t.description })),
+    }, { source: 'claw-server' });
+  }
+
+  /**
+   * Build a draft strategy from a template. AI generation needs the
+   * terminal's AI key, so prompt-only requests are rejected with a hint.
+   */
+  createStrategy(params: { name?: string; template?: string; prompt?: string; instruments?: string[] }): ClawResponse<StrategyDefinition | null> {
+    if (!params.name || typeof params.name !== 'string') {
+      return this.wrapError({ code: 'INVALID_REQUEST', message: 'Missing required field: name' });
+    }
+    // Request bodies arrive unchecked from the HTTP route
+    const instruments: unknown = params.instruments;
+    if (instruments !== undefined && !(Array.isArray(instruments) && instruments.every(s => typeof s === 'string'))) {
+      return this.wrapError({
+        code: 'INVALID_REQUEST',
+        message: 'instruments must be an array of symbols',
+        suggestion: 'Pass instruments as a JSON array, e.g. ["AAPL", "TSLA"], or omit it to use the template defaults',
+      });
+    }
+    if (!params.template) {
+      return this.wrapError({
+        code: 'INVALID_REQUEST',
+        message: params.prompt
+          ? 'AI strategy generation is only available inside the terminal'
+          : 'Missing required field: template',
+        suggestion: 'Pass a template ID from GET /api/claw/strategy/list, or run "SB" in the terminal to use the AI builder',
+      });
+    }
+
+    const template = STRATEGY_TEMPLATES.find(t => t.id === params.template);
+    if (!template) {
+      return this.wrapError({
+        code: 'INVALID_REQUEST',
+        message: `Unknown template: ${params.template}`,
+        details: { templates: STRATEGY_TEMPLATES.map(t => t.id) },
+        suggestion: 'Use one of the template IDs from GET /api/claw/strategy/list',
+      });
+    }
+
+    const now = new Date().toISOString();
+    return this.wrapResponse<StrategyDefinition>({
+      id: `strat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: params.name,
+      description: params.prompt || template.description,
+      type: template.type,
+      timeframe: template.defaultTimeframe,
+      instruments: params.instruments?.length
+        ? params.instruments.map(s => s.toUpperCase())
+        : [...template.defaultInstruments],
+      entryConditions: template.entryConditions.map((c, i) => ({ ...c, id: `entry_${i}` })),
+      exitConditions: template.exitConditions.map((c, i) => ({ ...c, id: `exit_${i}` })),
+      riskParams: {
+        maxPositionSize: 10,
+        stopLossPercent: 2,
+        takeProfitPercent: 6,
+        maxDrawdownPercent: 5,
+        maxDailyLoss: 500,
+        maxConcurrentPositions: 5,
+        maxLeverage: 5,
+        cooldownSeconds: 300,
+        ...template.riskParams,
+      },
+      status: 'draft',
+      createdAt: now,
+      updatedAt: now,
+    }, { source: 'claw-server' });
+  }
+
+  /**
+   * List price alerts created through the API
+   */
+  listAlerts(state: ClawServerState): ClawResponse<ClawAlert[]> {
+    return this.wrapResponse(state.alerts, { source: 'claw-server' });
+  }
+
+  /**
+   * Validate and build a price alert; the symbol must resolve to an instrument
+   */
+  async createAlert(params: { symbol?: string; type?: string; threshold?: number; note?: string }): ClawResult<ClawAlert> {
+    if (!params.symbol || (params.type !== 'price_above' && params.type !== 'price_below') || !(Number(params.threshold) > 0)) {
+      return this.wrapError({
+        code: 'INVALID_REQUEST',
+        message: 'Alert requires symbol, type (price_above|price_below) and a positive threshold',
+        suggestion: '{ "symbol": "AAPL", "type": "price_above", "threshold": 200 }',
+      });
+    }
+
+    const quote = await this.getQuote(params.symbol);
+    if (!quote.success || !quote.data) {
+      return quote as ClawResponse<null>;
+    }
+
+    return this.wrapResponse<ClawAlert>({
+      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      symbol: quote.data.symbol,
+      instrumentId: quote.data.instrumentId,
+      type: params.type,
+      threshold: Number(params.threshold),
+      note: params.note,
+      createdAt: new Date().toISOString(),
+    }, { source: 'claw-server' });
+  }
+
+  // ==========================================================================
+  // Commands
+  // ==========================================================================
+
+  /**
+   * Execute a terminal command and return the data its panel would show
+   */
+  async executeCommand(command: string, state: ClawServerState): ClawResult<ClawCommandResult> {
+    const [rawCode, ...args] = (command || '').trim().split(/\s+/);
+    const code = (rawCode || '').toUpperCase();
+    const symbol = args[0];
+
+    const needsSymbol = ['Q', 'INS', 'INST', 'FD', 'FILINGS', 'NEWS'];
+    if (!COMMAND_CODES.includes(code)) {
+      return this.wrapError({
+        code: 'INVALID_COMMAND',
+        message: code ? `Unknown command: ${code}` : 'Empty command',
+        details: { available: COMMAND_CODES },
+        suggestion: 'Try "Q AAPL", "PORT" or "FD MSFT annual"',
+      });
+    }
+    if (needsSymbol.includes(code) && !symbol) {
+      return this.wrapError({
+        code: 'INVALID_COMMAND',
+        message: `${code} requires a symbol`,
+        suggestion: `Use "${code} <symbol>", e.g. "${code} AAPL"`,
+      });
+    }
+
+    let inner: ClawResponse<unknown>;
+    switch (code) {
+      case 'Q': inner = await this.getQuote(symbol); break;
+      case 'PORT': inner = await this.getPortfolio(); break;
+      case 'INS': inner = await this.getInsider(symbol); break;
+      case 'INST': inner = await this.getInstitutional(symbol); break;
+      case 'FD': inner = await this.getFundamentals(symbol, args[1]?.toLowerCase()); break;
+      case 'FILINGS': inner = await this.getFilings(symbol, args[1]?.toUpperCase()); break;
+      case 'NEWS': inner = await this.getNews(symbol); break;
+      case 'SB': inner = this.listStrategies(state); break;
+      default: inner = this.listAlerts(state); break;
+    }
+
+    if (!inner.success) {
+      return inner as ClawResponse<null>;
+    }
+    return {
+      ...inner,
+      data: { command: command.trim(), code, args, result: inner.data },
+    };
+  }
+
   /**
    * Get available endpoints for Claw agents
    */
@@ -172,6 +581,18 @@ export class ClawAdapter {
         method: 'GET',
         description: 'Get active price alerts'
       },
+      {
+        path: '/api/claw/alerts',
+        method: 'POST',
+        description: 'Create a price alert',
+        params: [
+          { name: 'symbol', type: 'string', required: true, description: 'Symbol to watch' },
+          { name: 'type', type: 'string', required: true, description: 'price_above|price_below' },
+          { name: 'threshold', type: 'number', required: true, description: 'Trigger price' },
+          { name: 'note', type: 'string', required: false, description: 'Free-text note' }
+        ],
+        example: '{ "symbol": "AAPL", "type": "price_above", "threshold": 200 }'
+      },
       {
         path: '/api/claw/command',
         method: 'POST',
@@ -203,7 +624,7 @@ export class ClawAdapter {
   /**
    * Create error response
    */
-  private wrapError(error: Partial<ClawError>): ClawResponse<null> {
+  wrapError(error: Partial<ClawError>): ClawResponse<null> {
     return {
       success: false,
       version: CLAW_VERSION,
@@ -219,6 +640,106 @@ export class ClawAdapter {
     };
   }
 
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async etoroGet<T>(endpoint: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    if (!this.restAdapter) {
+      throw new Error('eToro API keys not configured');
+    }
+    return this.restAdapter.get<T>(endpoint, { retries: 1, ...options });
+  }
+
+  private async findInstrument(symbol: string): Promise<Record<string, unknown> | null> {
+    const upper = symbol.toUpperCase();
+    const data = await this.etoroGet<Record<string, unknown> | Record<string, unknown>[]>(
+      `${ENDPOINTS.MARKET_DATA_SEARCH}?internalSymbolFull=${encodeURIComponent(upper)}`
+    );
+    const raw = data as Record<string, unknown>;
+    const items = (Array.isArray(data) ? data : raw.items || raw.Items || raw.instruments || []) as Record<string, unknown>[];
+    return items.find(item =>
+      String(item.internalSymbolFull ?? item.InternalSymbolFull ?? item.symbol ?? item.Symbol ?? '').toUpperCase() === upper
+    ) ?? null;
+  }
+
+  private async fdGet<T>(endpoint: string, params: Record<string, string | number | undefined>): Promise<T> {
+    const url = new URL(`${FD_BASE_URL}${endpoint}`);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.append(key, String(value));
+    });
+
+    const response = await fetch(url.toString(), {
+      headers: { 'X-API-KEY': this.fdApiKey ?? '', 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+      const error = new Error(`Financial Datasets API error (${response.status}): ${await response.text()}`) as Error & { status: number };
+      error.status = response.status;
+      throw error;
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private async fdResource(
+    symbol: string,
+    endpoint: string,
+    field: string,
+    params: Record<string, string | number | undefined>
+  ): ClawResult<unknown[]> {
+    const started = Date.now();
+    if (!this.fdApiKey) return this.authRequired('Financial Datasets');
+
+    try {
+      const data = await this.fdGet<Record<string, unknown[]>>(endpoint, { ticker: symbol.toUpperCase(), ...params });
+      const items = data[field] ?? [];
+      if (items.length === 0 && endpoint !== '/news/') {
+        return this.symbolNotFound(symbol);
+      }
+      return this.wrapResponse(items, { duration: Date.now() - started, source: 'financial-datasets' });
+    } catch (err) {
+      return this.fromException(err);
+    }
+  }
+
+  private authRequired(provider: 'eToro' | 'Financial Datasets'): ClawResponse<null> {
+    return this.wrapError({
+      code: 'AUTH_REQUIRED',
+      message: `${provider} API key not configured`,
+      recoverable: true,
+      suggestion: provider === 'eToro'
+        ? 'Send X-Api-Key and X-User-Key headers, or set ETORO_API_KEY and ETORO_USER_KEY on the server'
+        : 'Send an X-FD-Api-Key header, or set FD_API_KEY on the server',
+    });
+  }
+
+  private symbolNotFound(symbol: string): ClawResponse<null> {
+    return this.wrapError({
+      code: 'SYMBOL_NOT_FOUND',
+      message: `No data for symbol: ${symbol}`,
+      details: { symbol },
+      suggestion: 'Check the ticker (e.g. AAPL, BTC, EURUSD)',
+    });
+  }
+
+  private fromException(err: unknown): ClawResponse<null> {
+    const status = (err as Partial<RestError>)?.status ?? 0;
+    const message = err instanceof Error ? err.message : String(err);
+
+    if (status === 401 || status === 403) {
+      return this.wrapError({ code: 'AUTH_REQUIRED', message, suggestion: 'Check that the API keys are valid and not expired' });
+    }
+    if (status === 429) {
+      return this.wrapError({ code: 'RATE_LIMITED', message, suggestion: 'Wait a few seconds and retry' });
+    }
+    return this.wrapError({
+      code: 'API_ERROR',
+      message,
+      details: status ? { status } : undefined,
+      recoverable: status === 0 || status >= 500,
+      suggestion: 'Retry the request; if it keeps failing check GET /api/claw/status',
+    });
+  }
+
   private generateRequestId(): string {
     return `claw-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
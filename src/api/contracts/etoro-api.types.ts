@@ -50,6 +50,7 @@ export interface Position {
   openDateTime: string;
   takeProfitRate?: number;
   stopLossRate?: number;
+  isTslEnabled?: boolean;
   profit?: number;
   profitPercentage?: number;
 }
@@ -72,6 +73,26 @@ export interface PortfolioResponse {
   };
 }
 
+/** A closed position from the trading history endpoints */
+export interface ClosedTrade {
+  positionId: number;
+  instrumentId: number;
+  symbol?: string;
+  isBuy: boolean;
+  leverage: number;
+  units: number;
+  /** Invested amount */
+  amount: number;
+  openRate: number;
+  closeRate: number;
+  openDateTime: string;
+  closeDateTime: string;
+  /** Overnight and other charges over the life of the position */
+  fees: number;
+  /** Realized P&L after fees */
+  netProfit: number;
+}
+
 // ============================================================================
 // Quote Types
 // ============================================================================
@@ -186,12 +207,14 @@ export interface ModifyPositionRequest {
   positionId: number;
   takeProfitRate?: number;
   stopLossRate?: number;
+  isTslEnabled?: boolean;
 }
 
 export interface ModifyPositionResponse {
   positionId: number;
   takeProfitRate?: number;
   stopLossRate?: number;
+  isTslEnabled?: boolean;
   updatedAt: string;
 }
 
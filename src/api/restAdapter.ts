@@ -17,6 +17,14 @@ export interface RequestOptions {
   timeout?: number;
   retries?: number;
   retryDelay?: number;
+  /** Sent as x-request-id instead of a fresh UUID, so every attempt carries the same key */
+  idempotencyKey?: string;
+  /**
+   * Runs before each retry. POSTs are only retried when this is set: return
+   * the result if the failed attempt actually went through, or undefined to
+   * resend. Throwing aborts the retries with that error.
+   */
+  beforeRetry?: (error: RestError, attempt: number) => Promise<unknown>;
 }
 
 export interface RestAdapterConfig {
@@ -187,9 +195,13 @@ export class RestAdapter {
     this.onError = config.onError || defaultErrorInterceptor;
   }
 
-  private buildHeaders(method: HttpMethod, additionalHeaders?: Record<string, string>): Record<string, string> {
+  private buildHeaders(
+    method: HttpMethod,
+    additionalHeaders?: Record<string, string>,
+    idempotencyKey?: string
+  ): Record<string, string> {
     const headers: Record<string, string> = {
-      [REQUIRED_HEADERS.REQUEST_ID]: generateUUID(),
+      [REQUIRED_HEADERS.REQUEST_ID]: idempotencyKey || generateUUID(),
       [REQUIRED_HEADERS.API_KEY]: this.apiKey,
       [REQUIRED_HEADERS.USER_KEY]: this.userKey,
     };
@@ -213,9 +225,12 @@ export class RestAdapter {
     fn: () => Promise<T>,
     context: RequestContext,
     retries: number,
-    delay: number
+    delay: number,
+    beforeRetry?: RequestOptions['beforeRetry']
   ): Promise<T> {
     let lastError: RestError | undefined;
+    // A POST that failed server-side may still have been applied; never resend it blind
+    const canRetry = context.method !== 'POST' || beforeRetry !== undefined;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
@@ -223,7 +238,7 @@ export class RestAdapter {
       } catch (error) {
         lastError = error as RestError;
 
-        if (!lastError.isRetryable || attempt === retries) {
+        if (!lastError.isRetryable || attempt === retries || !canRetry) {
           throw lastError;
         }
 
@@ -232,6 +247,16 @@ export class RestAdapter {
           requestId: context.requestId,
         });
         await this.sleep(backoffDelay);
+
+        if (beforeRetry) {
+          const settled = await beforeRetry(lastError, attempt + 1);
+          if (settled !== undefined) {
+            console.log('[REST] Earlier attempt went through, not retrying', {
+              requestId: context.requestId,
+            });
+            return settled as T;
+          }
+        }
       }
     }
 
@@ -241,7 +266,7 @@ export class RestAdapter {
   async makeRequest<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
     const method = options.method || 'GET';
     const url = `${this.baseUrl}${endpoint}`;
-    const headers = this.buildHeaders(method, options.headers);
+    const headers = this.buildHeaders(method, options.headers, options.idempotencyKey);
     const requestId = headers[REQUIRED_HEADERS.REQUEST_ID];
     const startTime = Date.now();
 
@@ -317,7 +342,7 @@ export class RestAdapter {
       }
     };
 
-    return this.executeWithRetry(executeRequest, context, retries, retryDelay);
+    return this.executeWithRetry(executeRequest, context, retries, retryDelay, options.beforeRetry);
   }
 
   async get<T = unknown>(endpoint: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
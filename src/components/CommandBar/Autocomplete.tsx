@@ -2,7 +2,8 @@ import React from 'react';
 import { SymbolSearchResult } from '../../services/symbolResolver';
 
 export interface AutocompleteItem {
-  type: 'symbol' | 'function';
+  /** `error` rows explain why the input can't run and can't be selected */
+  type: 'symbol' | 'function' | 'history' | 'error';
   label: string;
   description: string;
   value: string;
@@ -16,6 +17,13 @@ interface AutocompleteProps {
   visible: boolean;
 }
 
+const TYPE_BADGES: Record<AutocompleteItem['type'], string> = {
+  function: 'CMD',
+  symbol: 'SYM',
+  history: 'HIST',
+  error: 'ERR',
+};
+
 const autocompleteStyles: Record<string, React.CSSProperties> = {
   container: {
     position: 'absolute',
@@ -58,6 +66,17 @@ const autocompleteStyles: Record<string, React.CSSProperties> = {
     fontSize: '12px',
     fontFamily: "'Courier New', monospace",
   },
+  errorLabel: {
+    color: '#ff4444',
+    fontSize: '14px',
+    fontFamily: "'Courier New', monospace",
+    fontWeight: 'bold',
+  },
+  errorDescription: {
+    color: '#ff8888',
+    fontSize: '12px',
+    fontFamily: "'Courier New', monospace",
+  },
   type: {
     color: '#006600',
     fontSize: '11px',
@@ -100,7 +119,7 @@ export const Autocomplete: React.FC<AutocompleteProps> = ({
             ...autocompleteStyles.item,
             ...(index === selectedIndex ? autocompleteStyles.itemSelected : {}),
           }}
-          onClick={() => onSelect(item)}
+          onClick={() => item.type !== 'error' && onSelect(item)}
           onMouseEnter={(e) => {
             (e.currentTarget as HTMLDivElement).style.backgroundColor = '#002200';
           }}
@@ -111,14 +130,15 @@ export const Autocomplete: React.FC<AutocompleteProps> = ({
           }}
           role="option"
           aria-selected={index === selectedIndex}
+          aria-disabled={item.type === 'error' || undefined}
           aria-label={`${item.label}: ${item.description}`}
         >
           <div style={autocompleteStyles.itemLeft}>
-            <span style={autocompleteStyles.label}>{item.label}</span>
-            <span style={autocompleteStyles.description}>{item.description}</span>
+            <span style={item.type === 'error' ? autocompleteStyles.errorLabel : autocompleteStyles.label}>{item.label}</span>
+            <span style={item.type === 'error' ? autocompleteStyles.errorDescription : autocompleteStyles.description}>{item.description}</span>
           </div>
           <span style={autocompleteStyles.type} aria-hidden="true">
-            {item.type === 'function' ? 'CMD' : 'SYM'}
+            {TYPE_BADGES[item.type]}
           </span>
         </div>
       ))}
@@ -1,12 +1,19 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { symbolResolver, ResolvedSymbol } from '../../services/symbolResolver';
+import { workspaceLayoutService } from '../../services/workspaceLayoutService';
+import { CommandRegistry, formatCommandUsage, type CommandArgs, type CommandDefinition } from '../Workspace/CommandRegistry';
 import { Autocomplete, AutocompleteItem } from './Autocomplete';
+import { parseCommand, CommandParseError } from './commandParser';
+import { commandHistory } from './commandHistory';
+import { useShortcut, useShortcutKeys, ariaHelpers } from '../../utils/accessibility';
 import './CommandBar.css';
 
 export interface CommandBarCommand {
   type: 'function' | 'symbol';
   code?: string;
   symbol?: ResolvedSymbol;
+  /** Parsed arguments by name, e.g. `amount` and `leverage` for BUY */
+  args?: CommandArgs;
   raw: string;
 }
 
@@ -15,58 +22,72 @@ interface CommandBarProps {
   placeholder?: string;
 }
 
-interface FunctionCode {
-  code: string;
-  name: string;
-  description: string;
+function toErrorItem(error: CommandParseError): AutocompleteItem {
+  return {
+    type: 'error',
+    label: error.code.replace(/_/g, ' '),
+    description: error.message,
+    value: '',
+  };
+}
+
+function toCommandItem(command: CommandDefinition, alias?: string): AutocompleteItem {
+  return {
+    type: 'function',
+    label: formatCommandUsage(command),
+    description: `${command.name} - ${command.description}${alias ? ` (${alias})` : ''}`,
+    value: command.code,
+  };
 }
 
-const FUNCTION_CODES: FunctionCode[] = [
-  { code: 'QT', name: 'Quote', description: 'Get price quote for symbol' },
-  { code: 'WL', name: 'Watchlist', description: 'View/manage watchlist' },
-  { code: 'WLM', name: 'Watchlist Monitor', description: 'Monitor watchlist prices' },
-  { code: 'CUR', name: 'Curated Lists', description: 'Browse curated lists' },
-  { code: 'REC', name: 'Recommendations', description: 'View recommendations' },
-  { code: 'TRD', name: 'Trade', description: 'Execute trade' },
-  { code: 'ORD', name: 'Orders', description: 'View pending orders' },
-  { code: 'PF', name: 'Portfolio', description: 'View portfolio positions' },
-  { code: 'PI', name: 'Trader Search', description: 'Search for traders' },
-  { code: 'PIP', name: 'Trader Profile', description: 'View trader profile' },
-  { code: 'CH', name: 'Chart', description: 'View price chart' },
-  { code: 'AL', name: 'Alerts', description: 'Manage price alerts' },
-  { code: 'FEED', name: 'Feeds', description: 'View social feeds' },
-  { code: 'API', name: 'API Tester', description: 'Test API endpoints' },
-  { code: 'HELP', name: 'Help', description: 'View help documentation' },
-  { code: 'STATUS', name: 'Status', description: 'Connection status' },
-  { code: 'SB', name: 'Strategy Builder', description: 'AI-powered strategy creation' },
-  { code: 'STRAT', name: 'Strategy Builder', description: 'AI-powered strategy creation (alias)' },
-  { code: 'FB', name: 'Feedback', description: 'Submit feedback and suggestions' },
-  { code: 'FEEDBACK', name: 'Feedback', description: 'Submit feedback and suggestions (alias)' },
-  { code: 'INS', name: 'Insider Activity', description: 'View insider trades & sentiment' },
-  { code: 'INSIDER', name: 'Insider Activity', description: 'View insider trades & sentiment (alias)' },
-  { code: 'INST', name: 'Institutional', description: 'Who owns what - 13F filings' },
-  { code: 'WHALE', name: 'Institutional', description: 'Track Buffett, Soros, BlackRock holdings' },
-  { code: 'FD', name: 'Fundamentals', description: 'Income statements, EPS, margins' },
-  { code: 'FUND', name: 'Fundamentals', description: 'Financial statements (alias)' },
-  { code: 'FILINGS', name: 'SEC Filings', description: '10-K, 10-Q, 8-K filings' },
-  { code: 'SEC', name: 'SEC Filings', description: 'Browse SEC filings (alias)' },
-  { code: 'QUANT', name: 'Quant Chat', description: 'Chat with your AI trading co-pilot' },
-  { code: 'CHAT', name: 'Quant Chat', description: 'AI assistant (alias)' },
-  { code: 'AI', name: 'Quant Chat', description: 'AI assistant (alias)' },
-];
+function firstSelectable(items: AutocompleteItem[]): number {
+  return Math.max(0, items.findIndex((item) => item.type !== 'error'));
+}
 
 export const CommandBar: React.FC<CommandBarProps> = ({
   onCommand,
-  placeholder = 'Enter command (e.g., AAPL QT, WL, TRD TSLA)...',
+  placeholder = 'Enter command (e.g., AAPL QT, AAPL BUY 500 5X, TSLA CH 1D)...',
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [suggestions, setSuggestions] = useState<AutocompleteItem[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [showAutocomplete, setShowAutocomplete] = useState(false);
+  const [historySearch, setHistorySearch] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const historySearchRef = useRef(false);
+  // Position while stepping through history with the arrow keys; -1 is the current input
+  const historyIndexRef = useRef(-1);
+  const historyKeys = useShortcutKeys('command-bar.history-search');
+
+  const showItems = useCallback((items: AutocompleteItem[]) => {
+    setSuggestions(items);
+    setSelectedIndex(firstSelectable(items));
+    setShowAutocomplete(items.length > 0);
+  }, []);
+
+  const showError = useCallback((error: CommandParseError) => {
+    showItems([toErrorItem(error)]);
+  }, [showItems]);
+
+  const showHistoryMatches = useCallback((query: string) => {
+    const matches = commandHistory.search(query).slice(0, 20);
+    showItems(matches.length > 0
+      ? matches.map((entry) => ({ type: 'history', label: entry, description: 'Run again', value: entry }))
+      : [toErrorItem(new CommandParseError('UNKNOWN_COMMAND', `No history matching "${query.trim()}"`))]);
+  }, [showItems]);
+
+  const setHistorySearchMode = useCallback((active: boolean) => {
+    historySearchRef.current = active;
+    setHistorySearch(active);
+  }, []);
 
   const searchSuggestions = useCallback(async (query: string) => {
+    if (historySearchRef.current) {
+      showHistoryMatches(query);
+      return;
+    }
+
     if (!query.trim()) {
       setSuggestions([]);
       setShowAutocomplete(false);
@@ -74,46 +95,83 @@ export const CommandBar: React.FC<CommandBarProps> = ({
     }
 
     const upperQuery = query.toUpperCase().trim();
+    const tokens = query.trim().split(/\s+/);
     const items: AutocompleteItem[] = [];
 
-    const matchingFunctions = FUNCTION_CODES.filter(
-      (fc) =>
-        fc.code.startsWith(upperQuery) ||
-        fc.name.toUpperCase().includes(upperQuery)
-    );
+    // LAYOUT <name>: suggest saved layouts instead of symbols
+    if (tokens.length > 1 && CommandRegistry.resolve(tokens[0])?.code === 'LAYOUT') {
+      const nameQuery = query.trim().slice(tokens[0].length).trim().toLowerCase();
+      for (const layout of workspaceLayoutService.listLayouts()) {
+        if (layout.name.toLowerCase().includes(nameQuery)) {
+          items.push({
+            type: 'function',
+            label: `LAYOUT ${layout.name}`,
+            description: `Switch layout - ${layout.panels.length} panels`,
+            value: `LAYOUT ${layout.name}`,
+          });
+        }
+      }
+      showItems(items);
+      return;
+    }
+
+    const parsed = parseCommand(query);
+
+    if (tokens.length === 1) {
+      for (const command of CommandRegistry.search(upperQuery)) {
+        const alias = command.code.startsWith(upperQuery)
+          ? undefined
+          : command.aliases?.find((a) => a.startsWith(upperQuery));
+        items.push(toCommandItem(command, alias));
+      }
 
-    for (const fc of matchingFunctions) {
+      try {
+        const symbolResults = await symbolResolver.searchSymbols(query, 8);
+        for (const sym of symbolResults) {
+          items.push({
+            type: 'symbol',
+            label: sym.symbol,
+            description: sym.name,
+            value: sym.symbol,
+            data: sym,
+          });
+        }
+      } catch {
+        // Silently handle symbol search errors
+      }
+    } else if (!parsed.func && tokens.length === 2) {
+      // SYMBOL FUNC: complete the function code
+      const symbol = tokens[0].toUpperCase();
+      for (const command of CommandRegistry.search(tokens[1])) {
+        items.push({
+          type: 'function',
+          label: `${symbol} ${formatCommandUsage(command)}`,
+          description: `${command.name} - ${command.description}`,
+          value: `${symbol} ${command.code}`,
+        });
+      }
+    } else if (parsed.func && !parsed.error) {
+      const command = CommandRegistry.resolve(parsed.func);
       items.push({
         type: 'function',
-        label: fc.code,
-        description: `${fc.name} - ${fc.description}`,
-        value: fc.code,
+        label: query.trim(),
+        description: `${command?.name ?? parsed.func} - press Enter to run`,
+        value: query.trim(),
       });
     }
 
-    try {
-      const symbolResults = await symbolResolver.searchSymbols(query, 8);
-      for (const sym of symbolResults) {
-        items.push({
-          type: 'symbol',
-          label: sym.symbol,
-          description: sym.name,
-          value: sym.symbol,
-          data: sym,
-        });
-      }
-    } catch {
-      // Silently handle symbol search errors
+    // Errors only once past the first token, and not while a function code is being completed
+    if (parsed.error && tokens.length > 1 && !(parsed.error.code === 'UNKNOWN_COMMAND' && items.length > 0)) {
+      items.unshift(toErrorItem(parsed.error));
     }
 
-    setSuggestions(items);
-    setSelectedIndex(0);
-    setShowAutocomplete(items.length > 0);
-  }, []);
+    showItems(items);
+  }, [showItems, showHistoryMatches]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setInputValue(value);
+    historyIndexRef.current = -1;
 
     if (debounceRef.current) {
       clearTimeout(debounceRef.current);
@@ -124,49 +182,141 @@ export const CommandBar: React.FC<CommandBarProps> = ({
     }, 150);
   };
 
-  const handleSelectItem = useCallback(
-    (item: AutocompleteItem) => {
-      if (item.type === 'function') {
-        setInputValue(item.value + ' ');
-        onCommand?.({
-          type: 'function',
-          code: item.value,
-          raw: item.value,
-        });
-      } else if (item.type === 'symbol' && item.data) {
+  const closeAutocomplete = () => {
+    setShowAutocomplete(false);
+    setSuggestions([]);
+  };
+
+  const parseAndExecuteCommand = async (input: string) => {
+    setHistorySearchMode(false);
+    const parsed = parseCommand(input);
+    if (parsed.error) {
+      showError(parsed.error);
+      return;
+    }
+
+    let resolved: ResolvedSymbol | null = null;
+    if (parsed.symbol) {
+      resolved = await symbolResolver.resolveSymbol(parsed.symbol);
+      if (!resolved) {
+        showError(new CommandParseError('INVALID_ARGUMENT', `Unknown symbol "${parsed.symbol}"`, parsed.symbol));
+        return;
+      }
+    }
+
+    if (parsed.func) {
+      onCommand?.({
+        type: 'function',
+        code: parsed.func,
+        symbol: resolved ?? undefined,
+        args: parsed.args,
+        raw: input,
+      });
+    } else if (resolved) {
+      onCommand?.({
+        type: 'symbol',
+        symbol: resolved,
+        raw: input,
+      });
+    }
+
+    commandHistory.add(input);
+    historyIndexRef.current = -1;
+    setInputValue('');
+    closeAutocomplete();
+  };
+
+  const handleSelectItem = (item: AutocompleteItem) => {
+    if (item.type === 'error') {
+      return;
+    }
+
+    if (item.type === 'function') {
+      // Codes that still need arguments stay in the input to be completed
+      if (parseCommand(item.value).error?.code === 'MISSING_ARGUMENT') {
         setInputValue(item.value + ' ');
-        onCommand?.({
-          type: 'symbol',
-          symbol: item.data,
-          raw: item.value,
-        });
+        closeAutocomplete();
+      } else {
+        parseAndExecuteCommand(item.value);
       }
-      setShowAutocomplete(false);
-      setSuggestions([]);
-      inputRef.current?.focus();
-    },
-    [onCommand]
-  );
+    } else if (item.type === 'history') {
+      setInputValue(item.value);
+      parseAndExecuteCommand(item.value);
+    } else if (item.type === 'symbol' && item.data) {
+      setInputValue(item.value + ' ');
+      onCommand?.({
+        type: 'symbol',
+        symbol: item.data,
+        raw: item.value,
+      });
+      closeAutocomplete();
+    }
+    inputRef.current?.focus();
+  };
 
-  const handleExecute = useCallback(() => {
+  const handleExecute = () => {
     if (inputValue.trim()) {
       parseAndExecuteCommand(inputValue.trim());
     }
-  }, [inputValue]);
+  };
+
+  // Shell-style history: up for older commands, down back towards the current input
+  const stepHistory = (direction: 1 | -1) => {
+    const entries = commandHistory.getAll();
+    const next = Math.min(historyIndexRef.current + direction, entries.length - 1);
+    if (next === historyIndexRef.current || next < -1) return;
+
+    historyIndexRef.current = next;
+    setInputValue(next === -1 ? '' : entries[next]);
+  };
+
+  useShortcut('command-bar.focus', () => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  });
+
+  useShortcut('command-bar.palette', () => {
+    setHistorySearchMode(false);
+    inputRef.current?.focus();
+    showItems(CommandRegistry.getAll().map((command) => toCommandItem(command)));
+  });
+
+  // Pressing it again while searching moves to the next older match
+  useShortcut('command-bar.history-search', () => {
+    inputRef.current?.focus();
+    if (historySearch && suggestions.length > 0) {
+      setSelectedIndex((prev) => (prev + 1) % suggestions.length);
+    } else {
+      setHistorySearchMode(true);
+      showHistoryMatches(inputValue);
+    }
+  });
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     // Enter key always executes command (with or without autocomplete)
     if (e.key === 'Enter') {
       e.preventDefault();
-      if (showAutocomplete && suggestions[selectedIndex]) {
-        handleSelectItem(suggestions[selectedIndex]);
+      const selected = showAutocomplete ? suggestions[selectedIndex] : undefined;
+      if (selected && selected.type !== 'error') {
+        handleSelectItem(selected);
       } else if (inputValue.trim()) {
         parseAndExecuteCommand(inputValue.trim());
       }
       return;
     }
 
+    if (e.key === 'Escape' && historySearch) {
+      e.preventDefault();
+      setHistorySearchMode(false);
+      closeAutocomplete();
+      return;
+    }
+
     if (!showAutocomplete) {
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        stepHistory(e.key === 'ArrowUp' ? 1 : -1);
+      }
       return;
     }
 
@@ -185,8 +335,7 @@ export const CommandBar: React.FC<CommandBarProps> = ({
         break;
       case 'Escape':
         e.preventDefault();
-        setShowAutocomplete(false);
-        setSuggestions([]);
+        closeAutocomplete();
         break;
       case 'Tab':
         e.preventDefault();
@@ -197,50 +346,6 @@ export const CommandBar: React.FC<CommandBarProps> = ({
     }
   };
 
-  const parseAndExecuteCommand = async (input: string) => {
-    const parts = input.toUpperCase().split(/\s+/);
-    
-    const funcMatch = FUNCTION_CODES.find((fc) => parts.includes(fc.code));
-    if (funcMatch) {
-      const symbolPart = parts.find((p) => p !== funcMatch.code);
-      if (symbolPart) {
-        const resolved = await symbolResolver.resolveSymbol(symbolPart);
-        if (resolved) {
-          onCommand?.({
-            type: 'function',
-            code: funcMatch.code,
-            symbol: resolved,
-            raw: input,
-          });
-        } else {
-          onCommand?.({
-            type: 'function',
-            code: funcMatch.code,
-            raw: input,
-          });
-        }
-      } else {
-        onCommand?.({
-          type: 'function',
-          code: funcMatch.code,
-          raw: input,
-        });
-      }
-      setInputValue('');
-      return;
-    }
-
-    const resolved = await symbolResolver.resolveSymbol(parts[0]);
-    if (resolved) {
-      onCommand?.({
-        type: 'symbol',
-        symbol: resolved,
-        raw: input,
-      });
-      setInputValue('');
-    }
-  };
-
   const handleFunctionCodeClick = (code: string) => {
     setInputValue(code + ' ');
     inputRef.current?.focus();
@@ -257,7 +362,9 @@ export const CommandBar: React.FC<CommandBarProps> = ({
   return (
     <div className="command-bar" role="search">
       <div className="command-bar-input-wrapper">
-        <span className="command-bar-prompt" aria-hidden="true">&gt;</span>
+        <span className="command-bar-prompt" aria-hidden="true">
+          {historySearch ? '(history)' : '>'}
+        </span>
         <input
           ref={inputRef}
           type="text"
@@ -266,7 +373,10 @@ export const CommandBar: React.FC<CommandBarProps> = ({
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
           onBlur={() => {
-            setTimeout(() => setShowAutocomplete(false), 200);
+            setTimeout(() => {
+              setShowAutocomplete(false);
+              setHistorySearchMode(false);
+            }, 200);
           }}
           onFocus={() => {
             if (suggestions.length > 0) {
@@ -276,11 +386,12 @@ export const CommandBar: React.FC<CommandBarProps> = ({
           placeholder={placeholder}
           autoComplete="off"
           spellCheck={false}
-          aria-label="Command bar - enter symbol or function code"
+          aria-label={`Command bar - enter symbol or function code${historyKeys ? `, ${historyKeys} to search history` : ''}`}
           aria-autocomplete="list"
           aria-expanded={showAutocomplete}
           aria-controls="command-suggestions"
           aria-activedescendant={showAutocomplete && suggestions[selectedIndex] ? `suggestion-${selectedIndex}` : undefined}
+          aria-keyshortcuts={ariaHelpers.keyShortcuts(historyKeys)}
           role="combobox"
         />
         <button 
@@ -293,14 +404,14 @@ export const CommandBar: React.FC<CommandBarProps> = ({
         </button>
       </div>
       <nav className="command-bar-function-codes" aria-label="Quick function codes">
-        {FUNCTION_CODES.map((fc) => (
+        {CommandRegistry.getAll().map((command) => (
           <button
-            key={fc.code}
+            key={command.code}
             className="function-code"
-            onClick={() => handleFunctionCodeClick(fc.code)}
-            aria-label={`${fc.name}: ${fc.description}`}
+            onClick={() => handleFunctionCodeClick(command.code)}
+            aria-label={`${command.name}: ${command.description}`}
           >
-            {fc.code}
+            {command.code}
           </button>
         ))}
       </nav>
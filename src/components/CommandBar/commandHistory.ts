@@ -0,0 +1,52 @@
+/**
+ * Command History
+ *
+ * Commands run from the command bar, newest first, kept in localStorage so
+ * they survive restarts. Repeating a command moves it to the top.
+ */
+
+const STORAGE_KEY = 'etoro-terminal-command-history';
+const MAX_ENTRIES = 200;
+
+function read(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(entries: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn('Failed to save command history:', error);
+  }
+}
+
+export const commandHistory = {
+  /** Newest first */
+  getAll(): string[] {
+    return read();
+  },
+
+  add(command: string): void {
+    const trimmed = command.trim();
+    if (!trimmed) return;
+
+    const entries = read().filter((entry) => entry.toLowerCase() !== trimmed.toLowerCase());
+    write([trimmed, ...entries].slice(0, MAX_ENTRIES));
+  },
+
+  /** Entries containing the query, case-insensitively, newest first */
+  search(query: string): string[] {
+    const q = query.trim().toLowerCase();
+    const entries = read();
+    return q ? entries.filter((entry) => entry.toLowerCase().includes(q)) : entries;
+  },
+
+  clear(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  },
+};
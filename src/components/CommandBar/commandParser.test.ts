@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CommandRegistry } from '../Workspace/CommandRegistry';
+import { parseCommand } from './commandParser';
+
+beforeAll(() => {
+  CommandRegistry.register({
+    code: 'CH',
+    name: 'Chart',
+    description: 'View price chart',
+    args: [
+      { name: 'symbol', type: 'symbol' },
+      { name: 'timeframe', type: 'keyword', choices: ['1D', '1W'] },
+    ],
+  });
+  CommandRegistry.register({
+    code: 'COPILOT',
+    name: 'Co-pilot',
+    description: 'Chat with your AI trading co-pilot',
+    aliases: ['AI'],
+  });
+});
+
+describe('parseCommand', () => {
+  it('reads FUNC [args]', () => {
+    const parsed = parseCommand('CH TSLA 1D');
+    expect(parsed.error).toBeNull();
+    expect(parsed.func).toBe('CH');
+    expect(parsed.symbol).toBe('TSLA');
+    expect(parsed.args.timeframe).toBe('1D');
+  });
+
+  it('reads SYMBOL FUNC [args]', () => {
+    const parsed = parseCommand('tsla ch 1w');
+    expect(parsed.error).toBeNull();
+    expect(parsed.func).toBe('CH');
+    expect(parsed.symbol).toBe('TSLA');
+  });
+
+  it('reads a ticker that is also a command alias as the symbol when a function follows', () => {
+    const parsed = parseCommand('AI CH');
+    expect(parsed.error).toBeNull();
+    expect(parsed.func).toBe('CH');
+    expect(parsed.symbol).toBe('AI');
+  });
+
+  it('still runs a colliding command on its own', () => {
+    const parsed = parseCommand('AI');
+    expect(parsed.error).toBeNull();
+    expect(parsed.func).toBe('COPILOT');
+    expect(parsed.symbol).toBeNull();
+  });
+});
@@ -1,60 +1,237 @@
+import {
+  CommandRegistry,
+  formatCommandUsage,
+  type CommandArgSpec,
+  type CommandArgValue,
+  type CommandArgs,
+  type CommandDefinition,
+} from '../Workspace/CommandRegistry';
+
 export interface ParsedCommand {
   symbol: string | null;
+  /** Canonical function code; aliases are resolved through the command registry */
   func: string | null;
+  /** Values by argument name, including the symbol when the command takes one */
+  args: CommandArgs;
+  error: CommandParseError | null;
   raw: string;
 }
 
-const VALID_FUNCTION_CODES = new Set([
-  'QT',       // Quote
-  'WL',       // Watchlist
-  'TRD',      // Trade
-  'ORD',      // Orders
-  'PF',       // Portfolio
-  'PI',       // Position Info
-  'CH',       // Chart
-  'AL',       // Alerts
-  'SB',       // Strategy Builder
-  'STRAT',    // Strategy Builder (alias)
-  'FB',       // Feedback
-  'FEEDBACK', // Feedback (alias)
-]);
+export type CommandErrorCode =
+  | 'UNKNOWN_COMMAND'
+  | 'MISSING_ARGUMENT'
+  | 'INVALID_ARGUMENT'
+  | 'UNEXPECTED_TOKEN';
+
+export class CommandParseError extends Error {
+  readonly code: CommandErrorCode;
+  /** The input token the error is about, if any */
+  readonly token?: string;
+
+  constructor(code: CommandErrorCode, message: string, token?: string) {
+    super(message);
+    this.name = 'CommandParseError';
+    this.code = code;
+    this.token = token;
+  }
+}
 
 export function isValidFunctionCode(code: string): boolean {
-  return VALID_FUNCTION_CODES.has(code.toUpperCase());
+  return CommandRegistry.has(code);
+}
+
+// ============================================================================
+// Argument Values
+// ============================================================================
+
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9./-]*$/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+
+function readNumber(token: string): number | null {
+  const cleaned = token.replace(/^\$/, '').replace(/,/g, '');
+  if (!NUMBER_PATTERN.test(cleaned)) return null;
+  const value = parseFloat(cleaned);
+  return value > 0 ? value : null;
+}
+
+/** The value of `token` for `spec`, or null if it doesn't fit */
+function readValue(spec: CommandArgSpec, token: string): CommandArgValue | null {
+  const upper = token.toUpperCase();
+
+  switch (spec.type) {
+    case 'symbol':
+      // Tickers have at least one letter, so amounts are never taken for symbols
+      return SYMBOL_PATTERN.test(upper) && /[A-Z]/.test(upper) ? upper : null;
+    case 'number':
+      return readNumber(token);
+    case 'price': {
+      const percent = /^([+-]?\d+(\.\d+)?)%$/.exec(token);
+      if (percent) return { value: parseFloat(percent[1]), isPercent: true };
+      const value = readNumber(token);
+      return value === null ? null : { value, isPercent: false };
+    }
+    case 'leverage': {
+      const match = /^(\d+)X$/.exec(upper) || /^X(\d+)$/.exec(upper);
+      if (!match) return null;
+      const value = parseInt(match[1], 10);
+      return !spec.choices || spec.choices.includes(`${value}X`) ? value : null;
+    }
+    case 'keyword':
+      return spec.choices?.includes(upper) ? upper : null;
+    case 'text':
+      return token;
+  }
+}
+
+function describeArg(spec: CommandArgSpec): string {
+  switch (spec.type) {
+    case 'symbol': return 'a symbol';
+    case 'number': return 'a number';
+    case 'price': return 'a price or percent, e.g. 200 or 2%';
+    case 'leverage': return spec.choices ? `leverage (${spec.choices.join(', ')})` : 'leverage, e.g. 5X';
+    case 'keyword': return (spec.choices ?? []).join(' or ');
+    case 'text': return spec.name;
+  }
+}
+
+// ============================================================================
+// Grammar
+// ============================================================================
+
+// Strictly typed arguments claim a token before symbols and free text, so
+// `CH 1D` reads as a timeframe and `PF CLOSE ALL BTC` puts BTC last
+const TYPE_PRIORITY: CommandArgSpec['type'][][] = [
+  ['number', 'price', 'leverage', 'keyword'],
+  ['symbol'],
+  ['text'],
+];
+
+function fail(parsed: ParsedCommand, code: CommandErrorCode, message: string, token?: string): ParsedCommand {
+  return { ...parsed, error: new CommandParseError(code, message, token) };
 }
 
+/**
+ * Match the tokens after a function code against the command's arguments.
+ * Flagged options take the next token; other tokens go to the first unfilled
+ * argument that accepts them.
+ */
+function parseArgs(
+  command: CommandDefinition,
+  tokens: string[],
+  leadingSymbol: string | null,
+  raw: string
+): ParsedCommand {
+  const specs = command.args ?? [];
+  const positional = specs.filter((spec) => !spec.flag);
+  const args: CommandArgs = {};
+  const parsed = (): ParsedCommand => ({
+    symbol: typeof args.symbol === 'string' ? args.symbol : null,
+    func: command.code,
+    args,
+    error: null,
+    raw,
+  });
+
+  const symbolArg = positional.find((spec) => spec.type === 'symbol');
+  if (leadingSymbol && symbolArg) {
+    args[symbolArg.name] = leadingSymbol;
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    const option = specs.find((spec) => spec.flag === token.toUpperCase());
+    if (option) {
+      const valueToken = tokens[++i];
+      if (valueToken === undefined) {
+        return fail(parsed(), 'MISSING_ARGUMENT', `${option.flag} needs ${describeArg(option)}`, token);
+      }
+      const value = readValue(option, valueToken);
+      if (value === null) {
+        return fail(parsed(), 'INVALID_ARGUMENT', `${option.flag} expects ${describeArg(option)}, got "${valueToken}"`, valueToken);
+      }
+      args[option.name] = value;
+      continue;
+    }
+
+    const unfilled = positional.filter((spec) => !(spec.name in args));
+    let accepted = false;
+    for (const types of TYPE_PRIORITY) {
+      for (const spec of unfilled.filter((s) => types.includes(s.type))) {
+        if (spec.type === 'text') {
+          args[spec.name] = tokens.slice(i).join(' ');
+          i = tokens.length;
+          accepted = true;
+          break;
+        }
+        const value = readValue(spec, token);
+        if (value !== null) {
+          args[spec.name] = value;
+          accepted = true;
+          break;
+        }
+      }
+      if (accepted) break;
+    }
+
+    if (!accepted) {
+      const expected = unfilled.find((spec) => spec.required) ?? unfilled[0];
+      return expected
+        ? fail(parsed(), 'INVALID_ARGUMENT', `${command.code} expects ${describeArg(expected)} for ${expected.name}, got "${token}"`, token)
+        : fail(parsed(), 'UNEXPECTED_TOKEN', `Unexpected "${token}" - usage: ${formatCommandUsage(command)}`, token);
+    }
+  }
+
+  const missing = specs.find((spec) => spec.required && !(spec.name in args));
+  if (missing) {
+    return fail(parsed(), 'MISSING_ARGUMENT', `${command.code} needs ${missing.name} - usage: ${formatCommandUsage(command)}`);
+  }
+
+  const invalid = command.validate?.(args);
+  if (invalid) {
+    return fail(parsed(), 'INVALID_ARGUMENT', invalid);
+  }
+
+  return parsed();
+}
+
+/**
+ * Parse command bar input. Accepted forms:
+ * - `SYMBOL` sets a symbol
+ * - `FUNC [args]`, e.g. `QT AAPL`, `LAYOUT Research`, `PF CLOSE ALL BTC`
+ * - `SYMBOL FUNC [args]`, e.g. `AAPL BUY 500 5X SL 2% TP 6%`
+ */
 export function parseCommand(input: string): ParsedCommand {
   const raw = input.trim();
-  const upperInput = raw.toUpperCase();
+  const empty: ParsedCommand = { symbol: null, func: null, args: {}, error: null, raw };
 
   if (!raw) {
-    return { symbol: null, func: null, raw };
+    return empty;
   }
 
-  const parts = upperInput.split(/\s+/);
+  const [first, ...rest] = raw.split(/\s+/);
 
-  // Single token: could be SYMBOL or FUNC
-  if (parts.length === 1) {
-    const token = parts[0];
-    if (isValidFunctionCode(token)) {
-      return { symbol: null, func: token, raw };
-    }
-    // Treat as symbol
-    return { symbol: token, func: null, raw };
+  const leading = CommandRegistry.resolve(first);
+  const trailing = rest.length > 0 ? CommandRegistry.resolve(rest[0]) : undefined;
+
+  // Tickers can share a name with a command (AI, FUND, LOG, ...), so when a
+  // function follows, the first token is the symbol: `AI CH` charts AI
+  if (leading && !trailing) {
+    return parseArgs(leading, rest, null, raw);
   }
 
-  // Two or more tokens: SYMBOL + FUNC pattern
-  // First token is symbol, second is function code
-  const [symbolPart, funcPart] = parts;
+  const symbol = first.toUpperCase();
+  if (rest.length === 0) {
+    return { ...empty, symbol };
+  }
 
-  if (isValidFunctionCode(funcPart)) {
-    return { symbol: symbolPart, func: funcPart, raw };
+  if (!trailing) {
+    return fail({ ...empty, symbol }, 'UNKNOWN_COMMAND', `Unknown command "${rest[0].toUpperCase()}"`, rest[0]);
   }
 
-  // If second part is not a valid function code, treat whole input as symbol
-  return { symbol: symbolPart, func: null, raw };
+  return parseArgs(trailing, rest.slice(1), symbol, raw);
 }
 
 export function getValidFunctionCodes(): string[] {
-  return Array.from(VALID_FUNCTION_CODES);
+  return CommandRegistry.getTokens();
 }
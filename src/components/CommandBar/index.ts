@@ -1,3 +1,11 @@
 export { CommandBar, type CommandBarCommand } from './CommandBar';
 export { Autocomplete, type AutocompleteItem } from './Autocomplete';
-export { parseCommand, isValidFunctionCode, getValidFunctionCodes, type ParsedCommand } from './commandParser';
+export {
+  parseCommand,
+  isValidFunctionCode,
+  getValidFunctionCodes,
+  CommandParseError,
+  type ParsedCommand,
+  type CommandErrorCode,
+} from './commandParser';
+export { commandHistory } from './commandHistory';
@@ -0,0 +1,29 @@
+import type { PreTradeCheck } from '../types/strategy.types';
+import './PreTradeChecksList.css';
+
+export interface PreTradeChecksListProps {
+  checks: PreTradeCheck[];
+  failedOnly?: boolean;
+}
+
+export default function PreTradeChecksList({ checks, failedOnly = false }: PreTradeChecksListProps) {
+  const shown = failedOnly ? checks.filter(c => !c.passed) : checks;
+  if (shown.length === 0) return null;
+
+  return (
+    <ul className="pretrade-checks" aria-label="Pre-trade checks">
+      {shown.map(check => {
+        const status = check.passed ? 'passed' : check.critical ? 'blocked' : 'warning';
+        return (
+          <li key={check.name} className={`pretrade-check pretrade-check--${status}`}>
+            <span className="pretrade-check-icon" aria-hidden="true">
+              {check.passed ? '✓' : check.critical ? '✗' : '!'}
+            </span>
+            <span className="pretrade-check-name">{check.name}</span>
+            <span className="pretrade-check-message">{check.message}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import type { PreTradeCheck } from '../types/strategy.types';
+import { useShortcut, useShortcutKeys } from '../utils/accessibility';
+import PreTradeChecksList from './PreTradeChecksList';
+import './TradeConfirmationDialog.css';
+
+export interface ConfirmationDetail {
+  label: string;
+  value: string | number;
+}
+
+export interface TradeConfirmationDialogProps {
+  orderLabel: string;          // e.g. "BUY", "CLOSE"
+  symbol: string;
+  details: ConfirmationDetail[];
+  checks?: PreTradeCheck[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Explicit confirmation required before any real-money order, shared by the
+ * Trade Ticket and strategy approvals.
+ */
+export default function TradeConfirmationDialog({
+  orderLabel,
+  symbol,
+  details,
+  checks = [],
+  onConfirm,
+  onCancel,
+}: TradeConfirmationDialogProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const confirmKeys = useShortcutKeys('dialog.confirm');
+  const cancelKeys = useShortcutKeys('dialog.cancel');
+  useShortcut('dialog.confirm', onConfirm, { ref: dialogRef });
+  useShortcut('dialog.cancel', onCancel, { ref: dialogRef });
+
+  return (
+    <div className="trade-confirmation-overlay" role="presentation">
+      <div
+        ref={dialogRef}
+        className="trade-confirmation-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+        aria-describedby="confirm-dialog-desc"
+      >
+        <div className="confirmation-header" id="confirm-dialog-title">⚠ CONFIRM {orderLabel} ORDER</div>
+        <div className="confirmation-body" id="confirm-dialog-desc">
+          <p>You are about to place a <strong>{orderLabel}</strong> order in <strong>REAL MODE</strong>.</p>
+          <p>Symbol: <strong>{symbol}</strong></p>
+          {details.map(detail => (
+            <p key={detail.label}>{detail.label}: <strong>{detail.value}</strong></p>
+          ))}
+          <PreTradeChecksList checks={checks} />
+        </div>
+        <div className="confirmation-actions">
+          <button className="confirm-btn" onClick={onConfirm} aria-label="Confirm trade order" title={confirmKeys}>CONFIRM</button>
+          <button className="cancel-btn" onClick={onCancel} aria-label="Cancel trade order" title={cancelKeys}>CANCEL</button>
+        </div>
+      </div>
+    </div>
+  );
+}
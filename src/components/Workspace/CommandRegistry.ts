@@ -0,0 +1,117 @@
+export type CommandArgType = 'symbol' | 'text' | 'number' | 'price' | 'leverage' | 'keyword';
+
+export interface CommandArgSpec {
+  name: string;
+  /**
+   * `symbol` is a ticker, `number` a positive amount, `price` a level or a
+   * percent such as `2%`, `leverage` a multiplier such as `5X`, `keyword` one
+   * of `choices`. `text` takes the rest of the input as typed.
+   */
+  type: CommandArgType;
+  required?: boolean;
+  description?: string;
+  /** Accepted values, uppercase; required for keywords, optional for leverage */
+  choices?: string[];
+  /** Set for named options, e.g. `SL` in `SL 2%`; the value follows the flag */
+  flag?: string;
+}
+
+export interface PriceValue {
+  value: number;
+  isPercent: boolean;
+}
+
+export type CommandArgValue = string | number | PriceValue;
+export type CommandArgs = Record<string, CommandArgValue>;
+
+export interface CommandDefinition {
+  /** Canonical function code, e.g. `QT` */
+  code: string;
+  name: string;
+  description: string;
+  aliases?: string[];
+  /** Positional arguments in the order they are usually typed, plus flagged options */
+  args?: CommandArgSpec[];
+  /** Checks that span arguments; returns an error message or null */
+  validate?: (args: CommandArgs) => string | null;
+  /** Example shown in help, e.g. `AAPL BUY 500 5X SL 2%` */
+  example?: string;
+  /** Panel opened by the command; commands without one are handled by the app */
+  panelTypeId?: string;
+}
+
+class CommandRegistryClass {
+  private commands: Map<string, CommandDefinition> = new Map();
+  // Codes and aliases, uppercased, to canonical codes
+  private lookup: Map<string, string> = new Map();
+
+  register(definition: CommandDefinition): void {
+    const command = {
+      ...definition,
+      code: definition.code.toUpperCase(),
+      aliases: definition.aliases?.map((a) => a.toUpperCase()),
+    };
+
+    this.unregister(command.code);
+    this.commands.set(command.code, command);
+
+    for (const token of [command.code, ...(command.aliases ?? [])]) {
+      const existing = this.lookup.get(token);
+      if (existing && existing !== command.code) {
+        console.warn(`[CommandRegistry] ${token} already resolves to ${existing}, ignoring it for ${command.code}`);
+        continue;
+      }
+      this.lookup.set(token, command.code);
+    }
+  }
+
+  unregister(code: string): boolean {
+    const key = code.toUpperCase();
+    for (const [token, target] of this.lookup) {
+      if (target === key) this.lookup.delete(token);
+    }
+    return this.commands.delete(key);
+  }
+
+  /** The command a code or alias refers to, case-insensitively */
+  resolve(token: string): CommandDefinition | undefined {
+    const code = this.lookup.get(token.toUpperCase());
+    return code ? this.commands.get(code) : undefined;
+  }
+
+  has(token: string): boolean {
+    return this.lookup.has(token.toUpperCase());
+  }
+
+  getAll(): CommandDefinition[] {
+    return Array.from(this.commands.values());
+  }
+
+  /** Every code and alias that resolves to a command */
+  getTokens(): string[] {
+    return Array.from(this.lookup.keys());
+  }
+
+  /** Commands whose code or an alias starts with the query, or whose name contains it */
+  search(query: string): CommandDefinition[] {
+    const q = query.trim().toUpperCase();
+    if (!q) return [];
+
+    return this.getAll().filter((command) =>
+      command.code.startsWith(q) ||
+      command.aliases?.some((alias) => alias.startsWith(q)) ||
+      command.name.toUpperCase().includes(q)
+    );
+  }
+}
+
+/** How a command is typed, e.g. `QT [symbol]` or `LAYOUT <name>` */
+export function formatCommandUsage(command: CommandDefinition): string {
+  const args = (command.args ?? []).map((arg) => {
+    const label = arg.flag ? `${arg.flag} ${arg.name}` : arg.choices && arg.type === 'keyword' ? arg.choices.join('|') : arg.name;
+    return arg.required ? `<${label}>` : `[${label}]`;
+  });
+  return [command.code, ...args].join(' ');
+}
+
+export const CommandRegistry = new CommandRegistryClass();
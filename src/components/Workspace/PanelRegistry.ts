@@ -1,4 +1,10 @@
 import { ComponentType } from 'react';
+import type { LinkGroup } from './ActiveSymbolContext';
+import { CommandRegistry, type CommandDefinition } from './CommandRegistry';
+
+/** Command that opens the panel; code defaults to the typeId and name to the title */
+export type PanelCommandConfig = Omit<CommandDefinition, 'code' | 'name' | 'panelTypeId'> &
+  Partial<Pick<CommandDefinition, 'code' | 'name'>>;
 
 export interface PanelConfig {
   typeId: string;
@@ -8,6 +14,7 @@ export interface PanelConfig {
   defaultHeight?: number;
   minWidth?: number;
   minHeight?: number;
+  command?: PanelCommandConfig;
 }
 
 export interface PanelContentProps {
@@ -20,6 +27,10 @@ export interface PanelInstance {
   title: string;
   width?: number;
   height?: number;
+  /** Set once the panel chooses a link group; saved with layouts */
+  linkGroup?: LinkGroup;
+  /** Panel-specific settings saved with layouts, see usePanelState */
+  state?: Record<string, unknown>;
 }
 
 class PanelRegistryClass {
@@ -27,9 +38,22 @@ class PanelRegistryClass {
 
   register(config: PanelConfig): void {
     this.panels.set(config.typeId, config);
+
+    if (config.command) {
+      CommandRegistry.register({
+        ...config.command,
+        code: config.command.code ?? config.typeId,
+        name: config.command.name ?? config.title,
+        panelTypeId: config.typeId,
+      });
+    }
   }
 
   unregister(id: string): boolean {
+    const command = CommandRegistry.getAll().find((c) => c.panelTypeId === id);
+    if (command) {
+      CommandRegistry.unregister(command.code);
+    }
     return this.panels.delete(id);
   }
 
@@ -1,15 +1,9 @@
-import { CSSProperties, useState, useRef, useCallback } from 'react';
+import { CSSProperties, useState, useRef, useCallback, useEffect } from 'react';
 import Panel from './Panel';
 import { PanelRegistry } from './PanelRegistry';
 import CompareTray from '../CompareTray';
 import { useWorkspaceContext } from '../../contexts/WorkspaceContext';
-
-// Panel size storage
-interface PanelSizes {
-  [instanceId: string]: { width: number; height: number };
-}
-
-const PANEL_SIZES_KEY = 'etoro-terminal-panel-sizes';
+import { shortcutsRegistry, focusUtils } from '../../utils/accessibility';
 
 export interface WorkspaceProps {
   className?: string;
@@ -124,45 +118,99 @@ const workspaceStyles: Record<string, CSSProperties> = {
     fontSize: '10px',
     marginLeft: '4px',
   },
+  layoutSelect: {
+    backgroundColor: '#000',
+    border: '1px solid #00ccff',
+    color: '#00ccff',
+    padding: '3px 6px',
+    fontFamily: '"Courier New", monospace',
+    fontSize: '11px',
+    maxWidth: '180px',
+  },
+  layoutNameInput: {
+    backgroundColor: '#000',
+    border: '1px solid #00ccff',
+    color: '#00ff00',
+    padding: '3px 6px',
+    fontFamily: '"Courier New", monospace',
+    fontSize: '11px',
+    width: '140px',
+  },
+  layoutMessage: {
+    alignSelf: 'center',
+    fontSize: '10px',
+  },
 };
 
-// Load saved panel sizes from localStorage
-const loadPanelSizes = (): PanelSizes => {
-  try {
-    const saved = localStorage.getItem(PANEL_SIZES_KEY);
-    return saved ? JSON.parse(saved) : {};
-  } catch {
-    return {};
-  }
-};
-
-// Save panel sizes to localStorage
-const savePanelSizes = (sizes: PanelSizes): void => {
-  try {
-    localStorage.setItem(PANEL_SIZES_KEY, JSON.stringify(sizes));
-  } catch (e) {
-    console.error('Failed to save panel sizes:', e);
-  }
+const downloadLayouts = (json: string): void => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `terminal-layouts-${new Date().toISOString().split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
 export default function Workspace({ className, style }: WorkspaceProps) {
-  const { panels, addPanel, removePanel, movePanel, saveAsDefault, resetToDefault, hasCustomLayout } = useWorkspaceContext();
+  const {
+    panels,
+    addPanel,
+    removePanel,
+    updatePanel,
+    movePanel,
+    resetToDefault,
+    hasCustomLayout,
+    layouts,
+    activeLayout,
+    defaultLayout,
+    saveLayout,
+    switchLayout,
+    deleteLayout,
+    setDefaultLayout,
+    exportLayouts,
+    importLayouts,
+  } = useWorkspaceContext();
   const registeredTypes = PanelRegistry.getRegisteredTypes();
   
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [showSaveConfirm, setShowSaveConfirm] = useState(false);
-  const [panelSizes, setPanelSizes] = useState<PanelSizes>(loadPanelSizes);
+  const [layoutName, setLayoutName] = useState<string | null>(null);
+  const [layoutMessage, setLayoutMessage] = useState<{ text: string; error: boolean } | null>(null);
   const dragNodeRef = useRef<HTMLDivElement | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const panelRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
   // Handle panel resize
   const handlePanelResize = useCallback((id: string, width: number, height: number) => {
-    setPanelSizes(prev => {
-      const updated = { ...prev, [id]: { width, height } };
-      savePanelSizes(updated);
-      return updated;
-    });
-  }, []);
+    updatePanel(id, { width, height });
+  }, [updatePanel]);
+
+  const focusPanel = useCallback((index: number) => {
+    const instance = panels[index];
+    const element = instance && panelRefs.current.get(instance.instanceId);
+    if (!element) return;
+
+    element.focus();
+    element.scrollIntoView({ block: 'nearest' });
+    focusUtils.announce(`${instance.title} panel`);
+  }, [panels]);
+
+  // Focus panel N shortcuts, numbered in workspace order
+  useEffect(() => {
+    const unbind = Array.from({ length: 9 }, (_, i) =>
+      shortcutsRegistry.bind(`workspace.focus-panel-${i + 1}`, () => focusPanel(i))
+    );
+    return () => unbind.forEach((fn) => fn());
+  }, [focusPanel]);
+
+  const showLayoutMessage = (text: string, error = false) => {
+    setLayoutMessage({ text, error });
+    setTimeout(() => setLayoutMessage(null), 4000);
+  };
 
   const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
     setDraggedIndex(index);
@@ -210,13 +258,55 @@ export default function Workspace({ className, style }: WorkspaceProps) {
   };
 
   const handleSaveLayout = () => {
-    saveAsDefault();
+    if (!activeLayout) {
+      setLayoutName('');
+      return;
+    }
+    saveLayout(activeLayout);
     setShowSaveConfirm(true);
     setTimeout(() => setShowSaveConfirm(false), 2000);
   };
 
+  const handleSaveLayoutAs = () => {
+    const name = layoutName?.trim();
+    if (!name) return;
+    if (layouts.some((l) => l.name.toLowerCase() === name.toLowerCase() && l.name !== activeLayout)
+      && !confirm(`Overwrite layout "${name}"?`)) {
+      return;
+    }
+    saveLayout(name);
+    setLayoutName(null);
+    showLayoutMessage(`✓ Saved "${name}"`);
+  };
+
+  const handleDeleteLayout = () => {
+    if (activeLayout && confirm(`Delete layout "${activeLayout}"? Open panels stay as they are.`)) {
+      deleteLayout(activeLayout);
+    }
+  };
+
+  const handleImportLayouts = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const { layouts, skippedShortcuts } = importLayouts(String(reader.result));
+        const skipped = skippedShortcuts.length > 0
+          ? `; kept current shortcuts for ${skippedShortcuts.join(', ')}`
+          : '';
+        showLayoutMessage(`✓ Imported ${layouts.join(', ')}${skipped}`);
+      } catch (err) {
+        showLayoutMessage(`✕ ${err instanceof Error ? err.message : 'Import failed'}`, true);
+      }
+    };
+    reader.readAsText(file);
+  };
+
   const handleResetLayout = () => {
-    if (confirm('Reset to default layout? This will remove your saved layout.')) {
+    if (confirm('Reset to default panels? Saved layouts are kept but none opens on startup.')) {
       resetToDefault();
     }
   };
@@ -272,6 +362,20 @@ export default function Workspace({ className, style }: WorkspaceProps) {
         </div>
         
         <div style={workspaceStyles.toolbarActions}>
+          <select
+            style={workspaceStyles.layoutSelect}
+            value={activeLayout ?? ''}
+            onChange={(e) => e.target.value && switchLayout(e.target.value)}
+            aria-label="Switch workspace layout"
+            title="Switch layout (or type LAYOUT <name> in the command bar)"
+          >
+            <option value="">— Layouts —</option>
+            {layouts.map((layout) => (
+              <option key={layout.name} value={layout.name}>
+                {layout.name}{layout.name === defaultLayout ? ' ★' : ''}
+              </option>
+            ))}
+          </select>
           <button
             style={workspaceStyles.saveButton}
             onClick={handleSaveLayout}
@@ -281,11 +385,86 @@ export default function Workspace({ className, style }: WorkspaceProps) {
             onMouseOut={(e) => {
               e.currentTarget.style.backgroundColor = 'transparent';
             }}
-            title="Save current layout as default"
+            title={activeLayout ? `Save panels, sizes and settings to "${activeLayout}"` : 'Save current panels as a new layout'}
           >
             [ 💾 SAVE LAYOUT ]
             {showSaveConfirm && <span style={workspaceStyles.savedIndicator}>✓ Saved!</span>}
           </button>
+          {layoutName !== null ? (
+            <>
+              <input
+                style={workspaceStyles.layoutNameInput}
+                value={layoutName}
+                onChange={(e) => setLayoutName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveLayoutAs();
+                  if (e.key === 'Escape') setLayoutName(null);
+                }}
+                placeholder="Layout name..."
+                aria-label="New layout name"
+                autoFocus
+              />
+              <button style={workspaceStyles.saveButton} onClick={handleSaveLayoutAs} disabled={!layoutName.trim()}>
+                [ OK ]
+              </button>
+              <button style={workspaceStyles.saveButton} onClick={() => setLayoutName(null)}>
+                [ ✕ ]
+              </button>
+            </>
+          ) : (
+            <button
+              style={workspaceStyles.saveButton}
+              onClick={() => setLayoutName('')}
+              title="Save current panels under a new name"
+            >
+              [ SAVE AS ]
+            </button>
+          )}
+          {activeLayout && (
+            <>
+              <button
+                style={workspaceStyles.saveButton}
+                onClick={() => setDefaultLayout(activeLayout === defaultLayout ? null : activeLayout)}
+                title={activeLayout === defaultLayout ? 'Stop opening this layout on startup' : 'Open this layout on startup'}
+              >
+                [ {activeLayout === defaultLayout ? '★' : '☆'} STARTUP ]
+              </button>
+              <button
+                style={workspaceStyles.resetButton}
+                onClick={handleDeleteLayout}
+                title={`Delete layout "${activeLayout}"`}
+              >
+                [ 🗑 ]
+              </button>
+            </>
+          )}
+          <button
+            style={workspaceStyles.saveButton}
+            onClick={() => downloadLayouts(exportLayouts())}
+            disabled={layouts.length === 0}
+            title="Download all layouts as JSON to share"
+          >
+            [ ⇩ EXPORT ]
+          </button>
+          <button
+            style={workspaceStyles.saveButton}
+            onClick={() => importInputRef.current?.click()}
+            title="Import layouts from a JSON file"
+          >
+            [ ⇧ IMPORT ]
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={handleImportLayouts}
+          />
+          {layoutMessage && (
+            <span style={{ ...workspaceStyles.layoutMessage, color: layoutMessage.error ? '#ff4444' : '#00cc00' }}>
+              {layoutMessage.text}
+            </span>
+          )}
           {hasCustomLayout && (
             <button
               style={workspaceStyles.resetButton}
@@ -311,13 +490,18 @@ export default function Workspace({ className, style }: WorkspaceProps) {
             if (!config) return null;
 
             const PanelContent = config.component;
-            const savedSize = panelSizes[instance.instanceId];
-            const panelWidth = savedSize?.width || config.defaultWidth || 400;
-            const panelHeight = savedSize?.height || config.defaultHeight || 350;
+            const panelWidth = instance.width || config.defaultWidth || 400;
+            const panelHeight = instance.height || config.defaultHeight || 350;
             
             return (
               <div
                 key={instance.instanceId}
+                ref={(el) => {
+                  if (el) panelRefs.current.set(instance.instanceId, el);
+                  else panelRefs.current.delete(instance.instanceId);
+                }}
+                data-panel-type={instance.typeId}
+                tabIndex={-1}
                 draggable
                 onDragStart={(e) => handleDragStart(e, index)}
                 onDragEnd={handleDragEnd}
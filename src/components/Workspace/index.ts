@@ -1,6 +1,7 @@
 export { default as Workspace } from './Workspace';
 export { default as Panel } from './Panel';
 export { PanelRegistry } from './PanelRegistry';
+export { CommandRegistry, formatCommandUsage } from './CommandRegistry';
 export { useWorkspace } from './useWorkspace';
 export { ActiveSymbolProvider, useActiveSymbol } from './ActiveSymbolContext';
 export { usePanelLink } from './usePanelLink';
@@ -8,7 +9,9 @@ export type {
   PanelConfig,
   PanelContentProps,
   PanelInstance,
+  PanelCommandConfig,
 } from './PanelRegistry';
+export type { CommandArgType, CommandArgSpec, CommandDefinition } from './CommandRegistry';
 export type { PanelProps } from './Panel';
 export type { WorkspaceProps } from './Workspace';
 export type { LinkGroup, ActiveSymbolContextValue } from './ActiveSymbolContext';
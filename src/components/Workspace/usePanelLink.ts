@@ -1,5 +1,6 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useActiveSymbol, LinkGroup } from './ActiveSymbolContext';
+import { usePanelLinkGroup, usePanelState } from '../../contexts/WorkspaceContext';
 
 export interface PanelLinkState {
   linkGroup: LinkGroup;
@@ -18,11 +19,16 @@ export interface UsePanelLinkReturn extends PanelLinkState, PanelLinkActions {
   currentSymbol: string | null;
 }
 
-export function usePanelLink(initialGroup: LinkGroup = 'A'): UsePanelLinkReturn {
+/**
+ * Link group and pin state for a panel. With a `panelId` both are saved with
+ * workspace layouts.
+ */
+export function usePanelLink(initialGroup: LinkGroup = 'A', panelId: string = ''): UsePanelLinkReturn {
   const { getSymbolForGroup, activeSymbol } = useActiveSymbol();
-  const [linkGroup, setLinkGroup] = useState<LinkGroup>(initialGroup);
-  const [isPinned, setIsPinned] = useState(false);
-  const [pinnedSymbol, setPinnedSymbol] = useState<string | null>(null);
+  const [linkGroup, setLinkGroup] = usePanelLinkGroup(panelId, initialGroup);
+  // A pinned panel shows pinnedSymbol regardless of its link group
+  const [pinnedSymbol, setPinnedSymbol] = usePanelState<string | null>(panelId, 'pinnedSymbol', null);
+  const isPinned = pinnedSymbol !== null;
 
   const currentSymbol = useMemo(() => {
     if (isPinned) return pinnedSymbol;
@@ -31,23 +37,20 @@ export function usePanelLink(initialGroup: LinkGroup = 'A'): UsePanelLinkReturn
   }, [isPinned, pinnedSymbol, linkGroup, getSymbolForGroup, activeSymbol]);
 
   const togglePin = useCallback(() => {
-    setIsPinned((prev) => {
-      if (!prev && currentSymbol) {
-        setPinnedSymbol(currentSymbol);
-      }
-      return !prev;
-    });
-  }, [currentSymbol]);
+    if (isPinned) {
+      setPinnedSymbol(null);
+    } else if (currentSymbol) {
+      setPinnedSymbol(currentSymbol);
+    }
+  }, [isPinned, currentSymbol, setPinnedSymbol]);
 
   const pin = useCallback((symbol: string) => {
-    setIsPinned(true);
     setPinnedSymbol(symbol);
-  }, []);
+  }, [setPinnedSymbol]);
 
   const unpin = useCallback(() => {
-    setIsPinned(false);
     setPinnedSymbol(null);
-  }, []);
+  }, [setPinnedSymbol]);
 
   return {
     linkGroup,
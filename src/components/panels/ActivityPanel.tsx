@@ -19,8 +19,14 @@ function getActivityIcon(type: ActivityItem['type']): string {
       return '📈';
     case 'trade_close':
       return '📉';
+    case 'order_placed':
+      return '⏳';
+    case 'order_cancelled':
+      return '🚫';
     case 'order_rejected':
       return '❌';
+    case 'position_modified':
+      return '✏️';
     case 'error':
       return '⚠️';
     case 'connection':
@@ -2,10 +2,18 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   AlertsEngine,
   Alert,
+  AlertCondition,
+  AlertMode,
   AlertType,
   AlertTriggerEvent,
   getDefaultAlertsEngine,
+  isAlertExpired,
+  isPortfolioAlert,
+  isPositionAlert,
+  PORTFOLIO_INSTRUMENT_ID,
 } from '../../services/alertsEngine';
+import { portfolioStore } from '../../stores/portfolioStore';
+import type { Position } from '../../api/contracts/etoro-api.types';
 import { ENDPOINTS } from '../../api/contracts/endpoints';
 import { getDefaultAdapter } from '../../api/restAdapter';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
@@ -23,7 +31,8 @@ interface TriggeredAlert {
   instrumentId: number;
   symbol: string;
   type: AlertType;
-  threshold?: number;
+  condition: string;
+  note?: string;
   currentValue: number;
   triggeredAt: number;
 }
@@ -38,14 +47,58 @@ export interface AlertsPanelProps extends PanelContentProps {
   engine?: AlertsEngine;
 }
 
+const INSTRUMENT_TYPE_OPTIONS: { value: AlertType; label: string }[] = [
+  { value: 'price_above', label: 'Price Above' },
+  { value: 'price_below', label: 'Price Below' },
+  { value: 'crosses_above', label: 'Crosses Above' },
+  { value: 'crosses_below', label: 'Crosses Below' },
+  { value: 'percent_change', label: '% Change' },
+  { value: 'daily_high_break', label: 'Breaks Day High' },
+  { value: 'daily_low_break', label: 'Breaks Day Low' },
+  { value: 'spread_wider', label: 'Spread Wider Than' },
+  { value: 'staleness', label: 'Staleness' },
+];
+
+const ACCOUNT_TYPE_OPTIONS: { value: AlertType; label: string }[] = [
+  { value: 'portfolio_pnl_below', label: 'Unrealized P&L Below' },
+  { value: 'equity_drawdown', label: 'Equity Drawdown From Day Peak' },
+  { value: 'position_loss', label: 'Position Loss Beyond' },
+  { value: 'near_stop_loss', label: 'Price Near Stop Loss' },
+  { value: 'near_take_profit', label: 'Price Near Take Profit' },
+];
+
+const PRICE_LEVEL_TYPES: AlertType[] = ['price_above', 'price_below', 'crosses_above', 'crosses_below'];
+
 function formatAlertType(type: AlertType): string {
   switch (type) {
     case 'price_above':
       return 'ABOVE';
     case 'price_below':
       return 'BELOW';
+    case 'crosses_above':
+      return 'X ABOVE';
+    case 'crosses_below':
+      return 'X BELOW';
+    case 'percent_change':
+      return 'CHANGE';
+    case 'daily_high_break':
+      return 'DAY HIGH';
+    case 'daily_low_break':
+      return 'DAY LOW';
+    case 'spread_wider':
+      return 'SPREAD';
     case 'staleness':
       return 'STALE';
+    case 'portfolio_pnl_below':
+      return 'P&L';
+    case 'equity_drawdown':
+      return 'DRAWDOWN';
+    case 'position_loss':
+      return 'POS LOSS';
+    case 'near_stop_loss':
+      return 'NEAR SL';
+    case 'near_take_profit':
+      return 'NEAR TP';
     default:
       return String(type).toUpperCase();
   }
@@ -65,11 +118,79 @@ function formatValue(value: number, type: AlertType): string {
   if (type === 'staleness') {
     return `${value.toFixed(1)}s`;
   }
+  if (type === 'percent_change' || type === 'position_loss') {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+  }
+  if (type === 'equity_drawdown' || type === 'near_stop_loss' || type === 'near_take_profit') {
+    return `${value.toFixed(2)}%`;
+  }
+  if (type === 'portfolio_pnl_below') {
+    return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+  }
   if (value >= 1000) return value.toFixed(2);
   if (value >= 1) return value.toFixed(4);
   return value.toFixed(6);
 }
 
+function describeCondition(alert: Alert): string {
+  const { threshold, stalenessSeconds, referencePrice, percent, spread, amount } = alert.condition;
+  switch (alert.type) {
+    case 'portfolio_pnl_below':
+      return `< ${formatValue(amount ?? 0, alert.type)}`;
+    case 'equity_drawdown':
+      return `≥ ${formatValue(percent ?? 0, alert.type)}`;
+    case 'position_loss':
+      return `≤ ${formatValue(-(percent ?? 0), alert.type)}`;
+    case 'near_stop_loss':
+    case 'near_take_profit':
+      return `≤ ${formatValue(percent ?? 0, alert.type)}`;
+    case 'staleness':
+      return `${stalenessSeconds}s`;
+    case 'percent_change':
+      return `${formatValue(percent ?? 0, alert.type)} from ${referencePrice ? formatValue(referencePrice, 'price_above') : 'next quote'}`;
+    case 'daily_high_break':
+    case 'daily_low_break':
+      return 'today';
+    case 'spread_wider':
+      return `> ${formatValue(spread ?? 0, alert.type)}`;
+    default:
+      return formatValue(threshold ?? 0, alert.type);
+  }
+}
+
+/** What an alert watches: an instrument, one position or the whole account */
+function alertSubject(alert: Alert, instrumentSymbol?: string): string {
+  if (!isPortfolioAlert(alert.type)) {
+    return alert.symbol ?? instrumentSymbol ?? `ID:${alert.instrumentId}`;
+  }
+  if (alert.condition.positionId !== undefined) {
+    return `POS #${alert.condition.positionId}`;
+  }
+  return isPositionAlert(alert.type) ? 'ALL POSITIONS' : 'PORTFOLIO';
+}
+
+function formatPositionOption(position: Position): string {
+  const name = position.instrumentName ?? `ID:${position.instrumentId}`;
+  return `#${position.positionId} ${name} ${position.isBuy ? 'BUY' : 'SELL'}`;
+}
+
+/** Epoch ms to the value format of <input type="datetime-local"> */
+function toDateTimeInput(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatExpiry(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
 export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: '' }) {
   const alertsEngine = engine ?? getDefaultAlertsEngine();
 
@@ -87,6 +208,16 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
   const [alertType, setAlertType] = useState<AlertType>('price_above');
   const [threshold, setThreshold] = useState('');
   const [stalenessSeconds, setStalenessSeconds] = useState('10');
+  const [referencePrice, setReferencePrice] = useState('');
+  const [percent, setPercent] = useState('');
+  const [spread, setSpread] = useState('');
+  const [amount, setAmount] = useState('');
+  const [positionScope, setPositionScope] = useState('');
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [mode, setMode] = useState<AlertMode>('one_shot');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [note, setNote] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -96,27 +227,36 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
 
   useEffect(() => {
     loadAlerts();
+    return alertsEngine.onChange(loadAlerts);
+  }, [alertsEngine, loadAlerts]);
+
+  useEffect(() => {
+    return portfolioStore.subscribe(() => setPositions(portfolioStore.getPositions()));
+  }, []);
 
+  useEffect(() => {
     const unsubscribe = alertsEngine.onAlert((event: AlertTriggerEvent) => {
       const info = instrumentMap.get(event.alert.instrumentId);
       const triggered: TriggeredAlert = {
-        id: `${event.alert.id}_${event.triggeredAt}`,
+        id: `${event.alert.id}_${event.triggeredAt}_${event.positionId ?? ''}`,
         alertId: event.alert.id,
         instrumentId: event.alert.instrumentId,
-        symbol: info?.symbol ?? `ID:${event.alert.instrumentId}`,
+        symbol: event.positionId !== undefined
+          ? `POS #${event.positionId}`
+          : alertSubject(event.alert, info?.symbol),
         type: event.alert.type,
-        threshold: event.alert.condition.threshold,
+        condition: describeCondition(event.alert),
+        note: event.alert.note,
         currentValue: event.currentValue,
         triggeredAt: event.triggeredAt,
       };
 
       setTriggeredLog((prev) => [triggered, ...prev].slice(0, 50));
       showToast(triggered);
-      loadAlerts();
     });
 
     return unsubscribe;
-  }, [alertsEngine, instrumentMap, loadAlerts]);
+  }, [alertsEngine, instrumentMap]);
 
   const showToast = useCallback((triggered: TriggeredAlert) => {
     if (toastTimeoutRef.current) {
@@ -196,23 +336,79 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
     });
   }, []);
 
-  const handleCreateAlert = useCallback(() => {
+  const resetForm = useCallback(() => {
+    setShowForm(false);
+    setEditingId(null);
     setFormError(null);
+    setSearchQuery('');
+    setSelectedInstrument(null);
+    setThreshold('');
+    setStalenessSeconds('10');
+    setReferencePrice('');
+    setPercent('');
+    setSpread('');
+    setAmount('');
+    setPositionScope('');
+    setMode('one_shot');
+    setExpiresAt('');
+    setNote('');
+    setAlertType('price_above');
+  }, []);
 
-    if (!selectedInstrument) {
+  const handleSubmitAlert = useCallback(() => {
+    setFormError(null);
+
+    const accountAlert = isPortfolioAlert(alertType);
+    if (!accountAlert && !selectedInstrument) {
       setFormError('Please select an instrument');
       return;
     }
 
-    let condition;
-    if (alertType === 'staleness') {
+    let condition: AlertCondition = {};
+    if (alertType === 'portfolio_pnl_below') {
+      const value = parseFloat(amount);
+      if (isNaN(value)) {
+        setFormError('Invalid P&L amount');
+        return;
+      }
+      condition = { amount: value };
+    } else if (accountAlert) {
+      const value = parseFloat(percent);
+      if (isNaN(value) || value <= 0) {
+        setFormError('Invalid percent');
+        return;
+      }
+      condition = { percent: value };
+      if (isPositionAlert(alertType) && positionScope) {
+        condition.positionId = Number(positionScope);
+      }
+    } else if (alertType === 'staleness') {
       const seconds = parseFloat(stalenessSeconds);
       if (isNaN(seconds) || seconds <= 0) {
         setFormError('Invalid staleness threshold');
         return;
       }
       condition = { stalenessSeconds: seconds };
-    } else {
+    } else if (alertType === 'percent_change') {
+      const move = parseFloat(percent);
+      if (isNaN(move) || move === 0) {
+        setFormError('Invalid percent change');
+        return;
+      }
+      const reference = referencePrice.trim() === '' ? undefined : parseFloat(referencePrice);
+      if (reference !== undefined && (isNaN(reference) || reference <= 0)) {
+        setFormError('Invalid reference price');
+        return;
+      }
+      condition = { percent: move, referencePrice: reference };
+    } else if (alertType === 'spread_wider') {
+      const value = parseFloat(spread);
+      if (isNaN(value) || value <= 0) {
+        setFormError('Invalid spread');
+        return;
+      }
+      condition = { spread: value };
+    } else if (PRICE_LEVEL_TYPES.includes(alertType)) {
       const value = parseFloat(threshold);
       if (isNaN(value) || value <= 0) {
         setFormError('Invalid price threshold');
@@ -221,23 +417,92 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
       condition = { threshold: value };
     }
 
-    alertsEngine.createAlert(selectedInstrument.instrumentId, alertType, condition);
-    loadAlerts();
+    let expiry: number | null = null;
+    if (expiresAt) {
+      expiry = new Date(expiresAt).getTime();
+      if (isNaN(expiry) || expiry <= Date.now()) {
+        setFormError('Expiry must be in the future');
+        return;
+      }
+    }
 
-    setShowForm(false);
-    setSearchQuery('');
-    setSelectedInstrument(null);
-    setThreshold('');
-    setStalenessSeconds('10');
-    setAlertType('price_above');
-  }, [alertsEngine, selectedInstrument, alertType, threshold, stalenessSeconds, loadAlerts]);
+    const instrumentId = accountAlert ? PORTFOLIO_INSTRUMENT_ID : selectedInstrument!.instrumentId;
+    const options = {
+      symbol: accountAlert ? undefined : selectedInstrument!.symbol,
+      note: note.trim() || undefined,
+      expiresAt: expiry,
+      mode,
+    };
+
+    if (editingId) {
+      alertsEngine.updateAlert(editingId, {
+        ...options,
+        instrumentId,
+        type: alertType,
+        condition,
+      });
+    } else {
+      alertsEngine.createAlert(instrumentId, alertType, condition, options);
+    }
+
+    resetForm();
+  }, [
+    alertsEngine,
+    selectedInstrument,
+    alertType,
+    threshold,
+    stalenessSeconds,
+    referencePrice,
+    percent,
+    spread,
+    amount,
+    positionScope,
+    mode,
+    expiresAt,
+    note,
+    editingId,
+    resetForm,
+  ]);
+
+  const handleEditAlert = useCallback(
+    (alert: Alert) => {
+      const { threshold, stalenessSeconds, referencePrice, percent, spread, amount, positionId } = alert.condition;
+
+      setEditingId(alert.id);
+      setFormError(null);
+      if (isPortfolioAlert(alert.type)) {
+        setSelectedInstrument(null);
+        setSearchQuery('');
+      } else {
+        const symbol = alertSubject(alert, instrumentMap.get(alert.instrumentId)?.symbol);
+        setSelectedInstrument({ instrumentId: alert.instrumentId, symbol, displayName: symbol });
+        setSearchQuery(symbol);
+      }
+      setSearchResults([]);
+      setAlertType(alert.type);
+      setThreshold(threshold !== undefined ? String(threshold) : '');
+      setStalenessSeconds(stalenessSeconds !== undefined ? String(stalenessSeconds) : '10');
+      setReferencePrice(referencePrice !== undefined ? String(referencePrice) : '');
+      setPercent(percent !== undefined ? String(percent) : '');
+      setSpread(spread !== undefined ? String(spread) : '');
+      setAmount(amount !== undefined ? String(amount) : '');
+      setPositionScope(positionId !== undefined ? String(positionId) : '');
+      setMode(alert.mode);
+      setExpiresAt(alert.expiresAt !== null ? toDateTimeInput(alert.expiresAt) : '');
+      setNote(alert.note ?? '');
+      setShowForm(true);
+    },
+    [instrumentMap]
+  );
 
   const handleDeleteAlert = useCallback(
     (alertId: string) => {
       alertsEngine.deleteAlert(alertId);
-      loadAlerts();
+      if (alertId === editingId) {
+        resetForm();
+      }
     },
-    [alertsEngine, loadAlerts]
+    [alertsEngine, editingId, resetForm]
   );
 
   const handleToggleAlert = useCallback(
@@ -247,9 +512,8 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
       } else {
         alertsEngine.enableAlert(alertId);
       }
-      loadAlerts();
     },
-    [alertsEngine, loadAlerts]
+    [alertsEngine]
   );
 
   const dismissToast = useCallback(() => {
@@ -270,9 +534,9 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
         >
           <span className="alerts-panel__toast-icon" aria-hidden="true">⚠</span>
           <span className="alerts-panel__toast-text">
-            {toast.symbol} {formatAlertType(toast.type)}{' '}
-            {toast.threshold !== undefined && formatValue(toast.threshold, toast.type)} →{' '}
+            {toast.symbol} {formatAlertType(toast.type)} {toast.condition} →{' '}
             {formatValue(toast.currentValue, toast.type)}
+            {toast.note && <span className="alerts-panel__toast-note"> — {toast.note}</span>}
           </span>
           <button className="alerts-panel__toast-close" aria-label="Dismiss alert notification">✕</button>
         </div>
@@ -282,7 +546,7 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
         <h2 className="alerts-panel__title" id="alerts-title">&gt; PRICE ALERTS</h2>
         <button
           className="alerts-panel__add-btn"
-          onClick={() => setShowForm(!showForm)}
+          onClick={() => (showForm ? resetForm() : setShowForm(true))}
           aria-expanded={showForm}
           aria-label={showForm ? 'Cancel creating alert' : 'Create new alert'}
         >
@@ -291,51 +555,53 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
       </div>
 
       {showForm && (
-        <div className="alerts-panel__form" role="form" aria-label="Create new alert">
-          <div className="alerts-panel__form-row">
-            <label className="alerts-panel__form-label" htmlFor="alert-instrument">Instrument</label>
-            <div className="alerts-panel__search-container">
-              <input
-                id="alert-instrument"
-                type="text"
-                className="alerts-panel__input"
-                value={searchQuery}
-                onChange={handleSearchChange}
-                placeholder="Search symbol..."
-                autoComplete="off"
-                aria-autocomplete="list"
-                aria-describedby={searchResults.length > 0 ? 'search-results' : undefined}
-              />
-              {searching && <span className="alerts-panel__spinner" aria-hidden="true">▓</span>}
-              {searchResults.length > 0 && (
-                <div className="alerts-panel__search-results" id="search-results" role="listbox">
-                  {searchResults.map((result) => (
-                    <div
-                      key={result.instrumentId}
-                      className="alerts-panel__search-result"
-                      onClick={() => handleSelectInstrument(result)}
-                      role="option"
-                      tabIndex={0}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' || e.key === ' ') {
-                          e.preventDefault();
-                          handleSelectInstrument(result);
-                        }
-                      }}
-                      aria-label={`${result.symbol} - ${result.displayName}`}
-                    >
-                      <span className="alerts-panel__search-result-symbol">
-                        {result.symbol}
-                      </span>
-                      <span className="alerts-panel__search-result-name">
-                        {result.displayName}
-                      </span>
-                    </div>
-                  ))}
-                </div>
-              )}
+        <div className="alerts-panel__form" role="form" aria-label={editingId ? 'Edit alert' : 'Create new alert'}>
+          {!isPortfolioAlert(alertType) && (
+            <div className="alerts-panel__form-row">
+              <label className="alerts-panel__form-label" htmlFor="alert-instrument">Instrument</label>
+              <div className="alerts-panel__search-container">
+                <input
+                  id="alert-instrument"
+                  type="text"
+                  className="alerts-panel__input"
+                  value={searchQuery}
+                  onChange={handleSearchChange}
+                  placeholder="Search symbol..."
+                  autoComplete="off"
+                  aria-autocomplete="list"
+                  aria-describedby={searchResults.length > 0 ? 'search-results' : undefined}
+                />
+                {searching && <span className="alerts-panel__spinner" aria-hidden="true">▓</span>}
+                {searchResults.length > 0 && (
+                  <div className="alerts-panel__search-results" id="search-results" role="listbox">
+                    {searchResults.map((result) => (
+                      <div
+                        key={result.instrumentId}
+                        className="alerts-panel__search-result"
+                        onClick={() => handleSelectInstrument(result)}
+                        role="option"
+                        tabIndex={0}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === ' ') {
+                            e.preventDefault();
+                            handleSelectInstrument(result);
+                          }
+                        }}
+                        aria-label={`${result.symbol} - ${result.displayName}`}
+                      >
+                        <span className="alerts-panel__search-result-symbol">
+                          {result.symbol}
+                        </span>
+                        <span className="alerts-panel__search-result-name">
+                          {result.displayName}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="alerts-panel__form-row">
             <label className="alerts-panel__form-label" htmlFor="alert-type">Type</label>
@@ -345,13 +611,75 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
               value={alertType}
               onChange={(e) => setAlertType(e.target.value as AlertType)}
             >
-              <option value="price_above">Price Above</option>
-              <option value="price_below">Price Below</option>
-              <option value="staleness">Staleness</option>
+              <optgroup label="Instrument">
+                {INSTRUMENT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Account">
+                {ACCOUNT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </optgroup>
             </select>
           </div>
 
-          {alertType !== 'staleness' ? (
+          {isPositionAlert(alertType) && (
+            <div className="alerts-panel__form-row">
+              <label className="alerts-panel__form-label" htmlFor="alert-position">Position</label>
+              <select
+                id="alert-position"
+                className="alerts-panel__select"
+                value={positionScope}
+                onChange={(e) => setPositionScope(e.target.value)}
+              >
+                <option value="">Any open position</option>
+                {positions.map((position) => (
+                  <option key={position.positionId} value={position.positionId}>
+                    {formatPositionOption(position)}
+                  </option>
+                ))}
+                {positionScope && !positions.some((p) => String(p.positionId) === positionScope) && (
+                  <option value={positionScope}>#{positionScope} (closed)</option>
+                )}
+              </select>
+            </div>
+          )}
+
+          {alertType === 'portfolio_pnl_below' && (
+            <div className="alerts-panel__form-row">
+              <label className="alerts-panel__form-label" htmlFor="alert-amount">P&amp;L Below $</label>
+              <input
+                id="alert-amount"
+                type="number"
+                className="alerts-panel__input"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="e.g. -500"
+                step="any"
+              />
+            </div>
+          )}
+
+          {isPortfolioAlert(alertType) && alertType !== 'portfolio_pnl_below' && (
+            <div className="alerts-panel__form-row">
+              <label className="alerts-panel__form-label" htmlFor="alert-account-percent">
+                {alertType === 'equity_drawdown' ? 'Drawdown %' : alertType === 'position_loss' ? 'Loss %' : 'Within %'}
+              </label>
+              <input
+                id="alert-account-percent"
+                type="number"
+                className="alerts-panel__input"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                placeholder={alertType === 'equity_drawdown' || alertType === 'position_loss' ? 'e.g. 5' : 'e.g. 1'}
+                min="0"
+                step="any"
+              />
+            </div>
+          )}
+
+          {PRICE_LEVEL_TYPES.includes(alertType) && (
             <div className="alerts-panel__form-row">
               <label className="alerts-panel__form-label" htmlFor="alert-price">Price</label>
               <input
@@ -364,7 +692,53 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
                 step="any"
               />
             </div>
-          ) : (
+          )}
+
+          {alertType === 'percent_change' && (
+            <>
+              <div className="alerts-panel__form-row">
+                <label className="alerts-panel__form-label" htmlFor="alert-percent">Change %</label>
+                <input
+                  id="alert-percent"
+                  type="number"
+                  className="alerts-panel__input"
+                  value={percent}
+                  onChange={(e) => setPercent(e.target.value)}
+                  placeholder="e.g. 5 or -5"
+                  step="any"
+                />
+              </div>
+              <div className="alerts-panel__form-row">
+                <label className="alerts-panel__form-label" htmlFor="alert-reference">From Price</label>
+                <input
+                  id="alert-reference"
+                  type="number"
+                  className="alerts-panel__input"
+                  value={referencePrice}
+                  onChange={(e) => setReferencePrice(e.target.value)}
+                  placeholder="Blank = current price"
+                  step="any"
+                />
+              </div>
+            </>
+          )}
+
+          {alertType === 'spread_wider' && (
+            <div className="alerts-panel__form-row">
+              <label className="alerts-panel__form-label" htmlFor="alert-spread">Spread</label>
+              <input
+                id="alert-spread"
+                type="number"
+                className="alerts-panel__input"
+                value={spread}
+                onChange={(e) => setSpread(e.target.value)}
+                placeholder="Ask - bid, e.g. 0.05"
+                step="any"
+              />
+            </div>
+          )}
+
+          {alertType === 'staleness' && (
             <div className="alerts-panel__form-row">
               <label className="alerts-panel__form-label" htmlFor="alert-staleness">Seconds</label>
               <input
@@ -379,48 +753,103 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
             </div>
           )}
 
+          <div className="alerts-panel__form-row">
+            <label className="alerts-panel__form-label" htmlFor="alert-mode">Mode</label>
+            <select
+              id="alert-mode"
+              className="alerts-panel__select"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as AlertMode)}
+            >
+              <option value="one_shot">One-shot</option>
+              <option value="recurring">Recurring</option>
+            </select>
+          </div>
+
+          <div className="alerts-panel__form-row">
+            <label className="alerts-panel__form-label" htmlFor="alert-expiry">Expires</label>
+            <input
+              id="alert-expiry"
+              type="datetime-local"
+              className="alerts-panel__input"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </div>
+
+          <div className="alerts-panel__form-row">
+            <label className="alerts-panel__form-label" htmlFor="alert-note">Note</label>
+            <textarea
+              id="alert-note"
+              className="alerts-panel__input alerts-panel__textarea"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why this alert matters..."
+              rows={2}
+            />
+          </div>
+
           {formError && (
             <div className="alerts-panel__form-error" role="alert">✕ {formError}</div>
           )}
 
           <button
             className="alerts-panel__form-submit"
-            onClick={handleCreateAlert}
-            aria-label="Create alert"
+            onClick={handleSubmitAlert}
+            aria-label={editingId ? 'Save alert' : 'Create alert'}
           >
-            CREATE ALERT
+            {editingId ? 'SAVE ALERT' : 'CREATE ALERT'}
           </button>
         </div>
       )}
 
       <div className="alerts-panel__section" role="region" aria-labelledby="active-alerts-header">
         <div className="alerts-panel__section-header">
-          <span id="active-alerts-header">Active Alerts ({alerts.length})</span>
+          <span id="active-alerts-header">Alerts ({alerts.length})</span>
         </div>
         <div className="alerts-panel__list" role="list" aria-label="Active alerts">
           {alerts.length === 0 ? (
-            <div className="alerts-panel__empty" role="status">No active alerts</div>
+            <div className="alerts-panel__empty" role="status">No alerts</div>
           ) : (
             alerts.map((alert) => {
               const info = instrumentMap.get(alert.instrumentId);
-              const symbol = info?.symbol ?? `ID:${alert.instrumentId}`;
-              const value =
-                alert.type === 'staleness'
-                  ? `${alert.condition.stalenessSeconds}s`
-                  : formatValue(alert.condition.threshold ?? 0, alert.type);
+              const symbol = alertSubject(alert, info?.symbol);
+              const value = describeCondition(alert);
+              const expired = isAlertExpired(alert);
+              const fired = alert.mode === 'one_shot' && !alert.enabled && alert.lastTriggeredAt !== null;
+              const status = expired ? 'EXPIRED' : fired ? 'FIRED' : null;
 
               return (
                 <div
                   key={alert.id}
-                  className={`alerts-panel__alert ${!alert.enabled ? 'alerts-panel__alert--disabled' : ''}`}
+                  className={`alerts-panel__alert ${!alert.enabled || expired ? 'alerts-panel__alert--disabled' : ''}`}
                   role="listitem"
-                  aria-label={`${symbol} ${formatAlertType(alert.type)} ${value}, ${alert.enabled ? 'enabled' : 'disabled'}`}
+                  aria-label={`${symbol} ${formatAlertType(alert.type)} ${value}, ${status?.toLowerCase() ?? (alert.enabled ? 'enabled' : 'disabled')}`}
                 >
                   <span className="alerts-panel__alert-symbol">{symbol}</span>
                   <span className="alerts-panel__alert-type">
                     {formatAlertType(alert.type)}
                   </span>
                   <span className="alerts-panel__alert-value">{value}</span>
+                  <span
+                    className="alerts-panel__alert-mode"
+                    title={alert.mode === 'one_shot' ? 'One-shot' : 'Recurring'}
+                  >
+                    {alert.mode === 'one_shot' ? '1×' : '↻'}
+                  </span>
+                  <span
+                    className={`alerts-panel__alert-status ${status ? 'alerts-panel__alert-status--done' : ''}`}
+                    title={alert.expiresAt !== null ? `Expires ${formatExpiry(alert.expiresAt)}` : undefined}
+                  >
+                    {status ?? (alert.expiresAt !== null ? `⏱ ${formatExpiry(alert.expiresAt)}` : '')}
+                  </span>
+                  <button
+                    className="alerts-panel__alert-edit"
+                    onClick={() => handleEditAlert(alert)}
+                    aria-label={`Edit alert for ${symbol}`}
+                  >
+                    ✎
+                  </button>
                   <button
                     className="alerts-panel__alert-toggle"
                     onClick={() => handleToggleAlert(alert.id, alert.enabled)}
@@ -436,6 +865,9 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
                   >
                     ✕
                   </button>
+                  {alert.note && (
+                    <div className="alerts-panel__alert-note">{alert.note}</div>
+                  )}
                 </div>
               );
             })
@@ -470,12 +902,7 @@ export default function AlertsPanel({ engine }: AlertsPanelProps = { panelId: ''
                   {formatAlertType(item.type)}
                 </span>
                 <span className="alerts-panel__log-value">
-                  {item.threshold !== undefined && (
-                    <>
-                      {formatValue(item.threshold, item.type)} →{' '}
-                    </>
-                  )}
-                  {formatValue(item.currentValue, item.type)}
+                  {item.condition} → {formatValue(item.currentValue, item.type)}
                 </span>
               </div>
             ))
@@ -1,6 +1,11 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { OrderStatus } from '../../api/contracts/etoro-api.types';
 import { ordersStore, StoredOrder } from '../../stores/ordersStore';
+import { activityStore } from '../../stores/activityStore';
+import { getTradingAdapter } from '../../api/adapters/tradingAdapter';
+import { getPositionAdapter } from '../../api/adapters/positionAdapter';
+import { keyManager } from '../../services/keyManager';
+import { useTradingMode } from '../../contexts/TradingModeContext';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
 import './BlotterPanel.css';
 
@@ -9,7 +14,7 @@ export interface BlotterPanelProps extends PanelContentProps {
   selectedOrderId?: string;
 }
 
-type StatusFilter = 'all' | OrderStatus;
+type StatusFilter = 'all' | 'working' | 'unknown' | OrderStatus;
 
 function formatTime(isoString: string): string {
   const date = new Date(isoString);
@@ -49,10 +54,18 @@ function getStatusClass(status: OrderStatus): string {
   }
 }
 
-function getStatusLabel(status: OrderStatus, isUnknown?: boolean): string {
+/** A limit order resting at the broker, which can still be cancelled */
+function isWorkingOrder(order: StoredOrder): boolean {
+  return order.orderType === 'limit' && order.status === 'pending' && !order.isOptimistic;
+}
+
+function getStatusLabel(status: OrderStatus, isUnknown?: boolean, isWorking?: boolean): string {
   if (isUnknown) {
     return 'UNKNOWN';
   }
+  if (isWorking) {
+    return 'WORKING';
+  }
   switch (status) {
     case 'pending':
       return 'PENDING';
@@ -74,14 +87,10 @@ function getRowClassName(order: StoredOrder, isSelected: boolean): string {
     classes.push('blotter-panel__row--selected');
   }
   
-  const isUnknown = (order as StoredOrder & { isUnknown?: boolean }).isUnknown;
-  
-  if (order.isOptimistic) {
-    if (isUnknown) {
-      classes.push('blotter-panel__row--unknown');
-    } else {
-      classes.push('blotter-panel__row--optimistic');
-    }
+  if (order.isUnknown) {
+    classes.push('blotter-panel__row--unknown');
+  } else if (order.isOptimistic) {
+    classes.push('blotter-panel__row--optimistic');
   }
   
   return classes.join(' ');
@@ -91,6 +100,11 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
   const [orders, setOrders] = useState<StoredOrder[]>([]);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [drawerOrder, setDrawerOrder] = useState<StoredOrder | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { isDemoMode } = useTradingMode();
 
   useEffect(() => {
     setOrders(ordersStore.getAllOrders());
@@ -102,6 +116,61 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
     return unsubscribe;
   }, []);
 
+  const refreshWorkingOrders = useCallback(async () => {
+    if (!keyManager.hasKeys()) return;
+
+    setIsRefreshing(true);
+    setActionError(null);
+    try {
+      const tradingAdapter = getTradingAdapter();
+      tradingAdapter.setDemoMode(isDemoMode());
+      await tradingAdapter.getPendingOrders();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to load working orders');
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [isDemoMode]);
+
+  useEffect(() => {
+    refreshWorkingOrders();
+  }, [refreshWorkingOrders]);
+
+  const handleCancelOrder = useCallback(async (order: StoredOrder) => {
+    setCancellingId(order.orderId);
+    setActionError(null);
+    try {
+      const tradingAdapter = getTradingAdapter();
+      tradingAdapter.setDemoMode(isDemoMode());
+      await tradingAdapter.cancelLimitOrder(order.orderId);
+      activityStore.addOrderCancelled(isDemoMode() ? 'demo' : 'real', order.symbol);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Cancel failed');
+    } finally {
+      setCancellingId(null);
+    }
+  }, [isDemoMode]);
+
+  const handleVerifyOrder = useCallback(async (order: StoredOrder) => {
+    setVerifyingId(order.orderId);
+    setActionError(null);
+    try {
+      if (order.positionId !== undefined) {
+        await getPositionAdapter(order.isDemo ?? isDemoMode()).verifyClose(order.orderId);
+      } else {
+        const tradingAdapter = getTradingAdapter();
+        tradingAdapter.setDemoMode(isDemoMode());
+        await tradingAdapter.verifyOrder(order.orderId);
+      }
+      // Verifying an optimistic order moves it to its broker ID
+      setDrawerOrder(null);
+    } catch (err) {
+      setActionError(err instanceof Error ? `Verify failed: ${err.message}` : 'Verify failed');
+    } finally {
+      setVerifyingId(null);
+    }
+  }, [isDemoMode]);
+
   useEffect(() => {
     if (drawerOrder) {
       const unsubscribe = ordersStore.subscribeToOrder(drawerOrder.orderId, (updatedOrder) => {
@@ -115,6 +184,12 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
     if (statusFilter === 'all') {
       return orders;
     }
+    if (statusFilter === 'working') {
+      return orders.filter(isWorkingOrder);
+    }
+    if (statusFilter === 'unknown') {
+      return orders.filter((order) => order.isUnknown);
+    }
     return orders.filter((order) => order.status === statusFilter);
   }, [orders, statusFilter]);
 
@@ -135,11 +210,17 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
   }, []);
 
   const statusCounts = useMemo(() => {
-    const counts = { pending: 0, executed: 0, cancelled: 0, rejected: 0 };
+    const counts = { working: 0, unknown: 0, pending: 0, executed: 0, cancelled: 0, rejected: 0 };
     orders.forEach((order) => {
+      if (order.isUnknown) {
+        counts.unknown++;
+      }
       if (order.status in counts) {
         counts[order.status as keyof typeof counts]++;
       }
+      if (isWorkingOrder(order)) {
+        counts.working++;
+      }
     });
     return counts;
   }, [orders]);
@@ -156,14 +237,29 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
             aria-label="Filter orders by status"
           >
             <option value="all">All ({orders.length})</option>
+            <option value="working">Working ({statusCounts.working})</option>
+            <option value="unknown">Unknown ({statusCounts.unknown})</option>
             <option value="pending">Pending ({statusCounts.pending})</option>
             <option value="executed">Filled ({statusCounts.executed})</option>
             <option value="cancelled">Cancelled ({statusCounts.cancelled})</option>
             <option value="rejected">Rejected ({statusCounts.rejected})</option>
           </select>
+          <button
+            className="blotter-panel__refresh"
+            onClick={refreshWorkingOrders}
+            disabled={isRefreshing}
+            aria-label="Refresh working orders"
+            title="Refresh working orders"
+          >
+            {isRefreshing ? '◐' : '⟳'}
+          </button>
         </div>
       </div>
 
+      {actionError && (
+        <div className="blotter-panel__error" role="alert">{actionError}</div>
+      )}
+
       <div className="blotter-panel__table-header" role="row" aria-hidden="true">
         <span>Time</span>
         <span>Symbol</span>
@@ -180,7 +276,8 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
         ) : (
           filteredOrders.map((order) => {
             const isSelected = order.orderId === selectedOrderId || order.orderId === drawerOrder?.orderId;
-            const isUnknown = (order as StoredOrder & { isUnknown?: boolean }).isUnknown;
+            const isUnknown = order.isUnknown;
+            const isWorking = isWorkingOrder(order);
 
             return (
               <div
@@ -195,13 +292,13 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
                     handleRowClick(order);
                   }
                 }}
-                aria-label={`Order ${order.symbol}, ${order.side}, ${formatAmount(order.amount)}, ${getStatusLabel(order.status, isUnknown)}`}
+                aria-label={`Order ${order.symbol}, ${order.side}, ${formatAmount(order.amount)}, ${getStatusLabel(order.status, isUnknown, isWorking)}`}
               >
                 <span className="blotter-panel__cell blotter-panel__cell--time" role="cell">
                   {formatTime(order.createdAt)}
                 </span>
                 <span className="blotter-panel__cell blotter-panel__cell--symbol" role="cell">
-                  {order.isOptimistic && (
+                  {(order.isOptimistic || isUnknown) && (
                     <span className={isUnknown ? 'blotter-panel__unknown-indicator' : 'blotter-panel__optimistic-indicator'} aria-hidden="true" />
                   )}
                   {order.symbol}
@@ -213,7 +310,21 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
                   {formatAmount(order.amount)}
                 </span>
                 <span className={`blotter-panel__cell blotter-panel__cell--status ${isUnknown ? 'status--unknown' : getStatusClass(order.status)}`} role="cell">
-                  {getStatusLabel(order.status, isUnknown)}
+                  {getStatusLabel(order.status, isUnknown, isWorking)}
+                  {isWorking && (
+                    <button
+                      className="blotter-panel__cancel"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleCancelOrder(order);
+                      }}
+                      disabled={cancellingId === order.orderId}
+                      aria-label={`Cancel ${order.symbol} limit order`}
+                      title="Cancel order"
+                    >
+                      ×
+                    </button>
+                  )}
                 </span>
               </div>
             );
@@ -290,10 +401,21 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
             )}
             <div className="blotter-panel__drawer-row">
               <span className="blotter-panel__drawer-label">Status</span>
-              <span className={`blotter-panel__drawer-value ${getStatusClass(drawerOrder.status)}`}>
-                {getStatusLabel(drawerOrder.status)}
+              <span className={`blotter-panel__drawer-value ${drawerOrder.isUnknown ? 'status--unknown' : getStatusClass(drawerOrder.status)}`}>
+                {getStatusLabel(drawerOrder.status, drawerOrder.isUnknown, isWorkingOrder(drawerOrder))}
               </span>
             </div>
+            {drawerOrder.isUnknown && drawerOrder.unknownReason && (
+              <div className="blotter-panel__drawer-warning" role="alert">
+                {drawerOrder.unknownReason}
+              </div>
+            )}
+            {drawerOrder.clientOrderKey && (
+              <div className="blotter-panel__drawer-row">
+                <span className="blotter-panel__drawer-label">Client Key</span>
+                <span className="blotter-panel__drawer-value">{drawerOrder.clientOrderKey}</span>
+              </div>
+            )}
             {drawerOrder.executedRate && (
               <div className="blotter-panel__drawer-row">
                 <span className="blotter-panel__drawer-label">Executed Rate</span>
@@ -314,6 +436,24 @@ export default function BlotterPanel({ onOrderSelect, selectedOrderId }: Blotter
               <span className="blotter-panel__drawer-label">Updated</span>
               <span className="blotter-panel__drawer-value">{formatTime(drawerOrder.updatedAt)}</span>
             </div>
+            {isWorkingOrder(drawerOrder) && (
+              <button
+                className="blotter-panel__drawer-cancel"
+                onClick={() => handleCancelOrder(drawerOrder)}
+                disabled={cancellingId === drawerOrder.orderId}
+              >
+                {cancellingId === drawerOrder.orderId ? 'CANCELLING...' : 'CANCEL ORDER'}
+              </button>
+            )}
+            {drawerOrder.isUnknown && (
+              <button
+                className="blotter-panel__drawer-cancel blotter-panel__drawer-verify"
+                onClick={() => handleVerifyOrder(drawerOrder)}
+                disabled={verifyingId === drawerOrder.orderId}
+              >
+                {verifyingId === drawerOrder.orderId ? 'VERIFYING...' : 'VERIFY WITH BROKER'}
+              </button>
+            )}
           </div>
         </div>
       )}
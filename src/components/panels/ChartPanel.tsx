@@ -1,25 +1,66 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { usePanelLink } from '../Workspace/usePanelLink';
-import { LinkGroup } from '../Workspace/ActiveSymbolContext';
+import { usePanelState, usePanelIntent, type PanelIntent } from '../../contexts/WorkspaceContext';
+import { LinkGroup, useActiveSymbol } from '../Workspace/ActiveSymbolContext';
 import { quotesStore, StoredQuote } from '../../stores/quotesStore';
 import { symbolResolver, ResolvedSymbol } from '../../services/symbolResolver';
+import {
+  chartDataService,
+  stitchTick,
+  CHART_TIMEFRAMES,
+  type ChartBar,
+  type ChartDataSource,
+  type ChartTimeframe,
+} from '../../services/chartDataService';
+import { computeIndicator, type IndicatorValue } from '../../utils/indicators';
 import { WS_TOPICS } from '../../api/contracts/endpoints';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
 import './ChartPanel.css';
 
-type Timeframe = '1m' | '5m' | '15m';
+type Overlay = 'SMA' | 'EMA' | 'BB' | 'VWAP';
+type Study = 'RSI' | 'MACD';
+
+interface IndicatorSeries {
+  sma?: IndicatorValue[];
+  ema?: IndicatorValue[];
+  bbUpper?: IndicatorValue[];
+  bbMiddle?: IndicatorValue[];
+  bbLower?: IndicatorValue[];
+  vwap?: IndicatorValue[];
+  rsi?: IndicatorValue[];
+  macd?: IndicatorValue[];
+  macdSignal?: IndicatorValue[];
+  macdHistogram?: IndicatorValue[];
+}
+
+/** Visible window: `offset` bars hidden to the right of the view, `visible` bars shown */
+interface ChartView {
+  offset: number;
+  visible: number;
+}
 
-interface PricePoint {
-  timestamp: number;
-  price: number;
+interface HoverPoint {
+  x: number;
+  y: number;
+  index: number;
 }
 
-interface AggregatedCandle {
-  timestamp: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
+interface PaneRect {
+  kind: 'price' | Study;
+  top: number;
+  height: number;
+  min: number;
+  max: number;
+}
+
+interface ChartLayout {
+  start: number;
+  end: number;
+  spacing: number;
+  plotLeft: number;
+  plotRight: number;
+  plotBottom: number;
+  panes: PaneRect[];
 }
 
 export interface ChartPanelProps extends PanelContentProps {
@@ -29,85 +70,405 @@ export interface ChartPanelProps extends PanelContentProps {
   wsUnsubscribe?: (topic: string) => void;
 }
 
-const TIMEFRAME_MS: Record<Timeframe, number> = {
-  '1m': 60_000,
-  '5m': 5 * 60_000,
-  '15m': 15 * 60_000,
+const CHART_PADDING = 20;
+const PRICE_AXIS_WIDTH = 64;
+const TIME_AXIS_HEIGHT = 18;
+const STUDY_PANE_MAX_HEIGHT = 110;
+const DEFAULT_VISIBLE_BARS = 120;
+const MIN_VISIBLE_BARS = 10;
+const ZOOM_STEP = 1.15;
+
+const SMA_PERIOD = 20;
+const EMA_PERIOD = 50;
+const BB_PARAMS = { period: 20, stdDev: 2 };
+const RSI_PERIOD = 14;
+
+const OVERLAYS: Overlay[] = ['SMA', 'EMA', 'BB', 'VWAP'];
+const STUDIES: Study[] = ['RSI', 'MACD'];
+
+const COLORS = {
+  background: '#0a0a0a',
+  grid: '#1a1a1a',
+  separator: '#333',
+  axisText: '#888',
+  up: '#00ff00',
+  down: '#ff4444',
+  sma: '#ffaa00',
+  ema: '#00aaff',
+  bb: '#888',
+  vwap: '#ff66ff',
+  rsi: '#ffaa00',
+  macd: '#00aaff',
+  macdSignal: '#ff6600',
+  crosshair: '#555',
 };
 
-const MAX_TICKS = 500;
-const MAX_CACHED_TICKS = 1000;
-const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
-const CACHE_KEY_PREFIX = 'chart_ticks_';
-const CHART_PADDING = 20;
+const SOURCE_LABELS: Record<ChartDataSource, string> = {
+  'etoro': 'eToro',
+  'financial-datasets': 'Financial Datasets',
+};
 
-interface CachedChartData {
-  instrumentId: number;
-  ticks: PricePoint[];
-  cachedAt: number;
+function formatPrice(price: number): string {
+  if (price === 0) return '--';
+  if (price >= 1000) return price.toFixed(2);
+  if (price >= 1) return price.toFixed(4);
+  return price.toFixed(6);
 }
 
-function getCacheKey(instrumentId: number): string {
-  return `${CACHE_KEY_PREFIX}${instrumentId}`;
+function formatChange(change: number, changePercent: number): string {
+  const sign = change >= 0 ? '+' : '';
+  return `${sign}${change.toFixed(2)} (${sign}${changePercent.toFixed(2)}%)`;
 }
 
-function loadCachedTicks(instrumentId: number): PricePoint[] {
-  try {
-    const key = getCacheKey(instrumentId);
-    const cached = sessionStorage.getItem(key);
-    if (!cached) return [];
-
-    const data: CachedChartData = JSON.parse(cached);
-    
-    if (Date.now() - data.cachedAt > CACHE_EXPIRY_MS) {
-      sessionStorage.removeItem(key);
-      return [];
-    }
+function formatVolume(volume: number): string {
+  if (volume >= 1e9) return `${(volume / 1e9).toFixed(2)}B`;
+  if (volume >= 1e6) return `${(volume / 1e6).toFixed(2)}M`;
+  if (volume >= 1e3) return `${(volume / 1e3).toFixed(1)}K`;
+  return volume.toFixed(0);
+}
 
-    return data.ticks || [];
-  } catch {
-    return [];
+function isIntraday(timeframe: ChartTimeframe): boolean {
+  return timeframe !== '1d' && timeframe !== '1w';
+}
+
+function pad2(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+function formatBarTime(timestamp: number, timeframe: ChartTimeframe, short: boolean): string {
+  const d = new Date(timestamp);
+  const date = `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+  const time = `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  if (!short) return isIntraday(timeframe) ? `${date} ${time}` : date;
+  if (timeframe === '1w') return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}`;
+  if (timeframe === '1d') return `${pad2(d.getMonth() + 1)}/${pad2(d.getDate())}`;
+  return time;
+}
+
+/** Intraday VWAP resets each session (UTC day); daily/weekly is anchored to the first loaded bar */
+function sessionVwap(bars: ChartBar[], timeframe: ChartTimeframe): IndicatorValue[] {
+  if (!isIntraday(timeframe)) return computeIndicator('VWAP', undefined, bars);
+
+  const values: IndicatorValue[] = [];
+  let session: ChartBar[] = [];
+  let sessionDay = '';
+  const flush = () => values.push(...computeIndicator('VWAP', undefined, session));
+
+  for (const bar of bars) {
+    const day = new Date(bar.timestamp).toISOString().split('T')[0];
+    if (day !== sessionDay && session.length > 0) {
+      flush();
+      session = [];
+    }
+    sessionDay = day;
+    session.push(bar);
   }
+  flush();
+  return values;
 }
 
-function saveCachedTicks(instrumentId: number, ticks: PricePoint[]): void {
-  try {
-    const key = getCacheKey(instrumentId);
-    const ticksToCache = ticks.slice(-MAX_CACHED_TICKS);
-    const data: CachedChartData = {
-      instrumentId,
-      ticks: ticksToCache,
-      cachedAt: Date.now(),
-    };
-    sessionStorage.setItem(key, JSON.stringify(data));
-  } catch {
-    // Ignore storage errors
+function clampView(view: ChartView, barCount: number): ChartView {
+  const visible = Math.max(Math.min(MIN_VISIBLE_BARS, barCount), Math.min(Math.round(view.visible), barCount));
+  const offset = Math.max(0, Math.min(Math.round(view.offset), barCount - visible));
+  return { offset, visible };
+}
+
+// =============================================================================
+// Canvas Drawing
+// =============================================================================
+
+function barX(layout: ChartLayout, index: number): number {
+  return layout.plotLeft + (index - layout.start + 0.5) * layout.spacing;
+}
+
+function valueY(pane: PaneRect, value: number): number {
+  const range = pane.max - pane.min || 1;
+  return pane.top + (1 - (value - pane.min) / range) * pane.height;
+}
+
+function yValue(pane: PaneRect, y: number): number {
+  return pane.min + (1 - (y - pane.top) / pane.height) * (pane.max - pane.min);
+}
+
+function visibleValues(series: (IndicatorValue[] | undefined)[], start: number, end: number): number[] {
+  const values: number[] = [];
+  for (const s of series) {
+    if (!s) continue;
+    for (let i = start; i < end; i++) {
+      const v = s[i];
+      if (v !== null && v !== undefined) values.push(v);
+    }
   }
+  return values;
 }
 
-function clearCachedTicks(instrumentId: number): void {
-  try {
-    const key = getCacheKey(instrumentId);
-    sessionStorage.removeItem(key);
-  } catch {
-    // Ignore storage errors
+function drawSeries(
+  ctx: CanvasRenderingContext2D,
+  layout: ChartLayout,
+  pane: PaneRect,
+  values: IndicatorValue[] | undefined,
+  color: string,
+  dashed = false
+): void {
+  if (!values) return;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.2;
+  ctx.setLineDash(dashed ? [4, 3] : []);
+  ctx.beginPath();
+  let started = false;
+  for (let i = layout.start; i < layout.end; i++) {
+    const v = values[i];
+    if (v === null || v === undefined) {
+      started = false;
+      continue;
+    }
+    const x = barX(layout, i);
+    const y = valueY(pane, v);
+    if (started) {
+      ctx.lineTo(x, y);
+    } else {
+      ctx.moveTo(x, y);
+      started = true;
+    }
   }
+  ctx.stroke();
+  ctx.setLineDash([]);
 }
 
-function formatPrice(price: number): string {
-  if (price === 0) return '--';
-  if (price >= 1000) return price.toFixed(2);
-  if (price >= 1) return price.toFixed(4);
-  return price.toFixed(6);
+function drawAxisLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, background: string, color: string): void {
+  ctx.font = '10px Courier New';
+  ctx.fillStyle = background;
+  ctx.fillRect(x, y - 7, PRICE_AXIS_WIDTH - 4, 14);
+  ctx.fillStyle = color;
+  ctx.textAlign = 'left';
+  ctx.fillText(text, x + 3, y + 3);
 }
 
-function formatChange(change: number, changePercent: number): string {
-  const sign = change >= 0 ? '+' : '';
-  return `${sign}${change.toFixed(2)} (${sign}${changePercent.toFixed(2)}%)`;
+function drawChart(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  bars: ChartBar[],
+  series: IndicatorSeries,
+  view: ChartView,
+  hover: HoverPoint | null,
+  timeframe: ChartTimeframe,
+  studies: Study[]
+): ChartLayout | null {
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, width, height);
+
+  if (bars.length === 0 || width <= PRICE_AXIS_WIDTH + CHART_PADDING) {
+    ctx.fillStyle = '#444';
+    ctx.font = '14px Courier New';
+    ctx.textAlign = 'center';
+    ctx.fillText('Waiting for data...', width / 2, height / 2);
+    return null;
+  }
+
+  const { offset, visible } = clampView(view, bars.length);
+  const end = bars.length - offset;
+  const start = end - visible;
+  const plotLeft = CHART_PADDING / 2;
+  const plotRight = width - PRICE_AXIS_WIDTH;
+  const plotBottom = height - TIME_AXIS_HEIGHT;
+  const studyHeight = studies.length > 0 ? Math.min(STUDY_PANE_MAX_HEIGHT, (plotBottom - CHART_PADDING) * 0.22) : 0;
+  const mainHeight = plotBottom - CHART_PADDING - studyHeight * studies.length;
+
+  // Price pane range covers candles plus any visible overlays
+  const priceValues = visibleValues([series.sma, series.ema, series.bbUpper, series.bbLower, series.vwap], start, end);
+  for (let i = start; i < end; i++) {
+    priceValues.push(bars[i].high, bars[i].low);
+  }
+  const rawMin = Math.min(...priceValues);
+  const rawMax = Math.max(...priceValues);
+  const pricePad = (rawMax - rawMin) * 0.05 || rawMax * 0.01 || 1;
+
+  const panes: PaneRect[] = [{
+    kind: 'price',
+    top: CHART_PADDING,
+    height: mainHeight,
+    min: rawMin - pricePad,
+    max: rawMax + pricePad,
+  }];
+
+  studies.forEach((study, n) => {
+    const top = CHART_PADDING + mainHeight + studyHeight * n;
+    if (study === 'RSI') {
+      panes.push({ kind: 'RSI', top, height: studyHeight, min: 0, max: 100 });
+    } else {
+      const values = visibleValues([series.macd, series.macdSignal, series.macdHistogram], start, end);
+      const extent = values.length > 0 ? Math.max(...values.map(Math.abs)) * 1.1 : 1;
+      panes.push({ kind: 'MACD', top, height: studyHeight, min: -extent || -1, max: extent || 1 });
+    }
+  });
+
+  const layout: ChartLayout = {
+    start,
+    end,
+    spacing: (plotRight - plotLeft) / visible,
+    plotLeft,
+    plotRight,
+    plotBottom,
+    panes,
+  };
+  const pricePane = panes[0];
+
+  // Grid and price axis
+  ctx.strokeStyle = COLORS.grid;
+  ctx.lineWidth = 1;
+  ctx.font = '10px Courier New';
+  ctx.textAlign = 'left';
+  for (let i = 0; i <= 4; i++) {
+    const y = pricePane.top + (pricePane.height / 4) * i;
+    ctx.beginPath();
+    ctx.moveTo(plotLeft, y);
+    ctx.lineTo(plotRight, y);
+    ctx.stroke();
+    ctx.fillStyle = COLORS.axisText;
+    ctx.fillText(formatPrice(yValue(pricePane, y)), plotRight + 4, y + 3);
+  }
+
+  // Time axis
+  const labelEvery = Math.max(1, Math.ceil(visible / 6));
+  ctx.fillStyle = COLORS.axisText;
+  ctx.textAlign = 'center';
+  for (let i = start; i < end; i++) {
+    if ((i - start) % labelEvery !== 0) continue;
+    const x = barX(layout, i);
+    ctx.strokeStyle = COLORS.grid;
+    ctx.beginPath();
+    ctx.moveTo(x, CHART_PADDING);
+    ctx.lineTo(x, plotBottom);
+    ctx.stroke();
+    ctx.fillText(formatBarTime(bars[i].timestamp, timeframe, true), x, height - 5);
+  }
+
+  // Candles
+  const bodyWidth = Math.max(1, layout.spacing * 0.7);
+  for (let i = start; i < end; i++) {
+    const bar = bars[i];
+    const x = barX(layout, i);
+    const color = bar.close >= bar.open ? COLORS.up : COLORS.down;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(x, valueY(pricePane, bar.high));
+    ctx.lineTo(x, valueY(pricePane, bar.low));
+    ctx.stroke();
+    const top = valueY(pricePane, Math.max(bar.open, bar.close));
+    const bottom = valueY(pricePane, Math.min(bar.open, bar.close));
+    ctx.fillRect(x - bodyWidth / 2, top, bodyWidth, Math.max(1, bottom - top));
+  }
+
+  // Overlays
+  drawSeries(ctx, layout, pricePane, series.bbUpper, COLORS.bb, true);
+  drawSeries(ctx, layout, pricePane, series.bbMiddle, COLORS.bb);
+  drawSeries(ctx, layout, pricePane, series.bbLower, COLORS.bb, true);
+  drawSeries(ctx, layout, pricePane, series.sma, COLORS.sma);
+  drawSeries(ctx, layout, pricePane, series.ema, COLORS.ema);
+  drawSeries(ctx, layout, pricePane, series.vwap, COLORS.vwap);
+
+  // Last price marker
+  const last = bars[bars.length - 1];
+  const lastY = valueY(pricePane, last.close);
+  if (lastY >= pricePane.top && lastY <= pricePane.top + pricePane.height) {
+    const lastColor = last.close >= last.open ? COLORS.up : COLORS.down;
+    ctx.strokeStyle = lastColor;
+    ctx.setLineDash([2, 2]);
+    ctx.beginPath();
+    ctx.moveTo(plotLeft, lastY);
+    ctx.lineTo(plotRight, lastY);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    drawAxisLabel(ctx, formatPrice(last.close), plotRight + 2, lastY, lastColor, '#000');
+  }
+
+  // Study panes
+  for (const pane of panes.slice(1)) {
+    ctx.strokeStyle = COLORS.separator;
+    ctx.beginPath();
+    ctx.moveTo(plotLeft, pane.top);
+    ctx.lineTo(width, pane.top);
+    ctx.stroke();
+
+    ctx.fillStyle = COLORS.axisText;
+    ctx.textAlign = 'left';
+    ctx.fillText(pane.kind === 'RSI' ? `RSI ${RSI_PERIOD}` : 'MACD 12/26/9', plotLeft + 2, pane.top + 11);
+
+    if (pane.kind === 'RSI') {
+      for (const level of [30, 70]) {
+        const y = valueY(pane, level);
+        ctx.strokeStyle = COLORS.grid;
+        ctx.beginPath();
+        ctx.moveTo(plotLeft, y);
+        ctx.lineTo(plotRight, y);
+        ctx.stroke();
+        ctx.fillStyle = COLORS.axisText;
+        ctx.fillText(String(level), plotRight + 4, y + 3);
+      }
+      drawSeries(ctx, layout, pane, series.rsi, COLORS.rsi);
+    } else {
+      const zeroY = valueY(pane, 0);
+      ctx.strokeStyle = COLORS.grid;
+      ctx.beginPath();
+      ctx.moveTo(plotLeft, zeroY);
+      ctx.lineTo(plotRight, zeroY);
+      ctx.stroke();
+      const histogram = series.macdHistogram;
+      if (histogram) {
+        for (let i = start; i < end; i++) {
+          const v = histogram[i];
+          if (v === null || v === undefined) continue;
+          const y = valueY(pane, v);
+          ctx.fillStyle = v >= 0 ? 'rgba(0, 255, 0, 0.4)' : 'rgba(255, 68, 68, 0.4)';
+          ctx.fillRect(barX(layout, i) - bodyWidth / 2, Math.min(y, zeroY), bodyWidth, Math.abs(zeroY - y));
+        }
+      }
+      drawSeries(ctx, layout, pane, series.macd, COLORS.macd);
+      drawSeries(ctx, layout, pane, series.macdSignal, COLORS.macdSignal);
+    }
+  }
+
+  // Crosshair
+  if (hover && hover.index >= start && hover.index < end) {
+    const x = barX(layout, hover.index);
+    ctx.strokeStyle = COLORS.crosshair;
+    ctx.setLineDash([3, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x, CHART_PADDING);
+    ctx.lineTo(x, plotBottom);
+    ctx.stroke();
+
+    const pane = panes.find(p => hover.y >= p.top && hover.y <= p.top + p.height);
+    if (pane && hover.x <= plotRight) {
+      ctx.beginPath();
+      ctx.moveTo(plotLeft, hover.y);
+      ctx.lineTo(plotRight, hover.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      const value = yValue(pane, hover.y);
+      drawAxisLabel(ctx, pane.kind === 'price' ? formatPrice(value) : value.toFixed(2), plotRight + 2, hover.y, '#333', '#fff');
+    }
+    ctx.setLineDash([]);
+  }
+
+  return layout;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/** Sent by `SYMBOL CH [timeframe]` */
+export interface ChartIntent extends PanelIntent {
+  symbol?: string;
+  timeframe?: ChartTimeframe;
 }
 
 export default function ChartPanel({
-  panelId: _panelId,
+  panelId,
   initialSymbol,
   initialLinkGroup = 'A',
   wsSubscribe,
@@ -116,22 +477,54 @@ export default function ChartPanel({
   const {
     currentSymbol,
     isPinned,
+    linkGroup,
     pin,
-  } = usePanelLink(initialLinkGroup);
+  } = usePanelLink(initialLinkGroup, panelId);
+  const { setActiveSymbol } = useActiveSymbol();
 
   const [resolvedSymbol, setResolvedSymbol] = useState<ResolvedSymbol | null>(null);
-  const [timeframe, setTimeframe] = useState<Timeframe>('1m');
-  const [ticks, setTicks] = useState<PricePoint[]>([]);
+  const [timeframe, setTimeframe] = usePanelState<ChartTimeframe>(panelId, 'timeframe', '1d');
+
+  // A pinned chart switches its pin; a linked chart moves its whole link group
+  usePanelIntent<ChartIntent>('CH', (intent) => {
+    if (intent.timeframe) {
+      setTimeframe(intent.timeframe);
+    }
+    if (intent.symbol) {
+      if (isPinned) {
+        pin(intent.symbol);
+      } else {
+        setActiveSymbol(intent.symbol, linkGroup ?? undefined);
+      }
+    }
+  });
+  const [bars, setBars] = useState<ChartBar[]>([]);
+  const [source, setSource] = useState<ChartDataSource | null>(null);
   const [currentQuote, setCurrentQuote] = useState<StoredQuote | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [overlays, setOverlays] = useState<Set<Overlay>>(() => new Set<Overlay>(['SMA']));
+  const [studies, setStudies] = useState<Study[]>([]);
+  const [view, setView] = useState<ChartView>({ offset: 0, visible: DEFAULT_VISIBLE_BARS });
+  const [hover, setHover] = useState<HoverPoint | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const subscribedInstrumentRef = useRef<number | null>(null);
+  const timeframeRef = useRef<ChartTimeframe>(timeframe);
+  const layoutRef = useRef<ChartLayout | null>(null);
+  const dragRef = useRef<{ startX: number; startOffset: number } | null>(null);
 
   const effectiveSymbol = isPinned ? currentSymbol : (currentSymbol || initialSymbol || null);
 
+  useEffect(() => {
+    timeframeRef.current = timeframe;
+  }, [timeframe]);
+
   useEffect(() => {
     if (initialSymbol && !currentSymbol) {
       pin(initialSymbol);
@@ -141,7 +534,7 @@ export default function ChartPanel({
   useEffect(() => {
     if (!effectiveSymbol) {
       setResolvedSymbol(null);
-      setTicks([]);
+      setBars([]);
       setCurrentQuote(null);
       setError(null);
       return;
@@ -157,11 +550,9 @@ export default function ChartPanel({
 
       if (resolved) {
         setResolvedSymbol(resolved);
-        const cachedTicks = loadCachedTicks(resolved.instrumentId);
-        setTicks(cachedTicks);
       } else {
         setResolvedSymbol(null);
-        setTicks([]);
+        setBars([]);
         setError(`Symbol not found: ${effectiveSymbol}`);
       }
     }).catch((err) => {
@@ -175,33 +566,46 @@ export default function ChartPanel({
     };
   }, [effectiveSymbol]);
 
+  // Historical candles; live ticks are stitched on top once loaded
+  useEffect(() => {
+    if (!resolvedSymbol) return;
+
+    let cancelled = false;
+    setBars([]);
+    setSource(null);
+    setHistoryError(null);
+    setIsHistoryLoading(true);
+    setView({ offset: 0, visible: DEFAULT_VISIBLE_BARS });
+    setHover(null);
+
+    chartDataService.loadHistory(resolvedSymbol.instrumentId, resolvedSymbol.symbol, timeframe).then((history) => {
+      if (cancelled) return;
+      const quote = quotesStore.getQuote(resolvedSymbol.instrumentId);
+      setBars(quote ? stitchTick(history.bars, quote.lastPrice, quote.receivedAt, timeframe) : history.bars);
+      setSource(history.source);
+      setIsHistoryLoading(false);
+    }).catch((err) => {
+      if (cancelled) return;
+      setHistoryError(err instanceof Error ? err.message : String(err));
+      setIsHistoryLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resolvedSymbol, timeframe, reloadKey]);
+
   const handleQuoteUpdate = useCallback((quote: StoredQuote) => {
     setCurrentQuote(quote);
-    const newPoint: PricePoint = {
-      timestamp: quote.receivedAt,
-      price: quote.lastPrice,
-    };
-    setTicks((prev) => {
-      const updated = [...prev, newPoint];
-      if (updated.length > MAX_TICKS) {
-        return updated.slice(-MAX_TICKS);
-      }
-      return updated;
-    });
+    setBars((prev) => stitchTick(prev, quote.lastPrice, quote.receivedAt, timeframeRef.current));
   }, []);
 
-  useEffect(() => {
-    if (resolvedSymbol && ticks.length > 0) {
-      saveCachedTicks(resolvedSymbol.instrumentId, ticks);
-    }
-  }, [resolvedSymbol, ticks]);
-
-  const handleClearCache = useCallback(() => {
+  const handleReload = useCallback(() => {
     if (resolvedSymbol) {
-      clearCachedTicks(resolvedSymbol.instrumentId);
-      setTicks([]);
+      chartDataService.invalidate(resolvedSymbol.instrumentId, timeframe);
+      setReloadKey((k) => k + 1);
     }
-  }, [resolvedSymbol]);
+  }, [resolvedSymbol, timeframe]);
 
   useEffect(() => {
     if (!resolvedSymbol) {
@@ -249,131 +653,131 @@ export default function ChartPanel({
     };
   }, [wsUnsubscribe]);
 
-  const aggregatedData = useMemo((): AggregatedCandle[] => {
-    if (ticks.length === 0) return [];
-
-    const intervalMs = TIMEFRAME_MS[timeframe];
-    const candles: Map<number, AggregatedCandle> = new Map();
-
-    for (const tick of ticks) {
-      const candleTime = Math.floor(tick.timestamp / intervalMs) * intervalMs;
-      const existing = candles.get(candleTime);
-
-      if (existing) {
-        existing.high = Math.max(existing.high, tick.price);
-        existing.low = Math.min(existing.low, tick.price);
-        existing.close = tick.price;
-      } else {
-        candles.set(candleTime, {
-          timestamp: candleTime,
-          open: tick.price,
-          high: tick.price,
-          low: tick.price,
-          close: tick.price,
-        });
-      }
+  // Indicators run over the full series so warm-up is done before the visible window
+  const series = useMemo((): IndicatorSeries => {
+    if (bars.length === 0) return {};
+    const result: IndicatorSeries = {};
+    if (overlays.has('SMA')) result.sma = computeIndicator('SMA', { period: SMA_PERIOD }, bars);
+    if (overlays.has('EMA')) result.ema = computeIndicator('EMA', { period: EMA_PERIOD }, bars);
+    if (overlays.has('BB')) {
+      result.bbUpper = computeIndicator('BB_UPPER', BB_PARAMS, bars);
+      result.bbMiddle = computeIndicator('BB_MIDDLE', BB_PARAMS, bars);
+      result.bbLower = computeIndicator('BB_LOWER', BB_PARAMS, bars);
     }
-
-    return Array.from(candles.values()).sort((a, b) => a.timestamp - b.timestamp);
-  }, [ticks, timeframe]);
+    if (overlays.has('VWAP')) result.vwap = sessionVwap(bars, timeframe);
+    if (studies.includes('RSI')) result.rsi = computeIndicator('RSI', { period: RSI_PERIOD }, bars);
+    if (studies.includes('MACD')) {
+      result.macd = computeIndicator('MACD', undefined, bars);
+      result.macdSignal = computeIndicator('MACD_SIGNAL', undefined, bars);
+      result.macdHistogram = computeIndicator('MACD_HISTOGRAM', undefined, bars);
+    }
+    return result;
+  }, [bars, overlays, studies, timeframe]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
     const container = containerRef.current;
-    if (!canvas || !container) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (!container) return;
 
     const resizeObserver = new ResizeObserver((entries) => {
       for (const entry of entries) {
         const { width, height } = entry.contentRect;
-        canvas.width = width;
-        canvas.height = height;
-        drawChart(ctx, width, height);
+        setSize({ width: Math.floor(width), height: Math.floor(height) });
       }
     });
 
     resizeObserver.observe(container);
 
     return () => resizeObserver.disconnect();
-  }, []);
+  }, [resolvedSymbol]);
 
-  const drawChart = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    ctx.clearRect(0, 0, width, height);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
 
-    ctx.fillStyle = '#0a0a0a';
-    ctx.fillRect(0, 0, width, height);
+    if (canvas.width !== size.width) canvas.width = size.width;
+    if (canvas.height !== size.height) canvas.height = size.height;
+    layoutRef.current = drawChart(ctx, size.width, size.height, bars, series, view, hover, timeframe, studies);
+  }, [bars, series, view, hover, timeframe, studies, size]);
 
-    ctx.strokeStyle = '#1a1a1a';
-    ctx.lineWidth = 1;
-    for (let i = 0; i <= 4; i++) {
-      const y = CHART_PADDING + ((height - 2 * CHART_PADDING) / 4) * i;
-      ctx.beginPath();
-      ctx.moveTo(CHART_PADDING, y);
-      ctx.lineTo(width - CHART_PADDING, y);
-      ctx.stroke();
-    }
+  // Wheel zoom needs a non-passive listener so the panel doesn't scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-    if (aggregatedData.length < 2) {
-      ctx.fillStyle = '#444';
-      ctx.font = '14px Courier New';
-      ctx.textAlign = 'center';
-      ctx.fillText('Waiting for data...', width / 2, height / 2);
-      return;
-    }
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView((prev) => clampView({
+        offset: prev.offset,
+        visible: e.deltaY > 0 ? prev.visible * ZOOM_STEP : prev.visible / ZOOM_STEP,
+      }, bars.length));
+    };
 
-    const prices = aggregatedData.map(c => c.close);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const priceRange = maxPrice - minPrice || 1;
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [bars.length, resolvedSymbol]);
 
-    const chartWidth = width - 2 * CHART_PADDING;
-    const chartHeight = height - 2 * CHART_PADDING;
+  const getCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
 
-    const scaleX = (index: number) => CHART_PADDING + (index / (aggregatedData.length - 1)) * chartWidth;
-    const scaleY = (price: number) => height - CHART_PADDING - ((price - minPrice) / priceRange) * chartHeight;
+  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    dragRef.current = { startX: getCanvasPoint(e).x, startOffset: view.offset };
+  }, [view.offset]);
 
-    ctx.strokeStyle = '#00ff00';
-    ctx.lineWidth = 1.5;
-    ctx.beginPath();
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const layout = layoutRef.current;
+    if (!layout) return;
+    const { x, y } = getCanvasPoint(e);
 
-    for (let i = 0; i < aggregatedData.length; i++) {
-      const x = scaleX(i);
-      const y = scaleY(aggregatedData[i].close);
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
+    const drag = dragRef.current;
+    if (drag) {
+      // Dragging right reveals older bars
+      const shift = (x - drag.startX) / layout.spacing;
+      setView((prev) => clampView({ offset: drag.startOffset + shift, visible: prev.visible }, bars.length));
     }
-    ctx.stroke();
 
-    const lastCandle = aggregatedData[aggregatedData.length - 1];
-    const lastX = scaleX(aggregatedData.length - 1);
-    const lastY = scaleY(lastCandle.close);
+    const index = layout.start + Math.floor((x - layout.plotLeft) / layout.spacing);
+    if (x < layout.plotLeft || index < layout.start || index >= layout.end || y > layout.plotBottom) {
+      setHover(null);
+      return;
+    }
+    setHover({ x, y, index });
+  }, [bars.length]);
 
-    ctx.fillStyle = '#00ff00';
-    ctx.beginPath();
-    ctx.arc(lastX, lastY, 4, 0, Math.PI * 2);
-    ctx.fill();
+  const handleMouseUp = useCallback(() => {
+    dragRef.current = null;
+  }, []);
 
-    ctx.fillStyle = '#888';
-    ctx.font = '10px Courier New';
-    ctx.textAlign = 'right';
-    ctx.fillText(formatPrice(maxPrice), width - 5, CHART_PADDING + 10);
-    ctx.fillText(formatPrice(minPrice), width - 5, height - CHART_PADDING);
-  }, [aggregatedData]);
+  const handleMouseLeave = useCallback(() => {
+    dragRef.current = null;
+    setHover(null);
+  }, []);
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const handleResetView = useCallback(() => {
+    setView({ offset: 0, visible: DEFAULT_VISIBLE_BARS });
+  }, []);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const toggleOverlay = (overlay: Overlay) => {
+    setOverlays((prev) => {
+      const next = new Set(prev);
+      if (next.has(overlay)) {
+        next.delete(overlay);
+      } else {
+        next.add(overlay);
+      }
+      return next;
+    });
+  };
 
-    drawChart(ctx, canvas.width, canvas.height);
-  }, [aggregatedData, drawChart]);
+  const toggleStudy = (study: Study) => {
+    setStudies((prev) => prev.includes(study)
+      ? prev.filter((s) => s !== study)
+      : STUDIES.filter((s) => s === study || prev.includes(s)));
+  };
 
   const renderNoSymbol = () => (
     <div className="chart-panel-no-symbol">
@@ -401,6 +805,61 @@ export default function ChartPanel({
     </div>
   );
 
+  const renderReadout = () => {
+    const index = hover ? hover.index : bars.length - 1;
+    const bar = bars[index];
+    if (!bar) return null;
+
+    const change = bar.close - bar.open;
+    const changePercent = bar.open !== 0 ? (change / bar.open) * 100 : 0;
+    const valueAt = (values: IndicatorValue[] | undefined) => {
+      const v = values?.[index];
+      return v === null || v === undefined ? '--' : formatPrice(v);
+    };
+
+    return (
+      <div className="chart-panel-readout">
+        <div className="chart-panel-readout-row">
+          <span className="chart-panel-readout-time">{formatBarTime(bar.timestamp, timeframe, false)}</span>
+          <span>O <b>{formatPrice(bar.open)}</b></span>
+          <span>H <b>{formatPrice(bar.high)}</b></span>
+          <span>L <b>{formatPrice(bar.low)}</b></span>
+          <span>C <b>{formatPrice(bar.close)}</b></span>
+          <span className={change >= 0 ? 'positive' : 'negative'}>
+            {formatChange(change, changePercent)}
+          </span>
+          {bar.volume > 0 && <span>V <b>{formatVolume(bar.volume)}</b></span>}
+        </div>
+        {(series.sma || series.ema || series.bbMiddle || series.vwap) && (
+          <div className="chart-panel-readout-row">
+            {series.sma && <span style={{ color: COLORS.sma }}>SMA{SMA_PERIOD} {valueAt(series.sma)}</span>}
+            {series.ema && <span style={{ color: COLORS.ema }}>EMA{EMA_PERIOD} {valueAt(series.ema)}</span>}
+            {series.bbMiddle && (
+              <span style={{ color: COLORS.bb }}>
+                BB {valueAt(series.bbUpper)} / {valueAt(series.bbMiddle)} / {valueAt(series.bbLower)}
+              </span>
+            )}
+            {series.vwap && <span style={{ color: COLORS.vwap }}>VWAP {valueAt(series.vwap)}</span>}
+          </div>
+        )}
+        {(series.rsi || series.macd) && (
+          <div className="chart-panel-readout-row">
+            {series.rsi && (
+              <span style={{ color: COLORS.rsi }}>
+                RSI{RSI_PERIOD} {series.rsi[index]?.toFixed(1) ?? '--'}
+              </span>
+            )}
+            {series.macd && (
+              <span style={{ color: COLORS.macd }}>
+                MACD {series.macd[index]?.toFixed(4) ?? '--'} / {series.macdSignal?.[index]?.toFixed(4) ?? '--'}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const changeClass = currentQuote
     ? (currentQuote.change ?? 0) > 0 ? 'positive' : (currentQuote.change ?? 0) < 0 ? 'negative' : 'neutral'
     : 'neutral';
@@ -408,6 +867,8 @@ export default function ChartPanel({
   const renderChart = () => {
     if (!resolvedSymbol) return renderNoSymbol();
 
+    const shown = Math.min(view.visible, bars.length);
+
     return (
       <div className="chart-panel">
         <div className="chart-panel-header">
@@ -421,7 +882,7 @@ export default function ChartPanel({
             </span>
           </div>
           <div className="chart-panel-controls">
-            {(['1m', '5m', '15m'] as Timeframe[]).map((tf) => (
+            {CHART_TIMEFRAMES.map((tf) => (
               <button
                 key={tf}
                 className={`chart-panel-tf-btn ${timeframe === tf ? 'active' : ''}`}
@@ -432,18 +893,62 @@ export default function ChartPanel({
             ))}
           </div>
         </div>
+        <div className="chart-panel-toolbar">
+          {OVERLAYS.map((overlay) => (
+            <button
+              key={overlay}
+              className={`chart-panel-ind-btn ${overlays.has(overlay) ? 'active' : ''}`}
+              onClick={() => toggleOverlay(overlay)}
+            >
+              {overlay}
+            </button>
+          ))}
+          <span className="chart-panel-toolbar-sep">|</span>
+          {STUDIES.map((study) => (
+            <button
+              key={study}
+              className={`chart-panel-ind-btn ${studies.includes(study) ? 'active' : ''}`}
+              onClick={() => toggleStudy(study)}
+            >
+              {study}
+            </button>
+          ))}
+        </div>
         <div className="chart-panel-canvas-container" ref={containerRef}>
-          <canvas ref={canvasRef} className="chart-panel-canvas" />
+          <canvas
+            ref={canvasRef}
+            className="chart-panel-canvas"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
+            onDoubleClick={handleResetView}
+          />
+          {renderReadout()}
+          {isHistoryLoading && (
+            <div className="chart-panel-overlay-msg">Loading {timeframe} history...</div>
+          )}
+          {historyError && !isHistoryLoading && (
+            <div className="chart-panel-overlay-msg chart-panel-overlay-msg--error">
+              {historyError}
+              {bars.length > 0 && <div className="chart-panel-overlay-sub">Showing live ticks only</div>}
+            </div>
+          )}
         </div>
         <div className="chart-panel-footer">
-          <span className="chart-panel-tick-count">{ticks.length} ticks</span>
-          <span className="chart-panel-candle-count">{aggregatedData.length} candles ({timeframe})</span>
+          <span className="chart-panel-candle-count">
+            {shown}/{bars.length} candles ({timeframe})
+          </span>
+          <span className="chart-panel-source">
+            {source ? `src: ${SOURCE_LABELS[source]}` : 'src: live'}
+          </span>
+          <span className="chart-panel-hint">wheel: zoom · drag: pan · dbl-click: reset</span>
           <button
             className="chart-panel-clear-btn"
-            onClick={handleClearCache}
-            title="Clear cached chart data"
+            onClick={handleReload}
+            title="Reload chart history"
           >
-            [CLR]
+            [RLD]
           </button>
         </div>
       </div>
@@ -0,0 +1,330 @@
+/**
+ * Closed Trades Panel
+ * Closed positions and realized P&L from the trading history endpoints,
+ * filterable by instrument and date, with period totals and a realized
+ * equity curve. Clicking a trade sets the active symbol for linked charts.
+ * Commands: HIST, HISTORY, CLOSED, REALIZED
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import { useActiveSymbol } from '../Workspace/ActiveSymbolContext';
+import { useTradingMode } from '../../contexts/TradingModeContext';
+import { getHistoryAdapter } from '../../api/adapters/historyAdapter';
+import type { ClosedTrade } from '../../api/contracts/etoro-api.types';
+import { symbolResolver } from '../../services/symbolResolver';
+import { demoDataService, isDemoMode as isGlobalDemoMode } from '../../services/demoDataService';
+import './ClosedTradesPanel.css';
+
+export type HistoryPeriod = 'day' | 'week' | 'month';
+
+export interface PeriodTotal {
+  /** Start of the period as YYYY-MM-DD */
+  period: string;
+  trades: number;
+  wins: number;
+  fees: number;
+  netProfit: number;
+}
+
+const PERIODS: HistoryPeriod[] = ['day', 'week', 'month'];
+
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function defaultFromDate(): string {
+  const date = new Date();
+  date.setDate(date.getDate() - 90);
+  return toDateInput(date);
+}
+
+/** Local start of the period a close falls in; weeks start on Monday */
+export function periodStart(closedAt: string, period: HistoryPeriod): string {
+  const date = new Date(closedAt);
+  if (period === 'week') {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  } else if (period === 'month') {
+    date.setDate(1);
+  }
+  return toDateInput(date);
+}
+
+/** Realized totals per period, newest first */
+export function totalsByPeriod(trades: ClosedTrade[], period: HistoryPeriod): PeriodTotal[] {
+  const totals = new Map<string, PeriodTotal>();
+  for (const trade of trades) {
+    const key = periodStart(trade.closeDateTime, period);
+    const total = totals.get(key) ?? { period: key, trades: 0, wins: 0, fees: 0, netProfit: 0 };
+    total.trades += 1;
+    total.wins += trade.netProfit > 0 ? 1 : 0;
+    total.fees += trade.fees;
+    total.netProfit += trade.netProfit;
+    totals.set(key, total);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.period.localeCompare(a.period));
+}
+
+function formatDuration(openedAt: string, closedAt: string): string {
+  const ms = new Date(closedAt).getTime() - new Date(openedAt).getTime();
+  if (!Number.isFinite(ms) || ms < 0) return '—';
+  const hours = ms / 3_600_000;
+  if (hours < 1) return `${Math.max(1, Math.round(ms / 60_000))}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function formatMoney(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function formatRate(rate: number): string {
+  return rate >= 100 ? rate.toFixed(2) : rate.toFixed(4);
+}
+
+export default function ClosedTradesPanel(_props: PanelContentProps) {
+  const { mode, isDemoMode } = useTradingMode();
+  const { setActiveSymbol } = useActiveSymbol();
+
+  const [trades, setTrades] = useState<ClosedTrade[]>([]);
+  const [symbols, setSymbols] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [fromDate, setFromDate] = useState(defaultFromDate);
+  const [toDate, setToDate] = useState('');
+  const [instrument, setInstrument] = useState('');
+  const [period, setPeriod] = useState<HistoryPeriod>('week');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  // The endpoint filters by start date; the end date and instrument are filtered here
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    const load = isGlobalDemoMode()
+      ? Promise.resolve(demoDataService.getDemoTradeHistory())
+      : getHistoryAdapter(isDemoMode()).getClosedTrades({ minDate: fromDate || undefined });
+
+    load.then((result) => {
+      if (cancelled) return;
+      setTrades(result);
+      setIsLoading(false);
+    }).catch((err) => {
+      if (cancelled) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setTrades([]);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, isDemoMode, fromDate, reloadKey]);
+
+  // History rows usually carry only the instrument ID
+  useEffect(() => {
+    const missing = Array.from(new Set(
+      trades.filter(t => !t.symbol && !(t.instrumentId in symbols)).map(t => t.instrumentId)
+    ));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(missing.map(id => symbolResolver.getInstrumentById(id).catch(() => null))).then((resolved) => {
+      if (cancelled) return;
+      const next: Record<number, string> = {};
+      missing.forEach((id, i) => {
+        next[id] = resolved[i]?.symbol ?? `#${id}`;
+      });
+      setSymbols(prev => ({ ...prev, ...next }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trades, symbols]);
+
+  const symbolOf = useCallback(
+    (trade: ClosedTrade) => trade.symbol || symbols[trade.instrumentId] || `#${trade.instrumentId}`,
+    [symbols]
+  );
+
+  const instruments = useMemo(
+    () => Array.from(new Set(trades.map(symbolOf))).sort(),
+    [trades, symbolOf]
+  );
+
+  const filtered = useMemo(() => {
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+    return trades.filter((trade) => {
+      const closedAt = new Date(trade.closeDateTime).getTime();
+      return closedAt >= from && closedAt <= to && (!instrument || symbolOf(trade) === instrument);
+    });
+  }, [trades, fromDate, toDate, instrument, symbolOf]);
+
+  const summary = useMemo(() => ({
+    netProfit: filtered.reduce((sum, t) => sum + t.netProfit, 0),
+    fees: filtered.reduce((sum, t) => sum + t.fees, 0),
+    wins: filtered.filter(t => t.netProfit > 0).length,
+  }), [filtered]);
+
+  const periodTotals = useMemo(() => totalsByPeriod(filtered, period), [filtered, period]);
+
+  const handleSelect = (trade: ClosedTrade) => {
+    setSelectedId(trade.positionId);
+    setActiveSymbol(symbolOf(trade));
+  };
+
+  const renderEquityCurve = () => {
+    if (filtered.length < 2) return null;
+
+    // Oldest close first, starting from zero realized P&L
+    const values = [0];
+    for (const trade of [...filtered].reverse()) {
+      values.push(values[values.length - 1] + trade.netProfit);
+    }
+
+    const width = 600;
+    const height = 100;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+    const x = (i: number) => (i / (values.length - 1)) * width;
+    const y = (v: number) => height - ((v - min) / range) * height;
+    const points = values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+
+    return (
+      <svg className="hist-panel__equity" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        <line x1={0} x2={width} y1={y(0)} y2={y(0)} className="hist-panel__equity-baseline" />
+        <polyline
+          points={points}
+          className={`hist-panel__equity-line ${values[values.length - 1] >= 0 ? 'positive' : 'negative'}`}
+        />
+      </svg>
+    );
+  };
+
+  return (
+    <div className="hist-panel">
+      <div className="hist-panel__filters">
+        <label>
+          From
+          <input type="date" value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} />
+        </label>
+        <label>
+          Instrument
+          <select value={instrument} onChange={e => setInstrument(e.target.value)}>
+            <option value="">All</option>
+            {instruments.map(sym => <option key={sym} value={sym}>{sym}</option>)}
+          </select>
+        </label>
+        <button className="hist-panel__btn" onClick={() => setReloadKey(k => k + 1)} disabled={isLoading}>
+          {isLoading ? '...' : '↻'}
+        </button>
+      </div>
+
+      {error && <div className="hist-panel__error">{error}</div>}
+
+      <div className="hist-panel__summary">
+        <span>{filtered.length} trades</span>
+        <span>Win {filtered.length ? ((summary.wins / filtered.length) * 100).toFixed(0) : 0}%</span>
+        <span>Fees {summary.fees.toFixed(2)}</span>
+        <span className={summary.netProfit >= 0 ? 'positive' : 'negative'}>
+          Realized {formatMoney(summary.netProfit)}
+        </span>
+      </div>
+
+      {renderEquityCurve()}
+
+      <div className="hist-panel__section">
+        <div className="hist-panel__section-header">
+          <span>Totals by</span>
+          {PERIODS.map(p => (
+            <button
+              key={p}
+              className={`hist-panel__btn ${period === p ? 'active' : ''}`}
+              onClick={() => setPeriod(p)}
+            >
+              {p.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <table className="hist-panel__table">
+          <thead>
+            <tr>
+              <th>{period === 'day' ? 'Day' : period === 'week' ? 'Week of' : 'Month'}</th>
+              <th>Trades</th>
+              <th>Win %</th>
+              <th>Fees</th>
+              <th>Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {periodTotals.map(total => (
+              <tr key={total.period}>
+                <td>{period === 'month' ? total.period.slice(0, 7) : total.period}</td>
+                <td>{total.trades}</td>
+                <td>{((total.wins / total.trades) * 100).toFixed(0)}%</td>
+                <td>{total.fees.toFixed(2)}</td>
+                <td className={total.netProfit >= 0 ? 'positive' : 'negative'}>{formatMoney(total.netProfit)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="hist-panel__section">
+        <table className="hist-panel__table hist-panel__trades">
+          <thead>
+            <tr>
+              <th>Closed</th>
+              <th>Symbol</th>
+              <th>Side</th>
+              <th>Amount</th>
+              <th>Open</th>
+              <th>Close</th>
+              <th>Held</th>
+              <th>Fees</th>
+              <th>Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.length === 0 && !isLoading ? (
+              <tr>
+                <td colSpan={9} className="hist-panel__empty">No closed trades in this range</td>
+              </tr>
+            ) : (
+              filtered.map(trade => (
+                <tr
+                  key={trade.positionId}
+                  className={selectedId === trade.positionId ? 'selected' : ''}
+                  onClick={() => handleSelect(trade)}
+                  title="Show on linked charts"
+                >
+                  <td>{new Date(trade.closeDateTime).toLocaleDateString()}</td>
+                  <td className="hist-panel__symbol">{symbolOf(trade)}</td>
+                  <td className={trade.isBuy ? 'positive' : 'negative'}>{trade.isBuy ? 'BUY' : 'SELL'}</td>
+                  <td>{trade.amount.toFixed(2)}{trade.leverage > 1 && ` x${trade.leverage}`}</td>
+                  <td>{formatRate(trade.openRate)}</td>
+                  <td>{formatRate(trade.closeRate)}</td>
+                  <td>{formatDuration(trade.openDateTime, trade.closeDateTime)}</td>
+                  <td>{trade.fees.toFixed(2)}</td>
+                  <td className={trade.netProfit >= 0 ? 'positive' : 'negative'}>{formatMoney(trade.netProfit)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -38,9 +38,10 @@ export default function ConnectionStatusPanel(_props: PanelContentProps) {
   const [results, setResults] = useState<ApiTestResult[]>([]);
   const [testing, setTesting] = useState(false);
   const [keysConfigured, setKeysConfigured] = useState(false);
-  const [wsState, setWsState] = useState<{connectionState: ConnectionState; authState: AuthState}>({
+  const [wsState, setWsState] = useState<{connectionState: ConnectionState; authState: AuthState; privateStreamActive: boolean}>({
     connectionState: 'disconnected',
     authState: 'unauthenticated',
+    privateStreamActive: false,
   });
 
   useEffect(() => {
@@ -186,6 +187,12 @@ export default function ConnectionStatusPanel(_props: PanelContentProps) {
                 {wsState.authState.toUpperCase()}
               </span>
             </div>
+            <div className="ws-status-row">
+              <span className="ws-label">Positions/Orders:</span>
+              <span className={`ws-value ${wsState.privateStreamActive ? 'ws-connected' : 'ws-disconnected'}`}>
+                {wsState.privateStreamActive ? 'LIVE' : 'POLLING'}
+              </span>
+            </div>
             <div className="ws-status-note">
               Note: WebSocket is optional. REST polling is used as fallback.
             </div>
@@ -4,40 +4,60 @@
  * Commands: CORR, MATRIX, DIVERSIFY
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import { symbolResolver } from '../../services/symbolResolver';
+import {
+  correlationService,
+  CORRELATION_LOOKBACKS,
+  type CorrelationLookback,
+  type CorrelationMatrix,
+  type CorrelationMethod,
+} from '../../services/correlationService';
 import './CorrelationMatrixPanel.css';
 
-// Simulated correlation data (in production, would calculate from historical prices)
-const DEMO_CORRELATIONS: Record<string, Record<string, number>> = {
-  'AAPL': { 'AAPL': 1.00, 'MSFT': 0.85, 'GOOGL': 0.78, 'TSLA': 0.45, 'NVDA': 0.72, 'BTC': 0.35, 'GLD': -0.15, 'SPY': 0.92 },
-  'MSFT': { 'AAPL': 0.85, 'MSFT': 1.00, 'GOOGL': 0.82, 'TSLA': 0.40, 'NVDA': 0.75, 'BTC': 0.30, 'GLD': -0.12, 'SPY': 0.90 },
-  'GOOGL': { 'AAPL': 0.78, 'MSFT': 0.82, 'GOOGL': 1.00, 'TSLA': 0.38, 'NVDA': 0.70, 'BTC': 0.32, 'GLD': -0.10, 'SPY': 0.88 },
-  'TSLA': { 'AAPL': 0.45, 'MSFT': 0.40, 'GOOGL': 0.38, 'TSLA': 1.00, 'NVDA': 0.55, 'BTC': 0.52, 'GLD': -0.05, 'SPY': 0.65 },
-  'NVDA': { 'AAPL': 0.72, 'MSFT': 0.75, 'GOOGL': 0.70, 'TSLA': 0.55, 'NVDA': 1.00, 'BTC': 0.42, 'GLD': -0.08, 'SPY': 0.82 },
-  'BTC': { 'AAPL': 0.35, 'MSFT': 0.30, 'GOOGL': 0.32, 'TSLA': 0.52, 'NVDA': 0.42, 'BTC': 1.00, 'GLD': 0.15, 'SPY': 0.45 },
-  'GLD': { 'AAPL': -0.15, 'MSFT': -0.12, 'GOOGL': -0.10, 'TSLA': -0.05, 'NVDA': -0.08, 'BTC': 0.15, 'GLD': 1.00, 'SPY': -0.20 },
-  'SPY': { 'AAPL': 0.92, 'MSFT': 0.90, 'GOOGL': 0.88, 'TSLA': 0.65, 'NVDA': 0.82, 'BTC': 0.45, 'GLD': -0.20, 'SPY': 1.00 },
-};
-
 const DEFAULT_SYMBOLS = ['AAPL', 'MSFT', 'GOOGL', 'TSLA', 'NVDA', 'BTC', 'GLD', 'SPY'];
 
 export default function CorrelationMatrixPanel(_props: PanelContentProps) {
   const [symbols, setSymbols] = useState<string[]>(DEFAULT_SYMBOLS);
   const [inputSymbol, setInputSymbol] = useState('');
   const [showEducation, setShowEducation] = useState(false);
+  const [lookback, setLookback] = useState<CorrelationLookback>(90);
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [matrix, setMatrix] = useState<CorrelationMatrix | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    correlationService.computeMatrix(symbols, lookback, method).then((result) => {
+      if (cancelled) return;
+      setMatrix(result);
+      setIsLoading(false);
+    }).catch((err) => {
+      if (cancelled) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbols, lookback, method, reloadKey]);
 
   const correlations = useMemo(() => {
-    // Return correlations for selected symbols
-    const matrix: Record<string, Record<string, number>> = {};
+    const values: Record<string, Record<string, number | null>> = {};
     symbols.forEach(s1 => {
-      matrix[s1] = {};
+      values[s1] = {};
       symbols.forEach(s2 => {
-        matrix[s1][s2] = DEMO_CORRELATIONS[s1]?.[s2] ?? 0;
+        values[s1][s2] = matrix?.values[s1]?.[s2] ?? null;
       });
     });
-    return matrix;
-  }, [symbols]);
+    return values;
+  }, [symbols, matrix]);
 
   const getCorrelationColor = (corr: number): string => {
     if (corr >= 0.7) return '#00aa00'; // Strong positive - green
@@ -57,12 +77,42 @@ export default function CorrelationMatrixPanel(_props: PanelContentProps) {
     return 'transparent';
   };
 
-  const handleAddSymbol = () => {
-    const sym = inputSymbol.trim().toUpperCase();
-    if (sym && !symbols.includes(sym) && DEMO_CORRELATIONS[sym]) {
-      setSymbols([...symbols, sym]);
-      setInputSymbol('');
+  const handleAddSymbol = async () => {
+    const query = inputSymbol.trim().toUpperCase();
+    if (!query) return;
+
+    setError(null);
+    const resolved = await symbolResolver.resolveSymbol(query);
+    if (!resolved) {
+      setError(`Symbol not found: ${query}`);
+      return;
     }
+    if (!symbols.includes(resolved.symbol)) {
+      setSymbols([...symbols, resolved.symbol]);
+    }
+    setInputSymbol('');
+  };
+
+  const handleLoadPortfolio = async () => {
+    setError(null);
+    try {
+      const held = await correlationService.getPortfolioSymbols();
+      if (held.length < 2) {
+        setError(held.length === 0
+          ? 'No open positions - refresh the portfolio first'
+          : 'Need at least 2 holdings to compare');
+        return;
+      }
+      setSymbols(held);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRefresh = () => {
+    correlationService.clearCache();
+    setError(null);
+    setReloadKey(k => k + 1);
   };
 
   const handleRemoveSymbol = (sym: string) => {
@@ -77,13 +127,15 @@ export default function CorrelationMatrixPanel(_props: PanelContentProps) {
     let count = 0;
     symbols.forEach((s1, i) => {
       symbols.forEach((s2, j) => {
-        if (i < j) { // Only upper triangle, exclude diagonal
-          totalCorr += Math.abs(correlations[s1]?.[s2] || 0);
+        const corr = correlations[s1]?.[s2];
+        if (i < j && corr !== null && corr !== undefined) { // Only upper triangle, exclude diagonal
+          totalCorr += Math.abs(corr);
           count++;
         }
       });
     });
-    const avgCorr = count > 0 ? totalCorr / count : 0;
+    if (count === 0) return null;
+    const avgCorr = totalCorr / count;
     // Lower average correlation = better diversification
     return Math.max(0, Math.min(100, (1 - avgCorr) * 100));
   }, [symbols, correlations]);
@@ -95,18 +147,56 @@ export default function CorrelationMatrixPanel(_props: PanelContentProps) {
         <p className="cm-subtitle">Understand how your assets move together</p>
       </div>
 
+      {/* Settings */}
+      <div className="cm-controls">
+        <div className="cm-toggle-group">
+          {CORRELATION_LOOKBACKS.map(days => (
+            <button
+              key={days}
+              className={`cm-toggle ${lookback === days ? 'active' : ''}`}
+              onClick={() => setLookback(days)}
+            >
+              {days}D
+            </button>
+          ))}
+        </div>
+        <div className="cm-toggle-group">
+          {(['pearson', 'spearman'] as CorrelationMethod[]).map(m => (
+            <button
+              key={m}
+              className={`cm-toggle ${method === m ? 'active' : ''}`}
+              onClick={() => setMethod(m)}
+              title={m === 'pearson' ? 'Linear correlation of daily returns' : 'Rank correlation - robust to outliers'}
+            >
+              {m === 'pearson' ? 'Pearson' : 'Spearman'}
+            </button>
+          ))}
+        </div>
+        <button className="cm-toggle" onClick={handleLoadPortfolio}>
+          💼 Load My Portfolio
+        </button>
+        <button className="cm-toggle" onClick={handleRefresh} disabled={isLoading}>
+          ↻
+        </button>
+      </div>
+
+      {error && <div className="cm-error">{error}</div>}
+
       {/* Diversification Score */}
       <div className="cm-score-section">
         <div className="cm-score">
           <span className="cm-score-value" style={{
-            color: diversificationScore >= 60 ? '#00ff00' : diversificationScore >= 40 ? '#ffcc00' : '#ff6666'
+            color: diversificationScore === null ? '#888888'
+              : diversificationScore >= 60 ? '#00ff00' : diversificationScore >= 40 ? '#ffcc00' : '#ff6666'
           }}>
-            {diversificationScore.toFixed(0)}%
+            {diversificationScore === null ? '--' : `${diversificationScore.toFixed(0)}%`}
           </span>
           <span className="cm-score-label">Diversification Score</span>
         </div>
         <div className="cm-score-hint">
-          {diversificationScore >= 60 
+          {diversificationScore === null
+            ? (isLoading ? 'Loading price history...' : 'Not enough overlapping history to score')
+            : diversificationScore >= 60 
             ? '✅ Good diversification - assets have low correlation'
             : diversificationScore >= 40
             ? '⚠️ Moderate diversification - consider adding uncorrelated assets'
@@ -119,7 +209,11 @@ export default function CorrelationMatrixPanel(_props: PanelContentProps) {
         <label className="cm-label">Symbols ({symbols.length})</label>
         <div className="cm-symbol-tags">
           {symbols.map(sym => (
-            <span key={sym} className="cm-symbol-tag">
+            <span
+              key={sym}
+              className={`cm-symbol-tag ${matrix?.errors[sym] ? 'cm-symbol-tag--error' : ''}`}
+              title={matrix?.errors[sym]}
+            >
               {sym}
               <button onClick={() => handleRemoveSymbol(sym)}>×</button>
             </span>
@@ -135,7 +229,11 @@ export default function CorrelationMatrixPanel(_props: PanelContentProps) {
           />
           <button onClick={handleAddSymbol}>+</button>
         </div>
-        <span className="cm-hint">Available: AAPL, MSFT, GOOGL, TSLA, NVDA, BTC, GLD, SPY</span>
+        <span className="cm-hint">
+          {isLoading
+            ? 'Computing...'
+            : `${method === 'pearson' ? 'Pearson' : 'Spearman'} correlation of daily returns, last ${lookback} trading days`}
+        </span>
       </div>
 
       {/* Correlation Matrix */}
@@ -154,18 +252,21 @@ export default function CorrelationMatrixPanel(_props: PanelContentProps) {
               <tr key={s1}>
                 <td className="cm-row-header">{s1}</td>
                 {symbols.map(s2 => {
-                  const corr = correlations[s1]?.[s2] ?? 0;
+                  const corr = correlations[s1]?.[s2] ?? null;
+                  const observations = matrix?.observations[s1]?.[s2] ?? 0;
                   return (
                     <td 
                       key={s2}
                       className="cm-cell"
                       style={{
-                        backgroundColor: getCorrelationBg(corr),
-                        color: getCorrelationColor(corr),
+                        backgroundColor: corr === null ? 'transparent' : getCorrelationBg(corr),
+                        color: corr === null ? '#555555' : getCorrelationColor(corr),
                       }}
-                      title={`${s1} vs ${s2}: ${corr.toFixed(2)}`}
+                      title={corr === null
+                        ? `${s1} vs ${s2}: insufficient data (${observations} returns)`
+                        : `${s1} vs ${s2}: ${corr.toFixed(2)} (${observations} returns)`}
                     >
-                      {s1 === s2 ? '—' : corr.toFixed(2)}
+                      {s1 === s2 ? '—' : corr === null ? 'n/a' : corr.toFixed(2)}
                     </td>
                   );
                 })}
@@ -1,6 +1,7 @@
 /**
  * Data Export Panel
- * Export portfolio, watchlists, orders, and historical data as JSON/CSV
+ * Export portfolio, watchlists, orders, and historical data as JSON/CSV,
+ * and the realized gains (tax lot) report as CSV or printable HTML
  * Commands: EXPORT, DATA
  */
 
@@ -9,11 +10,20 @@ import { portfolioStore } from '../../stores/portfolioStore';
 import { ordersStore } from '../../stores/ordersStore';
 import { getWatchlistsAdapter } from '../../api/adapters/watchlistsAdapter';
 import { isDemoMode, getDemoPortfolio, getDemoWatchlist, getDemoOrders, getDemoAlerts } from '../../services/demoDataService';
+import { downloadCSV, downloadHTML } from '../../services/exportService';
+import {
+  taxLotService,
+  LOT_METHODS,
+  reportToCSV,
+  reportToHTML,
+  type LotMethod,
+  type RealizedGainsReport,
+} from '../../services/taxLotService';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
 import './DataExportPanel.css';
 
-type ExportFormat = 'json' | 'csv';
-type DataType = 'portfolio' | 'watchlist' | 'orders' | 'alerts' | 'all';
+type ExportFormat = 'json' | 'csv' | 'html';
+type DataType = 'portfolio' | 'watchlist' | 'orders' | 'alerts' | 'all' | 'gains';
 
 interface ExportLog {
   timestamp: string;
@@ -28,6 +38,9 @@ export default function DataExportPanel(_props: PanelContentProps) {
   const [exporting, setExporting] = useState(false);
   const [logs, setLogs] = useState<ExportLog[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [lotMethod, setLotMethod] = useState<LotMethod>('fifo');
+  const [includeDemo, setIncludeDemo] = useState(false);
+  const [gainsReport, setGainsReport] = useState<RealizedGainsReport | null>(null);
 
   const toCSV = useCallback((data: Record<string, unknown>[], columns?: string[]): string => {
     if (data.length === 0) return '';
@@ -288,6 +301,30 @@ export default function DataExportPanel(_props: PanelContentProps) {
     }
   }, [downloadFile, addLog]);
 
+  const exportGains = useCallback(async (gainsFormat: 'csv' | 'html') => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const report = await taxLotService.getRealizedGains({ method: lotMethod, includeDemo });
+      setGainsReport(report);
+
+      const timestamp = new Date().toISOString().split('T')[0];
+      const filename = `realized-gains-${lotMethod}-${timestamp}.${gainsFormat}`;
+      if (gainsFormat === 'csv') {
+        downloadCSV(reportToCSV(report), filename);
+      } else {
+        downloadHTML(reportToHTML(report), filename);
+      }
+
+      addLog('gains', gainsFormat, report.lots.length, filename);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  }, [lotMethod, includeDemo, addLog]);
+
   return (
     <div className="data-export-panel">
       <div className="de-header">
@@ -368,6 +405,60 @@ export default function DataExportPanel(_props: PanelContentProps) {
         </button>
       </div>
 
+      {/* Realized Gains */}
+      <div className="de-section">
+        <label className="de-label">Realized Gains (Tax Lots)</label>
+        <div className="de-format-buttons">
+          {LOT_METHODS.map(m => (
+            <button
+              key={m.id}
+              className={`de-format-btn ${lotMethod === m.id ? 'active' : ''}`}
+              onClick={() => setLotMethod(m.id)}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <label className="de-checkbox">
+          <input type="checkbox" checked={includeDemo} onChange={e => setIncludeDemo(e.target.checked)} />
+          Include demo account trades
+        </label>
+        <div className="de-format-buttons">
+          <button className="de-format-btn" onClick={() => exportGains('csv')} disabled={exporting}>
+            ⬇ CSV
+          </button>
+          <button className="de-format-btn" onClick={() => exportGains('html')} disabled={exporting}>
+            🖨 Printable HTML
+          </button>
+        </div>
+        {gainsReport && (
+          <table className="de-gains-table">
+            <thead>
+              <tr>
+                <th>Tax Year</th>
+                <th>Short-term</th>
+                <th>Long-term</th>
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gainsReport.years.length === 0 ? (
+                <tr><td colSpan={4}>No realized gains</td></tr>
+              ) : (
+                gainsReport.years.map(year => (
+                  <tr key={year.taxYear}>
+                    <td>{year.taxYear}</td>
+                    <td>{year.shortTermGain.toFixed(2)}</td>
+                    <td>{year.longTermGain.toFixed(2)}</td>
+                    <td className={year.totalGain >= 0 ? 'positive' : 'negative'}>{year.totalGain.toFixed(2)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
       {error && (
         <div className="de-error">
           ❌ {error}
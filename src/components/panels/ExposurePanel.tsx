@@ -0,0 +1,256 @@
+/**
+ * Exposure Panel
+ * Aggregate view of open positions: leveraged gross/net exposure by asset
+ * class, exchange, industry and direction, top contributors to today's P&L
+ * and concentration warnings. Updates live from the portfolio and quotes.
+ * Commands: EXPO, EXPOSURE, ATTRIB, ALLOC
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import type { Position } from '../../api/contracts/etoro-api.types';
+import { portfolioStore, type PortfolioState } from '../../stores/portfolioStore';
+import { quotesStore } from '../../stores/quotesStore';
+import { quotesPollingService } from '../../services/quotesPollingService';
+import { preTradeCheckEngine } from '../../services/preTradeChecks';
+import {
+  EXPOSURE_DIMENSIONS,
+  exposureTotals,
+  exposureBy,
+  topContributors,
+  concentrationWarnings,
+  positionDailyPnL,
+  loadInstrumentMeta,
+  type ExposureDimension,
+  type InstrumentMeta,
+} from '../../services/exposureAnalytics';
+import './ExposurePanel.css';
+
+function formatMoney(value: number): string {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${formatMoney(value)}`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}%`;
+}
+
+export default function ExposurePanel(_props: PanelContentProps) {
+  const [state, setState] = useState<PortfolioState>(portfolioStore.getState());
+  const [meta, setMeta] = useState<Map<number, InstrumentMeta>>(new Map());
+  const [quoteTick, setQuoteTick] = useState(0);
+  const [dimension, setDimension] = useState<ExposureDimension>('assetClass');
+  const [maxPercent, setMaxPercent] = useState(() => preTradeCheckEngine.getLimits().maxConcentrationPercent);
+
+  useEffect(() => {
+    return portfolioStore.subscribe(setState);
+  }, []);
+
+  const positions: Position[] = useMemo(() => state.portfolio?.positions ?? [], [state.portfolio]);
+  const equity = state.portfolio?.equity ?? null;
+
+  // Stable key so quote subscriptions only change when the set of instruments does
+  const instrumentKey = useMemo(
+    () => Array.from(new Set(positions.map(p => p.instrumentId))).sort((a, b) => a - b).join(','),
+    [positions]
+  );
+
+  useEffect(() => {
+    const ids = instrumentKey ? instrumentKey.split(',').map(Number) : [];
+    const unsubscribes = ids.map(id => {
+      quotesPollingService.subscribe(id);
+      return quotesStore.subscribe(id, () => setQuoteTick(t => t + 1));
+    });
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      ids.forEach(id => quotesPollingService.unsubscribe(id));
+    };
+  }, [instrumentKey]);
+
+  useEffect(() => {
+    const ids = instrumentKey ? instrumentKey.split(',').map(Number) : [];
+    const missing = ids.filter(id => !meta.has(id));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    loadInstrumentMeta(missing).then((loaded) => {
+      if (cancelled) return;
+      setMeta(prev => new Map([...prev, ...loaded]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [instrumentKey, meta]);
+
+  const totals = useMemo(() => exposureTotals(positions, equity), [positions, equity]);
+  const rows = useMemo(() => exposureBy(positions, meta, dimension, equity), [positions, meta, dimension, equity]);
+  const warnings = useMemo(
+    () => concentrationWarnings(positions, meta, equity, maxPercent),
+    [positions, meta, equity, maxPercent]
+  );
+
+  // quoteTick re-reads the quotes store whenever a position's quote updates
+  const { contributors, dailyPnl } = useMemo(() => {
+    const quotes = quotesStore.getAllQuotes();
+    return {
+      contributors: topContributors(positions, quotes, meta),
+      dailyPnl: positions.reduce((sum, p) => sum + (positionDailyPnL(p, quotes.get(p.instrumentId)) ?? 0), 0),
+    };
+  }, [positions, meta, quoteTick]);
+
+  const maxRowGross = rows.reduce((max, row) => Math.max(max, row.gross), 0);
+
+  const handleMaxPercentChange = (value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) return;
+    setMaxPercent(parsed);
+    preTradeCheckEngine.setLimits({ maxConcentrationPercent: parsed });
+  };
+
+  if (state.loading && !state.portfolio) {
+    return <div className="expo-panel expo-panel__empty">Loading portfolio...</div>;
+  }
+
+  if (positions.length === 0) {
+    return <div className="expo-panel expo-panel__empty">{state.error || 'No open positions'}</div>;
+  }
+
+  return (
+    <div className="expo-panel">
+      <div className="expo-panel__summary">
+        <div className="expo-panel__stat">
+          <span className="expo-panel__stat-label">Equity</span>
+          <span>{equity !== null ? formatMoney(equity) : '—'}</span>
+        </div>
+        <div className="expo-panel__stat">
+          <span className="expo-panel__stat-label">Gross</span>
+          <span>{formatMoney(totals.gross)}</span>
+          <span className="expo-panel__stat-sub">{formatPercent(totals.grossPercent)}</span>
+        </div>
+        <div className="expo-panel__stat">
+          <span className="expo-panel__stat-label">Net</span>
+          <span className={totals.net >= 0 ? 'positive' : 'negative'}>{formatSigned(totals.net)}</span>
+        </div>
+        <div className="expo-panel__stat">
+          <span className="expo-panel__stat-label">Long / Short</span>
+          <span>
+            <span className="positive">{formatMoney(totals.long)}</span>
+            {' / '}
+            <span className="negative">{formatMoney(totals.short)}</span>
+          </span>
+        </div>
+        <div className="expo-panel__stat">
+          <span className="expo-panel__stat-label">Today</span>
+          <span className={dailyPnl >= 0 ? 'positive' : 'negative'}>{formatSigned(dailyPnl)}</span>
+        </div>
+      </div>
+
+      <div className="expo-panel__section">
+        <div className="expo-panel__section-header">
+          <span>Concentration over</span>
+          <input
+            type="number"
+            className="expo-panel__threshold"
+            min={1}
+            step={1}
+            value={maxPercent}
+            onChange={e => handleMaxPercentChange(e.target.value)}
+            title="Also used by the pre-trade concentration check"
+          />
+          <span>% of equity</span>
+        </div>
+        {warnings.length === 0 ? (
+          <div className="expo-panel__ok">No instrument above {maxPercent}% of equity</div>
+        ) : (
+          warnings.map(w => (
+            <div key={w.instrumentId} className="expo-panel__warning">
+              ⚠ {w.symbol}: {formatMoney(w.exposure)} exposure is {w.percent.toFixed(1)}% of equity
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="expo-panel__section">
+        <div className="expo-panel__section-header">
+          <span>Exposure by</span>
+          {EXPOSURE_DIMENSIONS.map(d => (
+            <button
+              key={d.id}
+              className={`expo-panel__btn ${dimension === d.id ? 'active' : ''}`}
+              onClick={() => setDimension(d.id)}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+        <table className="expo-panel__table">
+          <thead>
+            <tr>
+              <th>Group</th>
+              <th>Pos</th>
+              <th>Long</th>
+              <th>Short</th>
+              <th>Net</th>
+              <th>Gross</th>
+              <th>% Equity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key}>
+                <td>
+                  <div className="expo-panel__group">{row.key}</div>
+                  <div className="expo-panel__bar">
+                    <div
+                      className="expo-panel__bar-fill"
+                      style={{ width: `${maxRowGross > 0 ? (row.gross / maxRowGross) * 100 : 0}%` }}
+                    />
+                  </div>
+                </td>
+                <td>{row.positions}</td>
+                <td>{formatMoney(row.long)}</td>
+                <td>{formatMoney(row.short)}</td>
+                <td className={row.net >= 0 ? 'positive' : 'negative'}>{formatSigned(row.net)}</td>
+                <td>{formatMoney(row.gross)}</td>
+                <td>{formatPercent(row.grossPercent)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="expo-panel__section">
+        <div className="expo-panel__section-header">
+          <span>Top contributors today</span>
+        </div>
+        {contributors.length === 0 ? (
+          <div className="expo-panel__ok">Waiting for quotes...</div>
+        ) : (
+          <table className="expo-panel__table">
+            <thead>
+              <tr>
+                <th>Symbol</th>
+                <th>Pos</th>
+                <th>P&L</th>
+                <th>Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contributors.map(c => (
+                <tr key={c.instrumentId}>
+                  <td className="expo-panel__group">{c.symbol}</td>
+                  <td>{c.positions}</td>
+                  <td className={c.dailyPnl >= 0 ? 'positive' : 'negative'}>{formatSigned(c.dailyPnl)}</td>
+                  <td>{dailyPnl !== 0 ? `${((c.dailyPnl / Math.abs(dailyPnl)) * 100).toFixed(0)}%` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import { CommandRegistry, formatCommandUsage } from '../Workspace/CommandRegistry';
+import { useShortcuts } from '../../utils/accessibility';
+import { groupShortcutsByScope } from './KeyboardShortcutsPanel';
 import './HelpPanel.css';
 
 export default function HelpPanel(_props: PanelContentProps) {
+  const shortcuts = useShortcuts();
+
   return (
     <div className="help-panel">
       <div className="help-header">
@@ -35,26 +40,34 @@ export default function HelpPanel(_props: PanelContentProps) {
 
         <section className="help-section">
           <h3>⌨️ Command Bar</h3>
-          <p>Type commands in the command bar at the top:</p>
+          <p>Type commands in the command bar at the top. A symbol can also come first, e.g. <code>AAPL QT</code>.</p>
           <table className="command-table">
             <thead>
               <tr>
                 <th>Command</th>
+                <th>Aliases</th>
                 <th>Action</th>
               </tr>
             </thead>
             <tbody>
-              <tr><td>AAPL</td><td>Set AAPL as active symbol</td></tr>
-              <tr><td>AAPL QT</td><td>Open Quote panel for AAPL</td></tr>
-              <tr><td>AAPL TRD</td><td>Open Trade Ticket for AAPL</td></tr>
-              <tr><td>WL</td><td>Open Watchlists panel</td></tr>
-              <tr><td>ORD</td><td>Open Orders Blotter</td></tr>
-              <tr><td>PF</td><td>Open Portfolio panel</td></tr>
-              <tr><td>CH</td><td>Open Chart panel</td></tr>
-              <tr><td>AL</td><td>Open Alerts panel</td></tr>
-              <tr><td>PI</td><td>Open Trader Search</td></tr>
+              <tr><td>AAPL</td><td></td><td>Set AAPL as active symbol</td></tr>
+              {CommandRegistry.getAll().map((command) => (
+                <tr key={command.code}>
+                  <td>{formatCommandUsage(command)}</td>
+                  <td>{command.aliases?.join(', ')}</td>
+                  <td>
+                    {command.name} - {command.description}
+                    {command.example && <> e.g. <code>{command.example}</code></>}
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
+          <p>
+            <code>&lt;arg&gt;</code> is required, <code>[arg]</code> optional. Prices take a level or a percent
+            (<code>SL 2%</code>). Mistakes are explained under the command bar before anything runs, and
+            BUY/SELL and PF CLOSE only fill in the ticket or stage the close for you to confirm.
+          </p>
         </section>
 
         <section className="help-section">
@@ -78,22 +91,40 @@ export default function HelpPanel(_props: PanelContentProps) {
           </ul>
         </section>
 
+        <section className="help-section">
+          <h3>🗂️ Layouts</h3>
+          <p>Save the open panels as a named layout from the workspace toolbar. A layout keeps panel order, sizes, link groups and each panel's settings (pinned symbol, chart timeframe).</p>
+          <ul>
+            <li><strong>Switch:</strong> pick from the layout menu or type <code>LAYOUT &lt;name&gt;</code></li>
+            <li><strong>☆ STARTUP:</strong> open that layout on login</li>
+            <li><strong>EXPORT / IMPORT:</strong> share layouts and rebound keyboard shortcuts as a JSON file</li>
+          </ul>
+        </section>
+
         <section className="help-section">
           <h3>⚡ Keyboard Shortcuts</h3>
+          <p>Rebind any of these in the <strong>KEYS</strong> panel. Panel shortcuts work while that panel has focus.</p>
           <table className="command-table">
             <thead>
               <tr>
                 <th>Key</th>
                 <th>Action</th>
+                <th>Where</th>
               </tr>
             </thead>
             <tbody>
-              <tr><td>/</td><td>Focus command bar</td></tr>
-              <tr><td>Escape</td><td>Close dropdowns/modals</td></tr>
-              <tr><td>↑ ↓</td><td>Navigate lists</td></tr>
-              <tr><td>Enter</td><td>Select/confirm</td></tr>
-              <tr><td>Ctrl+B</td><td>Buy (in trade ticket)</td></tr>
-              <tr><td>Ctrl+S</td><td>Sell (in trade ticket)</td></tr>
+              {groupShortcutsByScope(shortcuts).flatMap((group) =>
+                group.shortcuts.filter((shortcut) => shortcut.keys).map((shortcut) => (
+                  <tr key={shortcut.id}>
+                    <td>{shortcut.keys}</td>
+                    <td>{shortcut.description}</td>
+                    <td>{group.label}</td>
+                  </tr>
+                ))
+              )}
+              <tr><td>↑ ↓</td><td>Previous/next command from history</td><td>Command bar</td></tr>
+              <tr><td>↑ ↓ Enter</td><td>Navigate lists, select</td><td>Lists</td></tr>
+              <tr><td>Escape</td><td>Close dropdowns</td><td>Global</td></tr>
             </tbody>
           </table>
         </section>
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { PanelRegistry, type PanelContentProps } from '../Workspace/PanelRegistry';
+import {
+  shortcutsRegistry,
+  useShortcuts,
+  keysFromEvent,
+  type Shortcut,
+  type ShortcutScope,
+} from '../../utils/accessibility';
+import './KeyboardShortcutsPanel.css';
+
+interface PendingBinding {
+  id: string;
+  keys: string;
+  conflict: Shortcut;
+}
+
+export interface ShortcutGroup {
+  scope: ShortcutScope;
+  label: string;
+  shortcuts: Shortcut[];
+}
+
+export function describeScope(scope: ShortcutScope): string {
+  if (scope === 'global') return 'Global';
+  if (scope === 'dialog') return 'Dialogs';
+  const typeId = scope.slice('panel:'.length);
+  return PanelRegistry.get(typeId)?.title ?? typeId;
+}
+
+/** Global shortcuts first, then each panel type, then dialogs */
+export function groupShortcutsByScope(shortcuts: Shortcut[]): ShortcutGroup[] {
+  const groups = new Map<ShortcutScope, ShortcutGroup>();
+  for (const shortcut of shortcuts) {
+    const group = groups.get(shortcut.scope)
+      ?? { scope: shortcut.scope, label: describeScope(shortcut.scope), shortcuts: [] };
+    group.shortcuts.push(shortcut);
+    groups.set(shortcut.scope, group);
+  }
+
+  const rank = (scope: ShortcutScope) => (scope === 'global' ? 0 : scope === 'dialog' ? 2 : 1);
+  return Array.from(groups.values()).sort((a, b) =>
+    rank(a.scope) - rank(b.scope) || a.label.localeCompare(b.label)
+  );
+}
+
+export default function KeyboardShortcutsPanel(_props: PanelContentProps) {
+  const shortcuts = useShortcuts();
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+
+  const assign = (id: string, keys: string) => {
+    const conflict = shortcutsRegistry.findConflict(id, keys);
+    if (conflict) {
+      setPending({ id, keys, conflict });
+      return;
+    }
+    shortcutsRegistry.setKeys(id, keys);
+    setPending(null);
+  };
+
+  // While recording, the next key combination goes to the shortcut instead of the app
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const keys = keysFromEvent(e);
+      if (!keys) return;
+      setRecordingId(null);
+      assign(recordingId, keys);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId]);
+
+  const handleReassign = () => {
+    if (!pending) return;
+    shortcutsRegistry.setKeys(pending.id, pending.keys, { replace: true });
+    setPending(null);
+  };
+
+  const handleResetAll = () => {
+    if (confirm('Reset all keyboard shortcuts to their defaults?')) {
+      shortcutsRegistry.resetAll();
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="keys-panel">
+      <div className="keys-panel__header">
+        <span>Click a shortcut, then press the new keys. Saved layouts export with your keymap.</span>
+        <button
+          className="keys-panel__btn"
+          onClick={handleResetAll}
+          disabled={!shortcuts.some((s) => shortcutsRegistry.isCustomized(s.id))}
+        >
+          [ RESET ALL ]
+        </button>
+      </div>
+
+      {pending && (
+        <div className="keys-panel__conflict" role="alert">
+          <span>
+            <strong>{pending.keys}</strong> is already used for "{pending.conflict.description}"
+            ({describeScope(pending.conflict.scope)}). Reassign it and leave that one unbound?
+          </span>
+          <button className="keys-panel__btn" onClick={handleReassign}>[ REASSIGN ]</button>
+          <button className="keys-panel__btn" onClick={() => setPending(null)}>[ CANCEL ]</button>
+        </div>
+      )}
+
+      {groupShortcutsByScope(shortcuts).map((group) => (
+        <section key={group.scope} className="keys-panel__group">
+          <h3>{group.label}</h3>
+          <table className="keys-panel__table">
+            <tbody>
+              {group.shortcuts.map((shortcut) => {
+                const recording = recordingId === shortcut.id;
+                const customized = shortcutsRegistry.isCustomized(shortcut.id);
+                const clash = shortcutsRegistry.findConflict(shortcut.id, shortcut.keys);
+                return (
+                  <tr key={shortcut.id}>
+                    <td>
+                      {shortcut.description}
+                      {clash && <span className="keys-panel__clash"> ⚠ same keys as "{clash.description}"</span>}
+                    </td>
+                    <td className="keys-panel__keys-cell">
+                      <button
+                        className={`keys-panel__keys ${recording ? 'keys-panel__keys--recording' : ''} ${customized ? 'keys-panel__keys--custom' : ''}`}
+                        onClick={() => {
+                          setPending(null);
+                          setRecordingId(recording ? null : shortcut.id);
+                        }}
+                        onBlur={() => setRecordingId((current) => (current === shortcut.id ? null : current))}
+                        aria-label={`${shortcut.description}: ${shortcut.keys || 'unassigned'}. Press to rebind`}
+                      >
+                        {recording ? 'Press keys...' : shortcut.keys || '—'}
+                      </button>
+                    </td>
+                    <td className="keys-panel__actions">
+                      <button
+                        className="keys-panel__icon-btn"
+                        onClick={() => assign(shortcut.id, '')}
+                        disabled={!shortcut.keys}
+                        title="Unassign"
+                        aria-label={`Unassign ${shortcut.description}`}
+                      >
+                        ✕
+                      </button>
+                      <button
+                        className="keys-panel__icon-btn"
+                        onClick={() => assign(shortcut.id, shortcut.defaultKeys)}
+                        disabled={!customized}
+                        title={`Reset to ${shortcut.defaultKeys || 'unassigned'}`}
+                        aria-label={`Reset ${shortcut.description} to default`}
+                      >
+                        ↺
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+}
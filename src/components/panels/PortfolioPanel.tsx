@@ -2,8 +2,13 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { portfolioStore, PortfolioState, AutoRefreshInterval } from '../../stores/portfolioStore';
 import { ordersStore, StoredOrder } from '../../stores/ordersStore';
 import { activityStore } from '../../stores/activityStore';
+import { journalService } from '../../services/journalService';
+import { taxLotService } from '../../services/taxLotService';
+import { quotesStore } from '../../stores/quotesStore';
 import { useTradingMode } from '../../contexts/TradingModeContext';
-import { getPositionAdapter, ClosePositionResult } from '../../api/adapters/positionAdapter';
+import { usePanelIntent, type PanelIntent } from '../../contexts/WorkspaceContext';
+import { useShortcut } from '../../utils/accessibility';
+import { getPositionAdapter, ClosePositionResult, ModifyPositionChanges } from '../../api/adapters/positionAdapter';
 import type { Position } from '../../api/contracts/etoro-api.types';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
 import './PortfolioPanel.css';
@@ -14,10 +19,29 @@ interface CloseConfirmation {
 
 interface CloseResultState {
   success: boolean;
-  profit: number;
+  profit?: number;
   position: Position;
 }
 
+/** Sent by `PF CLOSE ALL [symbol]`; positions close only after the dialog is confirmed */
+export interface PortfolioIntent extends PanelIntent {
+  action: 'close';
+  /** Only positions in this instrument; omitted means every open position */
+  instrumentId?: number;
+  symbol?: string;
+}
+
+interface StagedClose {
+  instrumentId?: number;
+  label: string;
+}
+
+interface BulkCloseResult {
+  closed: number;
+  failed: number;
+  profit?: number;
+}
+
 interface PortfolioPanelProps extends PanelContentProps {
   onSelectPosition?: (position: Position) => void;
 }
@@ -39,7 +63,15 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
   const [partialCloseResult, setPartialCloseResult] = useState<ClosePositionResult | null>(null);
   const [closeConfirmation, setCloseConfirmation] = useState<CloseConfirmation | null>(null);
   const [closeResult, setCloseResult] = useState<CloseResultState | null>(null);
+  const [stagedClose, setStagedClose] = useState<StagedClose | null>(null);
+  const [bulkCloseResult, setBulkCloseResult] = useState<BulkCloseResult | null>(null);
   const [currentTime, setCurrentTime] = useState(Date.now());
+  const [showProtectionEditor, setShowProtectionEditor] = useState(false);
+  const [stopLossInput, setStopLossInput] = useState('');
+  const [takeProfitInput, setTakeProfitInput] = useState('');
+  const [trailingStop, setTrailingStop] = useState(false);
+  const [protectionError, setProtectionError] = useState<string | null>(null);
+  const [savingProtection, setSavingProtection] = useState(false);
   const { isDemoMode, isRealMode, mode } = useTradingMode();
 
   useEffect(() => {
@@ -73,6 +105,15 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
     return new Date(timestamp).toLocaleTimeString();
   }, []);
 
+  usePanelIntent<PortfolioIntent>('PF', (intent) => {
+    if (intent.action === 'close') {
+      setStagedClose({
+        instrumentId: intent.instrumentId,
+        label: intent.symbol ? `ALL ${intent.symbol}` : 'ALL',
+      });
+    }
+  });
+
   const handleAutoRefreshToggle = useCallback(() => {
     portfolioStore.setAutoRefresh(!state.autoRefreshEnabled);
   }, [state.autoRefreshEnabled]);
@@ -89,6 +130,7 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
   const handleRowClick = useCallback(
     (position: Position) => {
       setSelectedPosition(position);
+      setShowProtectionEditor(false);
       if (onSelectPosition) {
         onSelectPosition(position);
       }
@@ -110,10 +152,10 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
     [isRealMode]
   );
 
-  const executeClose = useCallback(
-    async (position: Position) => {
-      setClosing(true);
-      setCloseConfirmation(null);
+  // Close one position and record it in the blotter and activity log
+  const closeAndRecord = useCallback(
+    async (position: Position): Promise<ClosePositionResult> => {
+      const activityMode = isDemoMode() ? 'demo' : 'real';
       try {
         const adapter = getPositionAdapter(isDemoMode());
         const result = await adapter.closePosition(position.positionId, position.instrumentId);
@@ -136,12 +178,35 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
         ordersStore.addOrder(closeOrder);
 
         // Add activity notification
-        const activityMode = isDemoMode() ? 'demo' : 'real';
         activityStore.addTradeClose(
           activityMode,
           position.instrumentName || `#${position.instrumentId}`,
           result.profit
         );
+        journalService.recordClose(activityMode, result, position);
+        return result;
+      } catch (err) {
+        console.error('Failed to close position:', err);
+
+        // Add error activity
+        const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+        activityStore.addError(
+          activityMode,
+          `Failed to close ${position.instrumentName || `#${position.instrumentId}`}`,
+          errorMsg
+        );
+        throw err;
+      }
+    },
+    [isDemoMode]
+  );
+
+  const executeClose = useCallback(
+    async (position: Position) => {
+      setClosing(true);
+      setCloseConfirmation(null);
+      try {
+        const result = await closeAndRecord(position);
 
         if (state.portfolio) {
           // Trigger portfolio refresh to update positions after close
@@ -154,18 +219,7 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
           position,
         });
         setSelectedPosition(null);
-      } catch (err) {
-        console.error('Failed to close position:', err);
-        
-        // Add error activity
-        const activityMode = isDemoMode() ? 'demo' : 'real';
-        const errorMsg = err instanceof Error ? err.message : 'Unknown error';
-        activityStore.addError(
-          activityMode,
-          `Failed to close ${position.instrumentName || `#${position.instrumentId}`}`,
-          errorMsg
-        );
-        
+      } catch {
         setCloseResult({
           success: false,
           profit: 0,
@@ -175,7 +229,32 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
         setClosing(false);
       }
     },
-    [isDemoMode, state.portfolio]
+    [closeAndRecord, state.portfolio]
+  );
+
+  const executeBulkClose = useCallback(
+    async (positions: Position[]) => {
+      setClosing(true);
+      let closed = 0;
+      // Stays undefined once any close comes back without a realized P&L
+      let profit: number | undefined = 0;
+      // One at a time so each close is confirmed before the next is sent
+      for (const position of positions) {
+        try {
+          const result = await closeAndRecord(position);
+          closed++;
+          profit = profit !== undefined && result.profit !== undefined ? profit + result.profit : undefined;
+        } catch {
+          // Logged to the activity feed by closeAndRecord
+        }
+      }
+
+      portfolioStore.fetchPortfolio().catch(() => {});
+      setStagedClose(null);
+      setBulkCloseResult({ closed, failed: positions.length - closed, profit });
+      setClosing(false);
+    },
+    [closeAndRecord]
   );
 
   const handleClosePosition = useCallback(
@@ -240,6 +319,7 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
       const adapter = getPositionAdapter(isDemoMode());
       const result = await adapter.closePositionPartial(selectedPosition.positionId, units);
       setPartialCloseResult(result);
+      taxLotService.recordPartialClose(isDemoMode() ? 'demo' : 'real', selectedPosition, result);
 
       await portfolioStore.fetchPortfolio();
     } catch (err) {
@@ -258,12 +338,126 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
     setPartialCloseResult(null);
   }, []);
 
+  const handleEditProtectionClick = useCallback(() => {
+    if (!selectedPosition) return;
+    setStopLossInput(selectedPosition.stopLossRate ? String(selectedPosition.stopLossRate) : '');
+    setTakeProfitInput(selectedPosition.takeProfitRate ? String(selectedPosition.takeProfitRate) : '');
+    setTrailingStop(!!selectedPosition.isTslEnabled);
+    setProtectionError(null);
+    setShowProtectionEditor(true);
+  }, [selectedPosition]);
+
+  const cancelProtectionEdit = useCallback(() => {
+    setShowProtectionEditor(false);
+    setProtectionError(null);
+  }, []);
+
+  /** Rate the position would close at: bid for longs, ask for shorts */
+  const getExitRate = useCallback((position: Position): number | undefined => {
+    const quote = quotesStore.getQuote(position.instrumentId);
+    const rate = quote ? (position.isBuy ? quote.bid : quote.ask) || quote.lastPrice : undefined;
+    return rate || position.currentRate;
+  }, []);
+
+  const validateProtection = useCallback((position: Position, sl: string, tp: string, tsl: boolean): string | null => {
+    const slRate = sl ? parseFloat(sl) : null;
+    const tpRate = tp ? parseFloat(tp) : null;
+    if ((slRate !== null && (isNaN(slRate) || slRate <= 0)) || (tpRate !== null && (isNaN(tpRate) || tpRate <= 0))) {
+      return 'Levels must be positive numbers';
+    }
+    if (tsl && slRate === null) {
+      return 'Trailing stop needs a stop loss level';
+    }
+
+    const rate = getExitRate(position);
+    if (!rate) {
+      return 'No current quote to validate levels against';
+    }
+    if (position.isBuy) {
+      if (slRate !== null && slRate >= rate) return `Stop loss must be below the current bid (${rate.toFixed(4)})`;
+      if (tpRate !== null && tpRate <= rate) return `Take profit must be above the current bid (${rate.toFixed(4)})`;
+    } else {
+      if (slRate !== null && slRate <= rate) return `Stop loss must be above the current ask (${rate.toFixed(4)})`;
+      if (tpRate !== null && tpRate >= rate) return `Take profit must be below the current ask (${rate.toFixed(4)})`;
+    }
+    return null;
+  }, [getExitRate]);
+
+  const handleSaveProtection = useCallback(async () => {
+    if (!selectedPosition) return;
+
+    const error = validateProtection(selectedPosition, stopLossInput, takeProfitInput, trailingStop);
+    if (error) {
+      setProtectionError(error);
+      return;
+    }
+
+    // Only send what changed; an emptied field removes the level
+    const changes: ModifyPositionChanges = {};
+    const slRate = stopLossInput ? parseFloat(stopLossInput) : null;
+    const tpRate = takeProfitInput ? parseFloat(takeProfitInput) : null;
+    if (slRate !== (selectedPosition.stopLossRate || null)) changes.stopLossRate = slRate;
+    if (tpRate !== (selectedPosition.takeProfitRate || null)) changes.takeProfitRate = tpRate;
+    if (trailingStop !== !!selectedPosition.isTslEnabled) changes.isTslEnabled = trailingStop;
+    if (Object.keys(changes).length === 0) {
+      setShowProtectionEditor(false);
+      return;
+    }
+
+    setSavingProtection(true);
+    setProtectionError(null);
+    const symbol = selectedPosition.instrumentName || `#${selectedPosition.instrumentId}`;
+    const activityMode = isDemoMode() ? 'demo' : 'real';
+
+    try {
+      const adapter = getPositionAdapter(isDemoMode());
+      await adapter.modifyPosition(selectedPosition.positionId, changes);
+
+      const updates: Partial<Position> = {};
+      const details: string[] = [];
+      if (changes.stopLossRate !== undefined) {
+        updates.stopLossRate = changes.stopLossRate ?? undefined;
+        details.push(changes.stopLossRate === null ? 'SL removed' : `SL ${changes.stopLossRate}`);
+      }
+      if (changes.takeProfitRate !== undefined) {
+        updates.takeProfitRate = changes.takeProfitRate ?? undefined;
+        details.push(changes.takeProfitRate === null ? 'TP removed' : `TP ${changes.takeProfitRate}`);
+      }
+      if (changes.isTslEnabled !== undefined) {
+        updates.isTslEnabled = changes.isTslEnabled;
+        details.push(`trailing stop ${changes.isTslEnabled ? 'on' : 'off'}`);
+      }
+
+      portfolioStore.updatePosition(selectedPosition.positionId, updates);
+      setSelectedPosition({ ...selectedPosition, ...updates });
+      activityStore.addPositionModified(activityMode, symbol, details.join(', '));
+      setShowProtectionEditor(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to modify position';
+      setProtectionError(message);
+      activityStore.addError(activityMode, `Failed to modify ${symbol}`, message);
+    } finally {
+      setSavingProtection(false);
+    }
+  }, [selectedPosition, stopLossInput, takeProfitInput, trailingStop, validateProtection, isDemoMode]);
+
   const calculateEstimatedPnL = useCallback((position: Position, units: number): number => {
     if (!position.currentRate || !position.profit) return 0;
     const pnlPerUnit = position.profit / position.units;
     return pnlPerUnit * units;
   }, []);
 
+  useShortcut('dialog.confirm', () => {
+    if (closeConfirmation && !closing) executeClose(closeConfirmation.position);
+  }, { enabled: closeConfirmation !== null });
+
+  // Closing several positions at once stays a deliberate click; the keys only cancel it
+  useShortcut('dialog.cancel', () => {
+    if (closing) return;
+    setCloseConfirmation(null);
+    setStagedClose(null);
+  }, { enabled: closeConfirmation !== null || stagedClose !== null });
+
   const formatPnl = (value: number | undefined): string => {
     if (value === undefined || value === null) return '$0.00';
     const sign = value >= 0 ? '+' : '';
@@ -299,6 +493,10 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
   }
 
   const positions = portfolio?.positions || [];
+  const stagedPositions = stagedClose
+    ? positions.filter((p) => stagedClose.instrumentId === undefined || p.instrumentId === stagedClose.instrumentId)
+    : [];
+  const stagedPnl = stagedPositions.reduce((sum, p) => sum + (p.profit ?? 0), 0);
 
   const renderDrawer = () => {
     if (!selectedPosition) return null;
@@ -389,6 +587,7 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
                 <span className="portfolio-panel__drawer-label">Stop Loss:</span>
                 <span className="portfolio-panel__drawer-value">
                   {selectedPosition.stopLossRate.toFixed(4)}
+                  {selectedPosition.isTslEnabled && ' (trailing)'}
                 </span>
               </div>
             )}
@@ -410,6 +609,93 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
             </div>
           </div>
 
+          {showProtectionEditor && (
+            <div className="portfolio-panel__partial-close portfolio-panel__protection">
+              <div className="portfolio-panel__partial-close-header">
+                EDIT STOP LOSS / TAKE PROFIT
+              </div>
+              <div className="portfolio-panel__partial-close-body">
+                <div className="portfolio-panel__partial-close-row">
+                  <label className="portfolio-panel__partial-close-label" htmlFor="protection-sl">
+                    Stop loss (empty to remove):
+                  </label>
+                  <input
+                    id="protection-sl"
+                    type="number"
+                    className="portfolio-panel__partial-close-input"
+                    value={stopLossInput}
+                    onChange={(e) => {
+                      setStopLossInput(e.target.value);
+                      setProtectionError(null);
+                    }}
+                    placeholder="None"
+                    min="0"
+                    step="0.0001"
+                    disabled={savingProtection}
+                    autoFocus
+                  />
+                </div>
+                <div className="portfolio-panel__partial-close-row">
+                  <label className="portfolio-panel__partial-close-label" htmlFor="protection-tp">
+                    Take profit (empty to remove):
+                  </label>
+                  <input
+                    id="protection-tp"
+                    type="number"
+                    className="portfolio-panel__partial-close-input"
+                    value={takeProfitInput}
+                    onChange={(e) => {
+                      setTakeProfitInput(e.target.value);
+                      setProtectionError(null);
+                    }}
+                    placeholder="None"
+                    min="0"
+                    step="0.0001"
+                    disabled={savingProtection}
+                  />
+                </div>
+                <label className="portfolio-panel__protection-trailing">
+                  <input
+                    type="checkbox"
+                    checked={trailingStop}
+                    onChange={(e) => {
+                      setTrailingStop(e.target.checked);
+                      setProtectionError(null);
+                    }}
+                    disabled={savingProtection}
+                  />
+                  Trailing stop
+                </label>
+                <div className="portfolio-panel__partial-close-info">
+                  <span>
+                    Current {selectedPosition.isBuy ? 'bid' : 'ask'}: {getExitRate(selectedPosition)?.toFixed(4) ?? '--'}
+                  </span>
+                </div>
+                {protectionError && (
+                  <div className="portfolio-panel__partial-close-error">
+                    ✗ {protectionError}
+                  </div>
+                )}
+              </div>
+              <div className="portfolio-panel__partial-close-actions">
+                <button
+                  className="portfolio-panel__drawer-btn portfolio-panel__drawer-btn--partial"
+                  onClick={handleSaveProtection}
+                  disabled={savingProtection}
+                >
+                  {savingProtection ? 'SAVING...' : 'SAVE LEVELS'}
+                </button>
+                <button
+                  className="portfolio-panel__drawer-btn portfolio-panel__drawer-btn--cancel"
+                  onClick={cancelProtectionEdit}
+                  disabled={savingProtection}
+                >
+                  CANCEL
+                </button>
+              </div>
+            </div>
+          )}
+
           {showPartialClose && !partialCloseResult && (
             <div className="portfolio-panel__partial-close">
               <div className="portfolio-panel__partial-close-header">
@@ -488,13 +774,13 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
                 <div className="portfolio-panel__drawer-row">
                   <span className="portfolio-panel__drawer-label">Closed Rate:</span>
                   <span className="portfolio-panel__drawer-value">
-                    {partialCloseResult.closedRate.toFixed(4)}
+                    {partialCloseResult.closedRate?.toFixed(4) ?? '—'}
                   </span>
                 </div>
                 <div className="portfolio-panel__drawer-row">
                   <span className="portfolio-panel__drawer-label">Realized P&L:</span>
                   <span className={`portfolio-panel__drawer-value ${getPnlClass(partialCloseResult.profit)}`}>
-                    {formatPnl(partialCloseResult.profit)}
+                    {partialCloseResult.profit !== undefined ? formatPnl(partialCloseResult.profit) : '—'}
                   </span>
                 </div>
               </div>
@@ -555,10 +841,17 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
             <button
               className="portfolio-panel__drawer-btn portfolio-panel__drawer-btn--partial"
               onClick={handlePartialCloseClick}
-              disabled={closing || showPartialClose}
+              disabled={closing || showPartialClose || showProtectionEditor}
             >
               PARTIAL CLOSE
             </button>
+            <button
+              className="portfolio-panel__drawer-btn portfolio-panel__drawer-btn--partial"
+              onClick={handleEditProtectionClick}
+              disabled={closing || showPartialClose || showProtectionEditor}
+            >
+              EDIT SL/TP
+            </button>
             <button
               className="portfolio-panel__drawer-btn portfolio-panel__drawer-btn--cancel"
               onClick={() => setSelectedPosition(null)}
@@ -620,6 +913,14 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
             ))}
           </select>
         )}
+        {state.liveUpdates && (
+          <span
+            className="portfolio-panel__live"
+            title="Positions update over the private stream; auto-refresh resumes if it drops"
+          >
+            ● LIVE
+          </span>
+        )}
       </div>
 
       {portfolio && (
@@ -779,6 +1080,95 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
         </div>
       )}
 
+      {stagedClose && (
+        <div
+          className="portfolio-panel__drawer-overlay"
+          onClick={() => !closing && setStagedClose(null)}
+          role="presentation"
+        >
+          <div
+            className="portfolio-panel__confirmation-dialog"
+            onClick={(e) => e.stopPropagation()}
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="bulk-close-title"
+            aria-describedby="bulk-close-desc"
+          >
+            <div className="portfolio-panel__confirmation-header" id="bulk-close-title">
+              ⚠ CONFIRM CLOSE {stagedClose.label}
+            </div>
+            <div className="portfolio-panel__confirmation-body" id="bulk-close-desc">
+              {stagedPositions.length === 0 ? (
+                <p>No open positions to close.</p>
+              ) : (
+                <>
+                  <p>
+                    Close <strong>{stagedPositions.length}</strong> position{stagedPositions.length === 1 ? '' : 's'} worth{' '}
+                    <strong>${stagedPositions.reduce((sum, p) => sum + p.amount, 0).toFixed(2)}</strong>?
+                  </p>
+                  <p className={getPnlClass(stagedPnl)}>
+                    Current P&L: {formatPnl(stagedPnl)}
+                  </p>
+                  {isRealMode() && <p>REAL MODE - positions close at market with real money.</p>}
+                </>
+              )}
+            </div>
+            <div className="portfolio-panel__confirmation-actions">
+              <button
+                className="portfolio-panel__confirmation-btn portfolio-panel__confirmation-btn--confirm"
+                onClick={() => executeBulkClose(stagedPositions)}
+                disabled={closing || stagedPositions.length === 0}
+              >
+                {closing ? 'CLOSING...' : `CONFIRM CLOSE ${stagedPositions.length}`}
+              </button>
+              <button
+                className="portfolio-panel__confirmation-btn portfolio-panel__confirmation-btn--cancel"
+                onClick={() => setStagedClose(null)}
+                disabled={closing}
+              >
+                CANCEL
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {bulkCloseResult && (
+        <div
+          className="portfolio-panel__drawer-overlay"
+          onClick={() => setBulkCloseResult(null)}
+        >
+          <div
+            className="portfolio-panel__result-dialog"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className={`portfolio-panel__result-header ${bulkCloseResult.failed === 0 ? 'portfolio-panel__result-header--success' : 'portfolio-panel__result-header--error'}`}>
+              {bulkCloseResult.failed === 0
+                ? `✓ ${bulkCloseResult.closed} POSITION${bulkCloseResult.closed === 1 ? '' : 'S'} CLOSED`
+                : `✗ ${bulkCloseResult.failed} OF ${bulkCloseResult.closed + bulkCloseResult.failed} FAILED`}
+            </div>
+            <div className="portfolio-panel__result-body">
+              <p className={getPnlClass(bulkCloseResult.profit)}>
+                Realized P&L: {bulkCloseResult.profit !== undefined ? formatPnl(bulkCloseResult.profit) : 'see trade history'}
+              </p>
+              {bulkCloseResult.failed > 0 && (
+                <p className="portfolio-panel__result-error">
+                  See the activity log for the positions that failed to close.
+                </p>
+              )}
+            </div>
+            <div className="portfolio-panel__result-actions">
+              <button
+                className="portfolio-panel__result-btn"
+                onClick={() => setBulkCloseResult(null)}
+              >
+                OK
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {closeResult && (
         <div
           className="portfolio-panel__drawer-overlay"
@@ -797,7 +1187,7 @@ export default function PortfolioPanel({ onSelectPosition }: PortfolioPanelProps
               </p>
               {closeResult.success && (
                 <p className={getPnlClass(closeResult.profit)}>
-                  Realized P&L: {formatPnl(closeResult.profit)}
+                  Realized P&L: {closeResult.profit !== undefined ? formatPnl(closeResult.profit) : 'see trade history'}
                 </p>
               )}
               {!closeResult.success && (
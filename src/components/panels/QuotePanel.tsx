@@ -63,7 +63,7 @@ export default function QuotePanel({
     setLinkGroup,
     togglePin,
     pin,
-  } = usePanelLink(initialLinkGroup);
+  } = usePanelLink(initialLinkGroup, id);
 
   const [resolvedSymbol, setResolvedSymbol] = useState<ResolvedSymbol | null>(null);
   const [quote, setQuote] = useState<DisplayQuote | null>(null);
@@ -6,7 +6,7 @@ import { quotesStore, StoredQuote } from '../../stores/quotesStore';
 import { symbolResolver, ResolvedSymbol } from '../../services/symbolResolver';
 import { streamingService } from '../../services/streamingService';
 import { quotesPollingService } from '../../services/quotesPollingService';
-import { useWorkspaceContext } from '../../contexts/WorkspaceContext';
+import { useWorkspaceContext, usePanelState } from '../../contexts/WorkspaceContext';
 import { useActiveSymbol } from '../Workspace/ActiveSymbolContext';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
 import './QuotePanel.css';
@@ -67,12 +67,12 @@ function formatTime(timestamp: string): string {
   }
 }
 
-export default function QuotePanelSimple(_props: PanelContentProps) {
+export default function QuotePanelSimple({ panelId }: PanelContentProps) {
   const { getPendingSymbol, openPanelForSymbol } = useWorkspaceContext();
   const { activeSymbol, setActiveSymbol } = useActiveSymbol();
   
-  const [symbol, setSymbol] = useState<string>('AAPL');
-  const [inputSymbol, setInputSymbol] = useState<string>('AAPL');
+  const [symbol, setSymbol] = usePanelState<string>(panelId, 'symbol', 'AAPL');
+  const [inputSymbol, setInputSymbol] = useState<string>(symbol);
   const [resolvedSymbol, setResolvedSymbol] = useState<ResolvedSymbol | null>(null);
   const [quote, setQuote] = useState<DisplayQuote | null>(null);
   const [isStale, setIsStale] = useState(false);
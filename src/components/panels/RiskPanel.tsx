@@ -0,0 +1,347 @@
+/**
+ * Risk Panel
+ * One-day historical and parametric VaR / expected shortfall, beta against
+ * a benchmark, and user-defined stress scenarios for the open positions.
+ * Commands: VAR, BETA, STRESS
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import type { Position } from '../../api/contracts/etoro-api.types';
+import { portfolioStore, type PortfolioState } from '../../stores/portfolioStore';
+import { loadInstrumentMeta, type InstrumentMeta } from '../../services/exposureAnalytics';
+import {
+  riskService,
+  runStressTest,
+  parseShocks,
+  formatShocks,
+  RISK_LOOKBACKS,
+  DEFAULT_BENCHMARK,
+  type RiskLookback,
+  type RiskReport,
+  type StressScenario,
+} from '../../services/riskService';
+import './RiskPanel.css';
+
+function formatMoney(value: number | null): string {
+  if (value === null) return '—';
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${formatMoney(value)}`;
+}
+
+function percentOf(value: number | null, equity: number | null): string {
+  if (value === null || !equity || equity <= 0) return '—';
+  return `${((value / equity) * 100).toFixed(2)}%`;
+}
+
+export default function RiskPanel(_props: PanelContentProps) {
+  const [state, setState] = useState<PortfolioState>(portfolioStore.getState());
+  const [meta, setMeta] = useState<Map<number, InstrumentMeta>>(new Map());
+
+  const [benchmarkInput, setBenchmarkInput] = useState(DEFAULT_BENCHMARK);
+  const [benchmark, setBenchmark] = useState(DEFAULT_BENCHMARK);
+  const [lookback, setLookback] = useState<RiskLookback>(252);
+  const [report, setReport] = useState<RiskReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [scenarios, setScenarios] = useState<StressScenario[]>(riskService.getScenarios());
+  const [selectedId, setSelectedId] = useState<string | null>(scenarios[0]?.id ?? null);
+  const [draftName, setDraftName] = useState('');
+  const [draftShocks, setDraftShocks] = useState('');
+  const [draftErrors, setDraftErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    return portfolioStore.subscribe(setState);
+  }, []);
+
+  useEffect(() => {
+    return riskService.subscribe(() => setScenarios(riskService.getScenarios()));
+  }, []);
+
+  const positions: Position[] = useMemo(() => state.portfolio?.positions ?? [], [state.portfolio]);
+  const equity = state.portfolio?.equity ?? null;
+
+  // Stable key so history is only reloaded when the set of instruments changes
+  const instrumentKey = useMemo(
+    () => Array.from(new Set(positions.map(p => p.instrumentId))).sort((a, b) => a - b).join(','),
+    [positions]
+  );
+
+  useEffect(() => {
+    const ids = instrumentKey ? instrumentKey.split(',').map(Number) : [];
+    const missing = ids.filter(id => !meta.has(id));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    loadInstrumentMeta(missing).then((loaded) => {
+      if (cancelled) return;
+      setMeta(prev => new Map([...prev, ...loaded]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [instrumentKey, meta]);
+
+  useEffect(() => {
+    if (!instrumentKey) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    riskService.computeReport({ benchmark, lookback }).then((result) => {
+      if (cancelled) return;
+      setReport(result);
+      setIsLoading(false);
+    }).catch((err) => {
+      if (cancelled) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instrumentKey, benchmark, lookback, reloadKey]);
+
+  // Keep the editor in step with the selected scenario
+  const selected = scenarios.find(s => s.id === selectedId) ?? null;
+  useEffect(() => {
+    setDraftName(selected?.name ?? '');
+    setDraftShocks(selected ? formatShocks(selected.shocks) : '');
+    setDraftErrors([]);
+  }, [selected]);
+
+  const stress = useMemo(
+    () => (selected ? runStressTest(selected, positions, meta, equity) : null),
+    [selected, positions, meta, equity]
+  );
+
+  const handleBenchmarkSubmit = () => {
+    const next = benchmarkInput.trim().toUpperCase() || DEFAULT_BENCHMARK;
+    setBenchmarkInput(next);
+    setBenchmark(next);
+  };
+
+  const handleSaveScenario = () => {
+    const { shocks, errors } = parseShocks(draftShocks);
+    if (errors.length === 0 && shocks.length === 0) {
+      errors.push('Add at least one shock, e.g. "tech -10%, crypto -25%"');
+    }
+    setDraftErrors(errors);
+    if (errors.length > 0) return;
+
+    const scenario: StressScenario = {
+      id: selected?.id ?? `scenario-${Date.now()}`,
+      name: draftName.trim() || formatShocks(shocks),
+      shocks,
+    };
+    riskService.saveScenario(scenario);
+    setSelectedId(scenario.id);
+  };
+
+  const handleNewScenario = () => {
+    setSelectedId(null);
+    setDraftName('');
+    setDraftShocks('');
+    setDraftErrors([]);
+  };
+
+  const handleDeleteScenario = () => {
+    if (!selected) return;
+    riskService.deleteScenario(selected.id);
+    setSelectedId(scenarios.find(s => s.id !== selected.id)?.id ?? null);
+  };
+
+  if (positions.length === 0) {
+    return <div className="risk-panel risk-panel__empty">{state.error || 'No open positions'}</div>;
+  }
+
+  return (
+    <div className="risk-panel">
+      <div className="risk-panel__controls">
+        <label>
+          Benchmark
+          <input
+            type="text"
+            value={benchmarkInput}
+            onChange={e => setBenchmarkInput(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleBenchmarkSubmit()}
+            onBlur={handleBenchmarkSubmit}
+          />
+        </label>
+        <div className="risk-panel__lookbacks">
+          {RISK_LOOKBACKS.map(days => (
+            <button
+              key={days}
+              className={`risk-panel__btn ${lookback === days ? 'active' : ''}`}
+              onClick={() => setLookback(days)}
+            >
+              {days}D
+            </button>
+          ))}
+        </div>
+        <button className="risk-panel__btn" onClick={() => setReloadKey(k => k + 1)} disabled={isLoading}>
+          {isLoading ? '...' : '↻'}
+        </button>
+      </div>
+
+      {error && <div className="risk-panel__error">{error}</div>}
+      {report && Object.keys(report.errors).length > 0 && (
+        <div className="risk-panel__error">
+          Excluded: {Object.entries(report.errors).map(([symbol, reason]) => `${symbol} (${reason})`).join('; ')}
+        </div>
+      )}
+
+      <div className="risk-panel__section">
+        <div className="risk-panel__section-header">
+          <span>One-day VaR</span>
+          {report && <span className="risk-panel__muted">{report.observations} days</span>}
+        </div>
+        <table className="risk-panel__table">
+          <thead>
+            <tr>
+              <th>Confidence</th>
+              <th>Hist VaR</th>
+              <th>Hist ES</th>
+              <th>Param VaR</th>
+              <th>Param ES</th>
+              <th>VaR % Eq</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(report?.estimates ?? []).map(estimate => (
+              <tr key={estimate.confidence}>
+                <td>{estimate.confidence}%</td>
+                <td className="negative">{formatMoney(estimate.historicalVaR)}</td>
+                <td className="negative">{formatMoney(estimate.historicalES)}</td>
+                <td className="negative">{formatMoney(estimate.parametricVaR)}</td>
+                <td className="negative">{formatMoney(estimate.parametricES)}</td>
+                <td>{percentOf(estimate.historicalVaR, equity)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report && report.estimates.every(e => e.historicalVaR === null) && (
+          <div className="risk-panel__muted">Not enough shared daily history for VaR</div>
+        )}
+      </div>
+
+      <div className="risk-panel__section">
+        <div className="risk-panel__section-header">
+          <span>Beta vs {report?.benchmark ?? benchmark}</span>
+          {report && (
+            <span>
+              Portfolio {report.portfolioBeta !== null ? report.portfolioBeta.toFixed(2) : '—'}
+              {' · '}
+              {report.benchmark}-equivalent {formatSigned(report.betaExposure)}
+            </span>
+          )}
+        </div>
+        <table className="risk-panel__table">
+          <thead>
+            <tr>
+              <th>Symbol</th>
+              <th>Exposure</th>
+              <th>Beta</th>
+              <th>Beta Exp.</th>
+              <th>Days</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(report?.positions ?? []).map(p => (
+              <tr key={p.positionId}>
+                <td className="risk-panel__symbol">{p.symbol}</td>
+                <td className={p.exposure >= 0 ? 'positive' : 'negative'}>{formatSigned(p.exposure)}</td>
+                <td>{p.beta !== null ? p.beta.toFixed(2) : '—'}</td>
+                <td>{p.beta !== null ? formatSigned(p.exposure * p.beta) : '—'}</td>
+                <td>{p.observations}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="risk-panel__section">
+        <div className="risk-panel__section-header">
+          <span>Stress</span>
+          {scenarios.map(s => (
+            <button
+              key={s.id}
+              className={`risk-panel__btn ${selectedId === s.id ? 'active' : ''}`}
+              onClick={() => setSelectedId(s.id)}
+            >
+              {s.name}
+            </button>
+          ))}
+          <button className="risk-panel__btn" onClick={handleNewScenario}>+ New</button>
+        </div>
+
+        <div className="risk-panel__editor">
+          <input
+            type="text"
+            placeholder="Scenario name"
+            value={draftName}
+            onChange={e => setDraftName(e.target.value)}
+          />
+          <input
+            type="text"
+            className="risk-panel__shocks"
+            placeholder="tech -10%, crypto -25%, AAPL -15%, all -5%"
+            value={draftShocks}
+            onChange={e => setDraftShocks(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSaveScenario()}
+          />
+          <button className="risk-panel__btn" onClick={handleSaveScenario}>Save</button>
+          {selected && <button className="risk-panel__btn" onClick={handleDeleteScenario}>Delete</button>}
+        </div>
+        {draftErrors.map(message => (
+          <div key={message} className="risk-panel__error">{message}</div>
+        ))}
+
+        {stress && (
+          <>
+            <div className="risk-panel__summary">
+              <span className={stress.totalPnl >= 0 ? 'positive' : 'negative'}>
+                Projected {formatSigned(stress.totalPnl)}
+              </span>
+              <span>
+                {stress.percentOfEquity !== null ? `${stress.percentOfEquity.toFixed(2)}% of equity` : ''}
+              </span>
+            </div>
+            <table className="risk-panel__table">
+              <thead>
+                <tr>
+                  <th>Symbol</th>
+                  <th>Exposure</th>
+                  <th>Shock</th>
+                  <th>Matched</th>
+                  <th>P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stress.positions.map(p => (
+                  <tr key={p.positionId}>
+                    <td className="risk-panel__symbol">{p.symbol}</td>
+                    <td className={p.exposure >= 0 ? 'positive' : 'negative'}>{formatSigned(p.exposure)}</td>
+                    <td>{p.shock !== null ? `${p.shock > 0 ? '+' : ''}${p.shock}%` : '—'}</td>
+                    <td className="risk-panel__muted">{p.target ?? '—'}</td>
+                    <td className={p.pnl >= 0 ? 'positive' : 'negative'}>{formatSigned(p.pnl)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
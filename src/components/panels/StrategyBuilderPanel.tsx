@@ -10,11 +10,20 @@ import type {
   StrategyTemplate, 
   ProposedAction,
   AIMessage,
-  StrategyView 
+  StrategyView,
+  PriceBar,
+  BacktestResult,
+  BacktestDataSource,
 } from '../../types/strategy.types';
 import { STRATEGY_TEMPLATES } from '../../config/strategyTemplates';
 import { strategyStore } from '../../stores/strategyStore';
 import { aiService } from '../../services/aiService';
+import { backtestService } from '../../services/backtestService';
+import { actionExecutor } from '../../services/actionExecutor';
+import { hasApiKey as hasFinancialDataKey } from '../../services/financialDatasetsService';
+import { useTradingMode } from '../../contexts/TradingModeContext';
+import PreTradeChecksList from '../PreTradeChecksList';
+import TradeConfirmationDialog from '../TradeConfirmationDialog';
 import './StrategyBuilderPanel.css';
 
 export interface StrategyBuilderPanelProps extends PanelContentProps {}
@@ -28,6 +37,9 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
   const [selectedTemplate, setSelectedTemplate] = useState<StrategyTemplate | null>(null);
   const [selectedStrategy, setSelectedStrategy] = useState<StrategyDefinition | null>(null);
   const [proposedActions, setProposedActions] = useState<ProposedAction[]>([]);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ProposedAction | null>(null);
+  const { isRealMode, requiresConfirmation } = useTradingMode();
   
   // Chat state
   const [chatInput, setChatInput] = useState('');
@@ -36,6 +48,21 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
   const [streamingContent, setStreamingContent] = useState('');
   const [error, setError] = useState<string | null>(null);
   
+  // Backtest state
+  const [btSymbol, setBtSymbol] = useState('');
+  const [btStartDate, setBtStartDate] = useState(() => {
+    const d = new Date();
+    d.setFullYear(d.getFullYear() - 1);
+    return d.toISOString().split('T')[0];
+  });
+  const [btEndDate, setBtEndDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [btCapital, setBtCapital] = useState(10000);
+  const [btSource, setBtSource] = useState<BacktestDataSource>('api');
+  const [btCsvBars, setBtCsvBars] = useState<PriceBar[] | null>(null);
+  const [btResult, setBtResult] = useState<BacktestResult | null>(null);
+  const [btRunning, setBtRunning] = useState(false);
+  const [btError, setBtError] = useState<string | null>(null);
+  
   const chatEndRef = useRef<HTMLDivElement>(null);
   const hasApiKey = aiService.hasApiKey();
 
@@ -51,6 +78,8 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
     const unsubscribe = strategyStore.subscribe(() => {
       setStrategies(strategyStore.getStrategies());
       setProposedActions(strategyStore.getProposedActions());
+      // Keep the detail view in sync with status changes made by the runner
+      setSelectedStrategy(prev => prev ? strategyStore.getStrategyById(prev.id) ?? null : null);
     });
     
     return unsubscribe;
@@ -180,6 +209,63 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
     strategyStore.setStrategyStatus(strategy.id, 'paused');
   }, []);
 
+  const handleStopStrategy = useCallback((strategy: StrategyDefinition) => {
+    strategyStore.setStrategyStatus(strategy.id, 'stopped');
+  }, []);
+
+  const handleOpenBacktest = useCallback((strategy: StrategyDefinition) => {
+    setSelectedStrategy(strategy);
+    setSelectedTemplate(null);
+    setBtSymbol(strategy.instruments[0] || '');
+    setBtResult(null);
+    setBtError(null);
+    setView('backtest');
+  }, []);
+
+  const handleCsvUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const bars = backtestService.parseCSV(String(reader.result));
+        setBtCsvBars(bars);
+        setBtError(null);
+      } catch (err) {
+        setBtCsvBars(null);
+        setBtError(err instanceof Error ? err.message : 'Failed to parse CSV');
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const handleRunBacktest = useCallback(async () => {
+    if (!selectedStrategy) return;
+    
+    setBtRunning(true);
+    setBtError(null);
+    try {
+      const result = await backtestService.runBacktest(
+        selectedStrategy,
+        {
+          strategyId: selectedStrategy.id,
+          symbol: btSymbol || selectedStrategy.instruments[0] || '',
+          startDate: btStartDate,
+          endDate: btEndDate,
+          initialCapital: btCapital,
+        },
+        btSource === 'csv' ? btCsvBars ?? [] : undefined
+      );
+      setBtResult(result);
+    } catch (err) {
+      setBtResult(null);
+      setBtError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setBtRunning(false);
+    }
+  }, [selectedStrategy, btSymbol, btStartDate, btEndDate, btCapital, btSource, btCsvBars]);
+
   const handleDeleteStrategy = useCallback((strategy: StrategyDefinition) => {
     if (confirm(`Delete strategy "${strategy.name}"?`)) {
       strategyStore.deleteStrategy(strategy.id);
@@ -187,6 +273,30 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
     }
   }, []);
 
+  const executeAction = useCallback(async (action: ProposedAction, confirmed: boolean) => {
+    setApprovingId(action.id);
+    try {
+      await actionExecutor.approveAndExecute(action.id, isRealMode() ? 'real' : 'demo', confirmed);
+    } finally {
+      setApprovingId(null);
+    }
+  }, [isRealMode]);
+
+  const handleApproveAction = useCallback((action: ProposedAction) => {
+    if (requiresConfirmation()) {
+      setConfirmAction(action);
+      return;
+    }
+    executeAction(action, false);
+  }, [requiresConfirmation, executeAction]);
+
+  const handleConfirmAction = useCallback(() => {
+    if (confirmAction) {
+      executeAction(confirmAction, true);
+    }
+    setConfirmAction(null);
+  }, [confirmAction, executeAction]);
+
   // ---------------------------------------------------------------------------
   // Render Helpers
   // ---------------------------------------------------------------------------
@@ -313,6 +423,182 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
     </div>
   );
 
+  const renderEquityCurve = (curve: BacktestResult['equityCurve'], initialCapital: number) => {
+    if (curve.length < 2) return null;
+    
+    const width = 600;
+    const height = 140;
+    const values = curve.map(p => p.equity);
+    const min = Math.min(...values, initialCapital);
+    const max = Math.max(...values, initialCapital);
+    const range = max - min || 1;
+    const x = (i: number) => (i / (curve.length - 1)) * width;
+    const y = (v: number) => height - ((v - min) / range) * height;
+    const points = curve.map((p, i) => `${x(i).toFixed(1)},${y(p.equity).toFixed(1)}`).join(' ');
+    const isUp = values[values.length - 1] >= initialCapital;
+    
+    return (
+      <svg className="sb-bt-equity" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        <line x1={0} x2={width} y1={y(initialCapital)} y2={y(initialCapital)} className="sb-bt-equity-baseline" />
+        <polyline points={points} className={isUp ? 'sb-bt-equity-line up' : 'sb-bt-equity-line down'} />
+      </svg>
+    );
+  };
+
+  const renderBacktest = () => {
+    if (!selectedStrategy) {
+      return <div className="sb-empty">Select a strategy in My Strategies to backtest it.</div>;
+    }
+    
+    const fmtMoney = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toFixed(2)}`;
+    const m = btResult?.metrics;
+    const canRun = !btRunning && (btSource === 'csv' ? !!btCsvBars?.length : hasFinancialDataKey());
+    
+    return (
+      <div className="sb-backtest">
+        <div className="sb-bt-form">
+          <label className="sb-bt-field">
+            <span>Symbol</span>
+            <select value={btSymbol} onChange={e => setBtSymbol(e.target.value)}>
+              {selectedStrategy.instruments.map(sym => (
+                <option key={sym} value={sym}>{sym}</option>
+              ))}
+            </select>
+          </label>
+          <label className="sb-bt-field">
+            <span>From</span>
+            <input type="date" value={btStartDate} onChange={e => setBtStartDate(e.target.value)} />
+          </label>
+          <label className="sb-bt-field">
+            <span>To</span>
+            <input type="date" value={btEndDate} onChange={e => setBtEndDate(e.target.value)} />
+          </label>
+          <label className="sb-bt-field">
+            <span>Capital</span>
+            <input
+              type="number"
+              min={100}
+              step={100}
+              value={btCapital}
+              onChange={e => setBtCapital(Number(e.target.value) || 0)}
+            />
+          </label>
+          <label className="sb-bt-field">
+            <span>Data</span>
+            <select value={btSource} onChange={e => setBtSource(e.target.value as BacktestDataSource)}>
+              <option value="api">Financial Datasets</option>
+              <option value="csv">Local CSV</option>
+            </select>
+          </label>
+          {btSource === 'csv' && (
+            <label className="sb-bt-field">
+              <span>CSV {btCsvBars ? `(${btCsvBars.length} bars)` : ''}</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleCsvUpload} />
+            </label>
+          )}
+          <button className="sb-btn sb-btn--primary" onClick={handleRunBacktest} disabled={!canRun}>
+            {btRunning ? 'Running...' : '▶ Run Backtest'}
+          </button>
+        </div>
+        
+        {btSource === 'api' && !hasFinancialDataKey() && (
+          <div className="sb-chat-warning">
+            ⚠ Financial Datasets API key not configured. Upload a CSV or set the key in settings.
+          </div>
+        )}
+        {btError && <div className="sb-chat-error">✗ {btError}</div>}
+        
+        {btResult && m && (
+          <>
+            <div className="sb-bt-metrics">
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Return</span>
+                <span className={`sb-bt-metric-value ${m.totalReturn >= 0 ? 'positive' : 'negative'}`}>
+                  {fmtMoney(m.totalReturn)} ({m.totalReturnPercent.toFixed(2)}%)
+                </span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Sharpe</span>
+                <span className="sb-bt-metric-value">{m.sharpeRatio.toFixed(2)}</span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Sortino</span>
+                <span className="sb-bt-metric-value">{m.sortinoRatio.toFixed(2)}</span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Max DD</span>
+                <span className="sb-bt-metric-value negative">
+                  {fmtMoney(-m.maxDrawdown)} ({m.maxDrawdownPercent.toFixed(2)}%)
+                </span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Win Rate</span>
+                <span className="sb-bt-metric-value">{m.winRate.toFixed(1)}%</span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Profit Factor</span>
+                <span className="sb-bt-metric-value">
+                  {Number.isFinite(m.profitFactor) ? m.profitFactor.toFixed(2) : '∞'}
+                </span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Trades</span>
+                <span className="sb-bt-metric-value">
+                  {m.totalTrades} ({m.winningTrades}W / {m.losingTrades}L)
+                </span>
+              </div>
+              <div className="sb-bt-metric">
+                <span className="sb-bt-metric-label">Avg Win / Loss</span>
+                <span className="sb-bt-metric-value">
+                  {fmtMoney(m.avgWin)} / {fmtMoney(m.avgLoss)}
+                </span>
+              </div>
+            </div>
+            
+            <div className="sb-details-section-title">
+              Equity Curve · {btResult.equityCurve.length} bars · {btResult.runTime}ms
+            </div>
+            {renderEquityCurve(btResult.equityCurve, btResult.config.initialCapital)}
+            
+            <div className="sb-details-section-title">Trades</div>
+            {btResult.trades.length === 0 ? (
+              <div className="sb-empty">No trades triggered in this period.</div>
+            ) : (
+              <table className="sb-bt-trades">
+                <thead>
+                  <tr>
+                    <th>Entry</th>
+                    <th>Exit</th>
+                    <th>Entry Px</th>
+                    <th>Exit Px</th>
+                    <th>Amount</th>
+                    <th>P&amp;L</th>
+                    <th>Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {btResult.trades.map((t, i) => (
+                    <tr key={i}>
+                      <td>{t.entryDate.split('T')[0]}</td>
+                      <td>{t.exitDate.split('T')[0]}</td>
+                      <td>{t.entryPrice.toFixed(2)}</td>
+                      <td>{t.exitPrice.toFixed(2)}</td>
+                      <td>{fmtMoney(t.amount)}</td>
+                      <td className={t.pnl >= 0 ? 'positive' : 'negative'}>
+                        {fmtMoney(t.pnl)} ({t.pnlPercent.toFixed(2)}%)
+                      </td>
+                      <td>{t.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
   const renderDetails = () => {
     if (selectedTemplate) {
       return (
@@ -371,6 +657,11 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
             </span>
           </div>
           <div className="sb-details-type">Type: {selectedStrategy.type} · {selectedStrategy.timeframe}</div>
+          {selectedStrategy.lastRunAt && (
+            <div className="sb-details-type">
+              Last evaluated: {new Date(selectedStrategy.lastRunAt).toLocaleString()}
+            </div>
+          )}
           <div className="sb-details-instruments">
             Instruments: {selectedStrategy.instruments.join(', ')}
           </div>
@@ -417,6 +708,19 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
                 Resume
               </button>
             )}
+            {(selectedStrategy.status === 'active' || selectedStrategy.status === 'paused') && (
+              <button className="sb-btn sb-btn--danger" onClick={() => handleStopStrategy(selectedStrategy)}>
+                Stop
+              </button>
+            )}
+            {selectedStrategy.status === 'stopped' && (
+              <button className="sb-btn sb-btn--primary" onClick={() => handleActivateStrategy(selectedStrategy)}>
+                Restart
+              </button>
+            )}
+            <button className="sb-btn sb-btn--warning" onClick={() => handleOpenBacktest(selectedStrategy)}>
+              Backtest
+            </button>
             <button className="sb-btn sb-btn--danger" onClick={() => handleDeleteStrategy(selectedStrategy)}>
               Delete
             </button>
@@ -434,7 +738,10 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
 
   const renderProposedActions = () => {
     const pending = proposedActions.filter(a => a.status === 'pending');
-    if (pending.length === 0) return null;
+    const recent = proposedActions
+      .filter(a => a.status === 'executed' || a.status === 'failed' || (a.status === 'approved' && a.error))
+      .slice(0, 5);
+    if (pending.length === 0 && recent.length === 0) return null;
     
     return (
       <div className="sb-actions">
@@ -452,10 +759,13 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
             <div className="sb-action-meta">
               Confidence: {action.confidence}% · Risk: {action.riskScore}%
             </div>
+            <PreTradeChecksList checks={action.preTradeChecks} />
+            {action.error && <div className="sb-action-error">{action.error}</div>}
             <div className="sb-action-buttons">
               <button 
                 className="sb-btn sb-btn--success"
-                onClick={() => strategyStore.approveAction(action.id)}
+                onClick={() => handleApproveAction(action)}
+                disabled={approvingId === action.id}
               >
                 ✓ Approve
               </button>
@@ -468,6 +778,13 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
             </div>
           </div>
         ))}
+        {recent.map(action => (
+          <div key={action.id} className={`sb-action-result sb-action-result--${action.status}`}>
+            {action.status === 'executed' ? '✓' : action.status === 'approved' ? '?' : '✗'} {action.type.toUpperCase()} {action.symbol}
+            {' · '}
+            {action.status === 'executed' ? `Order ${action.orderId}` : action.error}
+          </div>
+        ))}
       </div>
     );
   };
@@ -499,6 +816,12 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
           >
             My Strategies ({strategies.length})
           </button>
+          <button
+            className={`sb-tab ${view === 'backtest' ? 'active' : ''}`}
+            onClick={() => selectedStrategy ? handleOpenBacktest(selectedStrategy) : setView('backtest')}
+          >
+            Backtest
+          </button>
         </div>
       </div>
       
@@ -507,6 +830,7 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
           {view === 'templates' && renderTemplateList()}
           {view === 'chat' && renderChat()}
           {view === 'my-strategies' && renderStrategyList()}
+          {view === 'backtest' && renderBacktest()}
         </div>
         <div className="sb-sidebar">
           {renderDetails()}
@@ -514,6 +838,25 @@ export default function StrategyBuilderPanel({}: StrategyBuilderPanelProps = { p
       </div>
       
       {renderProposedActions()}
+
+      {confirmAction && (
+        <TradeConfirmationDialog
+          orderLabel={confirmAction.type === 'close' ? 'CLOSE' : confirmAction.side.toUpperCase()}
+          symbol={confirmAction.symbol}
+          details={[
+            { label: 'Strategy', value: confirmAction.strategyName },
+            ...(confirmAction.type === 'open' ? [
+              { label: 'Amount', value: `$${confirmAction.amount}` },
+              { label: 'Leverage', value: `${confirmAction.leverage}x` },
+            ] : []),
+            ...(confirmAction.stopLoss ? [{ label: 'Stop Loss', value: confirmAction.stopLoss.toFixed(2) }] : []),
+            ...(confirmAction.takeProfit ? [{ label: 'Take Profit', value: confirmAction.takeProfit.toFixed(2) }] : []),
+          ]}
+          checks={confirmAction.preTradeChecks}
+          onConfirm={handleConfirmAction}
+          onCancel={() => setConfirmAction(null)}
+        />
+      )}
     </div>
   );
 }
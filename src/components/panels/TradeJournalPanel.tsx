@@ -1,79 +1,94 @@
 /**
  * Trade Journal Panel
- * Log trades with reasoning, review performance, learn from mistakes
+ * Log trades with reasoning, review performance, learn from mistakes.
+ * Executions are captured as drafts by journalService; write them up here.
  * Commands: JOURNAL, LOG, DIARY
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import {
+  journalService,
+  type JournalEntry,
+  type JournalMatch,
+  type JournalStatus,
+} from '../../services/journalService';
+import {
+  BREAKDOWN_DIMENSIONS,
+  analyticsToCSV,
+  computeBreakdown,
+  computeMetrics,
+  dailyPnL,
+  dayKey,
+  type BreakdownDimension,
+} from '../../services/journalAnalytics';
+import { downloadCSV } from '../../services/exportService';
 import './TradeJournalPanel.css';
 
-interface JournalEntry {
-  id: string;
-  timestamp: string;
-  symbol: string;
-  side: 'BUY' | 'SELL';
-  entryPrice: number;
-  exitPrice?: number;
-  quantity: number;
-  status: 'open' | 'closed' | 'stopped';
-  reasoning: string;
-  emotions: string[];
-  setup: string;
-  lessons?: string;
-  profit?: number;
-  profitPercent?: number;
-  tags: string[];
-}
-
-type ViewMode = 'list' | 'add' | 'stats';
+type ViewMode = 'list' | 'add' | 'stats' | 'analytics';
 
 const EMOTION_OPTIONS = ['😊 Confident', '😰 Anxious', '😤 FOMO', '🤔 Uncertain', '😎 Calm', '😡 Revenge'];
 const SETUP_OPTIONS = ['Breakout', 'Pullback', 'Trend Follow', 'Mean Reversion', 'News', 'Earnings', 'Technical', 'Fundamental'];
+const CALENDAR_WEEKS = 26;
+
+function formatHolding(ms: number | null): string {
+  if (ms === null) return '—';
+  const hours = ms / 3_600_000;
+  if (hours < 1) return `${Math.round(ms / 60_000)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
 
-const STORAGE_KEY = 'etoro-terminal-journal';
+function formatRatio(value: number | null): string {
+  if (value === null) return '—';
+  return Number.isFinite(value) ? value.toFixed(2) : '∞';
+}
+
+/** Sunday-first columns of days, ending with the current week */
+function calendarWeeks(weeks: number): Date[][] {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay() - (weeks - 1) * 7);
+  return Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + w * 7 + d))
+  );
+}
 
 export default function TradeJournalPanel(_props: PanelContentProps) {
-  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [entries, setEntries] = useState<JournalEntry[]>(() => journalService.getEntries());
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
+  const [matching, setMatching] = useState<{ entryId: string; matches: JournalMatch[] } | null>(null);
+  const [dimension, setDimension] = useState<BreakdownDimension>('setup');
   
   // Form state
   const [symbol, setSymbol] = useState('');
   const [side, setSide] = useState<'BUY' | 'SELL'>('BUY');
   const [entryPrice, setEntryPrice] = useState('');
   const [exitPrice, setExitPrice] = useState('');
+  const [stopLoss, setStopLoss] = useState('');
   const [quantity, setQuantity] = useState('');
   const [reasoning, setReasoning] = useState('');
   const [selectedEmotions, setSelectedEmotions] = useState<string[]>([]);
   const [setup, setSetup] = useState('');
   const [lessons, setLessons] = useState('');
   const [tags, setTags] = useState('');
-  const [status, setStatus] = useState<'open' | 'closed' | 'stopped'>('open');
+  const [status, setStatus] = useState<JournalStatus>('open');
 
-  // Load entries from localStorage
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setEntries(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to load journal entries:', e);
-      }
-    }
+    return journalService.subscribe(() => setEntries(journalService.getEntries()));
   }, []);
 
-  // Save entries to localStorage
-  const saveEntries = useCallback((newEntries: JournalEntry[]) => {
-    setEntries(newEntries);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newEntries));
-  }, []);
+  const drafts = entries.filter(e => e.draft);
+  // Prices, size and result of a linked entry come from the broker
+  const linked = editingEntry?.positionId !== undefined;
 
   const resetForm = useCallback(() => {
     setSymbol('');
     setSide('BUY');
     setEntryPrice('');
     setExitPrice('');
+    setStopLoss('');
     setQuantity('');
     setReasoning('');
     setSelectedEmotions([]);
@@ -97,7 +112,10 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
     let profit: number | undefined;
     let profitPercent: number | undefined;
     
-    if (exit && status !== 'open') {
+    if (linked) {
+      profit = editingEntry.profit;
+      profitPercent = editingEntry.profitPercent;
+    } else if (exit && status !== 'open') {
       profit = side === 'BUY' 
         ? (exit - entry) * qty 
         : (entry - exit) * qty;
@@ -107,14 +125,17 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
     }
 
     const newEntry: JournalEntry = {
+      ...editingEntry,
       id: editingEntry?.id || `trade-${Date.now()}`,
       timestamp: editingEntry?.timestamp || new Date().toISOString(),
       symbol: symbol.toUpperCase(),
       side,
       entryPrice: entry,
       exitPrice: exit,
+      stopLoss: stopLoss ? parseFloat(stopLoss) : undefined,
       quantity: qty,
       status,
+      closedAt: status === 'open' ? undefined : editingEntry?.closedAt ?? new Date().toISOString(),
       reasoning,
       emotions: selectedEmotions,
       setup,
@@ -122,17 +143,14 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
       profit,
       profitPercent,
       tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+      source: editingEntry?.source ?? 'manual',
+      draft: false,
     };
 
-    if (editingEntry) {
-      saveEntries(entries.map(e => e.id === editingEntry.id ? newEntry : e));
-    } else {
-      saveEntries([newEntry, ...entries]);
-    }
-
+    journalService.saveEntry(newEntry);
     resetForm();
     setViewMode('list');
-  }, [symbol, side, entryPrice, exitPrice, quantity, status, reasoning, selectedEmotions, setup, lessons, tags, editingEntry, entries, saveEntries, resetForm]);
+  }, [symbol, side, entryPrice, exitPrice, stopLoss, quantity, status, reasoning, selectedEmotions, setup, lessons, tags, editingEntry, linked, resetForm]);
 
   const handleEdit = useCallback((entry: JournalEntry) => {
     setEditingEntry(entry);
@@ -140,6 +158,7 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
     setSide(entry.side);
     setEntryPrice(entry.entryPrice.toString());
     setExitPrice(entry.exitPrice?.toString() || '');
+    setStopLoss(entry.stopLoss?.toString() || '');
     setQuantity(entry.quantity.toString());
     setReasoning(entry.reasoning);
     setSelectedEmotions(entry.emotions);
@@ -152,9 +171,30 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
 
   const handleDelete = useCallback((id: string) => {
     if (confirm('Delete this journal entry?')) {
-      saveEntries(entries.filter(e => e.id !== id));
+      journalService.deleteEntry(id);
+    }
+  }, []);
+
+  const handleFindMatches = useCallback((entryId: string) => {
+    setMatching(current => current?.entryId === entryId
+      ? null
+      : { entryId, matches: journalService.findMatches(entryId) });
+  }, []);
+
+  const handleLink = useCallback((entryId: string, match: JournalMatch) => {
+    try {
+      journalService.linkToPosition(entryId, match);
+      setMatching(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to link entry');
     }
-  }, [entries, saveEntries]);
+  }, []);
+
+  const handleUnlink = useCallback((entry: JournalEntry) => {
+    if (confirm(`Unlink this entry from position #${entry.positionId}?`)) {
+      journalService.unlink(entry.id);
+    }
+  }, []);
 
   const toggleEmotion = useCallback((emotion: string) => {
     setSelectedEmotions(prev => 
@@ -164,6 +204,16 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
     );
   }, []);
 
+  const metrics = useMemo(() => computeMetrics(entries), [entries]);
+  const breakdown = useMemo(() => computeBreakdown(entries, dimension), [entries, dimension]);
+  const days = useMemo(() => dailyPnL(entries), [entries]);
+  const weeks = useMemo(() => calendarWeeks(CALENDAR_WEEKS), []);
+  const maxDayPnL = Math.max(0, ...Array.from(days.values(), Math.abs));
+
+  const handleExportAnalytics = useCallback(() => {
+    downloadCSV(analyticsToCSV(entries), `journal-analytics-${dayKey(new Date())}.csv`);
+  }, [entries]);
+
   // Stats calculations
   const stats = {
     totalTrades: entries.length,
@@ -203,26 +253,47 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
           >
             📊 Stats
           </button>
+          <button 
+            className={`tj-tab ${viewMode === 'analytics' ? 'active' : ''}`}
+            onClick={() => setViewMode('analytics')}
+          >
+            🔬 Analytics
+          </button>
         </div>
       </div>
 
       {viewMode === 'list' && (
         <div className="tj-entries">
+          {drafts.length > 0 && (
+            <div className="tj-drafts-banner">
+              <span>
+                📝 {drafts.length} {drafts.length === 1 ? 'trade was' : 'trades were'} captured automatically and
+                {drafts.length === 1 ? ' needs' : ' need'} your notes
+              </span>
+              <button onClick={() => handleEdit(drafts[0])}>Write up next</button>
+            </div>
+          )}
           {entries.length === 0 ? (
             <div className="tj-empty">
               <p>No journal entries yet.</p>
-              <p className="tj-empty-hint">Start logging your trades to track performance and learn from mistakes.</p>
+              <p className="tj-empty-hint">Trades you open are captured here as drafts. You can also log trades by hand.</p>
               <button className="tj-add-first-btn" onClick={() => setViewMode('add')}>
                 ➕ Add First Entry
               </button>
             </div>
           ) : (
             entries.map(entry => (
-              <div key={entry.id} className={`tj-entry ${entry.status}`}>
+              <div key={entry.id} className={`tj-entry ${entry.status} ${entry.draft ? 'draft' : ''}`}>
                 <div className="tj-entry-header">
                   <span className={`tj-entry-side ${entry.side.toLowerCase()}`}>{entry.side}</span>
                   <span className="tj-entry-symbol">{entry.symbol}</span>
                   <span className="tj-entry-status">{entry.status.toUpperCase()}</span>
+                  {entry.draft && <span className="tj-entry-draft">DRAFT</span>}
+                  {entry.positionId !== undefined && (
+                    <span className="tj-entry-position" title={`Linked to ${entry.mode ?? ''} position #${entry.positionId}`}>
+                      🔗 #{entry.positionId}
+                    </span>
+                  )}
                   {entry.profit !== undefined && (
                     <span className={`tj-entry-profit ${entry.profit >= 0 ? 'positive' : 'negative'}`}>
                       {entry.profit >= 0 ? '+' : ''}{entry.profit.toFixed(2)} ({entry.profitPercent?.toFixed(1)}%)
@@ -234,9 +305,15 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                   {entry.exitPrice && <span>Exit: ${entry.exitPrice}</span>}
                   <span>Qty: {entry.quantity}</span>
                 </div>
-                <div className="tj-entry-reasoning">
-                  <strong>Why:</strong> {entry.reasoning}
-                </div>
+                {entry.draft && !entry.reasoning ? (
+                  <div className="tj-entry-prompt">
+                    Captured from your {entry.source === 'auto' ? 'execution' : 'trade'}. Why did you take it, what was the setup, and how did you feel?
+                  </div>
+                ) : (
+                  <div className="tj-entry-reasoning">
+                    <strong>Why:</strong> {entry.reasoning}
+                  </div>
+                )}
                 {entry.lessons && (
                   <div className="tj-entry-lessons">
                     <strong>Lessons:</strong> {entry.lessons}
@@ -250,9 +327,32 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                   )}
                 </div>
                 <div className="tj-entry-actions">
-                  <button onClick={() => handleEdit(entry)}>✏️ Edit</button>
+                  <button onClick={() => handleEdit(entry)}>{entry.draft ? '📝 Write up' : '✏️ Edit'}</button>
+                  {entry.positionId === undefined ? (
+                    <button onClick={() => handleFindMatches(entry.id)}>🔗 Match</button>
+                  ) : (
+                    <button onClick={() => handleUnlink(entry)}>Unlink</button>
+                  )}
                   <button onClick={() => handleDelete(entry.id)}>🗑️ Delete</button>
                 </div>
+                {matching?.entryId === entry.id && (
+                  <div className="tj-matches">
+                    {matching.matches.length === 0 ? (
+                      <div className="tj-matches-empty">No {entry.side} {entry.symbol} positions to link to.</div>
+                    ) : (
+                      matching.matches.map(match => (
+                        <div key={`${match.mode}-${match.positionId}`} className="tj-match">
+                          <span>#{match.positionId}</span>
+                          <span>{match.mode.toUpperCase()}</span>
+                          <span>{match.quantity} @ ${match.entryPrice}</span>
+                          <span>{new Date(match.openedAt).toLocaleDateString()}</span>
+                          <span>{match.status.toUpperCase()}</span>
+                          <button onClick={() => handleLink(entry.id, match)}>Link</button>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -261,6 +361,11 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
 
       {viewMode === 'add' && (
         <div className="tj-form">
+          {linked && (
+            <div className="tj-form-linked">
+              🔗 Linked to {editingEntry?.mode ?? ''} position #{editingEntry?.positionId}. Prices, size and P/L come from the broker.
+            </div>
+          )}
           <div className="tj-form-row">
             <div className="tj-form-field">
               <label>Symbol *</label>
@@ -268,6 +373,7 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                 type="text" 
                 value={symbol} 
                 onChange={e => setSymbol(e.target.value)}
+                disabled={linked}
                 placeholder="AAPL"
               />
             </div>
@@ -277,10 +383,12 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                 <button 
                   className={`tj-side-btn buy ${side === 'BUY' ? 'active' : ''}`}
                   onClick={() => setSide('BUY')}
+                  disabled={linked}
                 >BUY</button>
                 <button 
                   className={`tj-side-btn sell ${side === 'SELL' ? 'active' : ''}`}
                   onClick={() => setSide('SELL')}
+                  disabled={linked}
                 >SELL</button>
               </div>
             </div>
@@ -293,6 +401,7 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                 type="number" 
                 value={entryPrice} 
                 onChange={e => setEntryPrice(e.target.value)}
+                disabled={linked}
                 placeholder="100.00"
               />
             </div>
@@ -302,6 +411,7 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                 type="number" 
                 value={exitPrice} 
                 onChange={e => setExitPrice(e.target.value)}
+                disabled={linked}
                 placeholder="105.00"
               />
             </div>
@@ -311,9 +421,20 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                 type="number" 
                 value={quantity} 
                 onChange={e => setQuantity(e.target.value)}
+                disabled={linked}
                 placeholder="10"
               />
             </div>
+            <div className="tj-form-field">
+              <label>Planned Stop</label>
+              <input 
+                type="number" 
+                value={stopLoss} 
+                onChange={e => setStopLoss(e.target.value)}
+                placeholder="95.00"
+                title="Where you planned to exit if wrong; used for R-multiples"
+              />
+            </div>
           </div>
 
           <div className="tj-form-field">
@@ -324,6 +445,7 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
                   key={s}
                   className={`tj-status-btn ${status === s ? 'active' : ''}`}
                   onClick={() => setStatus(s)}
+                  disabled={linked}
                 >{s.toUpperCase()}</button>
               ))}
             </div>
@@ -443,6 +565,118 @@ export default function TradeJournalPanel(_props: PanelContentProps) {
           </div>
         </div>
       )}
+
+      {viewMode === 'analytics' && (
+        <div className="tj-analytics">
+          {metrics.trades === 0 ? (
+            <div className="tj-empty">
+              <p>No closed trades yet.</p>
+              <p className="tj-empty-hint">Analytics cover closed entries with a recorded P/L.</p>
+            </div>
+          ) : (
+            <>
+              <div className="tj-stat-grid">
+                <div className="tj-stat-card">
+                  <span className="tj-stat-value">{metrics.winRate.toFixed(1)}%</span>
+                  <span className="tj-stat-label">Win Rate ({metrics.trades})</span>
+                </div>
+                <div className="tj-stat-card">
+                  <span className={`tj-stat-value ${metrics.expectancy >= 0 ? 'positive' : 'negative'}`}>
+                    ${metrics.expectancy.toFixed(2)}
+                  </span>
+                  <span className="tj-stat-label">
+                    Expectancy{metrics.expectancyPercent !== null && ` (${metrics.expectancyPercent.toFixed(2)}%)`}
+                  </span>
+                </div>
+                <div className="tj-stat-card">
+                  <span className="tj-stat-value">{formatRatio(metrics.profitFactor)}</span>
+                  <span className="tj-stat-label">Profit Factor</span>
+                </div>
+                <div className="tj-stat-card">
+                  <span className="tj-stat-value">{metrics.avgR === null ? '—' : `${metrics.avgR.toFixed(2)}R`}</span>
+                  <span className="tj-stat-label">Avg R ({metrics.rTrades} with stop)</span>
+                </div>
+                <div className="tj-stat-card">
+                  <span className="tj-stat-value">{formatHolding(metrics.avgHoldingMs)}</span>
+                  <span className="tj-stat-label">Avg Holding</span>
+                </div>
+                <div className="tj-stat-card">
+                  <span className={`tj-stat-value ${metrics.totalProfit >= 0 ? 'positive' : 'negative'}`}>
+                    ${metrics.totalProfit.toFixed(2)}
+                  </span>
+                  <span className="tj-stat-label">Total P/L</span>
+                </div>
+              </div>
+
+              <div className="tj-analytics-section">
+                <div className="tj-analytics-toolbar">
+                  <div className="tj-dimension-buttons">
+                    {BREAKDOWN_DIMENSIONS.map(d => (
+                      <button
+                        key={d.id}
+                        className={`tj-status-btn ${dimension === d.id ? 'active' : ''}`}
+                        onClick={() => setDimension(d.id)}
+                      >{d.label.toUpperCase()}</button>
+                    ))}
+                  </div>
+                  <button className="tj-export-btn" onClick={handleExportAnalytics}>⬇ CSV</button>
+                </div>
+                <table className="tj-breakdown">
+                  <thead>
+                    <tr>
+                      <th>{BREAKDOWN_DIMENSIONS.find(d => d.id === dimension)?.label}</th>
+                      <th>Trades</th>
+                      <th>Win %</th>
+                      <th>Expectancy</th>
+                      <th>PF</th>
+                      <th>Avg R</th>
+                      <th>Holding</th>
+                      <th>P/L</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {breakdown.map(({ key, metrics: m }) => (
+                      <tr key={key}>
+                        <td>{key}</td>
+                        <td>{m.trades}</td>
+                        <td>{m.winRate.toFixed(0)}%</td>
+                        <td className={m.expectancy >= 0 ? 'positive' : 'negative'}>{m.expectancy.toFixed(2)}</td>
+                        <td>{formatRatio(m.profitFactor)}</td>
+                        <td>{formatRatio(m.avgR)}</td>
+                        <td>{formatHolding(m.avgHoldingMs)}</td>
+                        <td className={m.totalProfit >= 0 ? 'positive' : 'negative'}>{m.totalProfit.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="tj-analytics-section">
+                <h4>📅 Daily P/L</h4>
+                <div className="tj-calendar">
+                  {weeks.map(week => (
+                    <div key={dayKey(week[0])} className="tj-calendar-week">
+                      {week.map(day => {
+                        const key = dayKey(day);
+                        const pnl = days.get(key);
+                        const intensity = pnl !== undefined && maxDayPnL > 0 ? 0.25 + 0.75 * (Math.abs(pnl) / maxDayPnL) : 0;
+                        return (
+                          <div
+                            key={key}
+                            className={`tj-calendar-day ${pnl === undefined ? '' : pnl >= 0 ? 'positive' : 'negative'}`}
+                            style={pnl === undefined ? undefined : { opacity: intensity }}
+                            title={pnl === undefined ? key : `${key}: ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}`}
+                          />
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,23 +2,57 @@ import { useState, useCallback, useEffect, useRef, KeyboardEvent } from 'react';
 import { useTradingMode } from '../../contexts/TradingModeContext';
 import { keyManager } from '../../services/keyManager';
 import { getTradingAdapter } from '../../api/adapters/tradingAdapter';
-import { useWorkspaceContext } from '../../contexts/WorkspaceContext';
+import { OrderOutcomeUnknownError } from '../../api/adapters/orderReconciliation';
+import { useWorkspaceContext, usePanelIntent, type PanelIntent } from '../../contexts/WorkspaceContext';
 import { useActiveSymbol } from '../Workspace/ActiveSymbolContext';
 import { symbolResolver } from '../../services/symbolResolver';
 import { activityStore } from '../../stores/activityStore';
+import { quotesStore } from '../../stores/quotesStore';
+import { streamingService } from '../../services/streamingService';
+import { useShortcut, useShortcutKeys, ariaHelpers } from '../../utils/accessibility';
+import { preTradeCheckEngine, getBlockingChecks, PreTradeOrder } from '../../services/preTradeChecks';
+import type { PreTradeCheck } from '../../types/strategy.types';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import type { PriceValue } from '../Workspace/CommandRegistry';
+import PreTradeChecksList from '../PreTradeChecksList';
+import TradeConfirmationDialog from '../TradeConfirmationDialog';
 import './TradeTicket.css';
 
 export type InputMode = 'amount' | 'units';
+export type OrderKind = 'market' | 'limit';
 export type LeverageOption = '1x' | '2x' | '5x' | '10x' | '20x';
 export type OrderSide = 'buy' | 'sell';
 
 export interface TradeTicketData {
   symbol: string;
   side: OrderSide;
+  orderKind: OrderKind;
   inputMode: InputMode;
   value: number;
   leverage: LeverageOption;
+  limitRate?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * Sent by the BUY and SELL commands. It only fills in the ticket; the order
+ * is submitted with the BUY/SELL button and confirmed as usual.
+ */
+export interface TradeTicketIntent extends PanelIntent {
+  symbol: string;
+  instrumentId?: number;
+  side: OrderSide;
+  amount: number;
+  leverage?: number;
+  limitRate?: number;
+  /** A rate, or a percent from the entry price */
+  stopLoss?: PriceValue;
+  takeProfit?: PriceValue;
+}
+
+interface PercentProtection {
+  side: OrderSide;
   stopLoss?: number;
   takeProfit?: number;
 }
@@ -32,6 +66,23 @@ export interface TradeTicketProps extends PanelContentProps {
 
 const LEVERAGE_OPTIONS: LeverageOption[] = ['1x', '2x', '5x', '10x', '20x'];
 
+function roundRate(rate: number): number {
+  return Number(rate.toFixed(rate >= 100 ? 2 : rate >= 1 ? 4 : 6));
+}
+
+/** Stop loss and take profit rates a percent away from `price`, on the losing and winning side */
+function protectionRates(price: number, protection: PercentProtection): { stopLoss?: number; takeProfit?: number } {
+  const direction = protection.side === 'buy' ? 1 : -1;
+  return {
+    stopLoss: protection.stopLoss !== undefined
+      ? roundRate(price * (1 - direction * Math.abs(protection.stopLoss) / 100))
+      : undefined,
+    takeProfit: protection.takeProfit !== undefined
+      ? roundRate(price * (1 + direction * Math.abs(protection.takeProfit) / 100))
+      : undefined,
+  };
+}
+
 export default function TradeTicket({ symbol: propSymbol = '', instrumentId: propInstrumentId, onSubmit, onCancel }: TradeTicketProps = { panelId: '' }) {
   const { isRealMode, isDemoMode, requiresConfirmation } = useTradingMode();
   const { getPendingSymbol } = useWorkspaceContext();
@@ -41,7 +92,9 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
 
   const [symbol, setSymbol] = useState(propSymbol);
   const [instrumentId, setInstrumentId] = useState<number | undefined>(propInstrumentId);
+  const [orderKind, setOrderKind] = useState<OrderKind>('market');
   const [inputMode, setInputMode] = useState<InputMode>('amount');
+  const [limitRate, setLimitRate] = useState<string>('');
   const [inputValue, setInputValue] = useState<string>('');
   const [leverage, setLeverage] = useState<LeverageOption>('1x');
   const [stopLoss, setStopLoss] = useState<string>('');
@@ -51,6 +104,16 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [lastOrderStatus, setLastOrderStatus] = useState<'success' | 'rejected' | null>(null);
+  const [checks, setChecks] = useState<PreTradeCheck[]>([]);
+  // Side chosen by a BUY/SELL command, highlighted until the order is sent
+  const [stagedSide, setStagedSide] = useState<OrderSide | null>(null);
+  // Percent stop loss/take profit waiting for a price to convert them to rates
+  const [percentProtection, setPercentProtection] = useState<PercentProtection | null>(null);
+  const symbolRef = useRef(symbol);
+  symbolRef.current = symbol;
+  const ticketRef = useRef<HTMLDivElement>(null);
+  const buyKeys = useShortcutKeys('trade-ticket.buy');
+  const sellKeys = useShortcutKeys('trade-ticket.sell');
 
   // Check for pending symbol on mount
   useEffect(() => {
@@ -78,26 +141,110 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
     if (activeSymbol && activeSymbol !== symbol) {
       setSymbol(activeSymbol);
       symbolResolver.resolveSymbol(activeSymbol).then((resolved) => {
-        if (resolved) {
+        // A command may have switched the ticket to another symbol meanwhile
+        if (resolved && symbolRef.current === activeSymbol) {
           setInstrumentId(resolved.instrumentId);
         }
       });
     }
   }, [activeSymbol]);
 
+  usePanelIntent<TradeTicketIntent>('TRD', (intent) => {
+    setSymbol(intent.symbol);
+    setInstrumentId(intent.instrumentId);
+    if (!intent.instrumentId) {
+      symbolResolver.resolveSymbol(intent.symbol).then((resolved) => {
+        if (resolved && symbolRef.current === intent.symbol) {
+          setInstrumentId(resolved.instrumentId);
+        }
+      });
+    }
+
+    setOrderKind(intent.limitRate ? 'limit' : 'market');
+    setLimitRate(intent.limitRate ? String(intent.limitRate) : '');
+    setInputMode('amount');
+    setInputValue(String(intent.amount));
+    if (intent.leverage) {
+      setLeverage(`${intent.leverage}x` as LeverageOption);
+    }
+
+    const rateOf = (value?: PriceValue) => (value && !value.isPercent ? String(value.value) : '');
+    setStopLoss(rateOf(intent.stopLoss));
+    setTakeProfit(rateOf(intent.takeProfit));
+    const stopPercent = intent.stopLoss?.isPercent ? intent.stopLoss.value : undefined;
+    const profitPercent = intent.takeProfit?.isPercent ? intent.takeProfit.value : undefined;
+    setPercentProtection(stopPercent !== undefined || profitPercent !== undefined
+      ? { side: intent.side, stopLoss: stopPercent, takeProfit: profitPercent }
+      : null);
+
+    setStagedSide(intent.side);
+    setChecks([]);
+    setSubmitError(null);
+    setLastOrderStatus(null);
+  });
+
+  // Percents are measured from the limit rate, or the live price for market orders
+  useEffect(() => {
+    if (!percentProtection || !instrumentId) return;
+
+    const apply = (price: number) => {
+      const rates = protectionRates(price, percentProtection);
+      if (rates.stopLoss !== undefined) setStopLoss(String(rates.stopLoss));
+      if (rates.takeProfit !== undefined) setTakeProfit(String(rates.takeProfit));
+      setPercentProtection(null);
+    };
+
+    const entry = orderKind === 'limit' ? parseFloat(limitRate) : quotesStore.getQuote(instrumentId)?.lastPrice;
+    if (entry && entry > 0) {
+      apply(entry);
+      return;
+    }
+
+    streamingService.subscribeToInstrument(instrumentId);
+    return quotesStore.subscribe(instrumentId, (quote) => {
+      if (quote.lastPrice > 0) apply(quote.lastPrice);
+    });
+  }, [percentProtection, instrumentId, orderKind, limitRate]);
+
   const isDisabled = !hasApiKeys || isSubmitting;
   const value = parseFloat(inputValue) || 0;
+  const rate = parseFloat(limitRate) || 0;
+  const isLimit = orderKind === 'limit';
+  const canSubmit = value > 0 && (!isLimit || rate > 0);
 
   const buildTradeData = (side: OrderSide): TradeTicketData => ({
     symbol,
     side,
+    orderKind,
     inputMode,
     value,
     leverage,
+    limitRate: isLimit ? rate : undefined,
     stopLoss: stopLoss ? parseFloat(stopLoss) : undefined,
     takeProfit: takeProfit ? parseFloat(takeProfit) : undefined,
   });
 
+  const runChecks = useCallback(async (side: OrderSide, confirmed?: boolean): Promise<boolean> => {
+    const leverageValue = parseInt(leverage.replace('x', ''), 10);
+    // Units are sized at the last price; without a quote the size check can only warn
+    const price = instrumentId ? quotesStore.getQuote(instrumentId)?.lastPrice ?? 0 : 0;
+    const order: PreTradeOrder = {
+      symbol,
+      instrumentId,
+      action: 'open',
+      side,
+      amount: inputMode === 'amount' ? value : value * price,
+      leverage: leverageValue,
+      stopLoss: stopLoss ? parseFloat(stopLoss) : undefined,
+      takeProfit: takeProfit ? parseFloat(takeProfit) : undefined,
+      mode: isDemoMode() ? 'demo' : 'real',
+      confirmed,
+    };
+    const results = await preTradeCheckEngine.run(order);
+    setChecks(results);
+    return getBlockingChecks(results).length === 0;
+  }, [symbol, instrumentId, inputMode, value, leverage, stopLoss, takeProfit, isDemoMode]);
+
   const executeTrade = useCallback(async (side: OrderSide) => {
     if (!instrumentId) {
       setSubmitError('No instrument selected');
@@ -115,7 +262,18 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
       const isBuy = side === 'buy';
       const instrumentInfo = { symbol, displayName: symbol };
 
-      if (inputMode === 'amount') {
+      if (isLimit) {
+        await tradingAdapter.placeLimitOrder(
+          instrumentId,
+          value,
+          isBuy,
+          leverageValue,
+          rate,
+          stopLoss ? parseFloat(stopLoss) : undefined,
+          takeProfit ? parseFloat(takeProfit) : undefined,
+          instrumentInfo
+        );
+      } else if (inputMode === 'amount') {
         await tradingAdapter.openPositionByAmount(
           instrumentId,
           value,
@@ -140,11 +298,18 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
 
       // Add activity notification for successful trade
       const activityMode = isDemoMode() ? 'demo' : 'real';
-      activityStore.addTradeOpen(activityMode, symbol, value, side);
+      if (isLimit) {
+        activityStore.addOrderPlaced(activityMode, symbol, value, side, rate);
+      } else {
+        activityStore.addTradeOpen(activityMode, symbol, value, side);
+      }
 
       setLastOrderStatus('success');
+      setChecks([]);
+      setStagedSide(null);
       onSubmit?.(buildTradeData(side));
       setInputValue('');
+      setLimitRate('');
       setStopLoss('');
       setTakeProfit('');
       
@@ -155,19 +320,24 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
       setSubmitError(message);
       setLastOrderStatus('rejected');
       
-      // Add activity notification for failed trade
-      const activityMode = isDemoMode() ? 'demo' : 'real';
-      activityStore.addOrderRejected(activityMode, symbol, message);
+      // An unknown outcome is not a rejection; the blotter flags it for verification
+      if (!(err instanceof OrderOutcomeUnknownError)) {
+        const activityMode = isDemoMode() ? 'demo' : 'real';
+        activityStore.addOrderRejected(activityMode, symbol, message);
+      }
     } finally {
       setIsSubmitting(false);
     }
-  }, [instrumentId, isDemoMode, leverage, inputMode, value, stopLoss, takeProfit, symbol, onSubmit]);
+  }, [instrumentId, isDemoMode, leverage, isLimit, rate, inputMode, value, stopLoss, takeProfit, symbol, onSubmit]);
 
-  const handleTrade = useCallback((side: OrderSide) => {
-    if (isDisabled || value <= 0) return;
+  const handleTrade = useCallback(async (side: OrderSide) => {
+    if (isDisabled || !canSubmit) return;
 
     setSubmitError(null);
 
+    // Confirmation is asked after the other checks pass, so it is left out here
+    if (!(await runChecks(side))) return;
+
     if (requiresConfirmation()) {
       setPendingSide(side);
       setShowConfirmation(true);
@@ -175,15 +345,16 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
     }
 
     executeTrade(side);
-  }, [isDisabled, value, requiresConfirmation, executeTrade]);
+  }, [isDisabled, canSubmit, runChecks, requiresConfirmation, executeTrade]);
 
-  const confirmTrade = useCallback(() => {
-    if (pendingSide) {
-      executeTrade(pendingSide);
-    }
+  const confirmTrade = useCallback(async () => {
+    const side = pendingSide;
     setShowConfirmation(false);
     setPendingSide(null);
-  }, [pendingSide, executeTrade]);
+    if (side && await runChecks(side, true)) {
+      executeTrade(side);
+    }
+  }, [pendingSide, runChecks, executeTrade]);
 
   const cancelConfirmation = useCallback(() => {
     setShowConfirmation(false);
@@ -199,22 +370,18 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
     }
   }, [onCancel]);
 
-  const handleGlobalKeyDown = useCallback((e: KeyboardEvent<HTMLDivElement>) => {
-    if (isDisabled) return;
-    
-    if (e.key === 'b' && e.ctrlKey) {
-      e.preventDefault();
-      handleTrade('buy');
-    } else if (e.key === 's' && e.ctrlKey) {
-      e.preventDefault();
-      handleTrade('sell');
-    }
-  }, [isDisabled, handleTrade]);
+  useShortcut('trade-ticket.buy', () => {
+    if (!isDisabled) handleTrade('buy');
+  }, { ref: ticketRef });
+
+  useShortcut('trade-ticket.sell', () => {
+    if (!isDisabled) handleTrade('sell');
+  }, { ref: ticketRef });
 
   return (
     <div 
+      ref={ticketRef}
       className="trade-ticket" 
-      onKeyDown={handleGlobalKeyDown} 
       tabIndex={0}
       role="region"
       aria-label={`Trade ticket${symbol ? ` for ${symbol}` : ''}`}
@@ -262,6 +429,15 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
         </div>
       )}
 
+      {checks.some(c => !c.passed) && (
+        <div className="trade-ticket-checks" role="alert">
+          <div className="trade-ticket-checks-title">
+            {getBlockingChecks(checks).length > 0 ? 'BLOCKED BY PRE-TRADE CHECKS' : 'PRE-TRADE WARNINGS'}
+          </div>
+          <PreTradeChecksList checks={checks} failedOnly />
+        </div>
+      )}
+
       {isSubmitting && (
         <div className="trade-ticket-status trade-ticket-status--loading" role="status" aria-live="polite">
           <div className="trade-ticket-status-icon spinning">◐</div>
@@ -272,6 +448,32 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
       )}
 
       <div className="trade-ticket-body">
+        <div className="trade-ticket-row">
+          <span className="trade-ticket-label" id="order-type-label">Order Type:</span>
+          <div className="trade-ticket-toggle" role="group" aria-labelledby="order-type-label">
+            <button
+              className={`toggle-btn ${orderKind === 'market' ? 'active' : ''}`}
+              onClick={() => setOrderKind('market')}
+              disabled={isDisabled}
+              aria-pressed={orderKind === 'market'}
+            >
+              Market
+            </button>
+            <button
+              className={`toggle-btn ${orderKind === 'limit' ? 'active' : ''}`}
+              onClick={() => {
+                // Limit orders are placed by amount
+                setOrderKind('limit');
+                setInputMode('amount');
+              }}
+              disabled={isDisabled}
+              aria-pressed={orderKind === 'limit'}
+            >
+              Limit
+            </button>
+          </div>
+        </div>
+
         <div className="trade-ticket-row">
           <span className="trade-ticket-label" id="input-type-label">Input Type:</span>
           <div className="trade-ticket-toggle" role="group" aria-labelledby="input-type-label">
@@ -286,7 +488,7 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
             <button
               className={`toggle-btn ${inputMode === 'units' ? 'active' : ''}`}
               onClick={() => setInputMode('units')}
-              disabled={isDisabled}
+              disabled={isDisabled || isLimit}
               aria-pressed={inputMode === 'units'}
             >
               Units
@@ -313,6 +515,24 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
           />
         </div>
 
+        {isLimit && (
+          <div className="trade-ticket-row">
+            <label className="trade-ticket-label" htmlFor="trade-limit-rate">Limit Rate:</label>
+            <input
+              id="trade-limit-rate"
+              type="number"
+              className="trade-ticket-input"
+              value={limitRate}
+              onChange={(e) => setLimitRate(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Trigger price"
+              min="0"
+              step="0.01"
+              disabled={isDisabled}
+            />
+          </div>
+        )}
+
         <div className="trade-ticket-row">
           <label className="trade-ticket-label" htmlFor="trade-leverage">Leverage:</label>
           <select
@@ -337,7 +557,7 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
             value={stopLoss}
             onChange={(e) => setStopLoss(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Optional"
+            placeholder={percentProtection?.stopLoss !== undefined ? `${Math.abs(percentProtection.stopLoss)}% - waiting for price` : 'Optional'}
             min="0"
             step="0.01"
             disabled={isDisabled}
@@ -353,63 +573,62 @@ export default function TradeTicket({ symbol: propSymbol = '', instrumentId: pro
             value={takeProfit}
             onChange={(e) => setTakeProfit(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Optional"
+            placeholder={percentProtection?.takeProfit !== undefined ? `${Math.abs(percentProtection.takeProfit)}% - waiting for price` : 'Optional'}
             min="0"
             step="0.01"
             disabled={isDisabled}
           />
         </div>
 
+        {stagedSide && (
+          <div className="trade-ticket-staged" role="status">
+            STAGED {stagedSide.toUpperCase()} - review, then press {stagedSide.toUpperCase()} to submit
+          </div>
+        )}
+
         <div className="trade-ticket-actions" role="group" aria-label="Trade actions">
           <button
-            className="trade-btn buy-btn"
+            className={`trade-btn buy-btn ${stagedSide === 'buy' ? 'trade-btn--staged' : ''}`}
             onClick={() => handleTrade('buy')}
-            disabled={isDisabled || value <= 0}
-            aria-label={`Buy ${symbol || 'instrument'}, keyboard shortcut Ctrl+B`}
-            aria-keyshortcuts="Control+B"
+            disabled={isDisabled || !canSubmit}
+            aria-label={`Buy ${symbol || 'instrument'}${buyKeys ? `, keyboard shortcut ${buyKeys}` : ''}`}
+            aria-keyshortcuts={ariaHelpers.keyShortcuts(buyKeys)}
           >
             BUY
           </button>
           <button
-            className="trade-btn sell-btn"
+            className={`trade-btn sell-btn ${stagedSide === 'sell' ? 'trade-btn--staged' : ''}`}
             onClick={() => handleTrade('sell')}
-            disabled={isDisabled || value <= 0}
-            aria-label={`Sell ${symbol || 'instrument'}, keyboard shortcut Ctrl+S`}
-            aria-keyshortcuts="Control+S"
+            disabled={isDisabled || !canSubmit}
+            aria-label={`Sell ${symbol || 'instrument'}${sellKeys ? `, keyboard shortcut ${sellKeys}` : ''}`}
+            aria-keyshortcuts={ariaHelpers.keyShortcuts(sellKeys)}
           >
             SELL
           </button>
         </div>
 
         <div className="trade-ticket-shortcuts">
-          <span className="shortcut-hint">Ctrl+B: Buy | Ctrl+S: Sell | Esc: Cancel</span>
+          <span className="shortcut-hint">
+            {[buyKeys && `${buyKeys}: Buy`, sellKeys && `${sellKeys}: Sell`, 'Esc: Cancel'].filter(Boolean).join(' | ')}
+          </span>
         </div>
       </div>
 
-      {showConfirmation && (
-        <div className="trade-confirmation-overlay" role="presentation">
-          <div 
-            className="trade-confirmation-dialog"
-            role="alertdialog"
-            aria-modal="true"
-            aria-labelledby="confirm-dialog-title"
-            aria-describedby="confirm-dialog-desc"
-          >
-            <div className="confirmation-header" id="confirm-dialog-title">⚠ CONFIRM {pendingSide?.toUpperCase()} ORDER</div>
-            <div className="confirmation-body" id="confirm-dialog-desc">
-              <p>You are about to place a <strong>{pendingSide?.toUpperCase()}</strong> order in <strong>REAL MODE</strong>.</p>
-              <p>Symbol: <strong>{symbol}</strong></p>
-              <p>{inputMode === 'amount' ? 'Amount' : 'Units'}: <strong>{value}</strong></p>
-              <p>Leverage: <strong>{leverage}</strong></p>
-              {stopLoss && <p>Stop Loss: <strong>{stopLoss}</strong></p>}
-              {takeProfit && <p>Take Profit: <strong>{takeProfit}</strong></p>}
-            </div>
-            <div className="confirmation-actions">
-              <button className="confirm-btn" onClick={confirmTrade} aria-label="Confirm trade order">CONFIRM</button>
-              <button className="cancel-btn" onClick={cancelConfirmation} aria-label="Cancel trade order">CANCEL</button>
-            </div>
-          </div>
-        </div>
+      {showConfirmation && pendingSide && (
+        <TradeConfirmationDialog
+          orderLabel={pendingSide.toUpperCase()}
+          symbol={symbol}
+          details={[
+            { label: 'Order Type', value: isLimit ? `LIMIT @ ${rate}` : 'MARKET' },
+            { label: inputMode === 'amount' ? 'Amount' : 'Units', value },
+            { label: 'Leverage', value: leverage },
+            ...(stopLoss ? [{ label: 'Stop Loss', value: stopLoss }] : []),
+            ...(takeProfit ? [{ label: 'Take Profit', value: takeProfit }] : []),
+          ]}
+          checks={checks}
+          onConfirm={confirmTrade}
+          onCancel={cancelConfirmation}
+        />
       )}
     </div>
   );
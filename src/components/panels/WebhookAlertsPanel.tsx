@@ -6,73 +6,63 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { PanelContentProps } from '../Workspace/PanelRegistry';
+import {
+  webhookDispatcher,
+  type WebhookConfig,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from '../../services/webhookDispatcher';
 import './WebhookAlertsPanel.css';
 
-interface WebhookConfig {
-  id: string;
-  name: string;
-  url: string;
-  enabled: boolean;
-  events: string[];
-  createdAt: string;
-  lastTriggered?: string;
-  triggerCount: number;
-}
-
-type AlertEvent = 
-  | 'price_above'
-  | 'price_below'
-  | 'position_opened'
-  | 'position_closed'
-  | 'profit_target'
-  | 'stop_loss'
-  | 'daily_summary';
-
-const EVENT_OPTIONS: { value: AlertEvent; label: string; description: string }[] = [
+const EVENT_OPTIONS: { value: WebhookEvent; label: string; description: string }[] = [
   { value: 'price_above', label: '📈 Price Above', description: 'When a symbol crosses above a threshold' },
   { value: 'price_below', label: '📉 Price Below', description: 'When a symbol drops below a threshold' },
   { value: 'position_opened', label: '🟢 Position Opened', description: 'When a new position is opened' },
   { value: 'position_closed', label: '🔴 Position Closed', description: 'When a position is closed' },
   { value: 'profit_target', label: '🎯 Profit Target', description: 'When profit reaches a target %' },
   { value: 'stop_loss', label: '🛑 Stop Loss', description: 'When a stop loss is triggered' },
+  { value: 'portfolio_alert', label: '💼 Portfolio Alert', description: 'When a P&L, drawdown or position alert fires' },
   { value: 'daily_summary', label: '📊 Daily Summary', description: 'Daily portfolio summary at market close' },
 ];
 
-const STORAGE_KEY = 'etoro-terminal-webhooks';
+const DEFAULT_PROFIT_TARGET = 10;
+
+function formatDeliveryStatus(delivery: WebhookDelivery): string {
+  const status = delivery.statusCode !== null ? `HTTP ${delivery.statusCode}` : 'no response';
+  const retries = delivery.attempts > 1 ? `, ${delivery.attempts} attempts` : '';
+  return `${status} in ${delivery.latencyMs}ms${retries}`;
+}
 
 export default function WebhookAlertsPanel(_props: PanelContentProps) {
   const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [testResult, setTestResult] = useState<{ id: string; success: boolean; message: string } | null>(null);
+  const [logOpenId, setLogOpenId] = useState<string | null>(null);
   
   // Form state
   const [name, setName] = useState('');
   const [url, setUrl] = useState('');
   const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [secret, setSecret] = useState('');
+  const [profitTarget, setProfitTarget] = useState(String(DEFAULT_PROFIT_TARGET));
 
-  // Load from localStorage
+  // Webhooks live in the dispatcher, which also updates them after each delivery
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setWebhooks(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to load webhooks:', e);
-      }
-    }
+    setWebhooks(webhookDispatcher.getWebhooks());
+    return webhookDispatcher.subscribe(() => setWebhooks(webhookDispatcher.getWebhooks()));
   }, []);
 
-  // Save to localStorage
   const saveWebhooks = useCallback((newWebhooks: WebhookConfig[]) => {
-    setWebhooks(newWebhooks);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newWebhooks));
+    webhookDispatcher.saveWebhooks(newWebhooks);
   }, []);
 
   const resetForm = useCallback(() => {
     setName('');
     setUrl('');
     setSelectedEvents([]);
+    setSecret('');
+    setProfitTarget(String(DEFAULT_PROFIT_TARGET));
     setEditingId(null);
     setShowForm(false);
   }, []);
@@ -91,14 +81,24 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
       return;
     }
 
+    const target = parseFloat(profitTarget);
+    if (selectedEvents.includes('profit_target') && !(target > 0)) {
+      alert('Please enter a positive profit target %');
+      return;
+    }
+
+    const existing = editingId ? webhooks.find(w => w.id === editingId) : undefined;
     const webhook: WebhookConfig = {
+      ...existing,
       id: editingId || `webhook-${Date.now()}`,
       name: name.trim(),
       url: url.trim(),
-      enabled: true,
+      enabled: existing?.enabled ?? true,
       events: selectedEvents,
-      createdAt: editingId ? webhooks.find(w => w.id === editingId)?.createdAt || new Date().toISOString() : new Date().toISOString(),
-      triggerCount: editingId ? webhooks.find(w => w.id === editingId)?.triggerCount || 0 : 0,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      triggerCount: existing?.triggerCount || 0,
+      secret: secret.trim() || undefined,
+      profitTargetPercent: selectedEvents.includes('profit_target') ? target : undefined,
     };
 
     if (editingId) {
@@ -108,13 +108,15 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
     }
 
     resetForm();
-  }, [name, url, selectedEvents, editingId, webhooks, saveWebhooks, resetForm]);
+  }, [name, url, selectedEvents, secret, profitTarget, editingId, webhooks, saveWebhooks, resetForm]);
 
   const handleEdit = useCallback((webhook: WebhookConfig) => {
     setEditingId(webhook.id);
     setName(webhook.name);
     setUrl(webhook.url);
     setSelectedEvents(webhook.events);
+    setSecret(webhook.secret ?? '');
+    setProfitTarget(String(webhook.profitTargetPercent ?? DEFAULT_PROFIT_TARGET));
     setShowForm(true);
   }, []);
 
@@ -134,25 +136,14 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
     setTestResult({ id: webhook.id, success: false, message: 'Testing...' });
     
     try {
-      // TODO: In a real implementation, send test payload to webhook URL
-      // Test payload would be: { event: 'test', timestamp, source, message, data: {...} }
-      // For now, we simulate the test
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Simulate success (in production, would check actual response)
+      const delivery = await webhookDispatcher.sendTest(webhook.id);
       setTestResult({
         id: webhook.id,
-        success: true,
-        message: `✅ Test payload sent successfully`,
+        success: delivery.success,
+        message: delivery.success
+          ? `✅ Test delivered (${formatDeliveryStatus(delivery)})`
+          : `❌ Failed: ${delivery.error} (${formatDeliveryStatus(delivery)})`,
       });
-
-      // Update trigger count
-      saveWebhooks(webhooks.map(w => 
-        w.id === webhook.id 
-          ? { ...w, lastTriggered: new Date().toISOString(), triggerCount: w.triggerCount + 1 }
-          : w
-      ));
-
     } catch (error) {
       setTestResult({
         id: webhook.id,
@@ -163,7 +154,7 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
 
     // Clear result after 5 seconds
     setTimeout(() => setTestResult(null), 5000);
-  }, [webhooks, saveWebhooks]);
+  }, []);
 
   const toggleEvent = useCallback((event: string) => {
     setSelectedEvents(prev => 
@@ -215,6 +206,18 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
             <span className="wa-hint">Discord, Slack, Telegram, or any HTTP endpoint</span>
           </div>
 
+          <div className="wa-form-field">
+            <label>Signing Secret (optional)</label>
+            <input
+              type="password"
+              value={secret}
+              onChange={e => setSecret(e.target.value)}
+              placeholder="Shared secret for X-Terminal-Signature"
+              autoComplete="off"
+            />
+            <span className="wa-hint">Payloads are signed with HMAC-SHA256 when set</span>
+          </div>
+
           <div className="wa-form-field">
             <label>Events to Trigger</label>
             <div className="wa-events-grid">
@@ -231,6 +234,20 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
             </div>
           </div>
 
+          {selectedEvents.includes('profit_target') && (
+            <div className="wa-form-field">
+              <label>Profit Target (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={profitTarget}
+                onChange={e => setProfitTarget(e.target.value)}
+              />
+              <span className="wa-hint">Fires once per position when unrealized P&amp;L reaches this %</span>
+            </div>
+          )}
+
           <div className="wa-form-actions">
             <button className="wa-cancel-btn" onClick={resetForm}>Cancel</button>
             <button className="wa-save-btn" onClick={handleSave}>
@@ -279,8 +296,13 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
               {webhook.lastTriggered && (
                 <span>Last: {new Date(webhook.lastTriggered).toLocaleString()}</span>
               )}
+              {webhook.secret && <span>🔏 Signed</span>}
             </div>
 
+            {webhook.lastError && (
+              <div className="wa-webhook-error">Last error: {webhook.lastError}</div>
+            )}
+
             {testResult?.id === webhook.id && (
               <div className={`wa-test-result ${testResult.success ? 'success' : 'error'}`}>
                 {testResult.message}
@@ -289,9 +311,33 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
 
             <div className="wa-webhook-actions">
               <button onClick={() => handleTest(webhook)}>🧪 Test</button>
+              <button onClick={() => setLogOpenId(logOpenId === webhook.id ? null : webhook.id)}>
+                📜 Log
+              </button>
               <button onClick={() => handleEdit(webhook)}>✏️ Edit</button>
               <button onClick={() => handleDelete(webhook.id)}>🗑️ Delete</button>
             </div>
+
+            {logOpenId === webhook.id && (
+              <div className="wa-delivery-log">
+                {webhookDispatcher.getDeliveries(webhook.id).length === 0 ? (
+                  <div className="wa-delivery-empty">No deliveries yet</div>
+                ) : (
+                  webhookDispatcher.getDeliveries(webhook.id).map(delivery => (
+                    <div
+                      key={delivery.id}
+                      className={`wa-delivery ${delivery.success ? 'success' : 'error'}`}
+                      title={delivery.error}
+                    >
+                      <span className="wa-delivery-time">{new Date(delivery.timestamp).toLocaleTimeString()}</span>
+                      <span className="wa-delivery-event">{delivery.event}</span>
+                      <span className="wa-delivery-status">{formatDeliveryStatus(delivery)}</span>
+                      {delivery.error && <span className="wa-delivery-error">{delivery.error}</span>}
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -301,17 +347,42 @@ export default function WebhookAlertsPanel(_props: PanelContentProps) {
         <details>
           <summary>📚 Webhook Payload Format</summary>
           <div className="wa-code-block">
-            <pre>{`{
+            <pre>{`POST <url>
+Content-Type: application/json
+X-Terminal-Event: price_above
+X-Terminal-Delivery: dlv_1769826600000_k3j9x2m1p
+X-Terminal-Signature: sha256=<hex HMAC of body>  (when a secret is set)
+
+{
   "event": "price_above",
+  "id": "dlv_1769826600000_k3j9x2m1p",
   "timestamp": "2026-01-31T02:30:00Z",
   "source": "eToro Terminal",
+  "mode": "demo",
   "data": {
     "symbol": "AAPL",
+    "instrumentId": 1001,
     "price": 200.50,
     "threshold": 200.00,
-    "portfolio_value": 10000
+    "alertId": "alert_1769826000000_1"
   }
 }`}</pre>
+            <pre>{`data by event:
+price_above / price_below  symbol, instrumentId, price, threshold, alertId
+position_opened            symbol, amount, message
+position_closed            symbol, profit, message
+profit_target              symbol, positionId, instrumentId, profitPercent,
+                           targetPercent, profit, amount
+stop_loss                  symbol, positionId, instrumentId, side, amount,
+                           openRate, stopLossRate, lastRate, profit
+portfolio_alert            alertType, value, condition, positionId, symbol,
+                           note, alertId
+daily_summary              date, equity, totalValue, credit, unrealizedPnL,
+                           openPositions, positions[]
+test                       message
+
+Failed deliveries (network error, 429, 5xx) are retried up to 4 times
+with 1s/2s/4s backoff.`}</pre>
           </div>
         </details>
       </div>
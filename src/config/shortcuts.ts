@@ -0,0 +1,41 @@
+/**
+ * Default Keyboard Shortcuts
+ *
+ * Every keyboard action in the terminal, with its default keys. Components
+ * attach handlers by ID with `useShortcut`; users can rebind any of these in
+ * the KEYS panel.
+ */
+
+import type { ShortcutDefinition } from '../utils/accessibility';
+
+const FOCUS_PANEL_SHORTCUTS: ShortcutDefinition[] = Array.from({ length: 9 }, (_, i) => ({
+  id: `workspace.focus-panel-${i + 1}`,
+  description: `Focus panel ${i + 1}`,
+  defaultKeys: `Ctrl+${i + 1}`,
+  scope: 'global' as const,
+}));
+
+export const DEFAULT_SHORTCUTS: ShortcutDefinition[] = [
+  // ==========================================================================
+  // GLOBAL
+  // ==========================================================================
+  { id: 'command-bar.focus', description: 'Focus command bar', defaultKeys: '/', scope: 'global' },
+  { id: 'command-bar.palette', description: 'Show all commands', defaultKeys: 'Ctrl+K', scope: 'global' },
+  { id: 'command-bar.history-search', description: 'Search command history; again for older matches', defaultKeys: 'Ctrl+R', scope: 'global' },
+  ...FOCUS_PANEL_SHORTCUTS,
+  { id: 'app.help', description: 'Open help', defaultKeys: '?', scope: 'global' },
+  { id: 'app.shortcuts', description: 'Open keyboard shortcut settings', defaultKeys: 'Ctrl+,', scope: 'global' },
+  { id: 'app.diagnostics', description: 'Toggle diagnostics drawer', defaultKeys: 'Ctrl+Shift+D', scope: 'global' },
+
+  // ==========================================================================
+  // PANELS
+  // ==========================================================================
+  { id: 'trade-ticket.buy', description: 'Buy', defaultKeys: 'Ctrl+B', scope: 'panel:TRD' },
+  { id: 'trade-ticket.sell', description: 'Sell', defaultKeys: 'Ctrl+S', scope: 'panel:TRD' },
+
+  // ==========================================================================
+  // DIALOGS
+  // ==========================================================================
+  { id: 'dialog.confirm', description: 'Confirm', defaultKeys: 'Ctrl+Enter', scope: 'dialog' },
+  { id: 'dialog.cancel', description: 'Cancel', defaultKeys: 'Escape', scope: 'dialog' },
+];
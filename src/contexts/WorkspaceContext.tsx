@@ -1,33 +1,99 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
 import { PanelRegistry, PanelInstance } from '../components/Workspace/PanelRegistry';
-import { workspaceLayoutService } from '../services/workspaceLayoutService';
+import type { LinkGroup } from '../components/Workspace/ActiveSymbolContext';
+import {
+  workspaceLayoutService,
+  type LayoutImportResult,
+  type LayoutPanel,
+  type WorkspaceLayout,
+} from '../services/workspaceLayoutService';
 
 // Default panels to open on startup - comprehensive terminal view
 const DEFAULT_PANELS = ['STATUS', 'WL', 'WLM', 'PF', 'QT', 'CH', 'ORD'];
 
+/** Parameters a command hands to a panel, e.g. a trade ticket prefill */
+export type PanelIntent = Record<string, unknown>;
+
+export type PanelInstanceChanges = Partial<Pick<PanelInstance, 'width' | 'height' | 'linkGroup' | 'state'>>;
+
 interface WorkspaceContextValue {
   panels: PanelInstance[];
   addPanel: (typeId: string) => string | null;
   removePanel: (instanceId: string) => void;
+  /** Update a panel's size, link group or state; `state` is merged shallowly */
+  updatePanel: (instanceId: string, changes: PanelInstanceChanges) => void;
   openPanelForSymbol: (typeId: string, symbol?: string, instrumentId?: number) => void;
   movePanel: (fromIndex: number, toIndex: number) => void;
-  saveAsDefault: () => void;
   resetToDefault: () => void;
   hasCustomLayout: boolean;
+  layouts: WorkspaceLayout[];
+  activeLayout: string | null;
+  defaultLayout: string | null;
+  saveLayout: (name: string) => void;
+  switchLayout: (name: string) => boolean;
+  deleteLayout: (name: string) => void;
+  setDefaultLayout: (name: string | null) => void;
+  exportLayouts: (names?: string[]) => string;
+  importLayouts: (json: string) => LayoutImportResult;
   pendingSymbol: { symbol: string; instrumentId?: number } | null;
   getPendingSymbol: () => { symbol: string; instrumentId?: number } | null;
+  /** Deliver an intent to an open panel of the type, opening one if there is none */
+  sendPanelIntent: (typeId: string, intent: PanelIntent) => void;
+  /** Take the waiting intent for a panel type; only the first caller gets it */
+  takePanelIntent: (typeId: string) => PanelIntent | null;
+  intentVersion: number;
 }
 
 const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
 
 let instanceCounter = 0;
 
+function createInstance(entry: LayoutPanel): PanelInstance | null {
+  const config = PanelRegistry.get(entry.typeId);
+  if (!config) {
+    console.warn(`Panel ${entry.typeId} not found in registry`);
+    return null;
+  }
+
+  return {
+    instanceId: `panel-${++instanceCounter}`,
+    typeId: entry.typeId,
+    title: config.title,
+    width: entry.width ?? config.defaultWidth,
+    height: entry.height ?? config.defaultHeight,
+    linkGroup: entry.linkGroup,
+    state: entry.state ? { ...entry.state } : undefined,
+  };
+}
+
+function toLayoutPanels(panels: PanelInstance[]): LayoutPanel[] {
+  return panels.map((p) => ({
+    typeId: p.typeId,
+    width: p.width,
+    height: p.height,
+    linkGroup: p.linkGroup,
+    state: p.state,
+  }));
+}
+
 export function WorkspaceProvider({ children }: { children: ReactNode }) {
   const [panels, setPanels] = useState<PanelInstance[]>([]);
   const [hasCustomLayout, setHasCustomLayout] = useState(false);
+  const [layouts, setLayouts] = useState<WorkspaceLayout[]>([]);
+  const [activeLayout, setActiveLayout] = useState<string | null>(null);
+  const [defaultLayout, setDefaultLayoutName] = useState<string | null>(null);
   const [pendingSymbol, setPendingSymbol] = useState<{ symbol: string; instrumentId?: number } | null>(null);
+  const [intentVersion, setIntentVersion] = useState(0);
+  const intentsRef = useRef<Map<string, PanelIntent>>(new Map());
   const initializedRef = useRef(false);
 
+  const refreshLayouts = useCallback(() => {
+    setLayouts(workspaceLayoutService.listLayouts());
+    setActiveLayout(workspaceLayoutService.getActiveLayoutName());
+    setDefaultLayoutName(workspaceLayoutService.getDefaultLayoutName());
+    setHasCustomLayout(workspaceLayoutService.hasCustomLayout());
+  }, []);
+
   const addPanel = useCallback((typeId: string): string | null => {
     const config = PanelRegistry.get(typeId);
     if (!config) {
@@ -35,24 +101,26 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       return null;
     }
 
-    const instanceId = `panel-${++instanceCounter}`;
-    const instance: PanelInstance = {
-      instanceId,
-      typeId,
-      title: config.title,
-      width: config.defaultWidth,
-      height: config.defaultHeight,
-    };
-
+    const instance = createInstance({ typeId })!;
     setPanels((prev) => [...prev, instance]);
-    console.log(`Added panel: ${typeId} (${instanceId})`);
-    return instanceId;
+    console.log(`Added panel: ${typeId} (${instance.instanceId})`);
+    return instance.instanceId;
   }, []);
 
   const removePanel = useCallback((instanceId: string) => {
     setPanels((prev) => prev.filter((p) => p.instanceId !== instanceId));
   }, []);
 
+  const updatePanel = useCallback((instanceId: string, changes: PanelInstanceChanges) => {
+    setPanels((prev) =>
+      prev.map((p) =>
+        p.instanceId === instanceId
+          ? { ...p, ...changes, state: changes.state ? { ...p.state, ...changes.state } : p.state }
+          : p
+      )
+    );
+  }, []);
+
   const openPanelForSymbol = useCallback((typeId: string, symbol?: string, instrumentId?: number) => {
     console.log(`Opening panel ${typeId} for symbol ${symbol || 'none'}`);
     if (symbol) {
@@ -67,6 +135,20 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     return sym;
   }, [pendingSymbol]);
 
+  const sendPanelIntent = useCallback((typeId: string, intent: PanelIntent) => {
+    intentsRef.current.set(typeId, intent);
+    if (!panels.some((p) => p.typeId === typeId)) {
+      addPanel(typeId);
+    }
+    setIntentVersion((v) => v + 1);
+  }, [panels, addPanel]);
+
+  const takePanelIntent = useCallback((typeId: string): PanelIntent | null => {
+    const intent = intentsRef.current.get(typeId) ?? null;
+    intentsRef.current.delete(typeId);
+    return intent;
+  }, []);
+
   const movePanel = useCallback((fromIndex: number, toIndex: number) => {
     setPanels((prev) => {
       if (fromIndex < 0 || fromIndex >= prev.length || toIndex < 0 || toIndex >= prev.length) {
@@ -79,40 +161,68 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
-  const saveAsDefault = useCallback(() => {
-    const typeIds = panels.map((p) => p.typeId);
-    workspaceLayoutService.saveLayout(typeIds);
-    setHasCustomLayout(true);
-    console.log('Saved workspace layout:', typeIds);
-  }, [panels]);
+  const openLayout = useCallback((entries: LayoutPanel[]) => {
+    const instances = entries
+      .map(createInstance)
+      .filter((p): p is PanelInstance => p !== null);
+    setPanels(instances);
+    console.log('Panels loaded:', instances.map((p) => p.typeId));
+  }, []);
+
+  const saveLayout = useCallback((name: string) => {
+    const layout = workspaceLayoutService.saveLayout(name, toLayoutPanels(panels));
+    refreshLayouts();
+    console.log(`Saved workspace layout "${layout.name}":`, layout.panels.map((p) => p.typeId));
+  }, [panels, refreshLayouts]);
+
+  const switchLayout = useCallback((name: string): boolean => {
+    const layout = workspaceLayoutService.getLayout(name);
+    if (!layout) {
+      console.warn(`Workspace layout "${name}" not found`);
+      return false;
+    }
+
+    // Fresh instance IDs so every panel remounts with the layout's state
+    openLayout(layout.panels);
+    workspaceLayoutService.setActiveLayout(layout.name);
+    refreshLayouts();
+    console.log(`Switched to workspace layout "${layout.name}"`);
+    return true;
+  }, [openLayout, refreshLayouts]);
+
+  const deleteLayout = useCallback((name: string) => {
+    workspaceLayoutService.deleteLayout(name);
+    refreshLayouts();
+  }, [refreshLayouts]);
+
+  const setDefaultLayout = useCallback((name: string | null) => {
+    workspaceLayoutService.setDefaultLayout(name);
+    refreshLayouts();
+  }, [refreshLayouts]);
+
+  const exportLayouts = useCallback((names?: string[]) => {
+    return workspaceLayoutService.exportLayouts(names);
+  }, []);
+
+  const importLayouts = useCallback((json: string) => {
+    const imported = workspaceLayoutService.importLayouts(json);
+    refreshLayouts();
+    return imported;
+  }, [refreshLayouts]);
 
   const resetToDefault = useCallback(() => {
     workspaceLayoutService.resetLayout();
-    setHasCustomLayout(false);
-    
+    refreshLayouts();
+
     // Clear current panels and load defaults
     setPanels([]);
     instanceCounter = 0;
-    
+
     setTimeout(() => {
-      const newPanels: PanelInstance[] = [];
-      DEFAULT_PANELS.forEach((typeId) => {
-        const config = PanelRegistry.get(typeId);
-        if (config) {
-          const instanceId = `panel-${++instanceCounter}`;
-          newPanels.push({
-            instanceId,
-            typeId,
-            title: config.title,
-            width: config.defaultWidth,
-            height: config.defaultHeight,
-          });
-        }
-      });
-      setPanels(newPanels);
+      openLayout(DEFAULT_PANELS.map((typeId) => ({ typeId })));
       console.log('Reset to default layout:', DEFAULT_PANELS);
     }, 50);
-  }, []);
+  }, [openLayout, refreshLayouts]);
 
   // Open panels on mount - load saved layout or defaults
   useEffect(() => {
@@ -124,34 +234,17 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
 
       if (registeredTypes.length > 0) {
         initializedRef.current = true;
-        
+
         // Check for saved layout
         const savedLayout = workspaceLayoutService.loadLayout();
-        const panelsToLoad = savedLayout || DEFAULT_PANELS;
-        setHasCustomLayout(!!savedLayout);
-        
-        console.log('Loading layout:', panelsToLoad, savedLayout ? '(custom)' : '(default)');
-
-        // Add panels
-        const addedPanels: string[] = [];
-        panelsToLoad.forEach((typeId) => {
-          if (PanelRegistry.get(typeId)) {
-            const config = PanelRegistry.get(typeId)!;
-            const instanceId = `panel-${++instanceCounter}`;
-            addedPanels.push(typeId);
-            setPanels((prev) => [...prev, {
-              instanceId,
-              typeId,
-              title: config.title,
-              width: config.defaultWidth,
-              height: config.defaultHeight,
-            }]);
-          } else {
-            console.warn(`Panel ${typeId} not found in registry`);
-          }
-        });
-        
-        console.log('Panels loaded:', addedPanels);
+        const panelsToLoad = savedLayout || DEFAULT_PANELS.map((typeId) => ({ typeId }));
+        if (savedLayout) {
+          workspaceLayoutService.setActiveLayout(workspaceLayoutService.getDefaultLayoutName());
+        }
+        refreshLayouts();
+
+        console.log('Loading layout:', panelsToLoad.map((p) => p.typeId), savedLayout ? '(custom)' : '(default)');
+        openLayout(panelsToLoad);
       } else if (attempt < 10) {
         setTimeout(() => tryInitialize(attempt + 1), 200);
       } else {
@@ -160,20 +253,32 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     };
 
     tryInitialize(1);
-  }, []);
+  }, [openLayout, refreshLayouts]);
 
   return (
-    <WorkspaceContext.Provider value={{ 
-      panels, 
-      addPanel, 
-      removePanel, 
+    <WorkspaceContext.Provider value={{
+      panels,
+      addPanel,
+      removePanel,
+      updatePanel,
       openPanelForSymbol,
       movePanel,
-      saveAsDefault,
       resetToDefault,
       hasCustomLayout,
+      layouts,
+      activeLayout,
+      defaultLayout,
+      saveLayout,
+      switchLayout,
+      deleteLayout,
+      setDefaultLayout,
+      exportLayouts,
+      importLayouts,
       pendingSymbol,
       getPendingSymbol,
+      sendPanelIntent,
+      takePanelIntent,
+      intentVersion,
     }}>
       {children}
     </WorkspaceContext.Provider>
@@ -187,3 +292,61 @@ export function useWorkspaceContext() {
   }
   return context;
 }
+
+/**
+ * A piece of panel state that is saved with workspace layouts. Reads the
+ * value the panel was opened with and writes changes back to its instance.
+ * Falls back to plain local state outside a WorkspaceProvider.
+ */
+export function usePanelState<T>(panelId: string, key: string, initialValue: T): [T, (value: T) => void] {
+  const context = useContext(WorkspaceContext);
+  const updatePanel = context?.updatePanel;
+  const [value, setValue] = useState<T>(() => {
+    const saved = context?.panels.find((p) => p.instanceId === panelId)?.state?.[key];
+    return saved !== undefined ? (saved as T) : initialValue;
+  });
+
+  const setPanelValue = useCallback((next: T) => {
+    setValue(next);
+    updatePanel?.(panelId, { state: { [key]: next } });
+  }, [updatePanel, panelId, key]);
+
+  return [value, setPanelValue];
+}
+
+/**
+ * Run `onIntent` when a command sends an intent to this panel type, including
+ * one sent before the panel mounted. With several panels of the type open,
+ * the first to look takes it.
+ */
+export function usePanelIntent<T extends PanelIntent>(typeId: string, onIntent: (intent: T) => void): void {
+  const context = useContext(WorkspaceContext);
+  const takePanelIntent = context?.takePanelIntent;
+  const intentVersion = context?.intentVersion;
+  const onIntentRef = useRef(onIntent);
+  onIntentRef.current = onIntent;
+
+  useEffect(() => {
+    const intent = takePanelIntent?.(typeId);
+    if (intent) {
+      onIntentRef.current(intent as T);
+    }
+  }, [takePanelIntent, typeId, intentVersion]);
+}
+
+/** The panel's link group, saved with workspace layouts like usePanelState */
+export function usePanelLinkGroup(panelId: string, initialGroup: LinkGroup): [LinkGroup, (group: LinkGroup) => void] {
+  const context = useContext(WorkspaceContext);
+  const updatePanel = context?.updatePanel;
+  const [group, setGroup] = useState<LinkGroup>(() => {
+    const saved = context?.panels.find((p) => p.instanceId === panelId)?.linkGroup;
+    return saved !== undefined ? saved : initialGroup;
+  });
+
+  const setPanelGroup = useCallback((next: LinkGroup) => {
+    setGroup(next);
+    updatePanel?.(panelId, { linkGroup: next });
+  }, [updatePanel, panelId]);
+
+  return [group, setPanelGroup];
+}
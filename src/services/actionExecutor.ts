@@ -0,0 +1,132 @@
+/**
+ * Action Executor - Approves and executes strategy ProposedActions
+ *
+ * Approval runs the pre-trade checks (see strategyStore.approveAction);
+ * approved opens go through the TradingAdapter, closes through the
+ * PositionAdapter. Results are recorded in ordersStore/activityStore and
+ * written back onto the action as orderId or error.
+ */
+
+import type { ProposedAction } from '../types/strategy.types';
+import { strategyStore } from '../stores/strategyStore';
+import { ordersStore } from '../stores/ordersStore';
+import { portfolioStore } from '../stores/portfolioStore';
+import { activityStore, type ActivityMode } from '../stores/activityStore';
+import { journalService } from './journalService';
+import { createTradingAdapter } from '../api/adapters/tradingAdapter';
+import { getPositionAdapter } from '../api/adapters/positionAdapter';
+import { OrderOutcomeUnknownError } from '../api/adapters/orderReconciliation';
+
+class ActionExecutor {
+  /**
+   * Approve a pending action and place its order. In real mode `confirmed`
+   * must come from the explicit trade confirmation dialog.
+   */
+  async approveAndExecute(id: string, mode: ActivityMode, confirmed: boolean): Promise<ProposedAction | null> {
+    const action = await strategyStore.approveAction(id, mode, confirmed);
+    if (!action) return null;
+
+    try {
+      if (action.type === 'open') {
+        await this.open(action, mode);
+      } else if (action.type === 'close') {
+        await this.close(action, mode);
+      } else {
+        throw new Error(`Unsupported action type: ${action.type}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Order failed';
+      console.error(`[ActionExecutor] ${action.type.toUpperCase()} ${action.symbol} failed:`, err);
+      // The order may have gone through; a failed action could be retried into a duplicate
+      if (err instanceof OrderOutcomeUnknownError) {
+        strategyStore.markActionUnverified(action.id, message);
+      } else {
+        strategyStore.markActionFailed(action.id, message);
+        activityStore.addOrderRejected(mode, action.symbol, message);
+      }
+    }
+
+    portfolioStore.fetchPortfolio().catch(() => {});
+    return strategyStore.getProposedActions().find(a => a.id === id) || null;
+  }
+
+  private async open(action: ProposedAction, mode: ActivityMode): Promise<void> {
+    if (!action.instrumentId) {
+      throw new Error(`No instrument for ${action.symbol}`);
+    }
+
+    const tradingAdapter = createTradingAdapter(undefined, mode === 'demo');
+
+    // Passing instrument info records an optimistic order in ordersStore
+    const result = await tradingAdapter.openPositionByAmount(
+      action.instrumentId,
+      action.amount,
+      action.side === 'buy',
+      action.leverage,
+      action.stopLoss,
+      action.takeProfit,
+      { symbol: action.symbol, displayName: action.displayName || action.symbol }
+    );
+
+    strategyStore.markActionExecuted(action.id, result.orderId, result.positionId ?? undefined);
+    activityStore.addTradeOpen(mode, action.symbol, action.amount, action.side);
+  }
+
+  /** Closes every position the strategy opened on the symbol since its last executed close */
+  private async close(action: ProposedAction, mode: ActivityMode): Promise<void> {
+    const positionIds = this.openPositionIds(action);
+    if (positionIds.length === 0) {
+      throw new Error(`No open ${action.symbol} position from "${action.strategyName}"`);
+    }
+
+    const positionAdapter = getPositionAdapter(mode === 'demo');
+    // Stays undefined once any close comes back without a realized P&L
+    let profit: number | undefined = 0;
+    for (const positionId of positionIds) {
+      const position = portfolioStore.getPosition(positionId);
+      const result = await positionAdapter.closePosition(positionId, action.instrumentId ?? position?.instrumentId);
+      profit = profit !== undefined && result.profit !== undefined ? profit + result.profit : undefined;
+
+      const now = new Date().toISOString();
+      ordersStore.addOrder({
+        orderId: `close_${positionId}`,
+        instrumentId: action.instrumentId ?? position?.instrumentId ?? 0,
+        symbol: action.symbol,
+        displayName: action.displayName || action.symbol,
+        side: position ? (position.isBuy ? 'sell' : 'buy') : action.side,
+        orderType: 'market',
+        amount: position?.amount ?? 0,
+        leverage: position?.leverage,
+        status: 'executed',
+        executedRate: result.closedRate || undefined,
+        executedAt: result.closedAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+      journalService.recordClose(mode, result, position);
+    }
+
+    strategyStore.markActionExecuted(action.id, positionIds.map(id => `close_${id}`).join(','));
+    activityStore.addTradeClose(mode, action.symbol, profit);
+  }
+
+  private openPositionIds(action: ProposedAction): number[] {
+    const held = new Set(portfolioStore.getPositions().map(p => p.positionId));
+    const portfolioLoaded = portfolioStore.getState().portfolio !== null;
+    let ids: number[] = [];
+
+    strategyStore
+      .getProposedActions()
+      .filter(a => a.strategyId === action.strategyId && a.symbol === action.symbol && a.status === 'executed')
+      .reverse()
+      .forEach(a => {
+        if (a.type === 'close') ids = [];
+        else if (a.type === 'open' && a.positionId !== undefined) ids.push(a.positionId);
+      });
+
+    return portfolioLoaded ? ids.filter(id => held.has(id)) : ids;
+  }
+}
+
+// Export singleton instance
+export const actionExecutor = new ActionExecutor();
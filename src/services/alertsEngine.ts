@@ -1,33 +1,82 @@
 // Alerts Engine Service
-// Local evaluator for price threshold and staleness alerts with de-duplication
+// Local evaluator for price, move, spread and staleness alerts, plus account
+// alerts on portfolio positions marked to live quotes, with de-duplication.
+// Alerts are persisted to localStorage and restored on login.
 
 import { quotesStore, StoredQuote } from '../stores/quotesStore';
+import { portfolioStore } from '../stores/portfolioStore';
+import type { Position } from '../api/contracts/etoro-api.types';
+import { chartDataService } from './chartDataService';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type AlertType = 'price_above' | 'price_below' | 'staleness';
+export type AlertType =
+  | 'price_above'
+  | 'price_below'
+  | 'percent_change'
+  | 'crosses_above'
+  | 'crosses_below'
+  | 'daily_high_break'
+  | 'daily_low_break'
+  | 'spread_wider'
+  | 'staleness'
+  | 'portfolio_pnl_below'
+  | 'equity_drawdown'
+  | 'position_loss'
+  | 'near_stop_loss'
+  | 'near_take_profit';
+
+/** One-shot alerts disable themselves after firing; recurring ones re-arm after the cooldown */
+export type AlertMode = 'one_shot' | 'recurring';
 
 export interface AlertCondition {
+  /** Price level for price_above/below and crosses_above/below */
   threshold?: number;
   stalenessSeconds?: number;
+  /** percent_change: price the move is measured from */
+  referencePrice?: number;
+  /** percent_change: signed move, e.g. 5 fires at +5% or more, -5 at -5% or less */
+  percent?: number;
+  /** spread_wider: ask - bid, in price units */
+  spread?: number;
+  /** portfolio_pnl_below: total unrealized P&L in account currency, e.g. -500 */
+  amount?: number;
+  /** Position alerts: watch one position; omitted means every open position */
+  positionId?: number;
+}
+
+export interface AlertOptions {
+  symbol?: string;
+  note?: string;
+  expiresAt?: number | null;
+  mode?: AlertMode;
 }
 
 export interface Alert {
   id: string;
   instrumentId: number;
+  symbol?: string;
   type: AlertType;
   condition: AlertCondition;
+  mode: AlertMode;
+  note?: string;
+  /** Epoch ms after which the alert no longer fires */
+  expiresAt: number | null;
   createdAt: number;
   lastTriggeredAt: number | null;
   enabled: boolean;
 }
 
+export type AlertChanges = Partial<Pick<Alert, 'instrumentId' | 'symbol' | 'type' | 'condition' | 'mode' | 'note' | 'expiresAt'>>;
+
 export interface AlertTriggerEvent {
   alert: Alert;
   currentValue: number;
   triggeredAt: number;
+  /** Position that fired a position alert */
+  positionId?: number;
 }
 
 export type AlertCallback = (event: AlertTriggerEvent) => void;
@@ -35,6 +84,23 @@ export type AlertCallback = (event: AlertTriggerEvent) => void;
 export interface AlertsEngineConfig {
   cooldownMs?: number;
   evaluationIntervalMs?: number;
+  /** localStorage key alerts are saved under; null keeps them in memory only */
+  storageKey?: string | null;
+}
+
+/** A position with P&L recomputed from the latest quote */
+interface LivePosition {
+  position: Position;
+  rate: number | undefined;
+  pnl: number;
+  pnlPercent: number;
+}
+
+interface DailyRange {
+  /** UTC date (YYYY-MM-DD) the range belongs to */
+  date: string;
+  high: number;
+  low: number;
 }
 
 // ============================================================================
@@ -43,6 +109,80 @@ export interface AlertsEngineConfig {
 
 const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
 const DEFAULT_EVALUATION_INTERVAL_MS = 1000; // 1 second for staleness checks
+const DEFAULT_STORAGE_KEY = 'etoro-terminal-alerts';
+
+export const ALERT_TYPES: AlertType[] = [
+  'price_above',
+  'price_below',
+  'percent_change',
+  'crosses_above',
+  'crosses_below',
+  'daily_high_break',
+  'daily_low_break',
+  'spread_wider',
+  'staleness',
+  'portfolio_pnl_below',
+  'equity_drawdown',
+  'position_loss',
+  'near_stop_loss',
+  'near_take_profit',
+];
+
+/** Account alerts have no instrument of their own */
+export const PORTFOLIO_INSTRUMENT_ID = 0;
+
+const PORTFOLIO_ALERT_TYPES: AlertType[] = [
+  'portfolio_pnl_below',
+  'equity_drawdown',
+  'position_loss',
+  'near_stop_loss',
+  'near_take_profit',
+];
+
+const POSITION_ALERT_TYPES: AlertType[] = ['position_loss', 'near_stop_loss', 'near_take_profit'];
+
+export function isPortfolioAlert(type: AlertType): boolean {
+  return PORTFOLIO_ALERT_TYPES.includes(type);
+}
+
+export function isPositionAlert(type: AlertType): boolean {
+  return POSITION_ALERT_TYPES.includes(type);
+}
+
+export function isAlertExpired(alert: Alert, now: number = Date.now()): boolean {
+  return alert.expiresAt !== null && alert.expiresAt <= now;
+}
+
+function utcDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+/**
+ * Mark a position to the closing side of its latest quote. The broker's
+ * profit is moved by the price change since its currentRate, so conversion
+ * to account currency already applied by the broker is kept.
+ */
+function toLivePosition(position: Position): LivePosition {
+  const quote = quotesStore.getQuote(position.instrumentId);
+  const quoteRate = quote ? (position.isBuy ? quote.bid : quote.ask) || quote.lastPrice : 0;
+  const rate = quoteRate > 0 ? quoteRate : position.currentRate;
+  const direction = position.isBuy ? 1 : -1;
+
+  let pnl = position.profit ?? 0;
+  if (rate) {
+    const hasBrokerMark = position.profit !== undefined && !!position.currentRate;
+    const baseRate = hasBrokerMark ? position.currentRate! : position.openRate;
+    const baseProfit = hasBrokerMark ? position.profit! : 0;
+    pnl = baseProfit + (rate - baseRate) * position.units * direction;
+  }
+
+  return {
+    position,
+    rate,
+    pnl,
+    pnlPercent: position.amount > 0 ? (pnl / position.amount) * 100 : 0,
+  };
+}
 
 // ============================================================================
 // Alerts Engine Class
@@ -51,40 +191,89 @@ const DEFAULT_EVALUATION_INTERVAL_MS = 1000; // 1 second for staleness checks
 export class AlertsEngine {
   private readonly cooldownMs: number;
   private readonly evaluationIntervalMs: number;
+  private readonly storageKey: string | null;
 
   private alerts: Map<string, Alert> = new Map();
   private callbacks: Set<AlertCallback> = new Set();
+  private changeListeners: Set<() => void> = new Set();
   private unsubscribers: Map<number, () => void> = new Map();
   private stalenessIntervalId: ReturnType<typeof setInterval> | null = null;
   private idCounter = 0;
 
+  // Per-instrument state for edge-triggered types
+  private lastPrices: Map<number, number> = new Map();
+  private dailyRanges: Map<number, DailyRange> = new Map();
+
+  // Account alerts: positions' instruments are watched while any exist
+  private portfolioUnsubscribe: (() => void) | null = null;
+  private positionInstruments: Set<number> = new Set();
+  private equityPeak: { date: string; value: number } | null = null;
+  // Cooldowns for alerts covering every position, keyed `${alertId}:${positionId}`
+  private positionTriggers: Map<string, number> = new Map();
+
   constructor(config: AlertsEngineConfig = {}) {
     this.cooldownMs = config.cooldownMs ?? DEFAULT_COOLDOWN_MS;
     this.evaluationIntervalMs = config.evaluationIntervalMs ?? DEFAULT_EVALUATION_INTERVAL_MS;
+    this.storageKey = config.storageKey === undefined ? DEFAULT_STORAGE_KEY : config.storageKey;
   }
 
-  createAlert(instrumentId: number, type: AlertType, condition: AlertCondition): string {
+  createAlert(
+    instrumentId: number,
+    type: AlertType,
+    condition: AlertCondition,
+    options: AlertOptions = {}
+  ): string {
     const id = `alert_${Date.now()}_${++this.idCounter}`;
 
     const alert: Alert = {
       id,
       instrumentId,
+      symbol: options.symbol,
       type,
-      condition,
+      condition: this.withDefaults(instrumentId, type, condition),
+      mode: options.mode ?? 'recurring',
+      note: options.note,
+      expiresAt: options.expiresAt ?? null,
       createdAt: Date.now(),
       lastTriggeredAt: null,
       enabled: true,
     };
 
     this.alerts.set(id, alert);
-    this.ensureSubscription(instrumentId);
+    this.activate(alert);
+    this.persist();
 
-    if (type === 'staleness') {
-      this.ensureStalenessMonitoring();
+    console.log('[AlertsEngine] Alert created', { id, instrumentId, type, condition: alert.condition });
+    return id;
+  }
+
+  /** Edit an alert; it is re-armed so the new condition is evaluated from scratch */
+  updateAlert(alertId: string, changes: AlertChanges): boolean {
+    const alert = this.alerts.get(alertId);
+    if (!alert) {
+      return false;
     }
 
-    console.log('[AlertsEngine] Alert created', { id, instrumentId, type, condition });
-    return id;
+    const instrumentId = changes.instrumentId ?? alert.instrumentId;
+    const type = changes.type ?? alert.type;
+    const updated: Alert = {
+      ...alert,
+      ...changes,
+      instrumentId,
+      type,
+      condition: this.withDefaults(instrumentId, type, changes.condition ?? alert.condition),
+      expiresAt: changes.expiresAt === undefined ? alert.expiresAt : changes.expiresAt,
+      lastTriggeredAt: null,
+      enabled: true,
+    };
+
+    this.alerts.set(alertId, updated);
+    this.cleanupSubscriptions();
+    this.activate(updated);
+    this.persist();
+
+    console.log('[AlertsEngine] Alert updated', { alertId, changes });
+    return true;
   }
 
   deleteAlert(alertId: string): boolean {
@@ -95,11 +284,54 @@ export class AlertsEngine {
 
     this.alerts.delete(alertId);
     this.cleanupSubscriptions();
+    this.persist();
 
     console.log('[AlertsEngine] Alert deleted', { alertId });
     return true;
   }
 
+  /** Load saved alerts and start evaluating them. Called on login. */
+  restore(): void {
+    if (!this.storageKey) return;
+
+    this.unload();
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      const saved: Partial<Alert>[] = stored ? JSON.parse(stored) : [];
+
+      for (const raw of saved) {
+        if (!raw.id || raw.instrumentId === undefined || !raw.type || !ALERT_TYPES.includes(raw.type)) continue;
+        const alert: Alert = {
+          id: raw.id,
+          instrumentId: raw.instrumentId,
+          symbol: raw.symbol,
+          type: raw.type,
+          condition: raw.condition ?? {},
+          // Alerts saved before modes existed behaved as recurring
+          mode: raw.mode ?? 'recurring',
+          note: raw.note,
+          expiresAt: raw.expiresAt ?? null,
+          createdAt: raw.createdAt ?? Date.now(),
+          lastTriggeredAt: raw.lastTriggeredAt ?? null,
+          enabled: raw.enabled ?? true,
+        };
+        this.alerts.set(alert.id, alert);
+        this.activate(alert);
+      }
+
+      console.log(`[AlertsEngine] Restored ${this.alerts.size} alerts`);
+    } catch (error) {
+      console.error('[AlertsEngine] Failed to restore alerts:', error);
+    }
+    this.notifyChange();
+  }
+
+  /** Stop evaluating without touching saved alerts. Called on logout. */
+  suspend(): void {
+    this.unload();
+    this.notifyChange();
+  }
+
   getAlerts(): Alert[] {
     return Array.from(this.alerts.values());
   }
@@ -118,6 +350,10 @@ export class AlertsEngine {
       return false;
     }
     alert.enabled = true;
+    // Re-enabling a fired one-shot alert re-arms it
+    alert.lastTriggeredAt = null;
+    this.clearPositionTriggers(alertId);
+    this.persist();
     return true;
   }
 
@@ -127,6 +363,7 @@ export class AlertsEngine {
       return false;
     }
     alert.enabled = false;
+    this.persist();
     return true;
   }
 
@@ -135,18 +372,111 @@ export class AlertsEngine {
     return () => this.callbacks.delete(callback);
   }
 
+  /** Fires whenever the alert list or an alert's state changes */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
   clearAlerts(): void {
     this.alerts.clear();
     this.cleanupSubscriptions();
+    this.persist();
     console.log('[AlertsEngine] All alerts cleared');
   }
 
   destroy(): void {
-    this.clearAlerts();
+    this.unload();
     this.callbacks.clear();
-    if (this.stalenessIntervalId) {
-      clearInterval(this.stalenessIntervalId);
-      this.stalenessIntervalId = null;
+    this.changeListeners.clear();
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle
+  // --------------------------------------------------------------------------
+
+  private activate(alert: Alert): void {
+    this.clearPositionTriggers(alert.id);
+
+    if (isPortfolioAlert(alert.type)) {
+      this.ensurePortfolioMonitoring();
+      return;
+    }
+
+    this.ensureSubscription(alert.instrumentId);
+
+    if (alert.type === 'staleness') {
+      this.ensureStalenessMonitoring();
+    }
+    if (alert.type === 'daily_high_break' || alert.type === 'daily_low_break') {
+      void this.seedDailyRange(alert);
+    }
+  }
+
+  private unload(): void {
+    this.alerts.clear();
+    this.lastPrices.clear();
+    this.dailyRanges.clear();
+    this.positionTriggers.clear();
+    this.equityPeak = null;
+    this.cleanupSubscriptions();
+  }
+
+  private clearPositionTriggers(alertId: string): void {
+    for (const key of this.positionTriggers.keys()) {
+      if (key.startsWith(`${alertId}:`)) {
+        this.positionTriggers.delete(key);
+      }
+    }
+  }
+
+  /** Fill in defaults that depend on the market at creation time; a missing quote is filled in later */
+  private withDefaults(instrumentId: number, type: AlertType, condition: AlertCondition): AlertCondition {
+    if (type === 'percent_change' && !condition.referencePrice) {
+      const lastPrice = quotesStore.getQuote(instrumentId)?.lastPrice;
+      return { ...condition, referencePrice: lastPrice || undefined };
+    }
+    return { ...condition };
+  }
+
+  /** Start today's range from the daily candle so a break means a real new high/low */
+  private async seedDailyRange(alert: Alert): Promise<void> {
+    if (!alert.symbol) return;
+
+    try {
+      const history = await chartDataService.loadHistory(alert.instrumentId, alert.symbol, '1d');
+      const today = history.bars[history.bars.length - 1];
+      if (!today || utcDate(today.timestamp) !== utcDate(Date.now())) return;
+
+      const range = this.dailyRanges.get(alert.instrumentId);
+      this.dailyRanges.set(alert.instrumentId, {
+        date: utcDate(today.timestamp),
+        high: Math.max(today.high, range?.high ?? -Infinity),
+        low: Math.min(today.low, range?.low ?? Infinity),
+      });
+    } catch (error) {
+      console.warn(`[AlertsEngine] No daily range for ${alert.symbol}, tracking from live quotes:`, error);
+    }
+  }
+
+  private persist(): void {
+    if (this.storageKey) {
+      try {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.getAlerts()));
+      } catch (error) {
+        console.error('[AlertsEngine] Failed to save alerts:', error);
+      }
+    }
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[AlertsEngine] Change listener error:', error);
+      }
     }
   }
 
@@ -157,13 +487,39 @@ export class AlertsEngine {
 
     const unsubscribe = quotesStore.subscribe(instrumentId, (quote) => {
       this.evaluatePriceAlerts(quote);
+      if (this.positionInstruments.has(quote.instrumentId)) {
+        this.evaluatePortfolioAlerts();
+      }
     });
 
     this.unsubscribers.set(instrumentId, unsubscribe);
   }
 
+  private ensurePortfolioMonitoring(): void {
+    if (this.portfolioUnsubscribe) {
+      return;
+    }
+
+    this.portfolioUnsubscribe = portfolioStore.subscribe(() => {
+      this.positionInstruments = new Set(portfolioStore.getPositions().map((p) => p.instrumentId));
+      this.positionInstruments.forEach((instrumentId) => this.ensureSubscription(instrumentId));
+      this.cleanupSubscriptions();
+      this.evaluatePortfolioAlerts();
+    });
+  }
+
   private cleanupSubscriptions(): void {
-    const activeInstruments = new Set(this.getAlerts().map((a) => a.instrumentId));
+    const hasPortfolioAlerts = this.getAlerts().some((a) => isPortfolioAlert(a.type));
+    if (!hasPortfolioAlerts && this.portfolioUnsubscribe) {
+      this.portfolioUnsubscribe();
+      this.portfolioUnsubscribe = null;
+      this.positionInstruments.clear();
+    }
+
+    const activeInstruments = new Set(
+      this.getAlerts().filter((a) => !isPortfolioAlert(a.type)).map((a) => a.instrumentId)
+    );
+    this.positionInstruments.forEach((instrumentId) => activeInstruments.add(instrumentId));
 
     for (const [instrumentId, unsubscribe] of this.unsubscribers) {
       if (!activeInstruments.has(instrumentId)) {
@@ -191,9 +547,25 @@ export class AlertsEngine {
 
   private evaluatePriceAlerts(quote: StoredQuote): void {
     const alerts = this.getAlertsByInstrument(quote.instrumentId);
+    const price = quote.lastPrice;
+    const previousPrice = this.lastPrices.get(quote.instrumentId);
+    const range = this.updateDailyRange(quote);
+
+    if (price > 0) {
+      this.lastPrices.set(quote.instrumentId, price);
+    }
 
     for (const alert of alerts) {
-      if (!alert.enabled || alert.type === 'staleness') {
+      if (!alert.enabled || alert.type === 'staleness' || isPortfolioAlert(alert.type) || !this.isLive(alert)) {
+        continue;
+      }
+
+      // Created before any quote arrived: the move is measured from the first one
+      if (alert.type === 'percent_change' && !alert.condition.referencePrice) {
+        if (price > 0) {
+          this.alerts.set(alert.id, { ...alert, condition: { ...alert.condition, referencePrice: price } });
+          this.persist();
+        }
         continue;
       }
 
@@ -201,32 +573,192 @@ export class AlertsEngine {
         continue;
       }
 
-      const price = quote.lastPrice;
-      const threshold = alert.condition.threshold;
+      const value = this.evaluateCondition(alert, quote, previousPrice, range);
+      if (value !== null) {
+        this.triggerAlert(alert, value);
+      }
+    }
+  }
 
-      if (threshold === undefined) {
-        continue;
+  /** The value to report when `alert` fires on this quote, or null */
+  private evaluateCondition(
+    alert: Alert,
+    quote: StoredQuote,
+    previousPrice: number | undefined,
+    range: { previous: DailyRange | undefined }
+  ): number | null {
+    const price = quote.lastPrice;
+    const { threshold, referencePrice, percent, spread } = alert.condition;
+
+    switch (alert.type) {
+      case 'price_above':
+        return threshold !== undefined && price > threshold ? price : null;
+
+      case 'price_below':
+        return threshold !== undefined && price > 0 && price < threshold ? price : null;
+
+      // Edge-triggered: only the quote that crosses the level fires
+      case 'crosses_above':
+        return threshold !== undefined && previousPrice !== undefined && previousPrice <= threshold && price > threshold
+          ? price
+          : null;
+
+      case 'crosses_below':
+        return threshold !== undefined && previousPrice !== undefined && previousPrice >= threshold && price > 0 && price < threshold
+          ? price
+          : null;
+
+      case 'percent_change': {
+        if (!referencePrice || percent === undefined || price <= 0) return null;
+        const move = (price / referencePrice - 1) * 100;
+        return (percent >= 0 ? move >= percent : move <= percent) ? move : null;
       }
 
-      let shouldTrigger = false;
+      case 'daily_high_break':
+        return range.previous && price > range.previous.high ? price : null;
+
+      case 'daily_low_break':
+        return range.previous && price > 0 && price < range.previous.low ? price : null;
+
+      case 'spread_wider': {
+        if (spread === undefined || quote.bid <= 0 || quote.ask <= 0) return null;
+        const current = quote.ask - quote.bid;
+        return current > spread ? current : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Extend today's high/low with the quote. Returns the range as it was
+   * before this quote, which is what a break is measured against.
+   */
+  private updateDailyRange(quote: StoredQuote): { previous: DailyRange | undefined } {
+    const price = quote.lastPrice;
+    const today = utcDate(Date.now());
+    const existing = this.dailyRanges.get(quote.instrumentId);
+    const previous = existing?.date === today ? { ...existing } : undefined;
+
+    if (price > 0) {
+      this.dailyRanges.set(quote.instrumentId, {
+        date: today,
+        high: Math.max(price, previous?.high ?? price),
+        low: Math.min(price, previous?.low ?? price),
+      });
+    }
+
+    return { previous };
+  }
+
+  private evaluatePortfolioAlerts(): void {
+    const alerts = this.getAlerts().filter((a) => a.enabled && isPortfolioAlert(a.type));
+    const portfolio = portfolioStore.getState().portfolio;
+    if (alerts.length === 0 || !portfolio) {
+      return;
+    }
+
+    const positions = portfolio.positions.map(toLivePosition);
+    const unrealized = positions.reduce((sum, p) => sum + p.pnl, 0);
+    const brokerUnrealized = portfolio.positions.reduce((sum, p) => sum + (p.profit ?? 0), 0);
+    const drawdown = this.updateEquityPeak(portfolio.equity + unrealized - brokerUnrealized);
 
-      if (alert.type === 'price_above' && price > threshold) {
-        shouldTrigger = true;
-      } else if (alert.type === 'price_below' && price < threshold) {
-        shouldTrigger = true;
+    for (const alert of alerts) {
+      if (!this.isLive(alert)) {
+        continue;
       }
 
-      if (shouldTrigger) {
-        this.triggerAlert(alert, price);
+      const { amount, percent } = alert.condition;
+      switch (alert.type) {
+        case 'portfolio_pnl_below':
+          if (amount !== undefined && positions.length > 0 && unrealized < amount && this.canTrigger(alert)) {
+            this.triggerAlert(alert, unrealized);
+          }
+          break;
+
+        case 'equity_drawdown':
+          if (percent !== undefined && drawdown !== null && drawdown >= percent && this.canTrigger(alert)) {
+            this.triggerAlert(alert, drawdown);
+          }
+          break;
+
+        default:
+          this.evaluatePositionAlert(alert, positions);
+      }
+    }
+  }
+
+  private evaluatePositionAlert(alert: Alert, positions: LivePosition[]): void {
+    const { percent, positionId } = alert.condition;
+    if (percent === undefined) return;
+
+    const targets = positionId !== undefined
+      ? positions.filter((p) => p.position.positionId === positionId)
+      : positions;
+
+    for (const live of targets) {
+      const value = this.positionValue(alert.type, live, percent);
+      if (value === null) continue;
+
+      // Alerts on every position keep a cooldown per position
+      const key = `${alert.id}:${live.position.positionId}`;
+      const lastTriggeredAt = positionId !== undefined ? alert.lastTriggeredAt : this.positionTriggers.get(key);
+      if (lastTriggeredAt && Date.now() - lastTriggeredAt < this.cooldownMs) continue;
+
+      this.positionTriggers.set(key, Date.now());
+      this.triggerAlert(alert, value, live.position.positionId);
+      if (!alert.enabled) break;
+    }
+  }
+
+  /** Loss % or distance % to the stop/target when the alert should fire, else null */
+  private positionValue(type: AlertType, live: LivePosition, percent: number): number | null {
+    const { position, rate } = live;
+
+    switch (type) {
+      case 'position_loss':
+        return live.pnlPercent <= -percent ? live.pnlPercent : null;
+
+      case 'near_stop_loss':
+      case 'near_take_profit': {
+        const level = type === 'near_stop_loss' ? position.stopLossRate : position.takeProfitRate;
+        if (!level || level <= 0 || !rate) return null;
+        const distance = (Math.abs(rate - level) / rate) * 100;
+        return distance <= percent ? distance : null;
       }
+
+      default:
+        return null;
+    }
+  }
+
+  /** Track today's equity high; returns the drawdown from it in percent */
+  private updateEquityPeak(equity: number): number | null {
+    if (!(equity > 0)) return null;
+
+    const today = utcDate(Date.now());
+    if (!this.equityPeak || this.equityPeak.date !== today || equity > this.equityPeak.value) {
+      this.equityPeak = { date: today, value: equity };
     }
+    return ((this.equityPeak.value - equity) / this.equityPeak.value) * 100;
+  }
+
+  /** Expired alerts are switched off the first time they are looked at */
+  private isLive(alert: Alert): boolean {
+    if (!isAlertExpired(alert)) {
+      return true;
+    }
+    alert.enabled = false;
+    this.persist();
+    return false;
   }
 
   private evaluateStalenessAlerts(): void {
     const stalenessAlerts = this.getAlerts().filter((a) => a.type === 'staleness' && a.enabled);
 
     for (const alert of stalenessAlerts) {
-      if (!this.canTrigger(alert)) {
+      if (!this.isLive(alert) || !this.canTrigger(alert)) {
         continue;
       }
 
@@ -254,20 +786,26 @@ export class AlertsEngine {
     return Date.now() - alert.lastTriggeredAt >= this.cooldownMs;
   }
 
-  private triggerAlert(alert: Alert, currentValue: number): void {
+  private triggerAlert(alert: Alert, currentValue: number, positionId?: number): void {
     const now = Date.now();
     alert.lastTriggeredAt = now;
+    if (alert.mode === 'one_shot') {
+      alert.enabled = false;
+    }
+    this.persist();
 
     const event: AlertTriggerEvent = {
       alert: { ...alert },
       currentValue,
       triggeredAt: now,
+      positionId,
     };
 
     console.log('[AlertsEngine] Alert triggered', {
       alertId: alert.id,
       type: alert.type,
       instrumentId: alert.instrumentId,
+      positionId,
       currentValue,
     });
 
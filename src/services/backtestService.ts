@@ -0,0 +1,351 @@
+/**
+ * Backtest Service - Replays historical bars through a StrategyDefinition
+ *
+ * - Entry conditions are combined with AND, exit conditions with OR
+ * - Stop loss / take profit are checked intra-bar against high/low
+ * - Long-only: strategies don't carry a side, so every entry is a buy
+ * - Bars come from Financial Datasets or a user-supplied CSV
+ */
+
+import type {
+  StrategyDefinition,
+  Condition,
+  IndicatorType,
+  IndicatorParams,
+  Timeframe,
+  PriceBar,
+  BacktestConfig,
+  BacktestTrade,
+  BacktestResult,
+} from '../types/strategy.types';
+import { financialDatasetsService } from './financialDatasetsService';
+import type { FDPriceParams } from '../types/financialDatasets.types';
+import { computeIndicator, indicatorKey, type IndicatorValue } from '../utils/indicators';
+import { compareCondition, conditionOperands, describeCondition, type OperandValues } from '../utils/conditions';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Bars per year, used to annualize Sharpe/Sortino
+const PERIODS_PER_YEAR: Record<Timeframe, number> = {
+  '1m': 252 * 390,
+  '5m': 252 * 78,
+  '15m': 252 * 26,
+  '1h': 252 * 7,
+  '4h': 252 * 2,
+  '1d': 252,
+};
+
+// Financial Datasets has no hourly interval, so intraday frames are minute multiples
+const FD_INTERVALS: Record<Timeframe, Pick<FDPriceParams, 'interval' | 'interval_multiplier'>> = {
+  '1m': { interval: 'minute', interval_multiplier: 1 },
+  '5m': { interval: 'minute', interval_multiplier: 5 },
+  '15m': { interval: 'minute', interval_multiplier: 15 },
+  '1h': { interval: 'minute', interval_multiplier: 60 },
+  '4h': { interval: 'minute', interval_multiplier: 240 },
+  '1d': { interval: 'day', interval_multiplier: 1 },
+};
+
+interface OpenTrade {
+  entryIndex: number;
+  entryPrice: number;
+  amount: number;
+  units: number;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+// =============================================================================
+// Condition Evaluation
+// =============================================================================
+
+class ConditionEvaluator {
+  private cache: Map<string, IndicatorValue[]> = new Map();
+
+  constructor(private readonly bars: PriceBar[]) {}
+
+  private series(indicator: IndicatorType, params?: IndicatorParams): IndicatorValue[] {
+    const key = indicatorKey(indicator, params);
+    let series = this.cache.get(key);
+    if (!series) {
+      series = computeIndicator(indicator, params, this.bars);
+      this.cache.set(key, series);
+    }
+    return series;
+  }
+
+  private valueAt(condition: Condition, index: number): OperandValues {
+    const [left, right] = conditionOperands(condition);
+    return {
+      left: this.series(left.indicator, left.params)[index] ?? null,
+      right: right ? this.series(right.indicator, right.params)[index] ?? null : condition.value as number,
+    };
+  }
+
+  evaluate(condition: Condition, index: number): boolean {
+    const previous = index > 0 ? this.valueAt(condition, index - 1) : undefined;
+    return compareCondition(condition.operator, this.valueAt(condition, index), previous);
+  }
+
+  allTrue(conditions: Condition[], index: number): boolean {
+    return conditions.length > 0 && conditions.every(c => this.evaluate(c, index));
+  }
+
+  firstTrue(conditions: Condition[], index: number): Condition | undefined {
+    return conditions.find(c => this.evaluate(c, index));
+  }
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function calculateMetrics(
+  trades: BacktestTrade[],
+  equityCurve: { date: string; equity: number }[],
+  initialCapital: number,
+  timeframe: Timeframe
+): BacktestResult['metrics'] {
+  const finalEquity = equityCurve.length ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+  const totalReturn = finalEquity - initialCapital;
+
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const prev = equityCurve[i - 1].equity;
+    if (prev > 0) returns.push(equityCurve[i].equity / prev - 1);
+  }
+  const avgReturn = mean(returns);
+  const stdDev = Math.sqrt(mean(returns.map(r => (r - avgReturn) ** 2)));
+  const downsideDev = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+  const annualize = Math.sqrt(PERIODS_PER_YEAR[timeframe]);
+
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    const drawdown = peak - point.equity;
+    if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+    if (peak > 0) maxDrawdownPercent = Math.max(maxDrawdownPercent, (drawdown / peak) * 100);
+  }
+
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+
+  return {
+    totalReturn,
+    totalReturnPercent: initialCapital > 0 ? (totalReturn / initialCapital) * 100 : 0,
+    sharpeRatio: stdDev > 0 ? (avgReturn / stdDev) * annualize : 0,
+    sortinoRatio: downsideDev > 0 ? (avgReturn / downsideDev) * annualize : 0,
+    maxDrawdown,
+    maxDrawdownPercent,
+    winRate: trades.length ? (wins.length / trades.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    avgWin: wins.length ? grossProfit / wins.length : 0,
+    avgLoss: losses.length ? -grossLoss / losses.length : 0,
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+  };
+}
+
+// =============================================================================
+// Backtest Service
+// =============================================================================
+
+class BacktestService {
+  // ---------------------------------------------------------------------------
+  // Data Loading
+  // ---------------------------------------------------------------------------
+
+  async loadBars(symbol: string, timeframe: Timeframe, startDate: string, endDate: string): Promise<PriceBar[]> {
+    const prices = await financialDatasetsService.getHistoricalPrices({
+      ticker: symbol,
+      ...FD_INTERVALS[timeframe],
+      start_date: startDate,
+      end_date: endDate,
+      limit: 5000,
+    });
+
+    return prices
+      .map(p => ({
+        time: new Date(p.time).toISOString(),
+        open: p.open,
+        high: p.high,
+        low: p.low,
+        close: p.close,
+        volume: p.volume ?? 0,
+      }))
+      .sort((a, b) => a.time.localeCompare(b.time));
+  }
+
+  /**
+   * Parse OHLCV CSV with a header row. Accepts date/time/timestamp for the
+   * time column; volume is optional.
+   */
+  parseCSV(text: string): PriceBar[] {
+    const lines = text.trim().split(/\r?\n/).filter(l => l.trim());
+    if (lines.length < 2) {
+      throw new Error('CSV must contain a header row and at least one bar');
+    }
+
+    const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/"/g, ''));
+    const col = (...names: string[]) => headers.findIndex(h => names.includes(h));
+    const idx = {
+      time: col('date', 'time', 'timestamp', 'datetime'),
+      open: col('open'),
+      high: col('high'),
+      low: col('low'),
+      close: col('close'),
+      volume: col('volume', 'vol'),
+    };
+    if (idx.time === -1 || idx.open === -1 || idx.high === -1 || idx.low === -1 || idx.close === -1) {
+      throw new Error('CSV header must include date, open, high, low and close columns');
+    }
+
+    const bars: PriceBar[] = [];
+    for (const line of lines.slice(1)) {
+      const cells = line.split(',').map(c => c.trim().replace(/"/g, ''));
+      const time = new Date(cells[idx.time]);
+      const bar: PriceBar = {
+        time: isNaN(time.getTime()) ? '' : time.toISOString(),
+        open: parseFloat(cells[idx.open]),
+        high: parseFloat(cells[idx.high]),
+        low: parseFloat(cells[idx.low]),
+        close: parseFloat(cells[idx.close]),
+        volume: idx.volume !== -1 ? parseFloat(cells[idx.volume]) || 0 : 0,
+      };
+      if (bar.time && [bar.open, bar.high, bar.low, bar.close].every(Number.isFinite)) {
+        bars.push(bar);
+      }
+    }
+
+    return bars.sort((a, b) => a.time.localeCompare(b.time));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Simulation
+  // ---------------------------------------------------------------------------
+
+  run(strategy: StrategyDefinition, config: BacktestConfig, allBars: PriceBar[]): BacktestResult {
+    const started = performance.now();
+    const { riskParams } = strategy;
+    const startMs = config.startDate ? new Date(config.startDate).getTime() : -Infinity;
+    const endMs = config.endDate ? new Date(config.endDate).getTime() + 86_400_000 : Infinity;
+    const bars = allBars.filter(b => {
+      const t = new Date(b.time).getTime();
+      return t >= startMs && t < endMs;
+    });
+
+    if (strategy.entryConditions.length === 0) {
+      throw new Error('Strategy has no entry conditions');
+    }
+
+    const evaluator = new ConditionEvaluator(bars);
+    const trades: BacktestTrade[] = [];
+    const equityCurve: { date: string; equity: number }[] = [];
+    const open: OpenTrade[] = [];
+    let cash = config.initialCapital;
+    let lastTradeMs = -Infinity;
+    const cooldownMs = riskParams.cooldownSeconds * 1000;
+
+    const closeTrade = (trade: OpenTrade, exitIndex: number, exitPrice: number, reason: string) => {
+      const proceeds = trade.units * exitPrice;
+      const pnl = proceeds - trade.amount;
+      cash += proceeds;
+      trades.push({
+        entryDate: bars[trade.entryIndex].time,
+        exitDate: bars[exitIndex].time,
+        side: 'buy',
+        entryPrice: trade.entryPrice,
+        exitPrice,
+        amount: trade.amount,
+        pnl,
+        pnlPercent: (pnl / trade.amount) * 100,
+        reason,
+      });
+      lastTradeMs = new Date(bars[exitIndex].time).getTime();
+    };
+
+    for (let i = 0; i < bars.length; i++) {
+      const bar = bars[i];
+      const barMs = new Date(bar.time).getTime();
+
+      // Protective exits first. When both levels sit inside one bar we assume
+      // the stop was hit, which keeps results conservative.
+      for (let j = open.length - 1; j >= 0; j--) {
+        const trade = open[j];
+        if (trade.stopLoss !== undefined && bar.low <= trade.stopLoss) {
+          closeTrade(trade, i, Math.min(trade.stopLoss, bar.open), 'Stop loss');
+          open.splice(j, 1);
+        } else if (trade.takeProfit !== undefined && bar.high >= trade.takeProfit) {
+          closeTrade(trade, i, Math.max(trade.takeProfit, bar.open), 'Take profit');
+          open.splice(j, 1);
+        }
+      }
+
+      // Exit conditions (OR) close every open position at the bar close
+      if (open.length > 0) {
+        const trigger = evaluator.firstTrue(strategy.exitConditions, i);
+        if (trigger) {
+          const reason = `Exit: ${describeCondition(trigger)}`;
+          open.splice(0).forEach(trade => closeTrade(trade, i, bar.close, reason));
+        }
+      }
+
+      // Entry conditions (AND), subject to concurrency and cooldown
+      const canEnter = open.length < riskParams.maxConcurrentPositions && barMs - lastTradeMs >= cooldownMs;
+      if (canEnter && evaluator.allTrue(strategy.entryConditions, i)) {
+        const equity = cash + open.reduce((sum, t) => sum + t.units * bar.close, 0);
+        const amount = Math.min(cash, equity * (riskParams.maxPositionSize / 100));
+        if (amount > 0 && bar.close > 0) {
+          cash -= amount;
+          open.push({
+            entryIndex: i,
+            entryPrice: bar.close,
+            amount,
+            units: amount / bar.close,
+            stopLoss: riskParams.stopLossPercent > 0 ? bar.close * (1 - riskParams.stopLossPercent / 100) : undefined,
+            takeProfit: riskParams.takeProfitPercent ? bar.close * (1 + riskParams.takeProfitPercent / 100) : undefined,
+          });
+          lastTradeMs = barMs;
+        }
+      }
+
+      const equity = cash + open.reduce((sum, t) => sum + t.units * bar.close, 0);
+      equityCurve.push({ date: bar.time, equity });
+    }
+
+    // Mark anything still open to the last close so the trade list is complete
+    if (bars.length > 0) {
+      const last = bars.length - 1;
+      open.splice(0).forEach(trade => closeTrade(trade, last, bars[last].close, 'End of data'));
+    }
+
+    return {
+      config,
+      trades,
+      metrics: calculateMetrics(trades, equityCurve, config.initialCapital, strategy.timeframe),
+      equityCurve,
+      runTime: Math.round(performance.now() - started),
+    };
+  }
+
+  async runBacktest(strategy: StrategyDefinition, config: BacktestConfig, bars?: PriceBar[]): Promise<BacktestResult> {
+    const data = bars ?? await this.loadBars(config.symbol, strategy.timeframe, config.startDate, config.endDate);
+    if (data.length === 0) {
+      throw new Error(`No historical data for ${config.symbol} in the selected range`);
+    }
+    return this.run(strategy, config, data);
+  }
+}
+
+// Export singleton instance
+export const backtestService = new BacktestService();
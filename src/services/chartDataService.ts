@@ -0,0 +1,288 @@
+/**
+ * Chart Data Service
+ *
+ * Loads historical OHLC candles for ChartPanel. eToro's quote history
+ * endpoint is the primary source; when it fails or returns nothing we fall
+ * back to Financial Datasets. Live ticks are merged onto the loaded series
+ * with `stitchTick`, so the last bar keeps forming in real time.
+ */
+
+import { ENDPOINTS } from '../api/contracts/endpoints';
+import type { QuoteHistory, QuoteHistoryPoint } from '../api/contracts/etoro-api.types';
+import { getDefaultAdapter } from '../api/restAdapter';
+import { financialDatasetsService } from './financialDatasetsService';
+import type { FDPriceParams } from '../types/financialDatasets.types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ChartTimeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+
+export type ChartDataSource = 'etoro' | 'financial-datasets';
+
+export interface ChartBar {
+  /** Bucket start, epoch ms */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ChartHistory {
+  bars: ChartBar[];
+  source: ChartDataSource;
+  fetchedAt: number;
+}
+
+interface HistoryRequest {
+  /** eToro period to request; 4h is aggregated from hourly candles */
+  period: QuoteHistory['period'];
+  fd: Pick<FDPriceParams, 'interval' | 'interval_multiplier'>;
+  /** Calendar days of history to request */
+  lookbackDays: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// The epoch fell on a Thursday; weekly buckets start on Monday
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+export const CHART_TIMEFRAMES: ChartTimeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d', '1w'];
+
+export const CHART_TIMEFRAME_MS: Record<ChartTimeframe, number> = {
+  '1m': MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '4h': 240 * MINUTE_MS,
+  '1d': DAY_MS,
+  '1w': 7 * DAY_MS,
+};
+
+const HISTORY_REQUESTS: Record<ChartTimeframe, HistoryRequest> = {
+  '1m': { period: 'M1', fd: { interval: 'minute', interval_multiplier: 1 }, lookbackDays: 2 },
+  '5m': { period: 'M5', fd: { interval: 'minute', interval_multiplier: 5 }, lookbackDays: 7 },
+  '15m': { period: 'M15', fd: { interval: 'minute', interval_multiplier: 15 }, lookbackDays: 14 },
+  '1h': { period: 'H1', fd: { interval: 'minute', interval_multiplier: 60 }, lookbackDays: 45 },
+  '4h': { period: 'H1', fd: { interval: 'minute', interval_multiplier: 240 }, lookbackDays: 120 },
+  '1d': { period: 'D1', fd: { interval: 'day', interval_multiplier: 1 }, lookbackDays: 2 * 365 },
+  '1w': { period: 'W1', fd: { interval: 'week', interval_multiplier: 1 }, lookbackDays: 8 * 365 },
+};
+
+const MAX_BARS = 1000;
+const CACHE_TTL_MS = 2 * 60 * 1000; // 2 minutes
+
+// =============================================================================
+// Bar Helpers
+// =============================================================================
+
+/** Start of the candle that contains `timestamp` */
+export function bucketStart(timestamp: number, timeframe: ChartTimeframe): number {
+  const size = CHART_TIMEFRAME_MS[timeframe];
+  if (timeframe === '1w') {
+    return Math.floor((timestamp - WEEK_OFFSET_MS) / size) * size + WEEK_OFFSET_MS;
+  }
+  return Math.floor(timestamp / size) * size;
+}
+
+/**
+ * Re-bucket bars into `timeframe`. Used to build 4h candles from hourly
+ * history and to align provider timestamps to the buckets live ticks use.
+ */
+export function aggregateBars(bars: ChartBar[], timeframe: ChartTimeframe): ChartBar[] {
+  const buckets = new Map<number, ChartBar>();
+  const sorted = [...bars].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const bar of sorted) {
+    const start = bucketStart(bar.timestamp, timeframe);
+    const existing = buckets.get(start);
+    if (existing) {
+      existing.high = Math.max(existing.high, bar.high);
+      existing.low = Math.min(existing.low, bar.low);
+      existing.close = bar.close;
+      existing.volume += bar.volume;
+    } else {
+      buckets.set(start, { ...bar, timestamp: start });
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Merge a live tick into the series. Updates the forming bar, or opens a new
+ * one when the tick falls into a later bucket. Ticks older than the last bar
+ * are ignored. Returns a new array so React sees the change.
+ */
+export function stitchTick(bars: ChartBar[], price: number, timestamp: number, timeframe: ChartTimeframe): ChartBar[] {
+  if (!(price > 0)) return bars;
+
+  const start = bucketStart(timestamp, timeframe);
+  const last = bars[bars.length - 1];
+
+  if (!last || start > last.timestamp) {
+    const next = [...bars, { timestamp: start, open: price, high: price, low: price, close: price, volume: 0 }];
+    return next.length > MAX_BARS ? next.slice(-MAX_BARS) : next;
+  }
+
+  if (start < last.timestamp) return bars;
+
+  const updated: ChartBar = {
+    ...last,
+    high: Math.max(last.high, price),
+    low: Math.min(last.low, price),
+    close: price,
+  };
+  return [...bars.slice(0, -1), updated];
+}
+
+function toDateString(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+function isValidBar(bar: ChartBar): boolean {
+  return Number.isFinite(bar.timestamp) && bar.open > 0 && bar.high > 0 && bar.low > 0 && bar.close > 0;
+}
+
+// =============================================================================
+// Chart Data Service
+// =============================================================================
+
+class ChartDataService {
+  private cache = new Map<string, ChartHistory>();
+
+  /**
+   * Load candles for an instrument. Results are cached briefly per
+   * instrument/timeframe so switching back and forth doesn't refetch.
+   */
+  async loadHistory(instrumentId: number, symbol: string, timeframe: ChartTimeframe): Promise<ChartHistory> {
+    const key = `${instrumentId}:${timeframe}`;
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached;
+    }
+
+    let etoroError: unknown = null;
+    try {
+      const bars = await this.fetchEtoroHistory(instrumentId, timeframe);
+      if (bars.length > 0) {
+        return this.store(key, bars, 'etoro');
+      }
+    } catch (err) {
+      etoroError = err;
+      console.warn('[ChartData] eToro history unavailable, falling back:', err);
+    }
+
+    try {
+      const bars = await this.fetchFinancialDatasetsHistory(symbol, timeframe);
+      return this.store(key, bars, 'financial-datasets');
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      const primary = etoroError instanceof Error ? `${etoroError.message}; ` : '';
+      throw new Error(`No history for ${symbol} (${timeframe}): ${primary}${reason}`);
+    }
+  }
+
+  invalidate(instrumentId: number, timeframe?: ChartTimeframe): void {
+    if (timeframe) {
+      this.cache.delete(`${instrumentId}:${timeframe}`);
+      return;
+    }
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${instrumentId}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Providers
+  // ---------------------------------------------------------------------------
+
+  private async fetchEtoroHistory(instrumentId: number, timeframe: ChartTimeframe): Promise<ChartBar[]> {
+    const request = HISTORY_REQUESTS[timeframe];
+    const sourceFrame: ChartTimeframe = timeframe === '4h' ? '1h' : timeframe;
+    const count = Math.min(
+      Math.ceil((request.lookbackDays * DAY_MS) / CHART_TIMEFRAME_MS[sourceFrame]),
+      timeframe === '4h' ? MAX_BARS * 4 : MAX_BARS
+    );
+
+    const adapter = getDefaultAdapter();
+    const endpoint = `${ENDPOINTS.QUOTES_HISTORY}?instrumentId=${instrumentId}&period=${request.period}&count=${count}`;
+    const response = await adapter.get<Partial<QuoteHistory> & Record<string, unknown>>(endpoint);
+
+    // API may return camelCase, PascalCase or a bare array
+    const points = (Array.isArray(response)
+      ? response
+      : response?.data || response?.Data || response?.candles || response?.Candles || []) as Array<Record<string, unknown>>;
+
+    const bars = points.map(p => this.normalizePoint(p)).filter(isValidBar);
+    return aggregateBars(bars, timeframe);
+  }
+
+  private normalizePoint(point: Record<string, unknown> | QuoteHistoryPoint): ChartBar {
+    const p = point as Record<string, unknown>;
+    const time = p.timestamp ?? p.Timestamp ?? p.fromDate ?? p.FromDate ?? p.date ?? p.Date;
+    return {
+      timestamp: typeof time === 'number' ? time : new Date(String(time)).getTime(),
+      open: Number(p.open ?? p.Open ?? 0),
+      high: Number(p.high ?? p.High ?? 0),
+      low: Number(p.low ?? p.Low ?? 0),
+      close: Number(p.close ?? p.Close ?? 0),
+      volume: Number(p.volume ?? p.Volume ?? 0),
+    };
+  }
+
+  private async fetchFinancialDatasetsHistory(symbol: string, timeframe: ChartTimeframe): Promise<ChartBar[]> {
+    const request = HISTORY_REQUESTS[timeframe];
+    const now = Date.now();
+
+    const prices = await financialDatasetsService.getHistoricalPrices({
+      ticker: symbol,
+      ...request.fd,
+      start_date: toDateString(now - request.lookbackDays * DAY_MS),
+      end_date: toDateString(now),
+      limit: 5000,
+    });
+
+    const bars = prices
+      .map(p => ({
+        timestamp: new Date(p.time).getTime(),
+        open: p.open,
+        high: p.high,
+        low: p.low,
+        close: p.close,
+        volume: p.volume ?? 0,
+      }))
+      .filter(isValidBar);
+
+    if (bars.length === 0) {
+      throw new Error('Financial Datasets returned no prices');
+    }
+    return aggregateBars(bars, timeframe);
+  }
+
+  private store(key: string, bars: ChartBar[], source: ChartDataSource): ChartHistory {
+    const history: ChartHistory = {
+      bars: bars.slice(-MAX_BARS),
+      source,
+      fetchedAt: Date.now(),
+    };
+    this.cache.set(key, history);
+    return history;
+  }
+}
+
+// Export singleton instance
+export const chartDataService = new ChartDataService();
@@ -0,0 +1,261 @@
+/**
+ * Correlation Service
+ *
+ * Computes Pearson and Spearman correlation matrices from daily returns.
+ * Symbols are resolved through symbolResolver and daily candles come from
+ * chartDataService, so any instrument with price history can be compared.
+ * Each pair is aligned on the trading days both instruments share, which
+ * keeps e.g. crypto weekends from skewing a stock/crypto pair.
+ */
+
+import { symbolResolver } from './symbolResolver';
+import { chartDataService } from './chartDataService';
+import { portfolioStore } from '../stores/portfolioStore';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export type CorrelationLookback = 30 | 90 | 252;
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  method: CorrelationMethod;
+  lookback: CorrelationLookback;
+  /** null when a pair has too few overlapping returns */
+  values: Record<string, Record<string, number | null>>;
+  /** Number of aligned daily returns behind each pair */
+  observations: Record<string, Record<string, number>>;
+  /** Symbols whose history could not be loaded, with the reason */
+  errors: Record<string, string>;
+  computedAt: number;
+}
+
+interface CloseSeries {
+  /** Daily close keyed by UTC date (YYYY-MM-DD) */
+  closes: Map<string, number>;
+  fetchedAt: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const CORRELATION_LOOKBACKS: CorrelationLookback[] = [30, 90, 252];
+
+const MIN_OBSERVATIONS = 10;
+const SERIES_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const MATRIX_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+export function pearson(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += x[i];
+    meanY += y[i];
+  }
+  meanX /= n;
+  meanY /= n;
+
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+
+  if (varX === 0 || varY === 0) return null;
+  return cov / Math.sqrt(varX * varY);
+}
+
+/** Fractional ranks (1-based); ties share the average of their positions */
+function rank(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].v === order[i].v) j++;
+    const avg = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].i] = avg;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+export function spearman(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+  return pearson(rank(x.slice(0, n)), rank(y.slice(0, n)));
+}
+
+/**
+ * Simple daily returns for the last `lookback` days both series have a close
+ * on. Returns two equal-length arrays.
+ */
+export function alignedReturns(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  lookback: number
+): [number[], number[]] {
+  const dates = Array.from(a.keys()).filter(d => b.has(d)).sort().slice(-(lookback + 1));
+  const ra: number[] = [];
+  const rb: number[] = [];
+
+  for (let i = 1; i < dates.length; i++) {
+    const prevA = a.get(dates[i - 1])!;
+    const prevB = b.get(dates[i - 1])!;
+    if (prevA <= 0 || prevB <= 0) continue;
+    ra.push(a.get(dates[i])! / prevA - 1);
+    rb.push(b.get(dates[i])! / prevB - 1);
+  }
+
+  return [ra, rb];
+}
+
+// =============================================================================
+// Correlation Service
+// =============================================================================
+
+class CorrelationService {
+  private series = new Map<string, CloseSeries>();
+  private matrices = new Map<string, CorrelationMatrix>();
+
+  async computeMatrix(
+    symbols: string[],
+    lookback: CorrelationLookback,
+    method: CorrelationMethod = 'pearson'
+  ): Promise<CorrelationMatrix> {
+    const key = `${method}:${lookback}:${symbols.join(',')}`;
+    const cached = this.matrices.get(key);
+    if (cached && Date.now() - cached.computedAt < MATRIX_TTL_MS) {
+      return cached;
+    }
+
+    const errors: Record<string, string> = {};
+    const loaded = new Map<string, Map<string, number>>();
+
+    // Sequential on purpose: history requests share the REST rate limit
+    for (const symbol of symbols) {
+      try {
+        loaded.set(symbol, await this.getDailyCloses(symbol));
+      } catch (err) {
+        errors[symbol] = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    const correlate = method === 'spearman' ? spearman : pearson;
+    const values: CorrelationMatrix['values'] = {};
+    const observations: CorrelationMatrix['observations'] = {};
+
+    for (const s1 of symbols) {
+      values[s1] = {};
+      observations[s1] = {};
+    }
+
+    symbols.forEach((s1, i) => {
+      symbols.forEach((s2, j) => {
+        if (j < i) return;
+        const a = loaded.get(s1);
+        const b = loaded.get(s2);
+
+        let value: number | null = null;
+        let count = 0;
+        if (a && b) {
+          const [ra, rb] = alignedReturns(a, b, lookback);
+          count = ra.length;
+          value = s1 === s2 ? 1 : count >= MIN_OBSERVATIONS ? correlate(ra, rb) : null;
+        }
+
+        values[s1][s2] = value;
+        values[s2][s1] = value;
+        observations[s1][s2] = count;
+        observations[s2][s1] = count;
+      });
+    });
+
+    const matrix: CorrelationMatrix = {
+      symbols: [...symbols],
+      method,
+      lookback,
+      values,
+      observations,
+      errors,
+      computedAt: Date.now(),
+    };
+
+    // Partial results are not cached so a transient failure can be retried
+    if (Object.keys(errors).length === 0) {
+      this.matrices.set(key, matrix);
+    }
+    return matrix;
+  }
+
+  /** Unique symbols of the currently loaded portfolio positions */
+  async getPortfolioSymbols(): Promise<string[]> {
+    const instrumentIds = Array.from(new Set(portfolioStore.getPositions().map(p => p.instrumentId)));
+    const symbols: string[] = [];
+
+    for (const instrumentId of instrumentIds) {
+      const resolved = await symbolResolver.getInstrumentById(instrumentId);
+      if (resolved && !symbols.includes(resolved.symbol)) {
+        symbols.push(resolved.symbol);
+      }
+    }
+
+    return symbols;
+  }
+
+  clearCache(): void {
+    this.series.clear();
+    this.matrices.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Price History
+  // ---------------------------------------------------------------------------
+
+  /** Daily closes keyed by UTC date, cached briefly; shared with riskService */
+  async getDailyCloses(symbol: string): Promise<Map<string, number>> {
+    const cached = this.series.get(symbol);
+    if (cached && Date.now() - cached.fetchedAt < SERIES_TTL_MS) {
+      return cached.closes;
+    }
+
+    const resolved = await symbolResolver.resolveSymbol(symbol);
+    if (!resolved) {
+      throw new Error(`Symbol not found: ${symbol}`);
+    }
+
+    const history = await chartDataService.loadHistory(resolved.instrumentId, resolved.symbol, '1d');
+    const closes = new Map<string, number>();
+    for (const bar of history.bars) {
+      closes.set(new Date(bar.timestamp).toISOString().split('T')[0], bar.close);
+    }
+
+    if (closes.size < MIN_OBSERVATIONS + 1) {
+      throw new Error(`Not enough daily history for ${symbol}`);
+    }
+
+    this.series.set(symbol, { closes, fetchedAt: Date.now() });
+    return closes;
+  }
+}
+
+// Export singleton instance
+export const correlationService = new CorrelationService();
@@ -1,5 +1,6 @@
 /**
- * Encryption/decryption utilities using Web Crypto API (AES-GCM)
+ * Encryption/decryption utilities using Web Crypto API (AES-GCM),
+ * plus HMAC signing for outgoing webhooks
  */
 
 const ALGORITHM = 'AES-GCM';
@@ -88,3 +89,22 @@ export async function decrypt(encryptedData: string, passphrase: string): Promis
 
   return new TextDecoder().decode(decrypted);
 }
+
+/**
+ * HMAC-SHA256 of `message` keyed with `secret`, as lowercase hex
+ */
+export async function hmacSha256Hex(message: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
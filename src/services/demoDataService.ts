@@ -4,6 +4,8 @@
  * Enable with: localStorage.setItem('demo_mode', 'true')
  */
 
+import type { ClosedTrade } from '../api/contracts/etoro-api.types';
+
 export interface DemoPosition {
   positionId: number;
   instrumentId: number;
@@ -237,6 +239,38 @@ export const getDemoOrders = () => [
   { orderId: 'ORD-004', symbol: 'GOOGL', side: 'BUY', quantity: 15, price: 173.00, status: 'PENDING', timestamp: '2025-01-29T09:00:00Z' },
 ];
 
+// Demo closed trades (history): one every few days over the last quarter, newest first
+export const getDemoTradeHistory = (): ClosedTrade[] => {
+  const DAY_MS = 86_400_000;
+  const now = Date.now();
+  return Array.from({ length: 30 }, (_, i) => {
+    const item = DEMO_WATCHLIST[(i * 7) % DEMO_WATCHLIST.length];
+    const isBuy = i % 4 !== 3;
+    const amount = 500 + ((i * 373) % 10) * 250;
+    const move = (((i * 53) % 21) - 8) / 100; // -8% .. +12%
+    const openRate = item.price * (1 - ((i * 11) % 9) / 100);
+    const closeRate = openRate * (1 + (isBuy ? move : -move));
+    const held = (1 + ((i * 5) % 12)) * DAY_MS;
+    const closedAt = now - (i * 3 + 1) * DAY_MS;
+    const fees = Number((held / DAY_MS * amount * 0.0002).toFixed(2));
+    return {
+      positionId: 9000 + i,
+      instrumentId: item.instrumentId,
+      symbol: item.symbol,
+      isBuy,
+      leverage: 1,
+      units: amount / openRate,
+      amount,
+      openRate,
+      closeRate,
+      openDateTime: new Date(closedAt - held).toISOString(),
+      closeDateTime: new Date(closedAt).toISOString(),
+      fees,
+      netProfit: Number((amount * move - fees).toFixed(2)),
+    };
+  });
+};
+
 export const demoDataService = {
   isDemoMode,
   setDemoMode,
@@ -247,6 +281,7 @@ export const demoDataService = {
   getDemoUserInfo,
   getDemoAlerts,
   getDemoOrders,
+  getDemoTradeHistory,
 };
 
 export default demoDataService;
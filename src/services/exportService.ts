@@ -129,6 +129,19 @@ const downloadJson = (data: unknown, filename: string): void => {
   URL.revokeObjectURL(url);
 };
 
+// Download CSV helper
+export const downloadCSV = (csv: string, filename: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 // Convert to CSV (for tabular data)
 export const toCSV = (data: Record<string, unknown>[]): string => {
   if (data.length === 0) return '';
@@ -137,8 +150,8 @@ export const toCSV = (data: Record<string, unknown>[]): string => {
   const rows = data.map(row => 
     headers.map(h => {
       const val = row[h];
-      if (typeof val === 'string' && val.includes(',')) {
-        return `"${val}"`;
+      if (typeof val === 'string' && /[",\n]/.test(val)) {
+        return `"${val.replace(/"/g, '""')}"`;
       }
       return String(val ?? '');
     }).join(',')
@@ -147,6 +160,57 @@ export const toCSV = (data: Record<string, unknown>[]): string => {
   return [headers.join(','), ...rows].join('\n');
 };
 
+const escapeHTML = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Convert to a standalone HTML document of tables, styled for printing
+export const toPrintableHTML = (
+  title: string,
+  notes: string[],
+  sections: { heading: string; rows: Record<string, unknown>[] }[]
+): string => {
+  const tables = sections.map(({ heading, rows }) => {
+    if (rows.length === 0) {
+      return `<h2>${escapeHTML(heading)}</h2><p>No records</p>`;
+    }
+    const headers = Object.keys(rows[0]);
+    const head = headers.map(h => `<th>${escapeHTML(h)}</th>`).join('');
+    const body = rows.map(row =>
+      `<tr>${headers.map(h => `<td${typeof row[h] === 'number' ? ' class="num"' : ''}>${escapeHTML(row[h])}</td>`).join('')}</tr>`
+    ).join('\n');
+    return `<h2>${escapeHTML(heading)}</h2>\n<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+  });
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHTML(title)}</title>
+<style>
+body { font-family: Arial, sans-serif; font-size: 11px; color: #000; margin: 24px; }
+h1 { font-size: 18px; } h2 { font-size: 14px; margin-top: 24px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #999; padding: 3px 6px; text-align: left; }
+th { background: #eee; } td.num { text-align: right; }
+@media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style></head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+${notes.map(n => `<p>${escapeHTML(n)}</p>`).join('\n')}
+${tables.join('\n')}
+</body></html>`;
+};
+
+// Download HTML helper
+export const downloadHTML = (html: string, filename: string): void => {
+  const blob = new Blob([html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 // Export portfolio as CSV
 export const exportPortfolioCSV = async (): Promise<string> => {
   const portfolio = demoDataService.getDemoPortfolio();
@@ -171,6 +235,9 @@ if (typeof window !== 'undefined') {
     exportAll,
     exportPortfolioCSV,
     toCSV,
+    downloadCSV,
+    toPrintableHTML,
+    downloadHTML,
     registerPanelExporter,
   };
 }
@@ -180,6 +247,9 @@ export const exportService = {
   exportAll,
   exportPortfolioCSV,
   toCSV,
+  downloadCSV,
+  toPrintableHTML,
+  downloadHTML,
   registerPanelExporter,
 };
 
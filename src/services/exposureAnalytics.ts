@@ -0,0 +1,284 @@
+/**
+ * Exposure Analytics
+ *
+ * Aggregate risk view over open positions: leveraged gross and net
+ * exposure (amount × leverage), broken down by asset class, exchange,
+ * industry and direction, the instruments contributing most to today's
+ * P&L, and instruments whose exposure exceeds a share of equity.
+ */
+
+import type { Position, InstrumentType } from '../api/contracts/etoro-api.types';
+import type { StoredQuote } from '../stores/quotesStore';
+import { getMarketMetadataAdapter } from '../api/adapters/marketMetadataAdapter';
+import { symbolResolver } from './symbolResolver';
+import { isDemoMode as isGlobalDemoMode } from './demoDataService';
+import { normalizeAssetClass } from './preTradeChecks';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExposureDimension = 'assetClass' | 'exchange' | 'industry' | 'side';
+
+/** What the dashboard knows about an instrument beyond the position itself */
+export interface InstrumentMeta {
+  symbol: string;
+  assetClass: InstrumentType | null;
+  exchange: string | null;
+  industry: string | null;
+}
+
+export interface ExposureTotals {
+  gross: number;
+  net: number;
+  long: number;
+  short: number;
+  positions: number;
+  /** Gross exposure as % of equity, null without equity */
+  grossPercent: number | null;
+}
+
+export interface ExposureRow extends ExposureTotals {
+  key: string;
+}
+
+export interface PnLContributor {
+  instrumentId: number;
+  symbol: string;
+  dailyPnl: number;
+  positions: number;
+}
+
+export interface ConcentrationWarning {
+  instrumentId: number;
+  symbol: string;
+  exposure: number;
+  percent: number;
+}
+
+export const EXPOSURE_DIMENSIONS: { id: ExposureDimension; label: string }[] = [
+  { id: 'assetClass', label: 'Asset Class' },
+  { id: 'exchange', label: 'Exchange' },
+  { id: 'industry', label: 'Industry' },
+  { id: 'side', label: 'Long / Short' },
+];
+
+const ASSET_CLASS_LABELS: Record<InstrumentType, string> = {
+  stock: 'Stocks',
+  etf: 'ETFs',
+  crypto: 'Crypto',
+  currency: 'Currencies',
+  commodity: 'Commodities',
+  index: 'Indices',
+};
+
+const UNKNOWN = '(unknown)';
+
+// =============================================================================
+// Per-position Values
+// =============================================================================
+
+/** Leveraged notional of a position */
+export function positionExposure(position: Position): number {
+  return position.amount * (position.leverage || 1);
+}
+
+/** Leveraged notional, negative for shorts */
+export function signedExposure(position: Position): number {
+  return position.isBuy ? positionExposure(position) : -positionExposure(position);
+}
+
+export function symbolOf(position: Position, meta?: InstrumentMeta): string {
+  return meta?.symbol || position.instrumentName || `#${position.instrumentId}`;
+}
+
+function quotePrice(quote: StoredQuote): number {
+  if (quote.lastPrice > 0) return quote.lastPrice;
+  return quote.bid > 0 && quote.ask > 0 ? (quote.bid + quote.ask) / 2 : 0;
+}
+
+function isSameLocalDay(iso: string, now: Date): boolean {
+  const date = new Date(iso);
+  return date.getFullYear() === now.getFullYear() &&
+    date.getMonth() === now.getMonth() &&
+    date.getDate() === now.getDate();
+}
+
+/**
+ * Today's P&L on a position: move since the previous close, or since entry
+ * for positions opened today. Null when there's no usable quote.
+ */
+export function positionDailyPnL(position: Position, quote: StoredQuote | undefined, now: Date = new Date()): number | null {
+  if (!quote) return null;
+  const price = quotePrice(quote);
+  if (price <= 0) return null;
+
+  let base: number;
+  if (isSameLocalDay(position.openDateTime, now)) {
+    base = position.openRate;
+  } else if (quote.changePercent !== undefined && quote.changePercent > -100) {
+    base = price / (1 + quote.changePercent / 100);
+  } else {
+    return null;
+  }
+
+  const move = (price - base) * position.units;
+  return position.isBuy ? move : -move;
+}
+
+// =============================================================================
+// Aggregates
+// =============================================================================
+
+function emptyTotals(): ExposureTotals {
+  return { gross: 0, net: 0, long: 0, short: 0, positions: 0, grossPercent: null };
+}
+
+function addPosition(totals: ExposureTotals, position: Position): void {
+  const exposure = positionExposure(position);
+  totals.gross += exposure;
+  totals.net += signedExposure(position);
+  if (position.isBuy) {
+    totals.long += exposure;
+  } else {
+    totals.short += exposure;
+  }
+  totals.positions += 1;
+}
+
+function withPercent<T extends ExposureTotals>(totals: T, equity: number | null): T {
+  totals.grossPercent = equity && equity > 0 ? (totals.gross / equity) * 100 : null;
+  return totals;
+}
+
+export function exposureTotals(positions: Position[], equity: number | null): ExposureTotals {
+  const totals = emptyTotals();
+  positions.forEach(p => addPosition(totals, p));
+  return withPercent(totals, equity);
+}
+
+function dimensionKey(position: Position, meta: InstrumentMeta | undefined, dimension: ExposureDimension): string {
+  switch (dimension) {
+    case 'assetClass':
+      return meta?.assetClass ? ASSET_CLASS_LABELS[meta.assetClass] : UNKNOWN;
+    case 'exchange':
+      return meta?.exchange || UNKNOWN;
+    case 'industry':
+      // Only stocks carry an industry; everything else is grouped by asset class
+      if (meta?.industry) return meta.industry;
+      return meta?.assetClass && meta.assetClass !== 'stock' ? `(${ASSET_CLASS_LABELS[meta.assetClass]})` : UNKNOWN;
+    case 'side':
+      return position.isBuy ? 'Long' : 'Short';
+  }
+}
+
+/** Exposure grouped by one dimension, largest gross first */
+export function exposureBy(
+  positions: Position[],
+  meta: Map<number, InstrumentMeta>,
+  dimension: ExposureDimension,
+  equity: number | null
+): ExposureRow[] {
+  const rows = new Map<string, ExposureRow>();
+  for (const position of positions) {
+    const key = dimensionKey(position, meta.get(position.instrumentId), dimension);
+    const row = rows.get(key) ?? { key, ...emptyTotals() };
+    addPosition(row, position);
+    rows.set(key, row);
+  }
+  return Array.from(rows.values())
+    .map(row => withPercent(row, equity))
+    .sort((a, b) => b.gross - a.gross);
+}
+
+/** Instruments by size of today's P&L, gains and losses alike */
+export function topContributors(
+  positions: Position[],
+  quotes: Map<number, StoredQuote>,
+  meta: Map<number, InstrumentMeta>,
+  limit = 5,
+  now: Date = new Date()
+): PnLContributor[] {
+  const byInstrument = new Map<number, PnLContributor>();
+  for (const position of positions) {
+    const pnl = positionDailyPnL(position, quotes.get(position.instrumentId), now);
+    if (pnl === null) continue;
+    const contributor = byInstrument.get(position.instrumentId) ?? {
+      instrumentId: position.instrumentId,
+      symbol: symbolOf(position, meta.get(position.instrumentId)),
+      dailyPnl: 0,
+      positions: 0,
+    };
+    contributor.dailyPnl += pnl;
+    contributor.positions += 1;
+    byInstrument.set(position.instrumentId, contributor);
+  }
+  return Array.from(byInstrument.values())
+    .sort((a, b) => Math.abs(b.dailyPnl) - Math.abs(a.dailyPnl))
+    .slice(0, limit);
+}
+
+/** Instruments whose gross exposure is more than `maxPercent` of equity */
+export function concentrationWarnings(
+  positions: Position[],
+  meta: Map<number, InstrumentMeta>,
+  equity: number | null,
+  maxPercent: number
+): ConcentrationWarning[] {
+  if (!equity || equity <= 0) return [];
+
+  const byInstrument = new Map<number, ConcentrationWarning>();
+  for (const position of positions) {
+    const warning = byInstrument.get(position.instrumentId) ?? {
+      instrumentId: position.instrumentId,
+      symbol: symbolOf(position, meta.get(position.instrumentId)),
+      exposure: 0,
+      percent: 0,
+    };
+    warning.exposure += positionExposure(position);
+    warning.percent = (warning.exposure / equity) * 100;
+    byInstrument.set(position.instrumentId, warning);
+  }
+  return Array.from(byInstrument.values())
+    .filter(w => w.percent > maxPercent)
+    .sort((a, b) => b.percent - a.percent);
+}
+
+// =============================================================================
+// Instrument Metadata
+// =============================================================================
+
+/** Symbol, asset class, exchange and industry for each instrument */
+export async function loadInstrumentMeta(instrumentIds: number[]): Promise<Map<number, InstrumentMeta>> {
+  const resolved = await Promise.all(
+    instrumentIds.map(id => symbolResolver.getInstrumentById(id).catch(() => null))
+  );
+
+  // Industry names need the API; without it the industry view falls back to asset class
+  let industryIds = new Map<number, number | null>();
+  let industryNames = new Map<number, string>();
+  if (!isGlobalDemoMode()) {
+    const adapter = getMarketMetadataAdapter();
+    try {
+      [industryIds, industryNames] = await Promise.all([
+        adapter.getInstrumentIndustries(instrumentIds),
+        adapter.getIndustries(),
+      ]);
+    } catch (err) {
+      console.warn('[ExposureAnalytics] Failed to load industries:', err);
+    }
+  }
+
+  const meta = new Map<number, InstrumentMeta>();
+  instrumentIds.forEach((id, i) => {
+    const instrument = resolved[i];
+    const industryId = industryIds.get(id);
+    meta.set(id, {
+      symbol: instrument?.symbol ?? '',
+      assetClass: normalizeAssetClass(instrument?.type),
+      exchange: instrument?.exchange || null,
+      industry: industryId != null ? industryNames.get(industryId) ?? `Industry ${industryId}` : null,
+    });
+  });
+  return meta;
+}
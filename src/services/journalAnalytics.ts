@@ -0,0 +1,214 @@
+/**
+ * Journal Analytics
+ *
+ * Performance statistics over closed trade journal entries: win rate,
+ * expectancy, profit factor, R-multiples and holding time, overall and
+ * broken down by setup, emotion, tag, weekday and hour of entry. Also
+ * daily P&L for the journal calendar and a CSV of the breakdowns.
+ */
+
+import type { JournalEntry } from './journalService';
+import { toCSV } from './exportService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JournalMetrics {
+  trades: number;
+  wins: number;
+  losses: number;
+  /** Percent of trades with a positive result */
+  winRate: number;
+  totalProfit: number;
+  /** Average result per trade */
+  expectancy: number;
+  /** Average profitPercent per trade, over trades that recorded one */
+  expectancyPercent: number | null;
+  profitFactor: number;
+  avgWin: number;
+  avgLoss: number;
+  /** Average R-multiple over trades with a planned stop */
+  avgR: number | null;
+  rTrades: number;
+  /** Average time from entry to close, over trades with a close time */
+  avgHoldingMs: number | null;
+}
+
+export type BreakdownDimension = 'setup' | 'emotion' | 'tag' | 'weekday' | 'hour';
+
+export interface BreakdownRow {
+  key: string;
+  metrics: JournalMetrics;
+}
+
+export const BREAKDOWN_DIMENSIONS: { id: BreakdownDimension; label: string }[] = [
+  { id: 'setup', label: 'Setup' },
+  { id: 'emotion', label: 'Emotion' },
+  { id: 'tag', label: 'Tag' },
+  { id: 'weekday', label: 'Weekday' },
+  { id: 'hour', label: 'Hour' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const UNSPECIFIED = '(none)';
+
+// =============================================================================
+// Per-trade Values
+// =============================================================================
+
+/** Closed entries with a recorded result */
+export function closedTrades(entries: JournalEntry[]): JournalEntry[] {
+  return entries.filter(e => e.status !== 'open' && e.profit !== undefined);
+}
+
+/** Result in multiples of the risk to the planned stop; null without a usable stop or exit */
+export function rMultiple(entry: JournalEntry): number | null {
+  if (!entry.stopLoss || entry.exitPrice === undefined) return null;
+
+  const risk = entry.side === 'BUY' ? entry.entryPrice - entry.stopLoss : entry.stopLoss - entry.entryPrice;
+  if (risk <= 0) return null;
+
+  const move = entry.side === 'BUY' ? entry.exitPrice - entry.entryPrice : entry.entryPrice - entry.exitPrice;
+  return move / risk;
+}
+
+export function holdingMs(entry: JournalEntry): number | null {
+  if (!entry.closedAt) return null;
+  const held = new Date(entry.closedAt).getTime() - new Date(entry.timestamp).getTime();
+  return Number.isFinite(held) && held >= 0 ? held : null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+export function computeMetrics(entries: JournalEntry[]): JournalMetrics {
+  const trades = closedTrades(entries);
+  const profits = trades.map(e => e.profit!);
+  const wins = profits.filter(p => p > 0);
+  const losses = profits.filter(p => p <= 0);
+  const grossProfit = wins.reduce((sum, p) => sum + p, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, p) => sum + p, 0));
+
+  const rValues = trades.map(rMultiple).filter((r): r is number => r !== null);
+  const holds = trades.map(holdingMs).filter((h): h is number => h !== null);
+  const percents = trades.map(e => e.profitPercent).filter((p): p is number => p !== undefined);
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length ? (wins.length / trades.length) * 100 : 0,
+    totalProfit: grossProfit - grossLoss,
+    expectancy: mean(profits) ?? 0,
+    expectancyPercent: mean(percents),
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    avgWin: wins.length ? grossProfit / wins.length : 0,
+    avgLoss: losses.length ? -grossLoss / losses.length : 0,
+    avgR: mean(rValues),
+    rTrades: rValues.length,
+    avgHoldingMs: mean(holds),
+  };
+}
+
+/** Groups an entry belongs to; emotions and tags can put one trade in several */
+function groupKeys(entry: JournalEntry, dimension: BreakdownDimension): string[] {
+  const opened = new Date(entry.timestamp);
+  switch (dimension) {
+    case 'setup':
+      return [entry.setup || UNSPECIFIED];
+    case 'emotion':
+      return entry.emotions.length > 0 ? entry.emotions : [UNSPECIFIED];
+    case 'tag':
+      return entry.tags.length > 0 ? entry.tags : [UNSPECIFIED];
+    case 'weekday':
+      return [WEEKDAYS[opened.getDay()]];
+    case 'hour':
+      return [`${String(opened.getHours()).padStart(2, '0')}:00`];
+  }
+}
+
+/** Metrics per group, in calendar order for weekday/hour and by trade count otherwise */
+export function computeBreakdown(entries: JournalEntry[], dimension: BreakdownDimension): BreakdownRow[] {
+  const groups = new Map<string, JournalEntry[]>();
+  for (const entry of closedTrades(entries)) {
+    for (const key of groupKeys(entry, dimension)) {
+      const group = groups.get(key) ?? [];
+      group.push(entry);
+      groups.set(key, group);
+    }
+  }
+
+  const rows = Array.from(groups, ([key, group]) => ({ key, metrics: computeMetrics(group) }));
+  if (dimension === 'weekday') {
+    return rows.sort((a, b) => WEEKDAYS.indexOf(a.key) - WEEKDAYS.indexOf(b.key));
+  }
+  if (dimension === 'hour') {
+    return rows.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return rows.sort((a, b) => b.metrics.trades - a.metrics.trades || a.key.localeCompare(b.key));
+}
+
+// =============================================================================
+// Calendar
+// =============================================================================
+
+/** Local date as YYYY-MM-DD */
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Realized P&L by the local day each trade closed */
+export function dailyPnL(entries: JournalEntry[]): Map<string, number> {
+  const days = new Map<string, number>();
+  for (const entry of closedTrades(entries)) {
+    const key = dayKey(new Date(entry.closedAt ?? entry.timestamp));
+    days.set(key, (days.get(key) ?? 0) + entry.profit!);
+  }
+  return days;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+function round(value: number | null, digits = 2): number | string {
+  if (value === null) return '';
+  if (!Number.isFinite(value)) return 'Infinity';
+  return Number(value.toFixed(digits));
+}
+
+/** Overall metrics followed by every breakdown, one row per group */
+export function analyticsToCSV(entries: JournalEntry[]): string {
+  const row = (dimension: string, group: string, m: JournalMetrics) => ({
+    dimension,
+    group,
+    trades: m.trades,
+    wins: m.wins,
+    losses: m.losses,
+    winRate: round(m.winRate, 1),
+    totalProfit: round(m.totalProfit),
+    expectancy: round(m.expectancy),
+    expectancyPercent: round(m.expectancyPercent),
+    profitFactor: round(m.profitFactor),
+    avgWin: round(m.avgWin),
+    avgLoss: round(m.avgLoss),
+    avgR: round(m.avgR),
+    rTrades: m.rTrades,
+    avgHoldingHours: round(m.avgHoldingMs === null ? null : m.avgHoldingMs / 3_600_000, 1),
+  });
+
+  return toCSV([
+    row('all', 'all', computeMetrics(entries)),
+    ...BREAKDOWN_DIMENSIONS.flatMap(({ id }) =>
+      computeBreakdown(entries, id).map(({ key, metrics }) => row(id, key, metrics))
+    ),
+  ]);
+}
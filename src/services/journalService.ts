@@ -0,0 +1,461 @@
+/**
+ * Journal Service
+ *
+ * Trade journal entries kept in localStorage. Positions opened while the
+ * terminal runs are captured as draft entries linked by positionId, and are
+ * closed with the exit price and P&L when the position closes. Drafts wait
+ * for the trader to add reasoning, setup and emotions in TradeJournalPanel.
+ *
+ * Opens and closes are seen as positions appearing and disappearing in
+ * portfolioStore. Closes made from the terminal also report their exact
+ * fill through recordClose. Manually written entries can be linked to a
+ * position afterwards with findMatches/linkToPosition.
+ */
+
+import type { Position } from '../api/contracts/etoro-api.types';
+import type { ClosePositionResult } from '../api/adapters/positionAdapter';
+import type { ActivityMode } from '../stores/activityStore';
+import { portfolioStore, type PortfolioState } from '../stores/portfolioStore';
+import { symbolResolver } from './symbolResolver';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JournalStatus = 'open' | 'closed' | 'stopped';
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  entryPrice: number;
+  exitPrice?: number;
+  /** Planned stop, used to express the result in R-multiples */
+  stopLoss?: number;
+  quantity: number;
+  status: JournalStatus;
+  reasoning: string;
+  emotions: string[];
+  setup: string;
+  lessons?: string;
+  profit?: number;
+  profitPercent?: number;
+  tags: string[];
+  /** Broker position this entry records; set for captured and matched entries */
+  positionId?: number;
+  instrumentId?: number;
+  mode?: ActivityMode;
+  /** Invested amount and leverage, from the broker */
+  amount?: number;
+  leverage?: number;
+  closedAt?: string;
+  /** 'auto' entries were captured from an execution */
+  source?: 'manual' | 'auto';
+  /** Captured but the trader hasn't written it up yet */
+  draft?: boolean;
+}
+
+/** A position a manual entry could be linked to */
+export interface JournalMatch {
+  positionId: number;
+  mode: ActivityMode;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  entryPrice: number;
+  quantity: number;
+  openedAt: string;
+  status: JournalStatus;
+}
+
+export interface JournalClose {
+  exitPrice?: number;
+  profit?: number;
+  closedAt: string;
+  stopped?: boolean;
+}
+
+type Listener = () => void;
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'etoro-terminal-journal';
+// Position IDs open when each account was last seen, so opens while the terminal was closed are caught
+const SEEN_POSITIONS_STORAGE_KEY = 'etoro-terminal-journal-positions';
+// Polled rates lag the actual fill, so a close within this distance of the stop counts as stopped out
+const STOP_LOSS_TOLERANCE = 0.002;
+const AUTO_TAG = 'auto';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function positionSymbol(position: Position): string {
+  return position.instrumentName?.split(' - ')[0] || `#${position.instrumentId}`;
+}
+
+function isStoppedOut(position: Position): boolean {
+  const stop = position.stopLossRate;
+  const lastRate = position.currentRate;
+  if (!stop || !lastRate) return false;
+  return position.isBuy
+    ? lastRate <= stop * (1 + STOP_LOSS_TOLERANCE)
+    : lastRate >= stop * (1 - STOP_LOSS_TOLERANCE);
+}
+
+/** P&L % of the invested amount when known, otherwise of the entry price */
+export function computeProfitPercent(entry: Pick<JournalEntry, 'side' | 'entryPrice' | 'amount'>, profit: number, exitPrice?: number): number | undefined {
+  if (entry.amount && entry.amount > 0) {
+    return (profit / entry.amount) * 100;
+  }
+  if (exitPrice === undefined || !entry.entryPrice) return undefined;
+  const move = entry.side === 'BUY' ? exitPrice - entry.entryPrice : entry.entryPrice - exitPrice;
+  return (move / entry.entryPrice) * 100;
+}
+
+function draftFromPosition(position: Position, mode: ActivityMode): JournalEntry {
+  return {
+    id: `trade-${Date.now()}-${position.positionId}`,
+    timestamp: position.openDateTime || new Date().toISOString(),
+    symbol: positionSymbol(position),
+    side: position.isBuy ? 'BUY' : 'SELL',
+    entryPrice: position.openRate,
+    stopLoss: position.stopLossRate || undefined,
+    quantity: position.units,
+    status: 'open',
+    reasoning: '',
+    emotions: [],
+    setup: '',
+    tags: [AUTO_TAG],
+    positionId: position.positionId,
+    instrumentId: position.instrumentId,
+    mode,
+    amount: position.amount,
+    leverage: position.leverage,
+    source: 'auto',
+    draft: true,
+  };
+}
+
+function closeEntry(entry: JournalEntry, close: JournalClose): JournalEntry {
+  let profit = close.profit;
+  if (profit === undefined && close.exitPrice !== undefined) {
+    const move = entry.side === 'BUY' ? close.exitPrice - entry.entryPrice : entry.entryPrice - close.exitPrice;
+    profit = move * entry.quantity;
+  }
+
+  return {
+    ...entry,
+    status: close.stopped ? 'stopped' : 'closed',
+    exitPrice: close.exitPrice ?? entry.exitPrice,
+    profit: profit ?? entry.profit,
+    profitPercent: profit !== undefined ? computeProfitPercent(entry, profit, close.exitPrice) : entry.profitPercent,
+    closedAt: close.closedAt,
+  };
+}
+
+// =============================================================================
+// Journal Service
+// =============================================================================
+
+class JournalService {
+  private entries: JournalEntry[] = [];
+  private listeners: Set<Listener> = new Set();
+  private unsubscribe: (() => void) | null = null;
+
+  private lastPositions: Map<number, Position> | null = null;
+  private lastPortfolioIsDemo: boolean | null = null;
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Entries
+  // ---------------------------------------------------------------------------
+
+  /** Newest first */
+  getEntries(): JournalEntry[] {
+    return [...this.entries];
+  }
+
+  getDrafts(): JournalEntry[] {
+    return this.entries.filter(e => e.draft);
+  }
+
+  /** Add an entry, or replace the one with the same ID */
+  saveEntry(entry: JournalEntry): void {
+    const index = this.entries.findIndex(e => e.id === entry.id);
+    if (index >= 0) {
+      this.entries[index] = entry;
+    } else {
+      this.entries.unshift(entry);
+    }
+    this.persist();
+  }
+
+  deleteEntry(id: string): void {
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.persist();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.lastPositions = null;
+    this.lastPortfolioIsDemo = null;
+    this.unsubscribe = portfolioStore.subscribe((state) => this.handlePortfolio(state));
+    console.log(`[JournalService] Started with ${this.getDrafts().length} drafts`);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Executions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Close the position's entry with the broker's fill. Positions opened
+   * before capture started get a closed draft. Partial closes leave the
+   * entry open for the remaining units.
+   */
+  recordClose(mode: ActivityMode, result: ClosePositionResult, position?: Position): void {
+    if (result.isPartialClose) return;
+
+    const close: JournalClose = {
+      exitPrice: result.closedRate || undefined,
+      profit: result.profit,
+      closedAt: result.closedAt,
+    };
+    const entry = this.findByPosition(result.positionId, mode);
+    if (entry) {
+      this.saveEntry(closeEntry(entry, close));
+    } else if (position) {
+      this.saveEntry(closeEntry(draftFromPosition(position, mode), close));
+    }
+  }
+
+  findByPosition(positionId: number, mode: ActivityMode): JournalEntry | undefined {
+    return this.entries.find(e => e.positionId === positionId && (e.mode ?? mode) === mode);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Matching
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Positions an unlinked entry could record: captured entries and open
+   * positions with the same symbol and side, closest entry price first
+   */
+  findMatches(entryId: string): JournalMatch[] {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry || entry.positionId !== undefined) return [];
+
+    const symbol = entry.symbol.toUpperCase();
+    const matches: JournalMatch[] = this.entries
+      .filter(e => e.source === 'auto' && e.positionId !== undefined && e.symbol.toUpperCase() === symbol && e.side === entry.side)
+      .map(e => ({
+        positionId: e.positionId!,
+        mode: e.mode ?? (portfolioStore.isDemoMode() ? 'demo' : 'real'),
+        symbol: e.symbol,
+        side: e.side,
+        entryPrice: e.entryPrice,
+        quantity: e.quantity,
+        openedAt: e.timestamp,
+        status: e.status,
+      }));
+
+    const mode: ActivityMode = portfolioStore.isDemoMode() ? 'demo' : 'real';
+    for (const position of portfolioStore.getPositions()) {
+      const side = position.isBuy ? 'BUY' : 'SELL';
+      if (positionSymbol(position).toUpperCase() !== symbol || side !== entry.side) continue;
+      if (this.findByPosition(position.positionId, mode)) continue;
+      matches.push({
+        positionId: position.positionId,
+        mode,
+        symbol: positionSymbol(position),
+        side,
+        entryPrice: position.openRate,
+        quantity: position.units,
+        openedAt: position.openDateTime,
+        status: 'open',
+      });
+    }
+
+    const distance = (m: JournalMatch) => Math.abs(m.entryPrice - entry.entryPrice) / (entry.entryPrice || 1);
+    return matches.sort((a, b) => distance(a) - distance(b));
+  }
+
+  /**
+   * Link an entry to a position. The broker's prices, size and result
+   * replace the entry's; its notes are kept. A captured entry for the same
+   * position is folded into it.
+   */
+  linkToPosition(entryId: string, match: JournalMatch): void {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry) {
+      throw new Error(`Journal entry ${entryId} not found`);
+    }
+
+    const existing = this.findByPosition(match.positionId, match.mode);
+    if (existing && existing.id !== entryId && existing.source !== 'auto') {
+      throw new Error(`Position #${match.positionId} is already linked to another entry`);
+    }
+    const captured = existing?.source === 'auto' ? existing : undefined;
+    const position = portfolioStore.getPosition(match.positionId);
+    const broker = existing ?? (position ? draftFromPosition(position, match.mode) : null);
+    if (!broker) {
+      throw new Error(`Position #${match.positionId} is no longer available`);
+    }
+
+    const linked: JournalEntry = {
+      ...broker,
+      id: entry.id,
+      reasoning: entry.reasoning || broker.reasoning,
+      emotions: entry.emotions.length > 0 ? entry.emotions : broker.emotions,
+      setup: entry.setup || broker.setup,
+      stopLoss: entry.stopLoss ?? broker.stopLoss,
+      lessons: entry.lessons || broker.lessons,
+      tags: Array.from(new Set([...entry.tags, ...broker.tags.filter(t => t !== AUTO_TAG)])),
+      source: 'manual',
+      draft: false,
+    };
+
+    this.entries = this.entries
+      .filter(e => e !== captured)
+      .map(e => (e.id === entryId ? linked : e));
+    this.persist();
+  }
+
+  /** Detach an entry from its position, keeping everything recorded so far */
+  unlink(entryId: string): void {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry) return;
+
+    const { positionId: _positionId, instrumentId: _instrumentId, mode: _mode, ...rest } = entry;
+    this.saveEntry({ ...rest, source: 'manual' });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Capture
+  // ---------------------------------------------------------------------------
+
+  private handlePortfolio(state: PortfolioState): void {
+    const positions = state.portfolio?.positions;
+    if (!positions) return;
+
+    const mode: ActivityMode = state.isDemo ? 'demo' : 'real';
+    const current = new Map(positions.map(p => [p.positionId, p]));
+    const previous = this.lastPortfolioIsDemo === state.isDemo ? this.lastPositions : null;
+    this.lastPositions = current;
+    this.lastPortfolioIsDemo = state.isDemo;
+
+    const known = previous ? new Set(previous.keys()) : this.loadSeenPositions(mode);
+    if (!previous || positions.length !== known?.size || positions.some(p => !known.has(p.positionId))) {
+      this.saveSeenPositions(mode, [...current.keys()]);
+    }
+    // First time on this account: positions already open aren't new trades
+    if (!known) return;
+
+    let changed = false;
+    for (const position of positions) {
+      if (known.has(position.positionId) || this.findByPosition(position.positionId, mode)) continue;
+      const draft = draftFromPosition(position, mode);
+      this.entries.unshift(draft);
+      this.resolveSymbol(draft);
+      changed = true;
+    }
+
+    for (const positionId of known) {
+      if (current.has(positionId)) continue;
+      const entry = this.findByPosition(positionId, mode);
+      if (!entry || entry.status !== 'open') continue;
+
+      // Closed outside the terminal, or before recordClose arrived: use the last rate seen
+      const last = previous?.get(positionId);
+      const index = this.entries.indexOf(entry);
+      this.entries[index] = closeEntry(entry, {
+        exitPrice: last?.currentRate,
+        profit: last?.profit,
+        closedAt: new Date().toISOString(),
+        stopped: last ? isStoppedOut(last) : false,
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /** Positions seen before their instrument name was loaded are captured as #id */
+  private resolveSymbol(entry: JournalEntry): void {
+    if (!entry.symbol.startsWith('#') || entry.instrumentId === undefined) return;
+
+    symbolResolver.getInstrumentById(entry.instrumentId)
+      .then((resolved) => {
+        const latest = this.entries.find(e => e.id === entry.id);
+        if (resolved && latest?.symbol === entry.symbol) {
+          this.saveEntry({ ...latest, symbol: resolved.symbol });
+        }
+      })
+      .catch(() => {});
+  }
+
+  // ---------------------------------------------------------------------------
+  // Storage
+  // ---------------------------------------------------------------------------
+
+  private loadFromStorage(): void {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      this.entries = Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.error('Failed to load journal entries:', error);
+      this.entries = [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.warn('Failed to save journal entries:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private loadSeenPositions(mode: ActivityMode): Set<number> | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SEEN_POSITIONS_STORAGE_KEY) || '{}');
+      return Array.isArray(stored?.[mode]) ? new Set(stored[mode] as number[]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveSeenPositions(mode: ActivityMode, positionIds: number[]): void {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SEEN_POSITIONS_STORAGE_KEY) || '{}');
+      localStorage.setItem(SEEN_POSITIONS_STORAGE_KEY, JSON.stringify({ ...stored, [mode]: positionIds }));
+    } catch (error) {
+      console.warn('Failed to save journal positions:', error);
+    }
+  }
+}
+
+export const journalService = new JournalService();
@@ -0,0 +1,406 @@
+/**
+ * Pre-Trade Checks - Pluggable risk rules run before any order is submitted
+ *
+ * The Trade Ticket and strategy approvals describe their order as a
+ * PreTradeOrder and run it through the shared engine. Each registered rule
+ * returns a PreTradeCheck (or null when it does not apply); a failed check
+ * marked critical blocks submission, the rest are shown as warnings.
+ */
+
+import type { InstrumentType, Position } from '../api/contracts/etoro-api.types';
+import type { ActionType, PreTradeCheck, ProposedAction, RiskParameters } from '../types/strategy.types';
+import type { ActivityMode } from '../stores/activityStore';
+import { portfolioStore } from '../stores/portfolioStore';
+import { quotesStore, StoredQuote } from '../stores/quotesStore';
+import { symbolResolver } from './symbolResolver';
+import { positionDailyPnL } from './exposureAnalytics';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PreTradeOrder {
+  symbol: string;
+  instrumentId?: number;
+  action: ActionType;
+  side: 'buy' | 'sell';
+  amount: number;             // Cash committed in USD (before leverage)
+  leverage: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  mode: ActivityMode;
+  confirmed?: boolean;        // Undefined = confirmation not asked yet, rule is skipped
+  riskParams?: RiskParameters; // Strategy limits, applied on top of the global ones
+}
+
+export interface RiskLimits {
+  maxPositionPercent: number;                       // Single order as % of equity
+  maxLeverage: Record<InstrumentType, number>;
+  maxDailyLoss: number;                             // USD lost since the previous close
+  maxConcentrationPercent: number;                  // All exposure to one instrument as % of equity
+}
+
+export interface PreTradeContext {
+  order: PreTradeOrder;
+  limits: RiskLimits;
+  assetClass: InstrumentType | null;
+  equity: number | null;
+  positions: Position[];
+  quote: StoredQuote | undefined;
+  dailyPnl: number | null;
+}
+
+export interface PreTradeRule {
+  id: string;
+  run: (context: PreTradeContext) => PreTradeCheck | null;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxPositionPercent: 20,
+  maxLeverage: {
+    stock: 5,
+    etf: 5,
+    crypto: 2,
+    currency: 30,
+    commodity: 10,
+    index: 20,
+  },
+  maxDailyLoss: 1000,
+  maxConcentrationPercent: 25,
+};
+
+const LIMITS_STORAGE_KEY = 'etoro-terminal-risk-limits';
+const DAY_START_STORAGE_KEY = 'etoro-terminal-day-start-equity';
+
+// eToro instrumentTypeId values and the labels used by the static symbol universe
+const ASSET_CLASS_ALIASES: Record<string, InstrumentType> = {
+  '1': 'currency',
+  '2': 'commodity',
+  '4': 'index',
+  '5': 'stock',
+  '6': 'etf',
+  '10': 'crypto',
+  stock: 'stock',
+  stocks: 'stock',
+  etf: 'etf',
+  etfs: 'etf',
+  crypto: 'crypto',
+  cryptocurrency: 'crypto',
+  currency: 'currency',
+  currencies: 'currency',
+  forex: 'currency',
+  commodity: 'commodity',
+  commodities: 'commodity',
+  index: 'index',
+  indices: 'index',
+};
+
+/**
+ * Map an instrument type as reported by the API or the symbol universe
+ * ("Stocks", "Forex", 10, ...) onto an InstrumentType.
+ */
+export function normalizeAssetClass(raw: unknown): InstrumentType | null {
+  if (raw === null || raw === undefined) return null;
+  return ASSET_CLASS_ALIASES[String(raw).trim().toLowerCase()] ?? null;
+}
+
+// =============================================================================
+// Built-in Rules
+// =============================================================================
+
+const pct = (value: number) => `${value.toFixed(1)}%`;
+
+const tighter = (global: number, strategy?: number) =>
+  strategy !== undefined && strategy > 0 ? Math.min(global, strategy) : global;
+
+const positionSizeRule: PreTradeRule = {
+  id: 'position-size',
+  run: ({ order, limits, equity }) => {
+    if (order.action !== 'open') return null;
+    const max = tighter(limits.maxPositionPercent, order.riskParams?.maxPositionSize);
+    if (!equity || equity <= 0) {
+      return { name: 'Position size', passed: false, message: 'Portfolio equity unavailable', critical: false };
+    }
+    if (!(order.amount > 0)) {
+      return { name: 'Position size', passed: false, message: 'Order size unknown without a quote', critical: false };
+    }
+    const share = (order.amount / equity) * 100;
+    return {
+      name: 'Position size',
+      passed: share <= max,
+      message: `${pct(share)} of equity (max ${pct(max)})`,
+      critical: true,
+    };
+  },
+};
+
+const leverageRule: PreTradeRule = {
+  id: 'leverage',
+  run: ({ order, limits, assetClass }) => {
+    if (order.action !== 'open') return null;
+    const assetMax = limits.maxLeverage[assetClass ?? 'stock'];
+    const max = tighter(assetMax, order.riskParams?.maxLeverage);
+    const label = assetClass ?? 'unknown asset class, stock limit';
+    return {
+      name: 'Leverage',
+      passed: order.leverage <= max,
+      message: `${order.leverage}x (max ${max}x for ${label})`,
+      critical: true,
+    };
+  },
+};
+
+const dailyLossRule: PreTradeRule = {
+  id: 'daily-loss',
+  run: ({ order, limits, dailyPnl }) => {
+    if (order.action !== 'open') return null;
+    const max = tighter(limits.maxDailyLoss, order.riskParams?.maxDailyLoss);
+    if (dailyPnl === null) {
+      return { name: 'Daily loss', passed: false, message: 'Portfolio equity unavailable', critical: false };
+    }
+    const loss = Math.max(0, -dailyPnl);
+    return {
+      name: 'Daily loss',
+      passed: loss < max,
+      message: `$${loss.toFixed(2)} lost today (limit $${max.toFixed(2)})`,
+      critical: true,
+    };
+  },
+};
+
+const concentrationRule: PreTradeRule = {
+  id: 'concentration',
+  run: ({ order, limits, equity, positions }) => {
+    if (order.action !== 'open' || order.instrumentId === undefined) return null;
+    if (!equity || equity <= 0) return null;
+    const existing = positions
+      .filter(p => p.instrumentId === order.instrumentId)
+      .reduce((sum, p) => sum + p.amount, 0);
+    const share = ((existing + Math.max(0, order.amount)) / equity) * 100;
+    return {
+      name: 'Concentration',
+      passed: share <= limits.maxConcentrationPercent,
+      message: `${order.symbol} would be ${pct(share)} of equity (max ${pct(limits.maxConcentrationPercent)})`,
+      critical: true,
+    };
+  },
+};
+
+const staleQuoteRule: PreTradeRule = {
+  id: 'stale-quote',
+  run: ({ order, quote }) => {
+    if (order.instrumentId === undefined) {
+      return { name: 'Fresh quote', passed: false, message: 'Instrument not resolved', critical: true };
+    }
+    const stale = quotesStore.isStale(order.instrumentId);
+    return {
+      name: 'Fresh quote',
+      passed: !stale,
+      message: stale
+        ? quote ? 'Quote is stale - price may have moved' : 'No quote received'
+        : 'Quote is live',
+      // Closing at market is still safer than holding on a stale price
+      critical: order.action === 'open',
+    };
+  },
+};
+
+const realModeConfirmationRule: PreTradeRule = {
+  id: 'real-mode-confirmation',
+  run: ({ order }) => {
+    if (order.mode !== 'real' || order.confirmed === undefined) return null;
+    return {
+      name: 'Real-mode confirmation',
+      passed: order.confirmed,
+      message: order.confirmed ? 'Confirmed by user' : 'Real-money orders must be confirmed',
+      critical: true,
+    };
+  },
+};
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+class PreTradeCheckEngine {
+  private rules: Map<string, PreTradeRule> = new Map();
+  private limits: RiskLimits;
+
+  constructor() {
+    this.limits = this.loadLimits();
+    [
+      positionSizeRule,
+      leverageRule,
+      dailyLossRule,
+      concentrationRule,
+      staleQuoteRule,
+      realModeConfirmationRule,
+    ].forEach(rule => this.register(rule));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rules
+  // ---------------------------------------------------------------------------
+
+  /** Add or replace a rule. Returns a function that removes it. */
+  register(rule: PreTradeRule): () => void {
+    this.rules.set(rule.id, rule);
+    return () => this.unregister(rule.id);
+  }
+
+  unregister(id: string): void {
+    this.rules.delete(id);
+  }
+
+  getRuleIds(): string[] {
+    return Array.from(this.rules.keys());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Limits
+  // ---------------------------------------------------------------------------
+
+  getLimits(): RiskLimits {
+    return { ...this.limits, maxLeverage: { ...this.limits.maxLeverage } };
+  }
+
+  setLimits(updates: Partial<RiskLimits>): void {
+    this.limits = {
+      ...this.limits,
+      ...updates,
+      maxLeverage: { ...this.limits.maxLeverage, ...updates.maxLeverage },
+    };
+    try {
+      localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(this.limits));
+    } catch (err) {
+      console.error('[PreTradeChecks] Failed to save limits:', err);
+    }
+  }
+
+  private loadLimits(): RiskLimits {
+    try {
+      const stored = localStorage.getItem(LIMITS_STORAGE_KEY);
+      if (stored) {
+        const data = JSON.parse(stored) as Partial<RiskLimits>;
+        return {
+          ...DEFAULT_RISK_LIMITS,
+          ...data,
+          maxLeverage: { ...DEFAULT_RISK_LIMITS.maxLeverage, ...data.maxLeverage },
+        };
+      }
+    } catch (err) {
+      console.error('[PreTradeChecks] Failed to load limits:', err);
+    }
+    return { ...DEFAULT_RISK_LIMITS, maxLeverage: { ...DEFAULT_RISK_LIMITS.maxLeverage } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Evaluation
+  // ---------------------------------------------------------------------------
+
+  /** Run all rules, resolving the instrument's asset class first. */
+  async run(order: PreTradeOrder): Promise<PreTradeCheck[]> {
+    let assetClass: InstrumentType | null = null;
+    if (order.instrumentId !== undefined) {
+      const instrument = await symbolResolver.getInstrumentById(order.instrumentId).catch(() => null);
+      assetClass = normalizeAssetClass(instrument?.type);
+    }
+    return this.evaluate(order, assetClass);
+  }
+
+  /** Run all rules synchronously when the caller already knows the asset class. */
+  evaluate(order: PreTradeOrder, assetClass: InstrumentType | null): PreTradeCheck[] {
+    const { portfolio, isDemo } = portfolioStore.getState();
+    const equity = portfolio?.equity ?? null;
+    const positions = portfolio?.positions ?? [];
+    const context: PreTradeContext = {
+      order,
+      limits: this.limits,
+      assetClass,
+      equity,
+      positions,
+      quote: order.instrumentId !== undefined ? quotesStore.getQuote(order.instrumentId) : undefined,
+      dailyPnl: equity !== null ? this.dailyPnl(equity, isDemo, positions) : null,
+    };
+
+    const checks: PreTradeCheck[] = [];
+    this.rules.forEach(rule => {
+      try {
+        const check = rule.run(context);
+        if (check) checks.push(check);
+      } catch (err) {
+        console.error(`[PreTradeChecks] Rule "${rule.id}" failed:`, err);
+        checks.push({ name: rule.id, passed: false, message: 'Check could not be evaluated', critical: true });
+      }
+    });
+    return checks;
+  }
+
+  /**
+   * Today's P&L for the daily loss limit: the worse of the open positions'
+   * move since the previous close and the equity change since the first
+   * check today, which also picks up losses realized after that check.
+   */
+  private dailyPnl(equity: number, isDemo: boolean, positions: Position[]): number {
+    const sinceFirstCheck = equity - this.firstCheckEquity(equity, isDemo);
+    const openPositions = positions.reduce(
+      (sum, p) => sum + (positionDailyPnL(p, quotesStore.getQuote(p.instrumentId)) ?? 0),
+      0
+    );
+    return Math.min(sinceFirstCheck, openPositions);
+  }
+
+  /** Equity at the first check of the current UTC day for this account */
+  private firstCheckEquity(equity: number, isDemo: boolean): number {
+    const key = `${new Date().toISOString().slice(0, 10)}:${isDemo ? 'demo' : 'real'}`;
+    try {
+      const stored = JSON.parse(localStorage.getItem(DAY_START_STORAGE_KEY) || '{}') as Record<string, number>;
+      if (typeof stored[key] === 'number') return stored[key];
+      // Only keep today's entries
+      const today = Object.fromEntries(
+        Object.entries(stored).filter(([k]) => k.startsWith(key.slice(0, 10)))
+      );
+      localStorage.setItem(DAY_START_STORAGE_KEY, JSON.stringify({ ...today, [key]: equity }));
+    } catch (err) {
+      console.error('[PreTradeChecks] Failed to persist day start equity:', err);
+    }
+    return equity;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Failed checks that must block submission */
+export function getBlockingChecks(checks: PreTradeCheck[]): PreTradeCheck[] {
+  return checks.filter(c => c.critical && !c.passed);
+}
+
+export function orderFromAction(
+  action: ProposedAction,
+  mode: ActivityMode,
+  confirmed?: boolean,
+  riskParams?: RiskParameters
+): PreTradeOrder {
+  return {
+    symbol: action.symbol,
+    instrumentId: action.instrumentId,
+    action: action.type,
+    side: action.side,
+    amount: action.amount,
+    leverage: action.leverage,
+    stopLoss: action.stopLoss,
+    takeProfit: action.takeProfit,
+    mode,
+    confirmed,
+    riskParams,
+  };
+}
+
+// Export singleton instance
+export const preTradeCheckEngine = new PreTradeCheckEngine();
@@ -230,7 +230,11 @@ export class PrivateTopicRouter {
       this.routeOrderUpdate(payload);
     });
 
-    this.unsubscribeMessageHandlers.push(unsubPosition, unsubOrder);
+    const unsubPortfolio = this.wsClient.onPortfolioUpdate((payload) => {
+      this.routePortfolioUpdate(payload as PortfolioUpdatePayload);
+    });
+
+    this.unsubscribeMessageHandlers.push(unsubPosition, unsubOrder, unsubPortfolio);
   }
 
   private routePositionUpdate(payload: PositionUpdatePayload): void {
@@ -259,14 +263,27 @@ export class PrivateTopicRouter {
     }
   }
 
+  private routePortfolioUpdate(payload: PortfolioUpdatePayload): void {
+    this.log('Routing portfolio update');
+    this.portfolioHandlers.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.log('Portfolio handler error', error);
+      }
+    });
+  }
+
   private routeFill(orderPayload: OrderUpdatePayload): void {
+    // Executed order messages may carry the resulting position details
+    const raw = orderPayload as OrderUpdatePayload & Partial<Pick<FillPayload, 'positionId' | 'side' | 'amount'>>;
     const fillPayload: FillPayload = {
       orderId: orderPayload.orderId,
-      positionId: 0,
+      positionId: raw.positionId ?? 0,
       executedRate: orderPayload.executedRate!,
       executedAt: orderPayload.executedAt!,
-      side: 'buy',
-      amount: 0,
+      side: raw.side ?? 'buy',
+      amount: raw.amount ?? 0,
     };
 
     this.log(`Routing fill: orderId=${fillPayload.orderId}`);
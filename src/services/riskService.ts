@@ -0,0 +1,485 @@
+/**
+ * Risk Service
+ *
+ * Portfolio risk for the open positions in portfolioStore:
+ * - One-day historical and parametric (normal) VaR and expected shortfall
+ *   at 95% and 99%, from daily returns of each held instrument applied to
+ *   today's leveraged exposure
+ * - Per-position and portfolio beta against a benchmark (SPY by default)
+ * - User-defined stress scenarios ("tech -10%, crypto -25%") projecting
+ *   P&L per position and for the whole portfolio
+ *
+ * Daily closes come from correlationService, which caches them per symbol.
+ * VaR uses only the days every held instrument has a close, the same way
+ * correlation pairs are aligned.
+ */
+
+import type { Position } from '../api/contracts/etoro-api.types';
+import { portfolioStore } from '../stores/portfolioStore';
+import { correlationService, pearson, alignedReturns } from './correlationService';
+import { loadInstrumentMeta, signedExposure, symbolOf, type InstrumentMeta } from './exposureAnalytics';
+import { normalizeAssetClass } from './preTradeChecks';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type VaRConfidence = 95 | 99;
+
+export type RiskLookback = 60 | 125 | 252;
+
+export interface VaREstimate {
+  confidence: VaRConfidence;
+  /** Losses as positive amounts; null with too little history */
+  historicalVaR: number | null;
+  historicalES: number | null;
+  parametricVaR: number | null;
+  parametricES: number | null;
+}
+
+export interface PositionRisk {
+  positionId: number;
+  instrumentId: number;
+  symbol: string;
+  /** Leveraged exposure, negative for shorts */
+  exposure: number;
+  beta: number | null;
+  /** Daily returns shared with the benchmark */
+  observations: number;
+}
+
+export interface RiskReport {
+  benchmark: string;
+  lookback: RiskLookback;
+  equity: number | null;
+  estimates: VaREstimate[];
+  /** Daily portfolio P&L observations behind the VaR */
+  observations: number;
+  /** Exposure-weighted beta as a multiple of equity */
+  portfolioBeta: number | null;
+  /** Benchmark-equivalent exposure: sum of exposure × beta */
+  betaExposure: number;
+  positions: PositionRisk[];
+  /** Symbols whose history could not be loaded, with the reason */
+  errors: Record<string, string>;
+  computedAt: number;
+}
+
+export interface RiskReportOptions {
+  benchmark?: string;
+  lookback?: RiskLookback;
+}
+
+export interface StressShock {
+  /** Symbol, industry (substring, e.g. "tech"), asset class, or "all" */
+  target: string;
+  percent: number;
+}
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  shocks: StressShock[];
+}
+
+export type ShockMatch = 'symbol' | 'industry' | 'assetClass' | 'all';
+
+export interface StressPositionResult {
+  positionId: number;
+  instrumentId: number;
+  symbol: string;
+  exposure: number;
+  /** Applied move in percent, null when no shock matched */
+  shock: number | null;
+  target: string | null;
+  matchedBy: ShockMatch | null;
+  pnl: number;
+}
+
+export interface StressResult {
+  scenario: StressScenario;
+  positions: StressPositionResult[];
+  totalPnl: number;
+  /** Total as % of equity, null without equity */
+  percentOfEquity: number | null;
+}
+
+type Listener = () => void;
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const RISK_LOOKBACKS: RiskLookback[] = [60, 125, 252];
+
+export const VAR_CONFIDENCES: VaRConfidence[] = [95, 99];
+
+export const DEFAULT_BENCHMARK = 'SPY';
+
+const STORAGE_KEY = 'etoro-terminal-stress-scenarios';
+const MIN_OBSERVATIONS = 20;
+
+// One-tailed standard normal quantiles
+const Z_SCORES: Record<VaRConfidence, number> = {
+  95: 1.6448536,
+  99: 2.3263479,
+};
+
+const ALL_TARGETS = ['all', 'market', '*'];
+
+// More specific matches win when several shocks hit the same position
+const MATCH_PRIORITY: Record<ShockMatch, number> = {
+  all: 0,
+  assetClass: 1,
+  industry: 2,
+  symbol: 3,
+};
+
+export const DEFAULT_SCENARIOS: StressScenario[] = [
+  {
+    id: 'tech-crypto-selloff',
+    name: 'Tech & crypto selloff',
+    shocks: [
+      { target: 'tech', percent: -10 },
+      { target: 'crypto', percent: -25 },
+    ],
+  },
+  {
+    id: 'market-crash',
+    name: 'Market crash',
+    shocks: [{ target: 'all', percent: -20 }],
+  },
+];
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Sample standard deviation */
+function stdev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/** Loss at the confidence quantile of observed P&L, and the average loss beyond it */
+export function historicalVaR(pnl: number[], confidence: VaRConfidence): { var: number; es: number } | null {
+  if (pnl.length < MIN_OBSERVATIONS) return null;
+  const sorted = [...pnl].sort((a, b) => a - b);
+  const tail = Math.max(1, Math.floor(sorted.length * (1 - confidence / 100)));
+  return {
+    var: -sorted[tail - 1],
+    es: -mean(sorted.slice(0, tail)),
+  };
+}
+
+/** VaR and expected shortfall assuming normally distributed daily P&L */
+export function parametricVaR(pnl: number[], confidence: VaRConfidence): { var: number; es: number } | null {
+  if (pnl.length < MIN_OBSERVATIONS) return null;
+  const m = mean(pnl);
+  const sd = stdev(pnl);
+  const z = Z_SCORES[confidence];
+  return {
+    var: z * sd - m,
+    es: (sd * normalPdf(z)) / (1 - confidence / 100) - m,
+  };
+}
+
+/** Slope of asset returns on benchmark returns */
+export function beta(asset: number[], benchmark: number[]): number | null {
+  const n = Math.min(asset.length, benchmark.length);
+  if (n < MIN_OBSERVATIONS) return null;
+  const a = asset.slice(0, n);
+  const b = benchmark.slice(0, n);
+  const correlation = pearson(a, b);
+  const sdB = stdev(b);
+  if (correlation === null || sdB === 0) return null;
+  return correlation * (stdev(a) / sdB);
+}
+
+/**
+ * Daily P&L today's exposures would have made over the last `lookback`
+ * days that every series has a close on
+ */
+export function portfolioPnLSeries(
+  holdings: { exposure: number; closes: Map<string, number> }[],
+  lookback: number
+): number[] {
+  if (holdings.length === 0) return [];
+  const [first, ...rest] = holdings;
+  const dates = Array.from(first.closes.keys())
+    .filter(d => rest.every(h => h.closes.has(d)))
+    .sort()
+    .slice(-(lookback + 1));
+
+  const pnl: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    let day = 0;
+    let valid = true;
+    for (const { exposure, closes } of holdings) {
+      const prev = closes.get(dates[i - 1])!;
+      if (prev <= 0) {
+        valid = false;
+        break;
+      }
+      day += exposure * (closes.get(dates[i])! / prev - 1);
+    }
+    if (valid) pnl.push(day);
+  }
+  return pnl;
+}
+
+// =============================================================================
+// Stress Scenarios
+// =============================================================================
+
+/**
+ * Parse "tech -10%, crypto -25%" into shocks. Shocks are separated by
+ * commas, semicolons or new lines; the % sign is optional.
+ */
+export function parseShocks(text: string): { shocks: StressShock[]; errors: string[] } {
+  const shocks: StressShock[] = [];
+  const errors: string[] = [];
+
+  for (const raw of text.split(/[,;\n]/)) {
+    const part = raw.trim().replace(/−/g, '-');
+    if (!part) continue;
+    const match = part.match(/^(.+?)\s*([+-]?\d+(?:\.\d+)?)\s*%?$/);
+    if (!match || !match[1].trim()) {
+      errors.push(`Expected "<target> <percent>", got "${raw.trim()}"`);
+      continue;
+    }
+    const percent = parseFloat(match[2]);
+    if (percent < -100) {
+      errors.push(`${match[1].trim()}: a move can't exceed -100%`);
+      continue;
+    }
+    shocks.push({ target: match[1].trim(), percent });
+  }
+
+  return { shocks, errors };
+}
+
+export function formatShocks(shocks: StressShock[]): string {
+  return shocks.map(s => `${s.target} ${s.percent > 0 ? '+' : ''}${s.percent}%`).join(', ');
+}
+
+function matchShock(shock: StressShock, position: Position, meta: InstrumentMeta | undefined): ShockMatch | null {
+  const target = shock.target.trim().toLowerCase();
+  if (ALL_TARGETS.includes(target)) return 'all';
+  if (symbolOf(position, meta).toLowerCase() === target) return 'symbol';
+  if (meta?.industry && meta.industry.toLowerCase().includes(target)) return 'industry';
+  const assetClass = normalizeAssetClass(target);
+  if (assetClass && assetClass === meta?.assetClass) return 'assetClass';
+  return null;
+}
+
+/** Project each position's P&L under the scenario's most specific matching shock */
+export function runStressTest(
+  scenario: StressScenario,
+  positions: Position[],
+  meta: Map<number, InstrumentMeta>,
+  equity: number | null
+): StressResult {
+  const results = positions.map((position): StressPositionResult => {
+    const instrumentMeta = meta.get(position.instrumentId);
+    let applied: { shock: StressShock; match: ShockMatch } | null = null;
+    for (const shock of scenario.shocks) {
+      const match = matchShock(shock, position, instrumentMeta);
+      if (match && (!applied || MATCH_PRIORITY[match] >= MATCH_PRIORITY[applied.match])) {
+        applied = { shock, match };
+      }
+    }
+
+    const exposure = signedExposure(position);
+    return {
+      positionId: position.positionId,
+      instrumentId: position.instrumentId,
+      symbol: symbolOf(position, instrumentMeta),
+      exposure,
+      shock: applied?.shock.percent ?? null,
+      target: applied?.shock.target ?? null,
+      matchedBy: applied?.match ?? null,
+      pnl: applied ? exposure * (applied.shock.percent / 100) : 0,
+    };
+  });
+
+  const totalPnl = results.reduce((sum, r) => sum + r.pnl, 0);
+  return {
+    scenario,
+    positions: results,
+    totalPnl,
+    percentOfEquity: equity && equity > 0 ? (totalPnl / equity) * 100 : null,
+  };
+}
+
+// =============================================================================
+// Risk Service
+// =============================================================================
+
+class RiskService {
+  private scenarios: StressScenario[] = [];
+  private listeners: Set<Listener> = new Set();
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Risk Report
+  // ---------------------------------------------------------------------------
+
+  async computeReport(options: RiskReportOptions = {}): Promise<RiskReport> {
+    const benchmark = (options.benchmark || DEFAULT_BENCHMARK).trim().toUpperCase();
+    const lookback = options.lookback ?? 252;
+    const positions = portfolioStore.getPositions();
+    const equity = portfolioStore.getState().portfolio?.equity ?? null;
+
+    const instrumentIds = Array.from(new Set(positions.map(p => p.instrumentId)));
+    const meta = await loadInstrumentMeta(instrumentIds);
+    const errors: Record<string, string> = {};
+
+    // Sequential on purpose: history requests share the REST rate limit
+    const closes = new Map<number, Map<string, number>>();
+    for (const instrumentId of instrumentIds) {
+      const symbol = meta.get(instrumentId)?.symbol;
+      if (!symbol) {
+        errors[`#${instrumentId}`] = 'Instrument not found';
+        continue;
+      }
+      try {
+        closes.set(instrumentId, await correlationService.getDailyCloses(symbol));
+      } catch (err) {
+        errors[symbol] = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    let benchmarkCloses: Map<string, number> | null = null;
+    try {
+      benchmarkCloses = await correlationService.getDailyCloses(benchmark);
+    } catch (err) {
+      errors[benchmark] = err instanceof Error ? err.message : String(err);
+    }
+
+    // Positions in the same instrument move together, so VaR works per instrument
+    const exposureByInstrument = new Map<number, number>();
+    for (const position of positions) {
+      exposureByInstrument.set(
+        position.instrumentId,
+        (exposureByInstrument.get(position.instrumentId) ?? 0) + signedExposure(position)
+      );
+    }
+    const holdings = Array.from(exposureByInstrument.entries())
+      .filter(([instrumentId]) => closes.has(instrumentId))
+      .map(([instrumentId, exposure]) => ({ exposure, closes: closes.get(instrumentId)! }));
+    const pnl = portfolioPnLSeries(holdings, lookback);
+
+    const estimates = VAR_CONFIDENCES.map((confidence): VaREstimate => {
+      const historical = historicalVaR(pnl, confidence);
+      const parametric = parametricVaR(pnl, confidence);
+      return {
+        confidence,
+        historicalVaR: historical?.var ?? null,
+        historicalES: historical?.es ?? null,
+        parametricVaR: parametric?.var ?? null,
+        parametricES: parametric?.es ?? null,
+      };
+    });
+
+    const betas = new Map<number, { beta: number | null; observations: number }>();
+    for (const [instrumentId, series] of closes) {
+      if (!benchmarkCloses) break;
+      const [asset, bench] = alignedReturns(series, benchmarkCloses, lookback);
+      betas.set(instrumentId, { beta: beta(asset, bench), observations: asset.length });
+    }
+
+    const positionRisk = positions.map((position): PositionRisk => ({
+      positionId: position.positionId,
+      instrumentId: position.instrumentId,
+      symbol: symbolOf(position, meta.get(position.instrumentId)),
+      exposure: signedExposure(position),
+      beta: betas.get(position.instrumentId)?.beta ?? null,
+      observations: betas.get(position.instrumentId)?.observations ?? 0,
+    }));
+
+    const betaExposure = positionRisk.reduce((sum, p) => sum + (p.beta !== null ? p.exposure * p.beta : 0), 0);
+    const hasBeta = positionRisk.some(p => p.beta !== null);
+
+    return {
+      benchmark,
+      lookback,
+      equity,
+      estimates,
+      observations: pnl.length,
+      portfolioBeta: hasBeta && equity && equity > 0 ? betaExposure / equity : null,
+      betaExposure,
+      positions: positionRisk,
+      errors,
+      computedAt: Date.now(),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Stress Scenarios
+  // ---------------------------------------------------------------------------
+
+  getScenarios(): StressScenario[] {
+    return [...this.scenarios];
+  }
+
+  /** Add a scenario, or replace the one with the same ID */
+  saveScenario(scenario: StressScenario): void {
+    const index = this.scenarios.findIndex(s => s.id === scenario.id);
+    if (index >= 0) {
+      this.scenarios[index] = scenario;
+    } else {
+      this.scenarios.push(scenario);
+    }
+    this.persist();
+  }
+
+  deleteScenario(id: string): void {
+    this.scenarios = this.scenarios.filter(s => s.id !== id);
+    this.persist();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Storage
+  // ---------------------------------------------------------------------------
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      this.scenarios = Array.isArray(parsed) ? parsed : DEFAULT_SCENARIOS.map(s => ({ ...s, shocks: [...s.shocks] }));
+    } catch (err) {
+      console.error('[RiskService] Failed to load stress scenarios:', err);
+      this.scenarios = DEFAULT_SCENARIOS.map(s => ({ ...s, shocks: [...s.shocks] }));
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.scenarios));
+    } catch (err) {
+      console.error('[RiskService] Failed to save stress scenarios:', err);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const riskService = new RiskService();
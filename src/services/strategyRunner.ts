@@ -0,0 +1,474 @@
+/**
+ * Strategy Runner - Evaluates active strategies against live quotes
+ *
+ * For every instrument of every active strategy the runner subscribes to
+ * quotesStore, aggregates ticks into bars at the strategy timeframe and,
+ * when a bar closes, evaluates entry (AND) / exit (OR) conditions with the
+ * shared streaming indicators. Signals become ProposedActions in
+ * strategyStore; nothing is ever executed without approval.
+ */
+
+import type {
+  StrategyDefinition,
+  Condition,
+  Timeframe,
+  PriceBar,
+  ProposedAction,
+} from '../types/strategy.types';
+import type { InstrumentType } from '../api/contracts/etoro-api.types';
+import { strategyStore } from '../stores/strategyStore';
+import { quotesStore, StoredQuote } from '../stores/quotesStore';
+import { portfolioStore } from '../stores/portfolioStore';
+import { symbolResolver } from './symbolResolver';
+import { streamingService } from './streamingService';
+import { quotesPollingService } from './quotesPollingService';
+import { backtestService } from './backtestService';
+import { preTradeCheckEngine, normalizeAssetClass, orderFromAction } from './preTradeChecks';
+import { hasApiKey as hasFinancialDataKey } from './financialDatasetsService';
+import { createIndicator, indicatorKey, warmupPeriod, type Indicator, type IndicatorValue } from '../utils/indicators';
+import { compareCondition, conditionOperands, describeCondition, type OperandValues } from '../utils/conditions';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+// Closes bars whose period ended while no ticks arrived
+const BAR_SWEEP_INTERVAL_MS = 5000;
+
+// Used to size proposals before the portfolio has loaded
+const FALLBACK_EQUITY = 10_000;
+
+// Proposals are unleveraged; the approver can raise leverage up to riskParams.maxLeverage
+const PROPOSAL_LEVERAGE = 1;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface InstrumentRun {
+  symbol: string;
+  instrumentId: number;
+  displayName: string;
+  assetClass: InstrumentType | null;
+  bar: PriceBar | null;
+  barStart: number;
+  indicators: Map<string, Indicator>;
+  current: Map<string, IndicatorValue>;
+  previous: Map<string, IndicatorValue>;
+  unsubscribe: () => void;
+}
+
+interface StrategyRun {
+  strategy: StrategyDefinition;
+  signature: string;
+  instruments: Map<string, InstrumentRun>;
+  lastActionAt: Map<string, number>;
+  stopped: boolean;
+}
+
+// =============================================================================
+// Strategy Runner
+// =============================================================================
+
+class StrategyRunner {
+  private runs: Map<string, StrategyRun> = new Map();
+  private storeUnsubscribe: (() => void) | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  start(): void {
+    if (this.storeUnsubscribe) return;
+    this.storeUnsubscribe = strategyStore.subscribe(() => this.sync());
+    this.sweepTimer = setInterval(() => this.sweep(), BAR_SWEEP_INTERVAL_MS);
+    this.sync();
+  }
+
+  stop(): void {
+    this.storeUnsubscribe?.();
+    this.storeUnsubscribe = null;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    Array.from(this.runs.keys()).forEach(id => this.stopStrategy(id));
+  }
+
+  isRunning(strategyId: string): boolean {
+    return this.runs.has(strategyId);
+  }
+
+  getRunningStrategyIds(): string[] {
+    return Array.from(this.runs.keys());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  private signatureOf(strategy: StrategyDefinition): string {
+    return JSON.stringify([
+      strategy.timeframe,
+      strategy.instruments,
+      strategy.entryConditions,
+      strategy.exitConditions,
+      strategy.riskParams,
+    ]);
+  }
+
+  /** Reconcile running strategies with their status in the store */
+  private sync(): void {
+    const strategies = strategyStore.getStrategies();
+    const active = new Map(strategies.filter(s => s.status === 'active').map(s => [s.id, s]));
+
+    for (const [id, run] of this.runs) {
+      const strategy = active.get(id);
+      if (!strategy || this.signatureOf(strategy) !== run.signature) {
+        this.stopStrategy(id);
+      } else {
+        run.strategy = strategy;
+      }
+    }
+
+    for (const strategy of active.values()) {
+      if (!this.runs.has(strategy.id)) {
+        this.startStrategy(strategy);
+      }
+    }
+  }
+
+  private startStrategy(strategy: StrategyDefinition): void {
+    const run: StrategyRun = {
+      strategy,
+      signature: this.signatureOf(strategy),
+      instruments: new Map(),
+      lastActionAt: new Map(),
+      stopped: false,
+    };
+    this.runs.set(strategy.id, run);
+    console.log(`[StrategyRunner] Starting "${strategy.name}" on ${strategy.instruments.join(', ')}`);
+
+    strategy.instruments.forEach(symbol => {
+      this.startInstrument(run, symbol).catch(err => {
+        console.warn(`[StrategyRunner] Failed to start ${symbol} for "${strategy.name}":`, err);
+      });
+    });
+  }
+
+  private stopStrategy(strategyId: string): void {
+    const run = this.runs.get(strategyId);
+    if (!run) return;
+
+    run.stopped = true;
+    run.instruments.forEach(instrument => instrument.unsubscribe());
+    run.instruments.clear();
+    this.runs.delete(strategyId);
+    console.log(`[StrategyRunner] Stopped "${run.strategy.name}"`);
+  }
+
+  private async startInstrument(run: StrategyRun, symbol: string): Promise<void> {
+    const resolved = await symbolResolver.resolveSymbol(symbol);
+    if (!resolved) {
+      throw new Error(`Unknown symbol ${symbol}`);
+    }
+    if (run.stopped) return;
+
+    const indicators = new Map<string, Indicator>();
+    const conditions = [...run.strategy.entryConditions, ...run.strategy.exitConditions];
+    conditions.flatMap(conditionOperands).forEach(operand => {
+      if (!operand) return;
+      const key = indicatorKey(operand.indicator, operand.params);
+      if (!indicators.has(key)) {
+        indicators.set(key, createIndicator(operand.indicator, operand.params));
+      }
+    });
+
+    const instrument: InstrumentRun = {
+      symbol: resolved.symbol,
+      instrumentId: resolved.instrumentId,
+      displayName: resolved.displayName,
+      assetClass: normalizeAssetClass(resolved.type),
+      bar: null,
+      barStart: 0,
+      indicators,
+      current: new Map(),
+      previous: new Map(),
+      unsubscribe: () => {},
+    };
+
+    await this.seedFromHistory(run, instrument, conditions);
+    if (run.stopped) return;
+
+    const { instrumentId } = instrument;
+    const unsubscribeQuotes = quotesStore.subscribe(instrumentId, quote => this.onQuote(run, instrument, quote));
+    streamingService.subscribeToInstrument(instrumentId);
+    quotesPollingService.subscribe(instrumentId);
+
+    instrument.unsubscribe = () => {
+      unsubscribeQuotes();
+      streamingService.unsubscribeFromInstrument(instrumentId);
+      quotesPollingService.unsubscribe(instrumentId);
+    };
+    run.instruments.set(symbol, instrument);
+  }
+
+  /**
+   * Warm indicators up on historical bars so a daily strategy doesn't need
+   * weeks of live ticks before it can signal. Best effort - without a
+   * Financial Datasets key the runner simply warms up on live bars.
+   */
+  private async seedFromHistory(run: StrategyRun, instrument: InstrumentRun, conditions: Condition[]): Promise<void> {
+    if (!hasFinancialDataKey()) return;
+
+    const bars = Math.max(...conditions.flatMap(conditionOperands).map(op => op ? warmupPeriod(op.indicator, op.params) : 1), 1) + 1;
+    const { timeframe } = run.strategy;
+    const end = new Date();
+    // Calendar span generous enough to cover weekends and holidays
+    const start = new Date(end.getTime() - bars * TIMEFRAME_MS[timeframe] * (timeframe === '1d' ? 1.6 : 4));
+
+    try {
+      const history = await backtestService.loadBars(
+        instrument.symbol,
+        timeframe,
+        start.toISOString().split('T')[0],
+        end.toISOString().split('T')[0]
+      );
+      // Drop the still-forming bar; live ticks will rebuild it
+      const currentStart = Math.floor(Date.now() / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe];
+      history
+        .filter(bar => new Date(bar.time).getTime() < currentStart)
+        .forEach(bar => this.commitBar(instrument, bar));
+    } catch (err) {
+      console.warn(`[StrategyRunner] History seed failed for ${instrument.symbol}:`, err);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Bar Aggregation
+  // ---------------------------------------------------------------------------
+
+  private onQuote(run: StrategyRun, instrument: InstrumentRun, quote: StoredQuote): void {
+    const price = quote.lastPrice || (quote.bid + quote.ask) / 2;
+    if (!price) return;
+
+    const frameMs = TIMEFRAME_MS[run.strategy.timeframe];
+    const ts = new Date(quote.timestamp).getTime() || quote.receivedAt;
+    const barStart = Math.floor(ts / frameMs) * frameMs;
+
+    if (instrument.bar && barStart > instrument.barStart) {
+      this.closeBar(run, instrument);
+    }
+
+    if (!instrument.bar) {
+      instrument.barStart = barStart;
+      instrument.bar = {
+        time: new Date(barStart).toISOString(),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 0,
+      };
+    } else if (barStart === instrument.barStart) {
+      instrument.bar.high = Math.max(instrument.bar.high, price);
+      instrument.bar.low = Math.min(instrument.bar.low, price);
+      instrument.bar.close = price;
+    }
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const run of this.runs.values()) {
+      const frameMs = TIMEFRAME_MS[run.strategy.timeframe];
+      for (const instrument of run.instruments.values()) {
+        if (instrument.bar && now >= instrument.barStart + frameMs) {
+          this.closeBar(run, instrument);
+        }
+      }
+    }
+  }
+
+  private commitBar(instrument: InstrumentRun, bar: PriceBar): void {
+    instrument.previous = instrument.current;
+    instrument.current = new Map();
+    instrument.indicators.forEach((indicator, key) => {
+      instrument.current.set(key, indicator.push(bar));
+    });
+  }
+
+  private closeBar(run: StrategyRun, instrument: InstrumentRun): void {
+    const bar = instrument.bar;
+    if (!bar) return;
+    instrument.bar = null;
+
+    this.commitBar(instrument, bar);
+    this.evaluate(run, instrument, bar);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Signal Evaluation
+  // ---------------------------------------------------------------------------
+
+  private operandValues(condition: Condition, values: Map<string, IndicatorValue>): OperandValues {
+    const [left, right] = conditionOperands(condition);
+    return {
+      left: values.get(indicatorKey(left.indicator, left.params)) ?? null,
+      right: right ? values.get(indicatorKey(right.indicator, right.params)) ?? null : condition.value as number,
+    };
+  }
+
+  private isTrue(instrument: InstrumentRun, condition: Condition): boolean {
+    return compareCondition(
+      condition.operator,
+      this.operandValues(condition, instrument.current),
+      instrument.previous.size ? this.operandValues(condition, instrument.previous) : undefined
+    );
+  }
+
+  /**
+   * Positions per symbol attributed to this strategy. `filled` counts
+   * executed opens since the last executed close; `committed` also includes opens
+   * still waiting for approval, so concurrency limits can't be overshot.
+   */
+  private positionCounts(strategyId: string): { filled: Map<string, number>; committed: Map<string, number>; closing: Set<string> } {
+    const filled = new Map<string, number>();
+    const committed = new Map<string, number>();
+    const closing = new Set<string>();
+    const bump = (map: Map<string, number>, symbol: string, delta: number) =>
+      map.set(symbol, Math.max(0, (map.get(symbol) ?? 0) + delta));
+
+    strategyStore
+      .getProposedActions()
+      .filter(a => a.strategyId === strategyId)
+      .reverse()
+      .forEach(action => {
+        if (action.type === 'open') {
+          if (action.status === 'executed') bump(filled, action.symbol, 1);
+          if (['pending', 'approved', 'executed'].includes(action.status)) bump(committed, action.symbol, 1);
+        } else if (action.type === 'close') {
+          if (action.status === 'executed') {
+            // An exit closes every position the strategy holds on the symbol
+            filled.set(action.symbol, 0);
+            committed.set(action.symbol, 0);
+          } else if (action.status === 'pending' || action.status === 'approved') {
+            closing.add(action.symbol);
+          }
+        }
+      });
+    return { filled, committed, closing };
+  }
+
+  private evaluate(run: StrategyRun, instrument: InstrumentRun, bar: PriceBar): void {
+    const { strategy } = run;
+    const { riskParams } = strategy;
+
+    const lastAction = run.lastActionAt.get(instrument.symbol) ?? 0;
+    if (Date.now() - lastAction < riskParams.cooldownSeconds * 1000) {
+      return;
+    }
+
+    strategyStore.updateStrategy(strategy.id, { lastRunAt: new Date().toISOString() });
+
+    const { filled, committed, closing } = this.positionCounts(strategy.id);
+    if ((filled.get(instrument.symbol) ?? 0) > 0 && !closing.has(instrument.symbol)) {
+      const trigger = strategy.exitConditions.find(c => this.isTrue(instrument, c));
+      if (trigger) {
+        this.propose(run, instrument, bar, 'close', `Exit signal: ${describeCondition(trigger)}`, [trigger]);
+        return;
+      }
+    }
+
+    const totalOpen = Array.from(committed.values()).reduce((a, b) => a + b, 0);
+    const entryMet = strategy.entryConditions.length > 0 &&
+      strategy.entryConditions.every(c => this.isTrue(instrument, c));
+    if (entryMet && totalOpen < riskParams.maxConcurrentPositions) {
+      const reasons = strategy.entryConditions.map(describeCondition).join(' AND ');
+      this.propose(run, instrument, bar, 'open', `Entry signal on ${strategy.timeframe} close: ${reasons}`, strategy.entryConditions);
+    }
+  }
+
+  private propose(
+    run: StrategyRun,
+    instrument: InstrumentRun,
+    bar: PriceBar,
+    type: 'open' | 'close',
+    reasoning: string,
+    conditions: Condition[]
+  ): void {
+    const { strategy } = run;
+    const { riskParams } = strategy;
+    const price = bar.close;
+    const equity = portfolioStore.getState().portfolio?.equity || FALLBACK_EQUITY;
+    const amount = Math.round(equity * (riskParams.maxPositionSize / 100) * 100) / 100;
+    const leverage = PROPOSAL_LEVERAGE;
+
+    const action: ProposedAction = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      type,
+      side: type === 'open' ? 'buy' : 'sell',
+      symbol: instrument.symbol,
+      displayName: instrument.displayName,
+      instrumentId: instrument.instrumentId,
+      amount,
+      leverage,
+      stopLoss: type === 'open' && riskParams.stopLossPercent > 0
+        ? price * (1 - riskParams.stopLossPercent / 100)
+        : undefined,
+      takeProfit: type === 'open' && riskParams.takeProfitPercent
+        ? price * (1 + riskParams.takeProfitPercent / 100)
+        : undefined,
+      reasoning,
+      confidence: this.confidence(instrument, conditions),
+      riskScore: this.riskScore(strategy, leverage),
+      preTradeChecks: [],
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+    // Preview only: the checks run again, with confirmation, on approval
+    action.preTradeChecks = preTradeCheckEngine.evaluate(
+      orderFromAction(action, portfolioStore.isDemoMode() ? 'demo' : 'real', undefined, riskParams),
+      instrument.assetClass
+    );
+
+    run.lastActionAt.set(instrument.symbol, Date.now());
+    strategyStore.addProposedAction(action);
+    console.log(`[StrategyRunner] Proposed ${type.toUpperCase()} ${instrument.symbol} for "${strategy.name}"`);
+  }
+
+  /**
+   * Heuristic: how decisively the conditions are met. Each condition scores
+   * by the relative gap between its operands, so a bare crossing rates
+   * lower than a wide margin.
+   */
+  private confidence(instrument: InstrumentRun, conditions: Condition[]): number {
+    if (conditions.length === 0) return 0;
+    const scores = conditions.map(condition => {
+      const { left, right } = this.operandValues(condition, instrument.current);
+      if (left === null || right === null || right === 0) return 0.5;
+      const gap = Math.abs(left - right) / Math.abs(right);
+      return Math.min(1, 0.5 + gap * 10);
+    });
+    const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
+    return Math.round(50 + avg * 45);
+  }
+
+  /** Heuristic: stop distance and size relative to the strategy's own limits */
+  private riskScore(strategy: StrategyDefinition, leverage: number): number {
+    const { riskParams } = strategy;
+    const stopRisk = riskParams.stopLossPercent > 0 ? riskParams.stopLossPercent * leverage * 8 : 60;
+    const sizeRisk = riskParams.maxPositionSize * 2;
+    return Math.round(Math.min(100, stopRisk + sizeRisk));
+  }
+}
+
+// Export singleton instance
+export const strategyRunner = new StrategyRunner();
@@ -1,20 +1,41 @@
-// Streaming service - manages WebSocket connection and quote streaming
+// Streaming service - manages WebSocket connection, quote streaming and the
+// private position/order/portfolio topics
 import { WSClient, ConnectionState, AuthState } from './wsClient';
+import { PrivateTopicRouter, createPrivateTopicRouter } from './privateTopicRouter';
+import type { FillPayload, PortfolioUpdatePayload } from './privateTopicRouter';
 import { quotesStore } from '../stores/quotesStore';
+import { portfolioStore } from '../stores/portfolioStore';
+import { ordersStore } from '../stores/ordersStore';
 import { keyManager } from './keyManager';
-import type { QuoteUpdatePayload } from '../api/contracts/etoro-api.types';
+import type {
+  QuoteUpdatePayload,
+  PositionUpdatePayload,
+  OrderUpdatePayload,
+  OrderSide,
+} from '../api/contracts/etoro-api.types';
 
 export type StreamingStateCallback = (state: {
   connectionState: ConnectionState;
   authState: AuthState;
+  privateStreamActive: boolean;
 }) => void;
 
+/** Order payloads may carry more than the contract guarantees */
+type StreamedOrderPayload = OrderUpdatePayload & {
+  instrumentId?: number;
+  InstrumentID?: number;
+  isBuy?: boolean;
+  IsBuy?: boolean;
+};
+
 class StreamingService {
   private wsClient: WSClient | null = null;
   private subscribers: Set<StreamingStateCallback> = new Set();
   private connectionState: ConnectionState = 'disconnected';
   private authState: AuthState = 'unauthenticated';
   private quoteUnsubscribe: (() => void) | null = null;
+  private privateRouter: PrivateTopicRouter | null = null;
+  private privateStreamActive = false;
 
   get isConnected(): boolean {
     return this.wsClient?.isConnected ?? false;
@@ -32,6 +53,11 @@ class StreamingService {
     return this.authState;
   }
 
+  /** True while positions and orders arrive over the stream instead of polling */
+  get isPrivateStreamActive(): boolean {
+    return this.privateStreamActive;
+  }
+
   connect(): void {
     if (this.wsClient?.isConnected) {
       console.log('[StreamingService] Already connected');
@@ -52,11 +78,16 @@ class StreamingService {
       onStateChange: (state) => {
         console.log('[StreamingService] Connection state:', state);
         this.connectionState = state;
+        this.updatePrivateStreamState();
         this.notifySubscribers();
       },
       onAuthStateChange: (state, error) => {
         console.log('[StreamingService] Auth state:', state, error || '');
         this.authState = state;
+        if (state === 'authenticated') {
+          this.startPrivateTopics();
+        }
+        this.updatePrivateStreamState();
         this.notifySubscribers();
       },
       onMessage: (message) => {
@@ -89,6 +120,11 @@ class StreamingService {
       this.quoteUnsubscribe = null;
     }
 
+    if (this.privateRouter) {
+      this.privateRouter.dispose();
+      this.privateRouter = null;
+    }
+
     if (this.wsClient) {
       this.wsClient.disconnect();
       this.wsClient = null;
@@ -96,6 +132,7 @@ class StreamingService {
 
     this.connectionState = 'disconnected';
     this.authState = 'unauthenticated';
+    this.updatePrivateStreamState();
     this.notifySubscribers();
   }
 
@@ -121,16 +158,91 @@ class StreamingService {
     callback({
       connectionState: this.connectionState,
       authState: this.authState,
+      privateStreamActive: this.privateStreamActive,
     });
     return () => {
       this.subscribers.delete(callback);
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // Private topics
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Private topics need an authenticated socket, so the router is created on
+   * the first successful auth. It re-subscribes by itself after reconnects.
+   */
+  private startPrivateTopics(): void {
+    if (!this.wsClient) return;
+
+    if (!this.privateRouter) {
+      this.privateRouter = createPrivateTopicRouter(this.wsClient);
+      this.privateRouter.onPositionUpdate((payload) => this.handlePositionUpdate(payload));
+      this.privateRouter.onPortfolioUpdate((payload) => this.handlePortfolioUpdate(payload));
+      this.privateRouter.onOrderUpdate((payload) => this.handleOrderUpdate(payload));
+      this.privateRouter.onFill((payload) => this.handleFill(payload));
+    }
+
+    this.privateRouter.subscribeToPrivateTopics();
+  }
+
+  private updatePrivateStreamState(): void {
+    const active =
+      this.connectionState === 'connected' &&
+      this.authState === 'authenticated' &&
+      (this.privateRouter?.isSubscribedToPrivateTopics ?? false);
+
+    if (active === this.privateStreamActive) return;
+    this.privateStreamActive = active;
+    console.log(`[StreamingService] Private stream ${active ? 'live' : 'down, polling fallback'}`);
+    portfolioStore.setLiveUpdates(active);
+  }
+
+  private handlePositionUpdate(payload: PositionUpdatePayload): void {
+    const raw = payload as PositionUpdatePayload & { PositionID?: number };
+    const positionId = payload.positionId ?? raw.PositionID;
+    if (positionId) {
+      portfolioStore.applyPositionUpdate({ ...payload, positionId });
+    }
+  }
+
+  private handlePortfolioUpdate(payload: PortfolioUpdatePayload): void {
+    portfolioStore.applyPortfolioUpdate(payload);
+  }
+
+  private handleOrderUpdate(payload: OrderUpdatePayload): void {
+    if (ordersStore.getOrder(payload.orderId)) {
+      ordersStore.updateOrder(payload.orderId, payload);
+      return;
+    }
+
+    // A broker order we haven't seen yet: most likely the answer to an
+    // optimistic order whose REST response is still in flight (or timed out)
+    const raw = payload as StreamedOrderPayload;
+    const isBuy = raw.isBuy ?? raw.IsBuy;
+    const side: OrderSide | undefined = isBuy === undefined ? undefined : isBuy ? 'buy' : 'sell';
+    const match = ordersStore.findOptimisticMatch(raw.instrumentId ?? raw.InstrumentID, side);
+    if (match) {
+      ordersStore.reconcileOptimisticOrder(match.orderId, payload.orderId, {
+        status: payload.status,
+        executedRate: payload.executedRate,
+        executedAt: payload.executedAt,
+      });
+    }
+  }
+
+  private handleFill(payload: FillPayload): void {
+    // Fills open or close positions; the order itself was already updated
+    console.log(`[StreamingService] Fill: order ${payload.orderId} @ ${payload.executedRate}`);
+    portfolioStore.requestRefresh();
+  }
+
   private notifySubscribers(): void {
     const state = {
       connectionState: this.connectionState,
       authState: this.authState,
+      privateStreamActive: this.privateStreamActive,
     };
     this.subscribers.forEach((callback) => {
       try {
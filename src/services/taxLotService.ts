@@ -0,0 +1,470 @@
+/**
+ * Tax Lot Service
+ *
+ * Realized gains report over closed positions. Each position is a lot
+ * acquired at its open rate; every close (full, or partial through
+ * positionAdapter.closePositionPartial) is a disposal matched against lots
+ * of the same instrument and direction by FIFO, LIFO or the position
+ * actually closed (specific ID). Matched units are split into short- and
+ * long-term holdings and totalled by tax (calendar) year.
+ *
+ * The history endpoints don't say which closes were partial, so partial
+ * closes made from the terminal are recorded here as they happen.
+ */
+
+import type { Position, ClosedTrade } from '../api/contracts/etoro-api.types';
+import type { ClosePositionResult } from '../api/adapters/positionAdapter';
+import { getHistoryAdapter } from '../api/adapters/historyAdapter';
+import type { ActivityMode } from '../stores/activityStore';
+import { portfolioStore } from '../stores/portfolioStore';
+import { demoDataService, isDemoMode as isGlobalDemoMode } from './demoDataService';
+import { toCSV, toPrintableHTML } from './exportService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LotMethod = 'fifo' | 'lifo' | 'specific';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface PartialCloseRecord {
+  positionId: number;
+  instrumentId: number;
+  symbol: string;
+  isBuy: boolean;
+  units: number;
+  openRate: number;
+  openDateTime: string;
+  /** Undefined when the close was settled without a fill rate */
+  closeRate?: number;
+  closedAt: string;
+  mode: ActivityMode;
+}
+
+/** A closed position from history, tagged with its account */
+export interface AccountClosedTrade extends ClosedTrade {
+  mode: ActivityMode;
+}
+
+/** Units of one lot disposed of by one close */
+export interface RealizedLot {
+  taxYear: number;
+  term: HoldingTerm;
+  symbol: string;
+  instrumentId: number;
+  side: 'LONG' | 'SHORT';
+  mode: ActivityMode;
+  /** Position whose close this was */
+  closedPositionId: number;
+  /** Position the units were matched to */
+  lotPositionId: number;
+  partial: boolean;
+  units: number;
+  acquired: string;
+  disposed: string;
+  holdingDays: number;
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gain: number;
+}
+
+export interface TaxYearTotal {
+  taxYear: number;
+  shortTermGain: number;
+  longTermGain: number;
+  totalGain: number;
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  lots: number;
+}
+
+export interface RealizedGainsReport {
+  method: LotMethod;
+  includeDemo: boolean;
+  generatedAt: string;
+  lots: RealizedLot[];
+  years: TaxYearTotal[];
+}
+
+export interface RealizedGainsOptions {
+  method: LotMethod;
+  /** Demo account trades are left out unless asked for */
+  includeDemo?: boolean;
+}
+
+interface Disposal {
+  positionId: number;
+  instrumentId: number;
+  symbol: string;
+  isBuy: boolean;
+  mode: ActivityMode;
+  units: number;
+  openRate: number;
+  openDateTime: string;
+  closeRate: number;
+  closedAt: string;
+  fees: number;
+  partial: boolean;
+}
+
+interface Lot {
+  positionId: number;
+  pool: string;
+  openRate: number;
+  acquired: string;
+  remaining: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const LOT_METHODS: { id: LotMethod; label: string }[] = [
+  { id: 'fifo', label: 'FIFO' },
+  { id: 'lifo', label: 'LIFO' },
+  { id: 'specific', label: 'Specific ID' },
+];
+
+const PARTIAL_CLOSES_STORAGE_KEY = 'etoro-terminal-partial-closes';
+// A recorded partial close and the history row for it carry slightly different timestamps
+const PARTIAL_MATCH_WINDOW_MS = 5 * 60 * 1000;
+const DAY_MS = 86_400_000;
+const UNITS_EPSILON = 1e-9;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function poolKey(d: Pick<Disposal, 'instrumentId' | 'isBuy' | 'mode'>): string {
+  return `${d.mode}:${d.instrumentId}:${d.isBuy ? 'L' : 'S'}`;
+}
+
+function lotKey(positionId: number, mode: ActivityMode): string {
+  return `${mode}:${positionId}`;
+}
+
+/** Held for more than one year: disposed of after the first anniversary of acquisition */
+export function holdingTerm(acquired: string, disposed: string): HoldingTerm {
+  const anniversary = new Date(acquired);
+  anniversary.setFullYear(anniversary.getFullYear() + 1);
+  return new Date(disposed).getTime() > anniversary.getTime() ? 'long' : 'short';
+}
+
+function tradeUnits(trade: ClosedTrade): number {
+  if (trade.units > 0) return trade.units;
+  return trade.openRate > 0 ? (trade.amount * trade.leverage) / trade.openRate : 0;
+}
+
+function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+// =============================================================================
+// Lot Matching
+// =============================================================================
+
+/**
+ * History rows are disposals; recorded partial closes mark the matching row
+ * as partial, or add a disposal the history doesn't show yet
+ */
+function toDisposals(trades: AccountClosedTrade[], partials: PartialCloseRecord[]): Disposal[] {
+  const disposals: Disposal[] = trades.map(trade => ({
+    positionId: trade.positionId,
+    instrumentId: trade.instrumentId,
+    symbol: trade.symbol || `#${trade.instrumentId}`,
+    isBuy: trade.isBuy,
+    mode: trade.mode,
+    units: tradeUnits(trade),
+    openRate: trade.openRate,
+    openDateTime: trade.openDateTime,
+    closeRate: trade.closeRate,
+    closedAt: trade.closeDateTime,
+    fees: trade.fees,
+    partial: false,
+  }));
+
+  for (const record of partials) {
+    const closedAt = new Date(record.closedAt).getTime();
+    const existing = disposals.find(d =>
+      d.positionId === record.positionId &&
+      d.mode === record.mode &&
+      !d.partial &&
+      Math.abs(new Date(d.closedAt).getTime() - closedAt) <= PARTIAL_MATCH_WINDOW_MS
+    );
+    if (existing) {
+      existing.partial = true;
+    } else if (record.closeRate !== undefined) {
+      // Without a rate the disposal waits for history to list it
+      disposals.push({ ...record, closeRate: record.closeRate, fees: 0, partial: true });
+    }
+  }
+
+  return disposals.sort((a, b) => new Date(a.closedAt).getTime() - new Date(b.closedAt).getTime());
+}
+
+/** Each position's original size: units closed plus units still open. Open positions are lots FIFO/LIFO can draw from too */
+function toLots(disposals: Disposal[], openPositions: { position: Position; mode: ActivityMode }[]): Map<string, Lot> {
+  const lots = new Map<string, Lot>();
+  for (const d of disposals) {
+    const key = lotKey(d.positionId, d.mode);
+    const lot = lots.get(key) ?? { positionId: d.positionId, pool: poolKey(d), openRate: d.openRate, acquired: d.openDateTime, remaining: 0 };
+    lot.remaining += d.units;
+    lots.set(key, lot);
+  }
+  for (const { position, mode } of openPositions) {
+    const key = lotKey(position.positionId, mode);
+    const lot = lots.get(key) ?? {
+      positionId: position.positionId,
+      pool: poolKey({ instrumentId: position.instrumentId, isBuy: position.isBuy, mode }),
+      openRate: position.openRate,
+      acquired: position.openDateTime,
+      remaining: 0,
+    };
+    lot.remaining += position.units;
+    lots.set(key, lot);
+  }
+  return lots;
+}
+
+/** Match every disposal to lots by the method and work out the gain on each piece */
+export function matchLots(
+  trades: AccountClosedTrade[],
+  partials: PartialCloseRecord[],
+  method: LotMethod,
+  openPositions: { position: Position; mode: ActivityMode }[] = []
+): RealizedLot[] {
+  const disposals = toDisposals(trades, partials);
+  const lots = toLots(disposals, openPositions);
+  const realized: RealizedLot[] = [];
+
+  for (const disposal of disposals) {
+    const own = lots.get(lotKey(disposal.positionId, disposal.mode))!;
+    const disposedAt = new Date(disposal.closedAt).getTime();
+
+    let candidates: Lot[] = [own];
+    if (method !== 'specific') {
+      candidates = Array.from(lots.values())
+        .filter(l => l.pool === own.pool && l.remaining > UNITS_EPSILON && new Date(l.acquired).getTime() <= disposedAt)
+        .sort((a, b) => {
+          const diff = new Date(a.acquired).getTime() - new Date(b.acquired).getTime();
+          return (method === 'fifo' ? diff : -diff) || a.positionId - b.positionId;
+        });
+    }
+
+    const take = (lot: Lot, units: number) => {
+      lot.remaining -= units;
+      const costRate = disposal.isBuy ? lot.openRate : disposal.closeRate;
+      const proceedsRate = disposal.isBuy ? disposal.closeRate : lot.openRate;
+      const fees = disposal.units > 0 ? disposal.fees * (units / disposal.units) : 0;
+      const proceeds = units * proceedsRate;
+      const costBasis = units * costRate;
+      realized.push({
+        taxYear: new Date(disposal.closedAt).getFullYear(),
+        term: holdingTerm(lot.acquired, disposal.closedAt),
+        symbol: disposal.symbol,
+        instrumentId: disposal.instrumentId,
+        side: disposal.isBuy ? 'LONG' : 'SHORT',
+        mode: disposal.mode,
+        closedPositionId: disposal.positionId,
+        lotPositionId: lot.positionId,
+        partial: disposal.partial,
+        units,
+        acquired: lot.acquired,
+        disposed: disposal.closedAt,
+        holdingDays: Math.floor((disposedAt - new Date(lot.acquired).getTime()) / DAY_MS),
+        proceeds,
+        costBasis,
+        fees,
+        gain: proceeds - costBasis - fees,
+      });
+    };
+
+    let left = disposal.units;
+    for (const lot of candidates) {
+      if (left <= UNITS_EPSILON) break;
+      const units = Math.min(left, lot.remaining);
+      if (units <= UNITS_EPSILON) continue;
+      take(lot, units);
+      left -= units;
+    }
+    // Lots opened before the history starts can't be pooled; the closed position stands in
+    if (left > UNITS_EPSILON) {
+      take(own, left);
+    }
+  }
+
+  return realized;
+}
+
+export function totalsByTaxYear(lots: RealizedLot[]): TaxYearTotal[] {
+  const years = new Map<number, TaxYearTotal>();
+  for (const lot of lots) {
+    const total = years.get(lot.taxYear) ?? {
+      taxYear: lot.taxYear, shortTermGain: 0, longTermGain: 0, totalGain: 0, proceeds: 0, costBasis: 0, fees: 0, lots: 0,
+    };
+    if (lot.term === 'long') {
+      total.longTermGain += lot.gain;
+    } else {
+      total.shortTermGain += lot.gain;
+    }
+    total.totalGain += lot.gain;
+    total.proceeds += lot.proceeds;
+    total.costBasis += lot.costBasis;
+    total.fees += lot.fees;
+    total.lots += 1;
+    years.set(lot.taxYear, total);
+  }
+  return Array.from(years.values()).sort((a, b) => b.taxYear - a.taxYear);
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+function lotRows(report: RealizedGainsReport): Record<string, unknown>[] {
+  return report.lots.map(lot => ({
+    taxYear: lot.taxYear,
+    term: lot.term === 'long' ? 'Long-term' : 'Short-term',
+    symbol: lot.symbol,
+    side: lot.side,
+    account: lot.mode,
+    closedPosition: lot.closedPositionId,
+    lotPosition: lot.lotPositionId,
+    partial: lot.partial ? 'yes' : 'no',
+    units: round(lot.units, 6),
+    acquired: lot.acquired.split('T')[0],
+    disposed: lot.disposed.split('T')[0],
+    holdingDays: lot.holdingDays,
+    proceeds: round(lot.proceeds),
+    costBasis: round(lot.costBasis),
+    fees: round(lot.fees),
+    gain: round(lot.gain),
+  }));
+}
+
+function yearRows(report: RealizedGainsReport): Record<string, unknown>[] {
+  return report.years.map(year => ({
+    taxYear: year.taxYear,
+    lots: year.lots,
+    proceeds: round(year.proceeds),
+    costBasis: round(year.costBasis),
+    fees: round(year.fees),
+    shortTermGain: round(year.shortTermGain),
+    longTermGain: round(year.longTermGain),
+    totalGain: round(year.totalGain),
+  }));
+}
+
+function methodLabel(method: LotMethod): string {
+  return LOT_METHODS.find(m => m.id === method)?.label ?? method;
+}
+
+/** Totals by tax year, then one row per matched lot */
+export function reportToCSV(report: RealizedGainsReport): string {
+  return [toCSV(yearRows(report)), toCSV(lotRows(report))].filter(Boolean).join('\n\n');
+}
+
+export function reportToHTML(report: RealizedGainsReport): string {
+  return toPrintableHTML('Realized Gains Report', [
+    `Lot matching: ${methodLabel(report.method)}`,
+    `Accounts: ${report.includeDemo ? 'real and demo' : 'real only'}`,
+    `Generated: ${new Date(report.generatedAt).toLocaleString()}`,
+    'Long-term: held more than one year. Gains are after fees.',
+  ], [
+    { heading: 'Totals by Tax Year', rows: yearRows(report) },
+    { heading: 'Realized Lots', rows: lotRows(report) },
+  ]);
+}
+
+// =============================================================================
+// Tax Lot Service
+// =============================================================================
+
+class TaxLotService {
+  private partials: PartialCloseRecord[] = [];
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  /** Remember a partial close so the report can match it to lots */
+  recordPartialClose(mode: ActivityMode, position: Position, result: ClosePositionResult): void {
+    if (!result.isPartialClose || !result.closedUnits) return;
+
+    this.partials.push({
+      positionId: position.positionId,
+      instrumentId: position.instrumentId,
+      symbol: position.instrumentName?.split(' - ')[0] || `#${position.instrumentId}`,
+      isBuy: position.isBuy,
+      units: result.closedUnits,
+      openRate: position.openRate,
+      openDateTime: position.openDateTime,
+      closeRate: result.closedRate,
+      closedAt: result.closedAt,
+      mode,
+    });
+    this.persist();
+  }
+
+  getPartialCloses(): PartialCloseRecord[] {
+    return [...this.partials];
+  }
+
+  async getRealizedGains(options: RealizedGainsOptions): Promise<RealizedGainsReport> {
+    const includeDemo = options.includeDemo ?? false;
+    const trades: AccountClosedTrade[] = [];
+
+    // Without API keys only the built-in demo trades exist
+    if (isGlobalDemoMode()) {
+      if (includeDemo) {
+        trades.push(...demoDataService.getDemoTradeHistory().map(t => ({ ...t, mode: 'demo' as const })));
+      }
+    } else {
+      const real = await getHistoryAdapter(false).getClosedTrades();
+      trades.push(...real.map(t => ({ ...t, mode: 'real' as const })));
+      if (includeDemo) {
+        const demo = await getHistoryAdapter(true).getClosedTrades();
+        trades.push(...demo.map(t => ({ ...t, mode: 'demo' as const })));
+      }
+    }
+
+    const partials = this.partials.filter(p => includeDemo || p.mode === 'real');
+    const openMode: ActivityMode = portfolioStore.isDemoMode() ? 'demo' : 'real';
+    const openPositions = portfolioStore.getPositions().map(position => ({ position, mode: openMode }));
+
+    const lots = matchLots(trades, partials, options.method, openPositions);
+    return {
+      method: options.method,
+      includeDemo,
+      generatedAt: new Date().toISOString(),
+      lots,
+      years: totalsByTaxYear(lots),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Storage
+  // ---------------------------------------------------------------------------
+
+  private loadFromStorage(): void {
+    try {
+      const stored = JSON.parse(localStorage.getItem(PARTIAL_CLOSES_STORAGE_KEY) || '[]');
+      this.partials = Array.isArray(stored) ? stored : [];
+    } catch {
+      this.partials = [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(PARTIAL_CLOSES_STORAGE_KEY, JSON.stringify(this.partials));
+    } catch (error) {
+      console.warn('Failed to save partial closes:', error);
+    }
+  }
+}
+
+export const taxLotService = new TaxLotService();
@@ -0,0 +1,594 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Delivers terminal events to the webhooks configured in WebhookAlertsPanel.
+ *
+ * Event sources:
+ * - AlertsEngine.onAlert   price_above, price_below, portfolio_alert
+ * - activityStore          position_opened, position_closed
+ * - portfolioStore         stop_loss, profit_target, daily_summary
+ *
+ * Every delivery is a POST of a WebhookPayload. When the webhook has a
+ * secret the body is signed with HMAC-SHA256 and sent as
+ * `X-Terminal-Signature: sha256=<hex>`. Network errors, 429 and 5xx are
+ * retried with exponential backoff; each delivery is kept in a per-webhook log.
+ *
+ * Signing secrets are stored apart from the webhook list, encrypted with the
+ * signed-in user's key. Without one (demo mode) they last for the session.
+ */
+
+import type { Position } from '../api/contracts/etoro-api.types';
+import { getDefaultAlertsEngine, isPortfolioAlert, type AlertTriggerEvent } from './alertsEngine';
+import { symbolResolver } from './symbolResolver';
+import { hmacSha256Hex, encrypt, decrypt } from './crypto';
+import { keyManager } from './keyManager';
+import { activityStore, type ActivityItem, type ActivityMode } from '../stores/activityStore';
+import { portfolioStore, type PortfolioState } from '../stores/portfolioStore';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WebhookEvent =
+  | 'price_above'
+  | 'price_below'
+  | 'position_opened'
+  | 'position_closed'
+  | 'profit_target'
+  | 'stop_loss'
+  | 'portfolio_alert'
+  | 'daily_summary';
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: string[];
+  createdAt: string;
+  lastTriggered?: string;
+  triggerCount: number;
+  /** HMAC-SHA256 signing secret; unsigned when empty */
+  secret?: string;
+  /** Unrealized P&L % that fires profit_target (default 10) */
+  profitTargetPercent?: number;
+  lastStatus?: number | null;
+  lastError?: string | null;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent | 'test';
+  /** Delivery ID, also sent as X-Terminal-Delivery; stable across retries */
+  id: string;
+  timestamp: string;
+  source: 'eToro Terminal';
+  mode: ActivityMode;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookPayload['event'];
+  timestamp: string;
+  attempts: number;
+  /** Last HTTP status, null when no response was received */
+  statusCode: number | null;
+  /** Duration of the last attempt */
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+type Listener = () => void;
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'etoro-terminal-webhooks';
+const DELIVERIES_STORAGE_KEY = 'etoro-terminal-webhook-deliveries';
+const SECRETS_STORAGE_KEY = 'etoro-terminal-webhook-secrets';
+const SUMMARY_DATE_STORAGE_KEY = 'etoro-terminal-webhooks-summary-date';
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_DELIVERIES_PER_WEBHOOK = 25;
+const DEFAULT_PROFIT_TARGET_PERCENT = 10;
+// Polled rates lag the actual fill, so a close within this distance of the stop counts as stopped out
+const STOP_LOSS_TOLERANCE = 0.002;
+const SUMMARY_CHECK_INTERVAL_MS = 60_000;
+const MARKET_CLOSE_HOUR_NY = 16;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function positionSymbol(position: Position): string {
+  return position.instrumentName?.split(' - ')[0] || `#${position.instrumentId}`;
+}
+
+function profitPercent(position: Position): number | null {
+  if (position.profitPercentage !== undefined) return position.profitPercentage;
+  if (position.profit !== undefined && position.amount > 0) return (position.profit / position.amount) * 100;
+  return null;
+}
+
+/** New York calendar date and hour, used to find the market close */
+function newYorkClock(now: Date): { date: string; hour: number; weekday: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: Number(get('hour')),
+    weekday: get('weekday'),
+  };
+}
+
+function isRetryable(statusCode: number | null): boolean {
+  return statusCode === null || statusCode === 429 || statusCode >= 500;
+}
+
+// =============================================================================
+// Webhook Dispatcher
+// =============================================================================
+
+class WebhookDispatcher {
+  private webhooks: WebhookConfig[] = [];
+  private deliveries: Record<string, WebhookDelivery[]> = {};
+  private listeners: Set<Listener> = new Set();
+  private unsubscribers: Array<() => void> = [];
+  private summaryTimer: ReturnType<typeof setInterval> | null = null;
+
+  private seenActivityIds: Set<string> | null = null;
+  private lastPositions: Map<number, Position> | null = null;
+  private lastPortfolioIsDemo: boolean | null = null;
+  private profitTargetsHit: Set<string> = new Set();
+  // Secrets are only written back once the stored ones have been read, so none are lost
+  private secretsLoaded = false;
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Configuration
+  // ---------------------------------------------------------------------------
+
+  getWebhooks(): WebhookConfig[] {
+    return [...this.webhooks];
+  }
+
+  saveWebhooks(webhooks: WebhookConfig[]): void {
+    const ids = new Set(webhooks.map(w => w.id));
+    for (const id of Object.keys(this.deliveries)) {
+      if (!ids.has(id)) delete this.deliveries[id];
+    }
+    this.webhooks = [...webhooks];
+    this.persist();
+  }
+
+  /** Most recent first */
+  getDeliveries(webhookId: string): WebhookDelivery[] {
+    return [...(this.deliveries[webhookId] ?? [])];
+  }
+
+  clearDeliveries(webhookId: string): void {
+    delete this.deliveries[webhookId];
+    this.persist();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.seenActivityIds = null;
+    this.lastPositions = null;
+    this.lastPortfolioIsDemo = null;
+
+    this.unsubscribers.push(
+      getDefaultAlertsEngine().onAlert((event) => void this.handleAlert(event)),
+      activityStore.subscribe((items) => this.handleActivities(items)),
+      portfolioStore.subscribe((state) => this.handlePortfolio(state)),
+    );
+    this.summaryTimer = setInterval(() => this.checkDailySummary(), SUMMARY_CHECK_INTERVAL_MS);
+    void this.loadSecrets();
+
+    console.log(`[WebhookDispatcher] Started with ${this.webhooks.filter(w => w.enabled).length} active webhooks`);
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    if (this.summaryTimer) {
+      clearInterval(this.summaryTimer);
+      this.summaryTimer = null;
+    }
+    // Secrets belong to the signed-in user
+    this.secretsLoaded = false;
+    this.webhooks = this.webhooks.map(w => ({ ...w, secret: undefined }));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dispatch
+  // ---------------------------------------------------------------------------
+
+  /** Deliver an event to every enabled webhook subscribed to it */
+  async dispatch(event: WebhookEvent, data: Record<string, unknown>, mode?: ActivityMode): Promise<WebhookDelivery[]> {
+    const targets = this.webhooks.filter(w => w.enabled && w.events.includes(event));
+    return Promise.all(targets.map(webhook => this.deliver(webhook, event, data, mode)));
+  }
+
+  /** Send a `test` event regardless of the webhook's event selection */
+  async sendTest(webhookId: string): Promise<WebhookDelivery> {
+    const webhook = this.webhooks.find(w => w.id === webhookId);
+    if (!webhook) {
+      throw new Error(`Webhook ${webhookId} not found`);
+    }
+    return this.deliver(webhook, 'test', {
+      message: `Test delivery from eToro Terminal to "${webhook.name}"`,
+    });
+  }
+
+  private async deliver(
+    webhook: WebhookConfig,
+    event: WebhookPayload['event'],
+    data: Record<string, unknown>,
+    mode: ActivityMode = portfolioStore.isDemoMode() ? 'demo' : 'real'
+  ): Promise<WebhookDelivery> {
+    const payload: WebhookPayload = {
+      event,
+      id: generateId('dlv'),
+      timestamp: new Date().toISOString(),
+      source: 'eToro Terminal',
+      mode,
+      data,
+    };
+    const body = JSON.stringify(payload);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Terminal-Event': event,
+      'X-Terminal-Delivery': payload.id,
+    };
+    if (webhook.secret) {
+      headers['X-Terminal-Signature'] = `sha256=${await hmacSha256Hex(body, webhook.secret)}`;
+    }
+
+    let attempts = 0;
+    let statusCode: number | null = null;
+    let latencyMs = 0;
+    let error: string | undefined;
+
+    while (attempts < MAX_ATTEMPTS) {
+      if (attempts > 0) {
+        await new Promise(resolve => setTimeout(resolve, BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)));
+      }
+      attempts++;
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const started = Date.now();
+      try {
+        const response = await fetch(webhook.url, { method: 'POST', headers, body, signal: controller.signal });
+        statusCode = response.status;
+        error = response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`.trim();
+      } catch (err) {
+        statusCode = null;
+        error = controller.signal.aborted
+          ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+          : err instanceof Error ? err.message : String(err);
+      } finally {
+        clearTimeout(timeout);
+        latencyMs = Date.now() - started;
+      }
+
+      if (!error || !isRetryable(statusCode)) break;
+    }
+
+    const delivery: WebhookDelivery = {
+      id: payload.id,
+      webhookId: webhook.id,
+      event,
+      timestamp: payload.timestamp,
+      attempts,
+      statusCode,
+      latencyMs,
+      success: !error,
+      error,
+    };
+    this.recordDelivery(delivery);
+
+    if (error) {
+      console.warn(`[WebhookDispatcher] ${event} -> ${webhook.name} failed after ${attempts} attempt(s): ${error}`);
+    }
+    return delivery;
+  }
+
+  private recordDelivery(delivery: WebhookDelivery): void {
+    const log = [delivery, ...(this.deliveries[delivery.webhookId] ?? [])];
+    this.deliveries[delivery.webhookId] = log.slice(0, MAX_DELIVERIES_PER_WEBHOOK);
+
+    // The webhook may have been edited or deleted while the request was in flight
+    this.webhooks = this.webhooks.map(w => w.id === delivery.webhookId
+      ? {
+          ...w,
+          lastTriggered: delivery.timestamp,
+          triggerCount: w.triggerCount + 1,
+          lastStatus: delivery.statusCode,
+          lastError: delivery.error ?? null,
+        }
+      : w);
+    this.persist();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Event Sources
+  // ---------------------------------------------------------------------------
+
+  private async handleAlert(event: AlertTriggerEvent): Promise<void> {
+    const { alert } = event;
+    if (isPortfolioAlert(alert.type)) {
+      await this.handlePortfolioAlert(event);
+      return;
+    }
+    if (alert.type !== 'price_above' && alert.type !== 'price_below') return;
+    if (!this.hasSubscribers(alert.type)) return;
+
+    const resolved = await symbolResolver.getInstrumentById(alert.instrumentId).catch(() => null);
+    await this.dispatch(alert.type, {
+      symbol: resolved?.symbol ?? `#${alert.instrumentId}`,
+      instrumentId: alert.instrumentId,
+      price: event.currentValue,
+      threshold: alert.condition.threshold ?? null,
+      alertId: alert.id,
+    });
+  }
+
+  private async handlePortfolioAlert(event: AlertTriggerEvent): Promise<void> {
+    if (!this.hasSubscribers('portfolio_alert')) return;
+
+    const { alert, positionId } = event;
+    const position = positionId !== undefined ? portfolioStore.getPosition(positionId) : undefined;
+    const resolved = position
+      ? await symbolResolver.getInstrumentById(position.instrumentId).catch(() => null)
+      : null;
+
+    await this.dispatch('portfolio_alert', {
+      alertType: alert.type,
+      value: event.currentValue,
+      condition: alert.condition,
+      positionId: positionId ?? null,
+      symbol: resolved?.symbol ?? alert.symbol ?? null,
+      note: alert.note ?? null,
+      alertId: alert.id,
+    });
+  }
+
+  private handleActivities(items: ActivityItem[]): void {
+    // First callback is the existing history - only later items are new
+    if (!this.seenActivityIds) {
+      this.seenActivityIds = new Set(items.map(a => a.id));
+      return;
+    }
+
+    const fresh = items.filter(a => !this.seenActivityIds!.has(a.id)).reverse();
+    for (const item of fresh) {
+      this.seenActivityIds.add(item.id);
+      if (item.type === 'trade_open') {
+        void this.dispatch('position_opened', {
+          symbol: item.symbol ?? null,
+          amount: item.amount ?? null,
+          message: item.message,
+        }, item.mode);
+      } else if (item.type === 'trade_close') {
+        void this.dispatch('position_closed', {
+          symbol: item.symbol ?? null,
+          profit: item.profit ?? null,
+          message: item.message,
+        }, item.mode);
+      }
+    }
+  }
+
+  private handlePortfolio(state: PortfolioState): void {
+    const positions = state.portfolio?.positions;
+    if (!positions) return;
+
+    const current = new Map(positions.map(p => [p.positionId, p]));
+    const previous = this.lastPositions;
+    const sameAccount = this.lastPortfolioIsDemo === state.isDemo;
+    this.lastPositions = current;
+    this.lastPortfolioIsDemo = state.isDemo;
+
+    const mode: ActivityMode = state.isDemo ? 'demo' : 'real';
+
+    // Stop losses are only visible as a position disappearing near its stop
+    if (previous && sameAccount) {
+      for (const [positionId, position] of previous) {
+        if (current.has(positionId)) continue;
+        this.clearProfitTargets(positionId);
+
+        const stop = position.stopLossRate;
+        const lastRate = position.currentRate;
+        if (!stop || !lastRate) continue;
+        const stoppedOut = position.isBuy
+          ? lastRate <= stop * (1 + STOP_LOSS_TOLERANCE)
+          : lastRate >= stop * (1 - STOP_LOSS_TOLERANCE);
+        if (stoppedOut) {
+          void this.dispatch('stop_loss', {
+            symbol: positionSymbol(position),
+            positionId,
+            instrumentId: position.instrumentId,
+            side: position.isBuy ? 'buy' : 'sell',
+            amount: position.amount,
+            openRate: position.openRate,
+            stopLossRate: stop,
+            lastRate,
+            profit: position.profit ?? null,
+          }, mode);
+        }
+      }
+    }
+
+    // Profit targets are per webhook, fired once per position
+    for (const webhook of this.webhooks) {
+      if (!webhook.enabled || !webhook.events.includes('profit_target')) continue;
+      const target = webhook.profitTargetPercent ?? DEFAULT_PROFIT_TARGET_PERCENT;
+
+      for (const position of positions) {
+        const pct = profitPercent(position);
+        const key = `${webhook.id}:${position.positionId}`;
+        if (pct === null || pct < target || this.profitTargetsHit.has(key)) continue;
+
+        this.profitTargetsHit.add(key);
+        // Positions already past target when the terminal starts don't re-fire on every reload
+        if (!previous) continue;
+        void this.deliver(webhook, 'profit_target', {
+          symbol: positionSymbol(position),
+          positionId: position.positionId,
+          instrumentId: position.instrumentId,
+          profitPercent: Number(pct.toFixed(2)),
+          targetPercent: target,
+          profit: position.profit ?? null,
+          amount: position.amount,
+        }, mode);
+      }
+    }
+  }
+
+  private clearProfitTargets(positionId: number): void {
+    for (const key of this.profitTargetsHit) {
+      if (key.endsWith(`:${positionId}`)) this.profitTargetsHit.delete(key);
+    }
+  }
+
+  /** Once per weekday, after 16:00 New York time */
+  private checkDailySummary(): void {
+    if (!this.hasSubscribers('daily_summary')) return;
+
+    const { portfolio, isDemo } = portfolioStore.getState();
+    if (!portfolio) return;
+
+    const clock = newYorkClock(new Date());
+    if (clock.weekday === 'Sat' || clock.weekday === 'Sun' || clock.hour < MARKET_CLOSE_HOUR_NY) return;
+
+    try {
+      if (localStorage.getItem(SUMMARY_DATE_STORAGE_KEY) === clock.date) return;
+      localStorage.setItem(SUMMARY_DATE_STORAGE_KEY, clock.date);
+    } catch {
+      // Without storage the summary may repeat after a reload
+    }
+
+    const unrealizedPnL = portfolio.positions.reduce((sum, p) => sum + (p.profit ?? 0), 0);
+    void this.dispatch('daily_summary', {
+      date: clock.date,
+      equity: portfolio.equity,
+      totalValue: portfolio.totalValue,
+      credit: portfolio.credit,
+      unrealizedPnL,
+      openPositions: portfolio.positions.length,
+      positions: portfolio.positions.map(p => ({
+        symbol: positionSymbol(p),
+        side: p.isBuy ? 'buy' : 'sell',
+        amount: p.amount,
+        profit: p.profit ?? null,
+      })),
+    }, isDemo ? 'demo' : 'real');
+  }
+
+  private hasSubscribers(event: WebhookEvent): boolean {
+    return this.webhooks.some(w => w.enabled && w.events.includes(event));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Persistence
+  // ---------------------------------------------------------------------------
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.webhooks = JSON.parse(stored);
+      }
+      const deliveries = localStorage.getItem(DELIVERIES_STORAGE_KEY);
+      if (deliveries) {
+        this.deliveries = JSON.parse(deliveries);
+      }
+    } catch (err) {
+      console.error('[WebhookDispatcher] Failed to load from storage:', err);
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.webhooks, (key, value) => key === 'secret' ? undefined : value));
+      localStorage.setItem(DELIVERIES_STORAGE_KEY, JSON.stringify(this.deliveries));
+    } catch (err) {
+      console.error('[WebhookDispatcher] Failed to save to storage:', err);
+    }
+    void this.persistSecrets();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Decrypt the stored signing secrets onto their webhooks */
+  private async loadSecrets(): Promise<void> {
+    const passphrase = keyManager.getKeys()?.userKey;
+    if (!passphrase) return;
+
+    try {
+      const stored = localStorage.getItem(SECRETS_STORAGE_KEY);
+      const secrets: Record<string, string> = stored ? JSON.parse(await decrypt(stored, passphrase)) : {};
+      this.webhooks = this.webhooks.map(w => (w.secret || !secrets[w.id] ? w : { ...w, secret: secrets[w.id] }));
+    } catch (err) {
+      console.error('[WebhookDispatcher] Failed to decrypt signing secrets:', err);
+    }
+    this.secretsLoaded = true;
+    // Also moves secrets saved in plain text by earlier versions out of the webhook list
+    this.persist();
+  }
+
+  private async persistSecrets(): Promise<void> {
+    const passphrase = keyManager.getKeys()?.userKey;
+    if (!passphrase || !this.secretsLoaded) return;
+
+    const secrets: Record<string, string> = {};
+    this.webhooks.forEach(w => {
+      if (w.secret) secrets[w.id] = w.secret;
+    });
+
+    try {
+      if (Object.keys(secrets).length === 0) {
+        localStorage.removeItem(SECRETS_STORAGE_KEY);
+      } else {
+        localStorage.setItem(SECRETS_STORAGE_KEY, await encrypt(JSON.stringify(secrets), passphrase));
+      }
+    } catch (err) {
+      console.error('[WebhookDispatcher] Failed to save signing secrets:', err);
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookDispatcher = new WebhookDispatcher();
@@ -1,58 +1,377 @@
-interface SavedLayout {
-  version: string;
-  panels: string[];
+/**
+ * Workspace Layout Service
+ *
+ * Named workspace layouts kept in localStorage. A layout records every panel
+ * in order with its size, link group and per-panel state so it can be
+ * restored exactly. Layouts export and import as versioned JSON, together
+ * with the user's rebound keyboard shortcuts; older formats are migrated when
+ * read from storage and when imported.
+ */
+
+import type { LinkGroup } from '../components/Workspace/ActiveSymbolContext';
+import { shortcutsRegistry, type Keymap } from '../utils/accessibility';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LayoutPanel {
+  typeId: string;
+  width?: number;
+  height?: number;
+  linkGroup?: LinkGroup;
+  /** Panel-specific settings, e.g. the chart's pinned symbol and timeframe */
+  state?: Record<string, unknown>;
+}
+
+export interface WorkspaceLayout {
+  name: string;
+  panels: LayoutPanel[];
   savedAt: string;
 }
 
+export interface LayoutsExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  layouts: WorkspaceLayout[];
+  /** Keyboard shortcuts the exporting user rebound */
+  keymap?: Keymap;
+}
+
+export interface LayoutImportResult {
+  /** Names of the imported layouts */
+  layouts: string[];
+  /** Descriptions of imported shortcuts left as they were because their keys are taken */
+  skippedShortcuts: string[];
+}
+
+interface StoredLayouts {
+  version: number;
+  layouts: WorkspaceLayout[];
+  /** Layout opened on startup; null means the built-in default panels */
+  defaultLayout: string | null;
+  /** Layout most recently saved or switched to */
+  activeLayout: string | null;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
 const STORAGE_KEY = 'etoro-terminal-layout';
-const LAYOUT_VERSION = '1.0';
+// Version 1 kept panel sizes separately, keyed by instance ID
+const LEGACY_PANEL_SIZES_KEY = 'etoro-terminal-panel-sizes';
+const LAYOUT_VERSION = 2;
+const EXPORT_FORMAT = 'etoro-terminal-layouts';
+const MIGRATED_LAYOUT_NAME = 'Default';
+const LINK_GROUPS: LinkGroup[] = ['A', 'B', 'C', null];
+
+// =============================================================================
+// Migration
+// =============================================================================
+
+function emptyStore(): StoredLayouts {
+  return { version: LAYOUT_VERSION, layouts: [], defaultLayout: null, activeLayout: null };
+}
+
+function toLayoutPanel(raw: unknown): LayoutPanel | null {
+  if (typeof raw === 'string') {
+    return { typeId: raw };
+  }
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const panel = raw as Record<string, unknown>;
+  if (typeof panel.typeId !== 'string' || !panel.typeId) {
+    return null;
+  }
+
+  return {
+    typeId: panel.typeId,
+    width: typeof panel.width === 'number' ? panel.width : undefined,
+    height: typeof panel.height === 'number' ? panel.height : undefined,
+    linkGroup: LINK_GROUPS.includes(panel.linkGroup as LinkGroup) ? (panel.linkGroup as LinkGroup) : undefined,
+    state: panel.state && typeof panel.state === 'object' ? { ...(panel.state as Record<string, unknown>) } : undefined,
+  };
+}
+
+function toLayout(raw: unknown): WorkspaceLayout | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const layout = raw as Record<string, unknown>;
+  const name = typeof layout.name === 'string' ? layout.name.trim() : '';
+  if (!name || !Array.isArray(layout.panels)) return null;
+
+  return {
+    name,
+    panels: layout.panels.map(toLayoutPanel).filter((p): p is LayoutPanel => p !== null),
+    savedAt: typeof layout.savedAt === 'string' ? layout.savedAt : new Date().toISOString(),
+  };
+}
+
+/** Version 1: one unnamed layout of panel type IDs, with sizes stored elsewhere */
+function migrateV1(data: Record<string, unknown>): StoredLayouts {
+  let sizes: Record<string, { width: number; height: number }> = {};
+  try {
+    sizes = JSON.parse(localStorage.getItem(LEGACY_PANEL_SIZES_KEY) || '{}');
+  } catch {
+    // Sizes are optional
+  }
+
+  // Saved layouts were opened as panel-1, panel-2, ... on startup
+  const panels = (data.panels as unknown[])
+    .map(toLayoutPanel)
+    .filter((p): p is LayoutPanel => p !== null)
+    .map((panel, index) => ({ ...panel, ...sizes[`panel-${index + 1}`] }));
+
+  return {
+    version: LAYOUT_VERSION,
+    layouts: [{
+      name: MIGRATED_LAYOUT_NAME,
+      panels,
+      savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    }],
+    defaultLayout: MIGRATED_LAYOUT_NAME,
+    activeLayout: MIGRATED_LAYOUT_NAME,
+  };
+}
+
+function migrate(data: unknown): StoredLayouts {
+  if (!data || typeof data !== 'object') {
+    return emptyStore();
+  }
+
+  const stored = data as Record<string, unknown>;
+  if (typeof stored.version === 'string' || (stored.version === undefined && Array.isArray(stored.panels))) {
+    return migrateV1(stored);
+  }
+
+  const layouts = Array.isArray(stored.layouts)
+    ? stored.layouts.map(toLayout).filter((l): l is WorkspaceLayout => l !== null)
+    : [];
+  const has = (name: unknown) => typeof name === 'string' && layouts.some(l => l.name === name);
+
+  return {
+    version: LAYOUT_VERSION,
+    layouts,
+    defaultLayout: has(stored.defaultLayout) ? (stored.defaultLayout as string) : null,
+    activeLayout: has(stored.activeLayout) ? (stored.activeLayout as string) : null,
+  };
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function readStore(): StoredLayouts {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return emptyStore();
+    }
+
+    const parsed = JSON.parse(stored);
+    const store = migrate(parsed);
+    if (parsed?.version !== LAYOUT_VERSION) {
+      writeStore(store);
+      localStorage.removeItem(LEGACY_PANEL_SIZES_KEY);
+      console.log(`[WorkspaceLayout] Migrated layouts from version ${parsed?.version ?? 'unknown'}`);
+    }
+    return store;
+  } catch (error) {
+    console.warn('Failed to load workspace layouts:', error);
+    return emptyStore();
+  }
+}
+
+function writeStore(store: StoredLayouts): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn('Failed to save workspace layouts:', error);
+  }
+}
+
+function findIndex(store: StoredLayouts, name: string): number {
+  const key = name.trim().toLowerCase();
+  return store.layouts.findIndex(l => l.name.toLowerCase() === key);
+}
+
+// =============================================================================
+// Service
+// =============================================================================
 
 export const workspaceLayoutService = {
-  saveLayout(panelTypeIds: string[]): void {
-    try {
-      const layout: SavedLayout = {
-        version: LAYOUT_VERSION,
-        panels: panelTypeIds,
-        savedAt: new Date().toISOString(),
-      };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
-    } catch (error) {
-      console.warn('Failed to save workspace layout:', error);
+  listLayouts(): WorkspaceLayout[] {
+    return readStore().layouts;
+  },
+
+  /** Case-insensitive lookup by name */
+  getLayout(name: string): WorkspaceLayout | null {
+    const store = readStore();
+    const index = findIndex(store, name);
+    return index >= 0 ? store.layouts[index] : null;
+  },
+
+  /** Create or overwrite a named layout and make it the active one */
+  saveLayout(name: string, panels: LayoutPanel[]): WorkspaceLayout {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Layout name is required');
     }
+
+    const store = readStore();
+    const index = findIndex(store, trimmed);
+    const layout: WorkspaceLayout = {
+      name: index >= 0 ? store.layouts[index].name : trimmed,
+      panels: panels.map(p => ({ ...p, state: p.state ? { ...p.state } : undefined })),
+      savedAt: new Date().toISOString(),
+    };
+
+    if (index >= 0) {
+      store.layouts[index] = layout;
+    } else {
+      store.layouts.push(layout);
+    }
+    store.activeLayout = layout.name;
+    writeStore(store);
+    return layout;
   },
 
-  loadLayout(): string[] | null {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) {
-        return null;
-      }
-      const layout: SavedLayout = JSON.parse(stored);
-      if (!layout.panels || !Array.isArray(layout.panels)) {
-        console.warn('Invalid layout format in storage');
-        return null;
-      }
-      return layout.panels;
-    } catch (error) {
-      console.warn('Failed to load workspace layout:', error);
-      return null;
+  deleteLayout(name: string): boolean {
+    const store = readStore();
+    const index = findIndex(store, name);
+    if (index < 0) {
+      return false;
     }
+
+    const [removed] = store.layouts.splice(index, 1);
+    if (store.defaultLayout === removed.name) store.defaultLayout = null;
+    if (store.activeLayout === removed.name) store.activeLayout = null;
+    writeStore(store);
+    return true;
+  },
+
+  getDefaultLayoutName(): string | null {
+    return readStore().defaultLayout;
+  },
+
+  setDefaultLayout(name: string | null): void {
+    const store = readStore();
+    const index = name === null ? -1 : findIndex(store, name);
+    store.defaultLayout = index >= 0 ? store.layouts[index].name : null;
+    writeStore(store);
+  },
+
+  getActiveLayoutName(): string | null {
+    return readStore().activeLayout;
+  },
+
+  setActiveLayout(name: string | null): void {
+    const store = readStore();
+    const index = name === null ? -1 : findIndex(store, name);
+    store.activeLayout = index >= 0 ? store.layouts[index].name : null;
+    writeStore(store);
+  },
+
+  /** Panels of the startup layout, or null to use the built-in defaults */
+  loadLayout(): LayoutPanel[] | null {
+    const store = readStore();
+    const layout = store.layouts.find(l => l.name === store.defaultLayout);
+    return layout ? layout.panels : null;
   },
 
+  /** Go back to the built-in default panels on startup; named layouts are kept */
   resetLayout(): void {
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-    } catch (error) {
-      console.warn('Failed to reset workspace layout:', error);
-    }
+    const store = readStore();
+    store.defaultLayout = null;
+    store.activeLayout = null;
+    writeStore(store);
   },
 
   hasCustomLayout(): boolean {
+    return readStore().defaultLayout !== null;
+  },
+
+  /** Versioned JSON of the named layouts, or all layouts */
+  exportLayouts(names?: string[]): string {
+    const store = readStore();
+    const wanted = names?.map(n => n.toLowerCase());
+    const data: LayoutsExport = {
+      format: EXPORT_FORMAT,
+      version: LAYOUT_VERSION,
+      exportedAt: new Date().toISOString(),
+      layouts: store.layouts.filter(l => !wanted || wanted.includes(l.name.toLowerCase())),
+      keymap: shortcutsRegistry.getKeymap(),
+    };
+    return JSON.stringify(data, null, 2);
+  },
+
+  /**
+   * Add layouts from exported JSON, replacing any with the same name.
+   * Shortcuts rebound in the file override the same shortcuts here unless
+   * their keys are already used by another shortcut. Accepts current
+   * exports and version 1 layouts.
+   */
+  importLayouts(json: string): LayoutImportResult {
+    let data: Record<string, unknown>;
     try {
-      return localStorage.getItem(STORAGE_KEY) !== null;
-    } catch (error) {
-      console.warn('Failed to check workspace layout:', error);
-      return false;
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Layout file is not valid JSON');
+    }
+
+    let imported: WorkspaceLayout[];
+    if (data?.format === EXPORT_FORMAT) {
+      if (typeof data.version !== 'number' || data.version > LAYOUT_VERSION) {
+        throw new Error(`Unsupported layout version ${String(data.version)}; update the terminal to import it`);
+      }
+      imported = migrate({ version: LAYOUT_VERSION, layouts: data.layouts }).layouts;
+    } else if (data && Array.isArray(data.panels)) {
+      // A single version 1 layout; there are no sizes to carry over
+      const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported';
+      imported = [{
+        name,
+        panels: (data.panels as unknown[]).map(toLayoutPanel).filter((p): p is LayoutPanel => p !== null),
+        savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+      }];
+    } else {
+      throw new Error('Not a workspace layout file');
+    }
+
+    if (imported.length === 0) {
+      throw new Error('Layout file contains no layouts');
+    }
+
+    const store = readStore();
+    for (const layout of imported) {
+      const index = findIndex(store, layout.name);
+      if (index >= 0) {
+        store.layouts[index] = { ...layout, name: store.layouts[index].name };
+      } else {
+        store.layouts.push(layout);
+      }
+    }
+    writeStore(store);
+
+    const skippedShortcuts: string[] = [];
+    if (data.keymap && typeof data.keymap === 'object') {
+      for (const [id, keys] of Object.entries(data.keymap as Keymap)) {
+        if (typeof keys !== 'string') continue;
+        const conflict = shortcutsRegistry.findConflict(id, keys);
+        if (conflict) {
+          skippedShortcuts.push(`${keys} (${conflict.description})`);
+          continue;
+        }
+        try {
+          shortcutsRegistry.setKeys(id, keys);
+        } catch {
+          // Shortcut no longer exists in this version
+        }
+      }
     }
+    return { layouts: imported.map(l => l.name), skippedShortcuts };
   },
 };
@@ -161,6 +161,10 @@ export class WSClient {
     return this.addMessageHandler(WS_TOPICS.ORDERS, handler as MessageHandler<unknown>);
   }
 
+  onPortfolioUpdate(handler: MessageHandler<unknown>): () => void {
+    return this.addMessageHandler(WS_TOPICS.PORTFOLIO, handler);
+  }
+
   private addMessageHandler(topicPrefix: string, handler: MessageHandler<unknown>): () => void {
     if (!this.messageHandlers.has(topicPrefix)) {
       this.messageHandlers.set(topicPrefix, new Set());
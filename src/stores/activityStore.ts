@@ -1,6 +1,6 @@
 // Activity Store - tracks trade executions and important events
 
-export type ActivityType = 'trade_open' | 'trade_close' | 'order_rejected' | 'connection' | 'error';
+export type ActivityType = 'trade_open' | 'trade_close' | 'order_placed' | 'order_cancelled' | 'order_rejected' | 'position_modified' | 'connection' | 'error';
 export type ActivityMode = 'demo' | 'real';
 
 export interface ActivityItem {
@@ -55,17 +55,50 @@ class ActivityStore {
     });
   }
 
-  addTradeClose(mode: ActivityMode, symbol: string, profit: number): void {
-    const profitStr = profit >= 0 ? `+$${profit.toFixed(2)}` : `-$${Math.abs(profit).toFixed(2)}`;
+  /** `profit` is left out when the close was settled without realized figures */
+  addTradeClose(mode: ActivityMode, symbol: string, profit?: number): void {
+    let message = `Closed ${symbol}`;
+    if (profit !== undefined) {
+      message += profit >= 0 ? ` (+$${profit.toFixed(2)})` : ` (-$${Math.abs(profit).toFixed(2)})`;
+    }
     this.addActivity({
       type: 'trade_close',
       mode,
-      message: `Closed ${symbol} (${profitStr})`,
+      message,
       symbol,
       profit,
     });
   }
 
+  addOrderPlaced(mode: ActivityMode, symbol: string, amount: number, side: 'buy' | 'sell', rate: number): void {
+    this.addActivity({
+      type: 'order_placed',
+      mode,
+      message: `${side.toUpperCase()} LIMIT ${symbol} for $${amount.toFixed(2)} @ ${rate}`,
+      symbol,
+      amount,
+    });
+  }
+
+  addOrderCancelled(mode: ActivityMode, symbol: string): void {
+    this.addActivity({
+      type: 'order_cancelled',
+      mode,
+      message: `Cancelled order: ${symbol}`,
+      symbol,
+    });
+  }
+
+  addPositionModified(mode: ActivityMode, symbol: string, details: string): void {
+    this.addActivity({
+      type: 'position_modified',
+      mode,
+      message: `Modified ${symbol}`,
+      details,
+      symbol,
+    });
+  }
+
   addOrderRejected(mode: ActivityMode, symbol: string, reason: string): void {
     this.addActivity({
       type: 'order_rejected',
@@ -8,6 +8,8 @@ export interface StoredOrder {
   side: OrderSide;
   orderType: OrderType;
   amount: number;
+  /** Set on orders placed by units; their amount is only an estimate */
+  units?: number;
   leverage?: number;
   limitRate?: number;
   stopLossRate?: number;
@@ -18,6 +20,19 @@ export interface StoredOrder {
   createdAt: string;
   updatedAt: string;
   isOptimistic?: boolean;
+  /** Stable key the submission was sent with, across retries */
+  clientOrderKey?: string;
+  /** Account the order was submitted to, so it is verified against the same one */
+  isDemo?: boolean;
+  /** Set on close orders: the position being closed, and for partial closes its units beforehand */
+  positionId?: number;
+  unitsBefore?: number;
+  /**
+   * The broker may or may not have applied this order (lost response,
+   * timeout). It must be verified before anything is resubmitted.
+   */
+  isUnknown?: boolean;
+  unknownReason?: string;
 }
 
 export interface OptimisticOrderParams {
@@ -27,9 +42,13 @@ export interface OptimisticOrderParams {
   side: OrderSide;
   orderType: OrderType;
   amount: number;
+  units?: number;
   leverage?: number;
+  limitRate?: number;
   stopLossRate?: number;
   takeProfitRate?: number;
+  clientOrderKey?: string;
+  isDemo?: boolean;
 }
 
 export type OrderUpdateCallback = (order: StoredOrder) => void;
@@ -42,6 +61,8 @@ class OrdersStore {
   private subscribers: Map<string, Set<OrderUpdateCallback>> = new Map();
   private globalSubscribers: Set<OrdersChangeCallback> = new Set();
   private optimisticTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  // Temp ID -> broker ID, for REST responses that land after the stream reconciled
+  private reconciledIds: Map<string, string> = new Map();
 
   addOrder(order: StoredOrder): void {
     this.orders.set(order.orderId, order);
@@ -61,9 +82,13 @@ class OrdersStore {
       side: params.side,
       orderType: params.orderType,
       amount: params.amount,
+      units: params.units,
       leverage: params.leverage,
+      limitRate: params.limitRate,
       stopLossRate: params.stopLossRate,
       takeProfitRate: params.takeProfitRate,
+      clientOrderKey: params.clientOrderKey,
+      isDemo: params.isDemo,
       status: 'pending',
       createdAt: now,
       updatedAt: now,
@@ -75,7 +100,11 @@ class OrdersStore {
     this.notifyGlobalSubscribers();
 
     const timeout = setTimeout(() => {
-      this.markOrderAsUnknown(tempOrderId);
+      this.optimisticTimeouts.delete(tempOrderId);
+      const order = this.orders.get(tempOrderId);
+      if (order?.isOptimistic && !order.isUnknown) {
+        this.markUnknown(tempOrderId, 'No broker confirmation within 30s');
+      }
     }, OPTIMISTIC_TIMEOUT_MS);
     this.optimisticTimeouts.set(tempOrderId, timeout);
 
@@ -89,6 +118,10 @@ class OrdersStore {
   ): void {
     const existing = this.orders.get(tempOrderId);
     if (!existing) {
+      const reconciledId = this.reconciledIds.get(tempOrderId);
+      if (reconciledId === realOrderId) {
+        this.mergeLateUpdate(realOrderId, update);
+      }
       return;
     }
 
@@ -109,35 +142,85 @@ class OrdersStore {
       executedAt: update.executedAt,
       updatedAt: new Date().toISOString(),
       isOptimistic: false,
+      isUnknown: false,
+      unknownReason: undefined,
     };
 
     this.orders.set(realOrderId, reconciledOrder);
+    this.reconciledIds.set(tempOrderId, realOrderId);
     this.notifyOrderSubscribers(realOrderId, reconciledOrder);
     this.notifyGlobalSubscribers();
   }
 
-  private markOrderAsUnknown(orderId: string): void {
+  /** Fill in fields a later source knows without regressing the status */
+  private mergeLateUpdate(orderId: string, update: Partial<StoredOrder>): void {
     const existing = this.orders.get(orderId);
-    if (!existing || !existing.isOptimistic) {
+    if (!existing) {
       return;
     }
 
-    this.optimisticTimeouts.delete(orderId);
+    const merged: StoredOrder = {
+      ...existing,
+      status: existing.status === 'pending' && update.status ? update.status : existing.status,
+      executedRate: existing.executedRate ?? update.executedRate,
+      executedAt: existing.executedAt ?? update.executedAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.orders.set(orderId, merged);
+    this.notifyOrderSubscribers(orderId, merged);
+    this.notifyGlobalSubscribers();
+  }
+
+  /**
+   * Oldest optimistic order that a streamed broker order could belong to.
+   * Streamed orders don't echo our temp ID, so match on instrument and side
+   * when the payload carries them.
+   */
+  findOptimisticMatch(instrumentId?: number, side?: OrderSide): StoredOrder | undefined {
+    return this.getAllOrders()
+      .reverse()
+      .find(
+        (order) =>
+          order.isOptimistic &&
+          order.orderId.startsWith('opt_') &&
+          (instrumentId === undefined || order.instrumentId === instrumentId) &&
+          (side === undefined || order.side === side)
+      );
+  }
+
+  /**
+   * Flag an order whose outcome at the broker can't be determined. It keeps
+   * its status until verified; nothing should resubmit it meanwhile.
+   */
+  markUnknown(orderId: string, reason: string): void {
+    const existing = this.orders.get(orderId);
+    if (!existing) {
+      return;
+    }
+
+    const timeout = this.optimisticTimeouts.get(orderId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.optimisticTimeouts.delete(orderId);
+    }
 
     const unknownOrder: StoredOrder = {
       ...existing,
-      status: 'pending',
+      isUnknown: true,
+      unknownReason: reason,
       updatedAt: new Date().toISOString(),
-      isOptimistic: true,
     };
 
-    (unknownOrder as StoredOrder & { isUnknown?: boolean }).isUnknown = true;
-
     this.orders.set(orderId, unknownOrder);
     this.notifyOrderSubscribers(orderId, unknownOrder);
     this.notifyGlobalSubscribers();
   }
 
+  getUnknownOrders(): StoredOrder[] {
+    return this.getAllOrders().filter((order) => order.isUnknown);
+  }
+
   updateOrder(orderId: string, update: Partial<StoredOrder> | OrderUpdatePayload): void {
     const existing = this.orders.get(orderId);
     if (!existing) {
@@ -157,6 +240,8 @@ class OrdersStore {
       executedAt: 'executedAt' in update ? update.executedAt : existing.executedAt,
       updatedAt: new Date().toISOString(),
       isOptimistic: false,
+      isUnknown: false,
+      unknownReason: undefined,
     };
 
     this.orders.set(orderId, updatedOrder);
@@ -164,6 +249,40 @@ class OrdersStore {
     this.notifyGlobalSubscribers();
   }
 
+  /**
+   * Replace the working (pending limit) orders with the broker's list.
+   * Orders that stopped working without a cancel from here are flagged
+   * unknown: the list alone can't tell a fill from an external cancel.
+   */
+  syncWorkingOrders(working: StoredOrder[]): void {
+    const workingIds = new Set(working.map((order) => order.orderId));
+
+    this.orders.forEach((order) => {
+      if (
+        order.orderType === 'limit' &&
+        order.status === 'pending' &&
+        !order.isOptimistic &&
+        !order.isUnknown &&
+        !workingIds.has(order.orderId)
+      ) {
+        this.markUnknown(order.orderId, 'No longer working at the broker: filled or cancelled elsewhere');
+      }
+    });
+
+    working.forEach((order) => {
+      this.orders.set(order.orderId, order);
+      this.notifyOrderSubscribers(order.orderId, order);
+    });
+    this.notifyGlobalSubscribers();
+  }
+
+  getWorkingOrders(): StoredOrder[] {
+    return this.getAllOrders().filter(
+      (order) =>
+        order.orderType === 'limit' && order.status === 'pending' && !order.isOptimistic && !order.isUnknown
+    );
+  }
+
   getOrder(orderId: string): StoredOrder | undefined {
     return this.orders.get(orderId);
   }
@@ -231,6 +350,7 @@ class OrdersStore {
 
   clear(): void {
     this.orders.clear();
+    this.reconciledIds.clear();
     this.notifyGlobalSubscribers();
   }
 }
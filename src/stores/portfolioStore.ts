@@ -1,4 +1,5 @@
-import type { Position, Portfolio } from '../api/contracts/etoro-api.types';
+import type { Position, Portfolio, PositionUpdatePayload } from '../api/contracts/etoro-api.types';
+import type { PortfolioUpdatePayload } from '../services/privateTopicRouter';
 import { etoroApi } from '../services/etoroApi';
 import { symbolResolver } from '../services/symbolResolver';
 import { demoDataService, isDemoMode as isGlobalDemoMode } from '../services/demoDataService';
@@ -13,9 +14,12 @@ export interface PortfolioState {
   autoRefreshEnabled: boolean;
   autoRefreshInterval: AutoRefreshInterval;
   isDemo: boolean;
+  /** Positions are kept current by the private stream; polling is paused */
+  liveUpdates: boolean;
 }
 
 const STALE_THRESHOLD_MS = 5 * 60 * 1000;
+const STREAM_REFRESH_DELAY_MS = 1000;
 
 export type PortfolioUpdateCallback = (state: PortfolioState) => void;
 
@@ -28,9 +32,13 @@ class PortfolioStore {
     autoRefreshEnabled: false,
     autoRefreshInterval: 60000,
     isDemo: true,
+    liveUpdates: false,
   };
   private subscribers: Set<PortfolioUpdateCallback> = new Set();
   private autoRefreshTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // Streamed position IDs that a refetch didn't turn up (e.g. the other account)
+  private unknownPositionIds: Set<number> = new Set();
 
   getState(): PortfolioState {
     return { ...this.state };
@@ -71,6 +79,7 @@ class PortfolioStore {
   setDemoMode(isDemo: boolean): void {
     if (isDemo !== this.state.isDemo) {
       etoroApi.setDemoMode(isDemo);
+      this.unknownPositionIds.clear();
       this.setState({ isDemo, portfolio: null, lastUpdated: null, error: null });
       this.fetchPortfolio().catch(() => {});
     }
@@ -161,6 +170,84 @@ class PortfolioStore {
     }
   }
 
+  /** Apply a local change to one position without refetching the portfolio */
+  updatePosition(positionId: number, updates: Partial<Position>): void {
+    const { portfolio } = this.state;
+    if (!portfolio || !this.getPosition(positionId)) return;
+
+    this.setState({
+      portfolio: {
+        ...portfolio,
+        positions: portfolio.positions.map((p) =>
+          p.positionId === positionId ? { ...p, ...updates } : p
+        ),
+      },
+      lastUpdated: Date.now(),
+    });
+  }
+
+  /** Apply a streamed position tick; unseen positions trigger one refetch */
+  applyPositionUpdate(payload: PositionUpdatePayload): void {
+    if (!this.state.portfolio) return;
+
+    if (!this.getPosition(payload.positionId)) {
+      if (!this.unknownPositionIds.has(payload.positionId)) {
+        this.unknownPositionIds.add(payload.positionId);
+        this.requestRefresh();
+      }
+      return;
+    }
+
+    this.updatePosition(payload.positionId, {
+      currentRate: payload.currentRate,
+      profit: payload.profit,
+      profitPercentage: payload.profitPercentage,
+    });
+  }
+
+  /** Apply streamed account totals */
+  applyPortfolioUpdate(payload: PortfolioUpdatePayload): void {
+    const { portfolio } = this.state;
+    if (!portfolio) return;
+
+    this.setState({
+      portfolio: {
+        ...portfolio,
+        totalValue: payload.totalValue ?? portfolio.totalValue,
+        equity: payload.equity ?? portfolio.equity,
+        profit: payload.profit ?? portfolio.profit,
+        profitPercentage: payload.profitPercentage ?? portfolio.profitPercentage,
+      },
+      lastUpdated: Date.now(),
+    });
+  }
+
+  /** Refetch shortly; bursts of stream events collapse into one request */
+  requestRefresh(): void {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.fetchPortfolio().catch(() => {});
+    }, STREAM_REFRESH_DELAY_MS);
+  }
+
+  /**
+   * Called by the streaming layer when the private stream comes up or goes
+   * down. Auto-refresh polling only runs while it is down.
+   */
+  setLiveUpdates(active: boolean): void {
+    if (active === this.state.liveUpdates) return;
+    this.setState({ liveUpdates: active });
+
+    if (active) {
+      this.stopAutoRefresh();
+    } else if (this.state.autoRefreshEnabled) {
+      this.startAutoRefresh();
+    }
+    // Catch up on anything missed while switching sources
+    this.requestRefresh();
+  }
+
   async closePosition(positionId: number): Promise<void> {
     const position = this.getPosition(positionId);
     if (!position) {
@@ -194,6 +281,11 @@ class PortfolioStore {
 
   clear(): void {
     this.stopAutoRefresh();
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.unknownPositionIds.clear();
     this.setState({
       portfolio: null,
       loading: false,
@@ -202,6 +294,7 @@ class PortfolioStore {
       autoRefreshEnabled: false,
       autoRefreshInterval: 60000,
       isDemo: true,
+      liveUpdates: false,
     });
   }
 
@@ -213,7 +306,7 @@ class PortfolioStore {
   setAutoRefresh(enabled: boolean): void {
     if (enabled === this.state.autoRefreshEnabled) return;
     this.setState({ autoRefreshEnabled: enabled });
-    if (enabled) {
+    if (enabled && !this.state.liveUpdates) {
       this.startAutoRefresh();
     } else {
       this.stopAutoRefresh();
@@ -223,7 +316,7 @@ class PortfolioStore {
   setAutoRefreshInterval(interval: AutoRefreshInterval): void {
     if (interval === this.state.autoRefreshInterval) return;
     this.setState({ autoRefreshInterval: interval });
-    if (this.state.autoRefreshEnabled) {
+    if (this.state.autoRefreshEnabled && !this.state.liveUpdates) {
       this.stopAutoRefresh();
       this.startAutoRefresh();
     }
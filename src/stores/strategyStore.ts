@@ -11,6 +11,8 @@ import type {
   ActionStatus,
   RiskParameters,
 } from '../types/strategy.types';
+import type { ActivityMode } from './activityStore';
+import { preTradeCheckEngine, getBlockingChecks, orderFromAction } from '../services/preTradeChecks';
 
 // =============================================================================
 // Store State
@@ -164,13 +166,34 @@ class StrategyStore {
     }
   }
 
-  approveAction(id: string): ProposedAction | null {
+  /**
+   * Re-runs pre-trade checks against the current portfolio and quotes before
+   * approving. If a critical check fails the action stays pending with the
+   * fresh results attached, and null is returned.
+   */
+  async approveAction(id: string, mode: ActivityMode, confirmed: boolean): Promise<ProposedAction | null> {
     const action = this.state.proposedActions.find(a => a.id === id);
-    if (action && action.status === 'pending') {
-      this.updateActionStatus(id, 'approved', { approvedAt: new Date().toISOString() });
-      return this.state.proposedActions.find(a => a.id === id) || null;
+    if (!action || action.status !== 'pending') return null;
+
+    const strategy = this.getStrategyById(action.strategyId);
+    const checks = await preTradeCheckEngine.run(
+      orderFromAction(action, mode, confirmed, strategy?.riskParams)
+    );
+    const blocking = getBlockingChecks(checks);
+    if (blocking.length > 0) {
+      this.updateActionStatus(id, 'pending', {
+        preTradeChecks: checks,
+        error: `Blocked by pre-trade checks: ${blocking.map(c => c.name).join(', ')}`,
+      });
+      return null;
     }
-    return null;
+
+    this.updateActionStatus(id, 'approved', {
+      preTradeChecks: checks,
+      approvedAt: new Date().toISOString(),
+      error: undefined,
+    });
+    return this.state.proposedActions.find(a => a.id === id) || null;
   }
 
   rejectAction(id: string, reason?: string): void {
@@ -180,10 +203,11 @@ class StrategyStore {
     });
   }
 
-  markActionExecuted(id: string, orderId: string): void {
+  markActionExecuted(id: string, orderId: string, positionId?: number): void {
     this.updateActionStatus(id, 'executed', {
       executedAt: new Date().toISOString(),
       orderId,
+      positionId,
     });
   }
 
@@ -191,6 +215,14 @@ class StrategyStore {
     this.updateActionStatus(id, 'failed', { error });
   }
 
+  /**
+   * The order was sent but its outcome is unknown. The action stays approved,
+   * so it can't be approved again, and the order is verified in the blotter.
+   */
+  markActionUnverified(id: string, error: string): void {
+    this.updateActionStatus(id, 'approved', { error });
+  }
+
   clearProposedActions(): void {
     this.state.proposedActions = [];
     this.notify();
@@ -236,7 +236,7 @@ export interface FDBaseParams {
 }
 
 export interface FDPriceParams extends FDBaseParams {
-  interval: 'day' | 'week' | 'month' | 'year';
+  interval: 'minute' | 'day' | 'week' | 'month' | 'year';
   interval_multiplier: number;
   start_date: string;
   end_date: string;
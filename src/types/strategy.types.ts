@@ -158,6 +158,7 @@ export interface ProposedAction {
   rejectedAt?: string;
   rejectionReason?: string;
   orderId?: string;
+  positionId?: number;    // Position opened by an executed 'open' action
   error?: string;
 }
 
@@ -210,6 +211,17 @@ export interface AIStreamChunk {
 // Backtest Types
 // =============================================================================
 
+export interface PriceBar {
+  time: string;      // ISO timestamp of the bar open
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type BacktestDataSource = 'api' | 'csv';
+
 export interface BacktestConfig {
   strategyId: string;
   symbol: string;
@@ -2,6 +2,9 @@
  * Accessibility utilities for focus management and keyboard navigation
  */
 
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { DEFAULT_SHORTCUTS } from '../config/shortcuts';
+
 /**
  * Focus trap - keeps focus within a container (for modals/dialogs)
  */
@@ -295,6 +298,13 @@ export const ariaHelpers = {
     };
   },
 
+  /**
+   * aria-keyshortcuts value for keys like 'Ctrl+B'; undefined when unbound
+   */
+  keyShortcuts(keys: string): string | undefined {
+    return keys ? keys.replace(/\bCtrl\b/, 'Control') : undefined;
+  },
+
   /**
    * Get alert dialog aria attributes
    */
@@ -308,55 +318,324 @@ export const ariaHelpers = {
   },
 };
 
+// =============================================================================
+// Keyboard Shortcuts
+// =============================================================================
+
+/**
+ * Where a shortcut applies: everywhere, while focus is in a panel of the
+ * given type, or while a modal dialog is open
+ */
+export type ShortcutScope = 'global' | 'dialog' | `panel:${string}`;
+
+export interface ShortcutDefinition {
+  id: string;
+  description: string;
+  /** Key combination such as 'Ctrl+K', '/' or 'Escape'; empty for none */
+  defaultKeys: string;
+  scope: ShortcutScope;
+}
+
+export interface Shortcut extends ShortcutDefinition {
+  /** Keys in effect, after the user's keymap */
+  keys: string;
+}
+
+/** Keys by shortcut ID, for shortcuts the user has rebound */
+export type Keymap = Record<string, string>;
+
+type ShortcutHandler = (e: KeyboardEvent) => void;
+
+interface ShortcutBinding {
+  handler: ShortcutHandler;
+  /** Element the handler belongs to; the one containing focus wins */
+  getElement?: () => HTMLElement | null;
+}
+
+const KEYMAP_STORAGE_KEY = 'etoro-terminal-keymap';
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+const MODIFIER_ALIASES: Record<string, string> = {
+  ctrl: 'Ctrl', control: 'Ctrl', cmd: 'Ctrl', meta: 'Ctrl',
+  alt: 'Alt', option: 'Alt',
+  shift: 'Shift',
+};
+
+/**
+ * Canonical form of a key combination: modifiers in Ctrl, Alt, Shift order
+ * and single characters upper-cased, so 'shift+ctrl+k' becomes 'Ctrl+Shift+K'
+ */
+export function normalizeKeys(keys: string): string {
+  const parts = keys.trim().split('+');
+  let key = parts.pop() ?? '';
+  if (key === '' && parts.length > 0) {
+    // The '+' key itself, e.g. 'Ctrl++'
+    parts.pop();
+    key = '+';
+  }
+  if (!key) return '';
+
+  const modifiers = new Set(parts.map((part) => MODIFIER_ALIASES[part.trim().toLowerCase()]).filter(Boolean));
+  const name = key.length === 1 ? key.toUpperCase() : key.toLowerCase() === 'esc' ? 'Escape' : key[0].toUpperCase() + key.slice(1);
+  return [...['Ctrl', 'Alt', 'Shift'].filter((m) => modifiers.has(m)), name].join('+');
+}
+
+/** The key combination of a keydown, or null while only modifiers are held */
+export function keysFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  const key = e.key === ' ' ? 'Space' : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  // Shifted symbols such as '?' already carry the Shift
+  if (e.shiftKey && (key.length > 1 || /[a-z]/i.test(key))) parts.push('Shift');
+  parts.push(key.length === 1 ? key.toUpperCase() : key);
+  return parts.join('+');
+}
+
+/** Whether the same keys in both scopes could fire in the same place */
+function scopesOverlap(a: ShortcutScope, b: ShortcutScope): boolean {
+  if (a === b) return true;
+  if (a === 'dialog' || b === 'dialog') return false;
+  return a === 'global' || b === 'global';
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
 /**
- * Global keyboard shortcuts registry
+ * Keyboard shortcuts registry. Shortcuts are defined once with default keys
+ * and a scope; components attach handlers by ID and users can rebind keys.
+ * The keymap of rebound shortcuts is kept in localStorage.
  */
 class ShortcutsRegistry {
-  private shortcuts: Map<string, { description: string; handler: () => void }> = new Map();
+  private definitions: Map<string, ShortcutDefinition> = new Map();
+  private bindings: Map<string, ShortcutBinding[]> = new Map();
+  private keymap: Keymap = {};
+  private listeners: Set<() => void> = new Set();
   private enabled: boolean = true;
 
-  private normalizeKey(e: KeyboardEvent): string {
-    const parts: string[] = [];
-    if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
-    if (e.altKey) parts.push('Alt');
-    if (e.shiftKey) parts.push('Shift');
-    parts.push(e.key.toUpperCase());
-    return parts.join('+');
+  constructor(definitions: ShortcutDefinition[]) {
+    this.define(definitions);
+    this.keymap = this.sanitizeKeymap(this.loadKeymap());
   }
 
-  register(key: string, description: string, handler: () => void): () => void {
-    const normalizedKey = key.toUpperCase();
-    this.shortcuts.set(normalizedKey, { description, handler });
-    return () => this.shortcuts.delete(normalizedKey);
+  define(definitions: ShortcutDefinition | ShortcutDefinition[]): void {
+    for (const definition of Array.isArray(definitions) ? definitions : [definitions]) {
+      this.definitions.set(definition.id, { ...definition, defaultKeys: normalizeKeys(definition.defaultKeys) });
+    }
+    this.notify();
   }
 
-  handleKeyDown(e: KeyboardEvent): boolean {
-    if (!this.enabled) return false;
+  /** Attach a handler to a shortcut; returns a function that detaches it */
+  bind(id: string, handler: ShortcutHandler, getElement?: () => HTMLElement | null): () => void {
+    if (!this.definitions.has(id)) {
+      console.warn(`[Shortcuts] ${id} is not a defined shortcut`);
+    }
 
-    const key = this.normalizeKey(e);
-    const shortcut = this.shortcuts.get(key);
+    const binding: ShortcutBinding = { handler, getElement };
+    this.bindings.set(id, [...(this.bindings.get(id) ?? []), binding]);
+    return () => {
+      this.bindings.set(id, (this.bindings.get(id) ?? []).filter((b) => b !== binding));
+    };
+  }
 
-    if (shortcut) {
-      e.preventDefault();
-      shortcut.handler();
-      return true;
-    }
-    return false;
+  getKeys(id: string): string {
+    return this.keymap[id] ?? this.definitions.get(id)?.defaultKeys ?? '';
   }
 
-  getAll(): Array<{ key: string; description: string }> {
-    return Array.from(this.shortcuts.entries()).map(([key, { description }]) => ({
-      key,
-      description,
+  getAll(): Shortcut[] {
+    return Array.from(this.definitions.values()).map((definition) => ({
+      ...definition,
+      keys: this.getKeys(definition.id),
     }));
   }
 
+  isCustomized(id: string): boolean {
+    return id in this.keymap;
+  }
+
+  /** The shortcut that would clash with `id` if it were given `keys` */
+  findConflict(id: string, keys: string): Shortcut | null {
+    const definition = this.definitions.get(id);
+    const normalized = normalizeKeys(keys);
+    if (!definition || !normalized) return null;
+
+    return this.getAll().find((shortcut) =>
+      shortcut.id !== id && shortcut.keys === normalized && scopesOverlap(shortcut.scope, definition.scope)
+    ) ?? null;
+  }
+
+  /**
+   * Rebind a shortcut; empty keys leave it unbound. Throws if the keys are
+   * taken in an overlapping scope, unless `replace` unbinds the other one.
+   */
+  setKeys(id: string, keys: string, options: { replace?: boolean } = {}): void {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown shortcut ${id}`);
+    }
+
+    const normalized = normalizeKeys(keys);
+    const conflict = this.findConflict(id, normalized);
+    if (conflict) {
+      if (!options.replace) {
+        throw new Error(`${normalized} is already used for "${conflict.description}"`);
+      }
+      this.assign(conflict.id, '');
+    }
+
+    this.assign(id, normalized);
+    this.saveKeymap();
+  }
+
+  /** Back to the default keys, with the same conflict rules as setKeys */
+  reset(id: string, options: { replace?: boolean } = {}): void {
+    this.setKeys(id, this.definitions.get(id)?.defaultKeys ?? '', options);
+  }
+
+  resetAll(): void {
+    this.keymap = {};
+    this.saveKeymap();
+  }
+
+  getKeymap(): Keymap {
+    return { ...this.keymap };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Run the shortcut for a keydown. While a modal dialog is open only dialog
+   * shortcuts apply; otherwise the focused panel's shortcuts come before
+   * global ones. Plain characters typed into inputs are left alone.
+   */
+  handleKeyDown(e: KeyboardEvent): boolean {
+    if (!this.enabled || e.defaultPrevented) return false;
+
+    const keys = keysFromEvent(e);
+    if (!keys) return false;
+    if (isEditable(e.target) && e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) return false;
+
+    for (const scope of this.activeScopes()) {
+      for (const definition of this.definitions.values()) {
+        if (definition.scope !== scope || this.getKeys(definition.id) !== keys) continue;
+
+        const binding = this.findBinding(definition.id);
+        if (binding) {
+          e.preventDefault();
+          binding.handler(e);
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
   }
+
+  private activeScopes(): ShortcutScope[] {
+    if (document.querySelector('[aria-modal="true"]')) {
+      return ['dialog'];
+    }
+    const panel = document.activeElement?.closest<HTMLElement>('[data-panel-type]');
+    return panel ? [`panel:${panel.dataset.panelType}`, 'global'] : ['global'];
+  }
+
+  private findBinding(id: string): ShortcutBinding | undefined {
+    const bindings = this.bindings.get(id) ?? [];
+    const focused = document.activeElement;
+    return bindings.find((b) => focused && b.getElement?.()?.contains(focused))
+      ?? bindings[bindings.length - 1];
+  }
+
+  private assign(id: string, keys: string): void {
+    if (keys === this.definitions.get(id)?.defaultKeys) {
+      delete this.keymap[id];
+    } else {
+      this.keymap[id] = keys;
+    }
+  }
+
+  /** Known shortcuts with string keys; anything else is dropped */
+  private sanitizeKeymap(keymap: unknown): Keymap {
+    const result: Keymap = {};
+    if (!keymap || typeof keymap !== 'object') return result;
+
+    for (const [id, keys] of Object.entries(keymap as Record<string, unknown>)) {
+      const definition = this.definitions.get(id);
+      if (definition && typeof keys === 'string' && normalizeKeys(keys) !== definition.defaultKeys) {
+        result[id] = normalizeKeys(keys);
+      }
+    }
+    return result;
+  }
+
+  private loadKeymap(): unknown {
+    try {
+      return JSON.parse(localStorage.getItem(KEYMAP_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveKeymap(): void {
+    try {
+      localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(this.keymap));
+    } catch (error) {
+      console.warn('Failed to save keymap:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
 }
 
-export const shortcutsRegistry = new ShortcutsRegistry();
+export const shortcutsRegistry = new ShortcutsRegistry(DEFAULT_SHORTCUTS);
+
+/**
+ * Run `handler` when the shortcut's keys are pressed in its scope. With a
+ * `ref`, the instance containing focus wins over other mounted instances.
+ */
+export function useShortcut(
+  id: string,
+  handler: ShortcutHandler,
+  options: { enabled?: boolean; ref?: RefObject<HTMLElement | null> } = {}
+): void {
+  const { enabled = true, ref } = options;
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return shortcutsRegistry.bind(id, (e) => handlerRef.current(e), ref ? () => ref.current : undefined);
+  }, [id, enabled, ref]);
+}
+
+/** All shortcuts with their current keys, updated when they are rebound */
+export function useShortcuts(): Shortcut[] {
+  const [shortcuts, setShortcuts] = useState(() => shortcutsRegistry.getAll());
+
+  useEffect(() => {
+    return shortcutsRegistry.subscribe(() => setShortcuts(shortcutsRegistry.getAll()));
+  }, []);
+
+  return shortcuts;
+}
+
+/** Current keys of one shortcut, for hints and labels */
+export function useShortcutKeys(id: string): string {
+  return useShortcuts().find((shortcut) => shortcut.id === id)?.keys ?? '';
+}
 
 /**
  * Skip link helper for keyboard users
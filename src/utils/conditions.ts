@@ -0,0 +1,66 @@
+/**
+ * Strategy condition helpers shared by the backtester and the live runner
+ */
+
+import type { Condition, IndicatorType, IndicatorParams } from '../types/strategy.types';
+import type { IndicatorValue } from './indicators';
+
+export interface OperandValues {
+  left: IndicatorValue;
+  right: IndicatorValue;
+}
+
+export interface ConditionOperand {
+  indicator: IndicatorType;
+  params?: IndicatorParams;
+}
+
+/** Indicators a condition reads; a numeric comparison value has no operand */
+export function conditionOperands(condition: Condition): [ConditionOperand, ConditionOperand | null] {
+  const left = { indicator: condition.indicator, params: condition.params };
+  const right = typeof condition.value === 'number'
+    ? null
+    : { indicator: condition.value, params: condition.valueParams ?? condition.params };
+  return [left, right];
+}
+
+/**
+ * Compare operand values for one bar. Crossing operators also need the
+ * previous bar's values and are false until both are defined.
+ */
+export function compareCondition(
+  operator: Condition['operator'],
+  current: OperandValues,
+  previous?: OperandValues
+): boolean {
+  const { left, right } = current;
+  if (left === null || right === null) return false;
+
+  switch (operator) {
+    case '>': return left > right;
+    case '<': return left < right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+    case '==': return Math.abs(left - right) < 1e-9;
+    case 'crosses_above':
+    case 'crosses_below': {
+      if (!previous || previous.left === null || previous.right === null) return false;
+      return operator === 'crosses_above'
+        ? previous.left <= previous.right && left > right
+        : previous.left >= previous.right && left < right;
+    }
+    default:
+      return false;
+  }
+}
+
+export function describeCondition(condition: Condition): string {
+  const fmt = (indicator: string, params?: IndicatorParams) => {
+    const args = params ? Object.values(params).filter(v => v !== undefined).join(',') : '';
+    return args ? `${indicator}(${args})` : indicator;
+  };
+  const right = typeof condition.value === 'number'
+    ? String(condition.value)
+    : fmt(condition.value, condition.valueParams);
+  return `${fmt(condition.indicator, condition.params)} ${condition.operator} ${right}`;
+}
@@ -0,0 +1,381 @@
+/**
+ * Technical indicator library
+ *
+ * Every IndicatorType used by strategies is implemented as a pure state
+ * machine: `step(state, bar)` returns the next state and value without
+ * mutating anything. That gives us three ways to use the same math:
+ *
+ * - push(bar)   commit a closed bar (streaming)
+ * - peek(bar)   value if `bar` were the next bar - for a still-forming bar
+ *               that is updated tick-by-tick
+ * - computeIndicator(type, params, bars)   batch over a whole series
+ */
+
+import type { IndicatorType, IndicatorParams } from '../types/strategy.types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface IndicatorBar {
+  time?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type IndicatorValue = number | null;
+
+export interface Indicator {
+  readonly type: IndicatorType;
+  readonly params: IndicatorParams;
+  /** Latest committed value, null until the warm-up period has passed */
+  readonly value: IndicatorValue;
+  push(bar: IndicatorBar): IndicatorValue;
+  peek(bar: IndicatorBar): IndicatorValue;
+  reset(): void;
+}
+
+export const DEFAULT_INDICATOR_PARAMS: Partial<Record<IndicatorType, IndicatorParams>> = {
+  SMA: { period: 20 },
+  EMA: { period: 20 },
+  RSI: { period: 14 },
+  MACD: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  MACD_SIGNAL: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  MACD_HISTOGRAM: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  BB_UPPER: { period: 20, stdDev: 2 },
+  BB_MIDDLE: { period: 20, stdDev: 2 },
+  BB_LOWER: { period: 20, stdDev: 2 },
+  ATR: { period: 14 },
+};
+
+type Step<S> = (state: S, bar: IndicatorBar) => [S, IndicatorValue];
+
+interface Definition<S> {
+  init: () => S;
+  step: Step<S>;
+}
+
+// =============================================================================
+// Building Blocks
+// =============================================================================
+
+interface WindowState {
+  values: number[];
+  sum: number;
+}
+
+function windowPush(state: WindowState, value: number, period: number): WindowState {
+  const values = state.values.length >= period ? state.values.slice(1) : state.values.slice();
+  const dropped = state.values.length >= period ? state.values[0] : 0;
+  values.push(value);
+  return { values, sum: state.sum - dropped + value };
+}
+
+interface EmaState {
+  count: number;
+  seed: number;
+  value: IndicatorValue;
+}
+
+const EMA_INIT: EmaState = { count: 0, seed: 0, value: null };
+
+// EMA seeded with the SMA of the first `period` values
+function emaStep(state: EmaState, input: number, period: number): EmaState {
+  if (state.value === null) {
+    const count = state.count + 1;
+    const seed = state.seed + input;
+    return { count, seed, value: count === period ? seed / period : null };
+  }
+  const k = 2 / (period + 1);
+  return { count: state.count + 1, seed: state.seed, value: input * k + state.value * (1 - k) };
+}
+
+interface WilderState {
+  count: number;
+  value: number;
+}
+
+// Wilder smoothing (RSI, ATR): simple average for the first `period` inputs
+function wilderStep(state: WilderState, input: number, period: number): WilderState {
+  const count = state.count + 1;
+  const value = count <= period
+    ? state.value + input / period
+    : (state.value * (period - 1) + input) / period;
+  return { count, value };
+}
+
+function typicalPrice(bar: IndicatorBar): number {
+  return (bar.high + bar.low + bar.close) / 3;
+}
+
+// =============================================================================
+// Indicator Definitions
+// =============================================================================
+
+function fieldDefinition(pick: (bar: IndicatorBar) => number): Definition<null> {
+  return { init: () => null, step: (state, bar) => [state, pick(bar)] };
+}
+
+function smaDefinition(period: number): Definition<WindowState> {
+  return {
+    init: () => ({ values: [], sum: 0 }),
+    step: (state, bar) => {
+      const next = windowPush(state, bar.close, period);
+      return [next, next.values.length === period ? next.sum / period : null];
+    },
+  };
+}
+
+function emaDefinition(period: number): Definition<EmaState> {
+  return {
+    init: () => EMA_INIT,
+    step: (state, bar) => {
+      const next = emaStep(state, bar.close, period);
+      return [next, next.value];
+    },
+  };
+}
+
+interface RsiState {
+  prevClose: number | null;
+  gain: WilderState;
+  loss: WilderState;
+}
+
+function rsiDefinition(period: number): Definition<RsiState> {
+  return {
+    init: () => ({ prevClose: null, gain: { count: 0, value: 0 }, loss: { count: 0, value: 0 } }),
+    step: (state, bar) => {
+      if (state.prevClose === null) {
+        return [{ ...state, prevClose: bar.close }, null];
+      }
+      const change = bar.close - state.prevClose;
+      const gain = wilderStep(state.gain, Math.max(change, 0), period);
+      const loss = wilderStep(state.loss, Math.max(-change, 0), period);
+      const next = { prevClose: bar.close, gain, loss };
+      if (gain.count < period) return [next, null];
+      return [next, loss.value === 0 ? 100 : 100 - 100 / (1 + gain.value / loss.value)];
+    },
+  };
+}
+
+interface MacdState {
+  fast: EmaState;
+  slow: EmaState;
+  signal: EmaState;
+}
+
+function macdDefinition(
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number,
+  output: 'macd' | 'signal' | 'histogram'
+): Definition<MacdState> {
+  return {
+    init: () => ({ fast: EMA_INIT, slow: EMA_INIT, signal: EMA_INIT }),
+    step: (state, bar) => {
+      const fast = emaStep(state.fast, bar.close, fastPeriod);
+      const slow = emaStep(state.slow, bar.close, slowPeriod);
+      if (fast.value === null || slow.value === null) {
+        return [{ fast, slow, signal: state.signal }, null];
+      }
+      const line = fast.value - slow.value;
+      const signal = emaStep(state.signal, line, signalPeriod);
+      const next = { fast, slow, signal };
+      if (output === 'macd') return [next, line];
+      if (signal.value === null) return [next, null];
+      return [next, output === 'signal' ? signal.value : line - signal.value];
+    },
+  };
+}
+
+function bollingerDefinition(
+  period: number,
+  stdDev: number,
+  output: 'upper' | 'middle' | 'lower'
+): Definition<WindowState> {
+  return {
+    init: () => ({ values: [], sum: 0 }),
+    step: (state, bar) => {
+      const next = windowPush(state, bar.close, period);
+      if (next.values.length < period) return [next, null];
+      const mean = next.sum / period;
+      const variance = next.values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period;
+      const band = stdDev * Math.sqrt(variance);
+      const value = output === 'upper' ? mean + band : output === 'lower' ? mean - band : mean;
+      return [next, value];
+    },
+  };
+}
+
+interface AtrState {
+  prevClose: number | null;
+  tr: WilderState;
+}
+
+function atrDefinition(period: number): Definition<AtrState> {
+  return {
+    init: () => ({ prevClose: null, tr: { count: 0, value: 0 } }),
+    step: (state, bar) => {
+      if (state.prevClose === null) {
+        return [{ ...state, prevClose: bar.close }, null];
+      }
+      const trueRange = Math.max(
+        bar.high - bar.low,
+        Math.abs(bar.high - state.prevClose),
+        Math.abs(bar.low - state.prevClose)
+      );
+      const tr = wilderStep(state.tr, trueRange, period);
+      return [{ prevClose: bar.close, tr }, tr.count >= period ? tr.value : null];
+    },
+  };
+}
+
+interface VwapState {
+  pv: WindowState;
+  volume: WindowState;
+}
+
+// Cumulative VWAP, or rolling over `period` bars when a period is given
+function vwapDefinition(period?: number): Definition<VwapState> {
+  return {
+    init: () => ({ pv: { values: [], sum: 0 }, volume: { values: [], sum: 0 } }),
+    step: (state, bar) => {
+      const price = typicalPrice(bar);
+      const next = period
+        ? { pv: windowPush(state.pv, price * bar.volume, period), volume: windowPush(state.volume, bar.volume, period) }
+        : {
+            pv: { values: state.pv.values, sum: state.pv.sum + price * bar.volume },
+            volume: { values: state.volume.values, sum: state.volume.sum + bar.volume },
+          };
+      return [next, next.volume.sum > 0 ? next.pv.sum / next.volume.sum : price];
+    },
+  };
+}
+
+// Definitions carry different state shapes, so each is wrapped while its
+// state type is still known
+function buildIndicator(type: IndicatorType, params: IndicatorParams): Indicator {
+  function make<S>(definition: Definition<S>): Indicator {
+    return new StreamingIndicator(type, params, definition);
+  }
+
+  const period = params.period ?? 20;
+  const fast = params.fastPeriod ?? 12;
+  const slow = params.slowPeriod ?? 26;
+  const signal = params.signalPeriod ?? 9;
+  const stdDev = params.stdDev ?? 2;
+
+  switch (type) {
+    case 'price':
+    case 'close': return make(fieldDefinition(b => b.close));
+    case 'open': return make(fieldDefinition(b => b.open));
+    case 'high': return make(fieldDefinition(b => b.high));
+    case 'low': return make(fieldDefinition(b => b.low));
+    case 'VOLUME': return make(fieldDefinition(b => b.volume));
+    case 'SMA': return make(smaDefinition(period));
+    case 'EMA': return make(emaDefinition(period));
+    case 'RSI': return make(rsiDefinition(params.period ?? 14));
+    case 'MACD': return make(macdDefinition(fast, slow, signal, 'macd'));
+    case 'MACD_SIGNAL': return make(macdDefinition(fast, slow, signal, 'signal'));
+    case 'MACD_HISTOGRAM': return make(macdDefinition(fast, slow, signal, 'histogram'));
+    case 'BB_UPPER': return make(bollingerDefinition(period, stdDev, 'upper'));
+    case 'BB_MIDDLE': return make(bollingerDefinition(period, stdDev, 'middle'));
+    case 'BB_LOWER': return make(bollingerDefinition(period, stdDev, 'lower'));
+    case 'ATR': return make(atrDefinition(params.period ?? 14));
+    case 'VWAP': return make(vwapDefinition(params.period));
+    default:
+      throw new Error(`Unsupported indicator: ${type}`);
+  }
+}
+
+// =============================================================================
+// Streaming Indicator
+// =============================================================================
+
+class StreamingIndicator<S> implements Indicator {
+  private state: S;
+  private current: IndicatorValue = null;
+
+  constructor(
+    readonly type: IndicatorType,
+    readonly params: IndicatorParams,
+    private readonly definition: Definition<S>
+  ) {
+    this.state = definition.init();
+  }
+
+  get value(): IndicatorValue {
+    return this.current;
+  }
+
+  push(bar: IndicatorBar): IndicatorValue {
+    [this.state, this.current] = this.definition.step(this.state, bar);
+    return this.current;
+  }
+
+  peek(bar: IndicatorBar): IndicatorValue {
+    return this.definition.step(this.state, bar)[1];
+  }
+
+  reset(): void {
+    this.state = this.definition.init();
+    this.current = null;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+export function resolveIndicatorParams(type: IndicatorType, params?: IndicatorParams): IndicatorParams {
+  return { ...DEFAULT_INDICATOR_PARAMS[type], ...params };
+}
+
+/** Stable cache key for an indicator + params pair */
+export function indicatorKey(type: IndicatorType, params?: IndicatorParams): string {
+  const resolved = resolveIndicatorParams(type, params);
+  const args = Object.keys(resolved)
+    .sort()
+    .filter(k => resolved[k] !== undefined)
+    .map(k => `${k}=${resolved[k]}`)
+    .join(',');
+  return `${type}(${args})`;
+}
+
+export function createIndicator(type: IndicatorType, params?: IndicatorParams): Indicator {
+  const resolved = resolveIndicatorParams(type, params);
+  return buildIndicator(type, resolved);
+}
+
+/** Batch calculation - one value per bar, null during warm-up */
+export function computeIndicator(type: IndicatorType, params: IndicatorParams | undefined, bars: IndicatorBar[]): IndicatorValue[] {
+  const indicator = createIndicator(type, params);
+  return bars.map(bar => indicator.push(bar));
+}
+
+/** Number of bars needed before the indicator produces a value */
+export function warmupPeriod(type: IndicatorType, params?: IndicatorParams): number {
+  const p = resolveIndicatorParams(type, params);
+  switch (type) {
+    case 'SMA':
+    case 'EMA':
+    case 'BB_UPPER':
+    case 'BB_MIDDLE':
+    case 'BB_LOWER':
+      return p.period ?? 20;
+    case 'RSI':
+    case 'ATR':
+      return (p.period ?? 14) + 1;
+    case 'MACD':
+      return Math.max(p.fastPeriod ?? 12, p.slowPeriod ?? 26);
+    case 'MACD_SIGNAL':
+    case 'MACD_HISTOGRAM':
+      return Math.max(p.fastPeriod ?? 12, p.slowPeriod ?? 26) + (p.signalPeriod ?? 9) - 1;
+    default:
+      return 1;
+  }
+}